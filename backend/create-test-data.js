@@ -92,6 +92,7 @@ async function createTestData() {
     // Create candidates
     const candidate1 = await prisma.candidate.create({
       data: {
+        companyId: company.id,
         firstName: 'John',
         lastName: 'Doe',
         email: 'john.doe@example.com',
@@ -101,6 +102,7 @@ async function createTestData() {
 
     const candidate2 = await prisma.candidate.create({
       data: {
+        companyId: company.id,
         firstName: 'Jane',
         lastName: 'Smith',
         email: 'jane.smith@example.com',
@@ -1,4 +1,5 @@
 module.exports = {
     preset: 'ts-jest',
     testEnvironment: 'node',
-  };
\ No newline at end of file
+    setupFilesAfterEnv: ['<rootDir>/tests/setup.ts'],
+  };
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "PositionStatusHistory" (
+    "id" SERIAL NOT NULL,
+    "positionId" INTEGER NOT NULL,
+    "fromStatus" TEXT NOT NULL,
+    "toStatus" TEXT NOT NULL,
+    "changedById" INTEGER,
+    "reason" TEXT,
+    "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PositionStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "PositionStatusHistory" ADD CONSTRAINT "PositionStatusHistory_positionId_fkey" FOREIGN KEY ("positionId") REFERENCES "Position"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PositionStatusHistory" ADD CONSTRAINT "PositionStatusHistory_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "Employee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
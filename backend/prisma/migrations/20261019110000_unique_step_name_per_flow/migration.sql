@@ -0,0 +1,8 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[interviewFlowId,name]` on the table `InterviewStep` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- CreateIndex
+CREATE UNIQUE INDEX "InterviewStep_interviewFlowId_name_key" ON "InterviewStep"("interviewFlowId", "name");
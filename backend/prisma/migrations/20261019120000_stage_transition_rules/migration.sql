@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "InterviewFlow" ADD COLUMN     "maxStepsForward" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "rejectionStepName" TEXT DEFAULT 'Rejected',
+ADD COLUMN     "requireScoredInterview" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "Application" ADD COLUMN     "rejectionReason" TEXT;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Interview" ADD COLUMN     "cancellationReason" TEXT,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'Scheduled';
+
+-- Interviews recorded before scheduling existed already have their outcome
+UPDATE "Interview" SET "status" = 'Completed' WHERE "score" IS NOT NULL OR "result" IS NOT NULL;
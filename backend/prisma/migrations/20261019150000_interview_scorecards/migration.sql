@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "InterviewType" ADD COLUMN     "ratingScaleMax" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN     "ratingScaleMin" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Interview" ADD COLUMN     "recommendation" TEXT,
+ADD COLUMN     "weightedScore" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "ScorecardCompetency" (
+    "id" SERIAL NOT NULL,
+    "interviewTypeId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "orderIndex" INTEGER NOT NULL,
+
+    CONSTRAINT "ScorecardCompetency_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InterviewRating" (
+    "id" SERIAL NOT NULL,
+    "interviewId" INTEGER NOT NULL,
+    "competencyId" INTEGER,
+    "competencyName" TEXT NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "scaleMin" INTEGER NOT NULL,
+    "scaleMax" INTEGER NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "comment" TEXT,
+
+    CONSTRAINT "InterviewRating_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScorecardCompetency_interviewTypeId_name_key" ON "ScorecardCompetency"("interviewTypeId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InterviewRating_interviewId_competencyId_key" ON "InterviewRating"("interviewId", "competencyId");
+
+-- AddForeignKey
+ALTER TABLE "ScorecardCompetency" ADD CONSTRAINT "ScorecardCompetency_interviewTypeId_fkey" FOREIGN KEY ("interviewTypeId") REFERENCES "InterviewType"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterviewRating" ADD CONSTRAINT "InterviewRating_interviewId_fkey" FOREIGN KEY ("interviewId") REFERENCES "Interview"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterviewRating" ADD CONSTRAINT "InterviewRating_competencyId_fkey" FOREIGN KEY ("competencyId") REFERENCES "ScorecardCompetency"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "Resume" ADD COLUMN     "textContent" TEXT;
+
+-- CreateTable
+CREATE TABLE "CandidateSearchDocument" (
+    "candidateId" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "searchVector" tsvector NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CandidateSearchDocument_pkey" PRIMARY KEY ("candidateId")
+);
+
+-- CreateIndex
+CREATE INDEX "CandidateSearchDocument_searchVector_idx" ON "CandidateSearchDocument" USING GIN ("searchVector");
+
+-- AddForeignKey
+ALTER TABLE "CandidateSearchDocument" ADD CONSTRAINT "CandidateSearchDocument_candidateId_fkey" FOREIGN KEY ("candidateId") REFERENCES "Candidate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill documents of existing candidates; resumes uploaded so far have no extracted text
+INSERT INTO "CandidateSearchDocument" ("candidateId", "content", "searchVector")
+SELECT
+    c."id",
+    concat_ws(E'\n', c."firstName" || ' ' || c."lastName", c."email", e."titles", w."titles", w."descriptions", c."address"),
+    setweight(to_tsvector('simple', concat_ws(' ', c."firstName", c."lastName", c."email")), 'A') ||
+    setweight(to_tsvector('simple', concat_ws(' ', e."titles", w."titles")), 'B') ||
+    setweight(to_tsvector('simple', concat_ws(' ', w."descriptions", c."address")), 'C')
+FROM "Candidate" c
+LEFT JOIN (
+    SELECT "candidateId", string_agg("title" || ', ' || "institution", E'\n' ORDER BY "id") AS "titles"
+    FROM "Education"
+    GROUP BY "candidateId"
+) e ON e."candidateId" = c."id"
+LEFT JOIN (
+    SELECT
+        "candidateId",
+        string_agg("position" || ', ' || "company", E'\n' ORDER BY "id") AS "titles",
+        string_agg("description", E'\n' ORDER BY "id") AS "descriptions"
+    FROM "WorkExperience"
+    GROUP BY "candidateId"
+) w ON w."candidateId" = c."id";
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Resume" ADD COLUMN     "fileSize" INTEGER,
+ADD COLUMN     "isCurrent" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "originalName" VARCHAR(255),
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- Number existing resumes per candidate by upload order; the latest one is current
+WITH numbered AS (
+    SELECT "id",
+           ROW_NUMBER() OVER (PARTITION BY "candidateId" ORDER BY "uploadDate" ASC, "id" ASC) AS "version",
+           COUNT(*) OVER (PARTITION BY "candidateId") AS "total"
+    FROM "Resume"
+)
+UPDATE "Resume" r
+SET "version" = numbered."version", "isCurrent" = (numbered."version" = numbered."total")
+FROM numbered
+WHERE r."id" = numbered."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Resume_candidateId_version_key" ON "Resume"("candidateId", "version");
+
+-- At most one current resume per candidate
+CREATE UNIQUE INDEX "Resume_candidateId_current_key" ON "Resume"("candidateId") WHERE "isCurrent";
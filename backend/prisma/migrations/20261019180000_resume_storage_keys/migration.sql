@@ -0,0 +1,5 @@
+-- Resume files are now addressed by storage key, relative to the storage root. Files uploaded before
+-- were saved by multer under "../uploads/", the default root of the local driver.
+UPDATE "Resume"
+SET "filePath" = substring("filePath" FROM char_length('../uploads/') + 1)
+WHERE "filePath" LIKE '../uploads/%';
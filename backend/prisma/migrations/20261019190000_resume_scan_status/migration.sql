@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Resume" ADD COLUMN     "scanDetail" TEXT,
+ADD COLUMN     "scanStatus" TEXT NOT NULL DEFAULT 'Unscanned',
+ADD COLUMN     "scannedAt" TIMESTAMP(3);
@@ -0,0 +1,11 @@
+-- Map existing free-form roles onto the defined ones; anything unrecognized gets the least privileged role
+UPDATE "Employee"
+SET "role" = CASE lower(trim("role"))
+    WHEN 'admin' THEN 'Admin'
+    WHEN 'recruiter' THEN 'Recruiter'
+    WHEN 'hiring manager' THEN 'Hiring Manager'
+    ELSE 'Interviewer'
+END;
+
+-- AddCheckConstraint
+ALTER TABLE "Employee" ADD CONSTRAINT "Employee_role_check" CHECK ("role" IN ('Admin', 'Recruiter', 'Hiring Manager', 'Interviewer'));
@@ -0,0 +1,78 @@
+-- AlterTable
+ALTER TABLE "Candidate" ADD COLUMN "companyId" INTEGER;
+
+-- Candidates belong to the company of their first application, or else to the oldest company
+UPDATE "Candidate" c
+SET "companyId" = (
+    SELECT p."companyId"
+    FROM "Application" a
+    JOIN "Position" p ON p."id" = a."positionId"
+    WHERE a."candidateId" = c."id"
+    ORDER BY a."applicationDate" ASC, a."id" ASC
+    LIMIT 1
+);
+UPDATE "Candidate" SET "companyId" = (SELECT MIN("id") FROM "Company") WHERE "companyId" IS NULL;
+
+ALTER TABLE "Candidate" ALTER COLUMN "companyId" SET NOT NULL;
+
+-- Emails are unique within a company
+DROP INDEX "Candidate_email_key";
+
+-- A candidate who also applied to positions of other companies is copied into each of them, with
+-- their educations, work experiences, resumes and search document, and the applications to that
+-- company's positions, with their interviews and history, move to the copy
+CREATE TEMPORARY TABLE "CandidateCopy" AS
+SELECT DISTINCT a."candidateId" AS "sourceId", p."companyId", NULL::INTEGER AS "copyId"
+FROM "Application" a
+JOIN "Position" p ON p."id" = a."positionId"
+JOIN "Candidate" c ON c."id" = a."candidateId"
+WHERE p."companyId" <> c."companyId";
+
+UPDATE "CandidateCopy" SET "copyId" = nextval(pg_get_serial_sequence('"Candidate"', 'id'));
+
+INSERT INTO "Candidate" ("id", "companyId", "firstName", "lastName", "email", "phone", "address")
+SELECT cc."copyId", cc."companyId", c."firstName", c."lastName", c."email", c."phone", c."address"
+FROM "CandidateCopy" cc
+JOIN "Candidate" c ON c."id" = cc."sourceId";
+
+INSERT INTO "Education" ("institution", "title", "startDate", "endDate", "candidateId")
+SELECT e."institution", e."title", e."startDate", e."endDate", cc."copyId"
+FROM "CandidateCopy" cc
+JOIN "Education" e ON e."candidateId" = cc."sourceId"
+ORDER BY e."id";
+
+INSERT INTO "WorkExperience" ("company", "position", "description", "startDate", "endDate", "candidateId")
+SELECT w."company", w."position", w."description", w."startDate", w."endDate", cc."copyId"
+FROM "CandidateCopy" cc
+JOIN "WorkExperience" w ON w."candidateId" = cc."sourceId"
+ORDER BY w."id";
+
+-- The copies share the stored files, which are addressed by their content
+INSERT INTO "Resume" (
+    "filePath", "fileType", "uploadDate", "textContent", "originalName", "fileSize", "version",
+    "isCurrent", "scanStatus", "scanDetail", "scannedAt", "candidateId"
+)
+SELECT
+    r."filePath", r."fileType", r."uploadDate", r."textContent", r."originalName", r."fileSize", r."version",
+    r."isCurrent", r."scanStatus", r."scanDetail", r."scannedAt", cc."copyId"
+FROM "CandidateCopy" cc
+JOIN "Resume" r ON r."candidateId" = cc."sourceId"
+ORDER BY r."id";
+
+INSERT INTO "CandidateSearchDocument" ("candidateId", "content", "searchVector", "updatedAt")
+SELECT cc."copyId", d."content", d."searchVector", d."updatedAt"
+FROM "CandidateCopy" cc
+JOIN "CandidateSearchDocument" d ON d."candidateId" = cc."sourceId";
+
+UPDATE "Application" a
+SET "candidateId" = cc."copyId"
+FROM "CandidateCopy" cc, "Position" p
+WHERE a."candidateId" = cc."sourceId" AND p."id" = a."positionId" AND p."companyId" = cc."companyId";
+
+DROP TABLE "CandidateCopy";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Candidate_companyId_email_key" ON "Candidate"("companyId", "email");
+
+-- AddForeignKey
+ALTER TABLE "Candidate" ADD CONSTRAINT "Candidate_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "InterviewFlow" ADD COLUMN "companyId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "InterviewType" ADD COLUMN "companyId" INTEGER;
+
+-- Flows used by the positions of a single company belong to it; the rest stay shared templates
+UPDATE "InterviewFlow" f
+SET "companyId" = (SELECT MIN(p."companyId") FROM "Position" p WHERE p."interviewFlowId" = f."id")
+WHERE (SELECT COUNT(DISTINCT p."companyId") FROM "Position" p WHERE p."interviewFlowId" = f."id") = 1;
+
+-- Types used only by the flows of a single company belong to it; the rest stay shared templates
+UPDATE "InterviewType" t
+SET "companyId" = (
+    SELECT MIN(f."companyId")
+    FROM "InterviewStep" s
+    JOIN "InterviewFlow" f ON f."id" = s."interviewFlowId"
+    WHERE s."interviewTypeId" = t."id"
+)
+WHERE NOT EXISTS (
+    SELECT 1
+    FROM "InterviewStep" s
+    JOIN "InterviewFlow" f ON f."id" = s."interviewFlowId"
+    WHERE s."interviewTypeId" = t."id" AND f."companyId" IS NULL
+)
+AND (
+    SELECT COUNT(DISTINCT f."companyId")
+    FROM "InterviewStep" s
+    JOIN "InterviewFlow" f ON f."id" = s."interviewFlowId"
+    WHERE s."interviewTypeId" = t."id"
+) = 1;
+
+-- AddForeignKey
+ALTER TABLE "InterviewFlow" ADD CONSTRAINT "InterviewFlow_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterviewType" ADD CONSTRAINT "InterviewType_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
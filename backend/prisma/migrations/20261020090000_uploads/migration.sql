@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "Upload" (
+    "id" SERIAL NOT NULL,
+    "companyId" INTEGER NOT NULL,
+    "key" VARCHAR(500) NOT NULL,
+    "fileType" VARCHAR(50) NOT NULL,
+    "originalName" VARCHAR(255) NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "scanStatus" TEXT NOT NULL,
+    "scanDetail" TEXT,
+    "scannedAt" TIMESTAMP(3),
+    "uploadedById" INTEGER,
+    "uploadedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Upload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Upload_companyId_key_key" ON "Upload"("companyId", "key");
+
+-- AddForeignKey
+ALTER TABLE "Upload" ADD CONSTRAINT "Upload_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "Company"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Upload" ADD CONSTRAINT "Upload_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "Employee"("id") ON DELETE SET NULL ON UPDATE CASCADE;
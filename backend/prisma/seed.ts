@@ -1,7 +1,20 @@
 import { PrismaClient } from '@prisma/client';
+import { assertPasswordPolicy, hashPassword } from '../src/application/passwords';
 
 const prisma = new PrismaClient();
 
+// Every seeded employee signs in with this password, so a fresh local setup needs no reset webhook
+const DEFAULT_SEED_PASSWORD = 'lti-local-password';
+
+const seedPassword = (): string => {
+  const password = process.env.SEED_EMPLOYEE_PASSWORD || DEFAULT_SEED_PASSWORD;
+  if (password === DEFAULT_SEED_PASSWORD && process.env.NODE_ENV === 'production') {
+    throw new Error('Set SEED_EMPLOYEE_PASSWORD to seed a production database');
+  }
+  assertPasswordPolicy(password);
+  return password;
+};
+
 async function main() {
   // Create Companies
   const company1 = await prisma.company.create({
@@ -10,15 +23,17 @@ async function main() {
     },
   });
 
-  // Create Interview Flows
+  // Create Interview Flows, owned by the company so it can change them and their steps
   const interviewFlow1 = await prisma.interviewFlow.create({
     data: {
+      companyId: company1.id,
       description: 'Standard development interview process',
     },
   });
 
   const interviewFlow2 = await prisma.interviewFlow.create({
     data: {
+      companyId: company1.id,
       description: 'Data science interview process',
     },
   });
@@ -71,6 +86,7 @@ async function main() {
   // Create Candidates
   const candidate1 = await prisma.candidate.create({
     data: {
+      companyId: company1.id,
       firstName: 'John',
       lastName: 'Doe',
       email: 'john.doe@gmail.com',
@@ -111,6 +127,7 @@ async function main() {
 
   const candidate2 = await prisma.candidate.create({
     data: {
+      companyId: company1.id,
       firstName: 'Jane',
       lastName: 'Smith',
       email: 'jane.smith@gmail.com',
@@ -151,6 +168,7 @@ async function main() {
 
   const candidate3 = await prisma.candidate.create({
     data: {
+      companyId: company1.id,
       firstName: 'Carlos',
       lastName: 'García',
       email: 'carlos.garcia@example.com',
@@ -189,9 +207,10 @@ async function main() {
     },
   });
 
-  // Create Interview Types
+  // Create Interview Types, owned by the company so it can define their scorecards
   const interviewType1 = await prisma.interviewType.create({
     data: {
+      companyId: company1.id,
       name: 'HR Interview',
       description: 'Assess overall fit, tech stack, salary range and availability',
     },
@@ -199,6 +218,7 @@ async function main() {
 
   const interviewType2 = await prisma.interviewType.create({
     data: {
+      companyId: company1.id,
       name: 'Technical Interview',
       description: 'Assess technical skills',
     },
@@ -206,6 +226,7 @@ async function main() {
 
   const interviewType3 = await prisma.interviewType.create({
     data: {
+      companyId: company1.id,
       name: 'Hiring manager interview',
       description: 'Assess cultural fit and professional goals',
     },
@@ -242,12 +263,15 @@ async function main() {
   });
 
   // Create Employees
+  const passwordHash = await hashPassword(seedPassword());
+
   const employee1 = await prisma.employee.create({
     data: {
       companyId: company1.id,
       name: 'Alice Johnson',
       email: 'alice.johnson@lti.com',
       role: 'Interviewer',
+      passwordHash,
     },
   });
 
@@ -257,6 +281,17 @@ async function main() {
       name: 'Bob Miller',
       email: 'bob.miller@lti.com',
       role: 'Hiring Manager',
+      passwordHash,
+    },
+  });
+
+  await prisma.employee.create({
+    data: {
+      companyId: company1.id,
+      name: 'Carol Davis',
+      email: 'carol.davis@lti.com',
+      role: 'Recruiter',
+      passwordHash,
     },
   });
 
@@ -306,6 +341,7 @@ async function main() {
         interviewStepId: interviewStep1.id,
         employeeId: employee1.id,
         interviewDate: new Date(),
+        status: 'Completed',
         result: 'Passed',
         score: 5,
         notes: 'Good technical skills',
@@ -315,6 +351,7 @@ async function main() {
         interviewStepId: interviewStep1.id,
         employeeId: employee1.id,
         interviewDate: new Date(),
+        status: 'Completed',
         result: 'Passed',
         score: 5,
         notes: 'Excellent data analysis skills',
@@ -324,6 +361,7 @@ async function main() {
         interviewStepId: interviewStep1.id,
         employeeId: employee1.id,
         interviewDate: new Date(),
+        status: 'Completed',
         result: 'Passed',
         score: 4,
         notes: 'Good technical skills',
@@ -0,0 +1,11 @@
+import { PrismaClient } from '@prisma/client';
+import { withTenantScope } from './tenancy';
+
+// One client, and so one connection pool, for the whole process
+export const unscopedPrisma = new PrismaClient();
+
+/**
+ * The client services and models use: inside a request, every query is limited to the
+ * signed-in employee's company
+ */
+export const prisma = withTenantScope(unscopedPrisma);
@@ -0,0 +1,103 @@
+import { DOCX_MIME_TYPE, PDF_MIME_TYPE } from './resumeText';
+import { DocumentCheck } from '../types/scanning';
+
+const PDF_MAGIC = Buffer.from('%PDF-');
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+// Compound File Binary, the container of legacy .doc files and of password-protected Office files
+const CFB_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const MAX_ZIP_COMMENT_LENGTH = 0xffff;
+
+// Parts that carry VBA macros in .docm files and in .docx files renamed to hide them
+const MACRO_PART = /(^|\/)(vbaProject\.bin|vbaData\.xml)$/i;
+
+interface ZipEntry {
+  name: string;
+  encrypted: boolean;
+}
+
+/**
+ * Names and encryption flags of the entries of a ZIP archive, read from its central directory,
+ * or null when the archive is malformed
+ */
+const readZipEntries = (content: Buffer): ZipEntry[] | null => {
+  let end = -1;
+  for (let offset = content.length - 22; offset >= Math.max(0, content.length - 22 - MAX_ZIP_COMMENT_LENGTH); offset--) {
+    if (content.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) return null;
+
+  const entryCount = content.readUInt16LE(end + 10);
+  let offset = content.readUInt32LE(end + 16);
+  const entries: ZipEntry[] = [];
+
+  for (let index = 0; index < entryCount; index++) {
+    if (offset + 46 > content.length || content.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      return null;
+    }
+    const flags = content.readUInt16LE(offset + 8);
+    const nameLength = content.readUInt16LE(offset + 28);
+    const extraLength = content.readUInt16LE(offset + 30);
+    const commentLength = content.readUInt16LE(offset + 32);
+    if (offset + 46 + nameLength > content.length) return null;
+
+    entries.push({
+      name: content.toString('utf8', offset + 46, offset + 46 + nameLength),
+      encrypted: (flags & 0x1) === 0x1,
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const checkPdf = (content: Buffer): DocumentCheck => {
+  // The trailer (or cross-reference stream) of an encrypted PDF points to its /Encrypt dictionary
+  if (/\/Encrypt\b/.test(content.toString('latin1'))) {
+    return { valid: false, reason: 'PDF is encrypted' };
+  }
+  return { valid: true, fileType: PDF_MIME_TYPE };
+};
+
+const checkDocx = (content: Buffer): DocumentCheck => {
+  const entries = readZipEntries(content);
+  if (!entries) {
+    return { valid: false, reason: 'DOCX archive is malformed' };
+  }
+  if (entries.some((entry) => entry.encrypted)) {
+    return { valid: false, reason: 'DOCX is encrypted' };
+  }
+  if (entries.some((entry) => MACRO_PART.test(entry.name))) {
+    return { valid: false, reason: 'DOCX contains macros' };
+  }
+  const names = new Set(entries.map((entry) => entry.name));
+  if (!names.has('[Content_Types].xml') || !names.has('word/document.xml')) {
+    return { valid: false, reason: 'content is not a Word document' };
+  }
+  return { valid: true, fileType: DOCX_MIME_TYPE };
+};
+
+/**
+ * Checks that an upload really is the PDF or DOCX it is declared as, from its content rather than
+ * the client-supplied MIME type, and that it is neither encrypted nor macro-enabled
+ * @param content - The uploaded bytes
+ * @param declaredType - The MIME type the client sent
+ */
+export const verifyDocument = (content: Buffer, declaredType: string): DocumentCheck => {
+  if (content.subarray(0, PDF_MAGIC.length).equals(PDF_MAGIC)) {
+    return declaredType === PDF_MIME_TYPE ? checkPdf(content) : { valid: false, reason: 'content does not match the declared type' };
+  }
+  if (content.subarray(0, ZIP_MAGIC.length).equals(ZIP_MAGIC)) {
+    return declaredType === DOCX_MIME_TYPE ? checkDocx(content) : { valid: false, reason: 'content does not match the declared type' };
+  }
+  if (content.subarray(0, CFB_MAGIC.length).equals(CFB_MAGIC)) {
+    const encrypted = content.includes(Buffer.from('EncryptionInfo', 'utf16le'));
+    return { valid: false, reason: encrypted ? 'DOCX is encrypted' : 'legacy Word documents are not accepted' };
+  }
+  return { valid: false, reason: 'content is not a PDF or DOCX document' };
+};
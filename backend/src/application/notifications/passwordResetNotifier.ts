@@ -0,0 +1,101 @@
+import { DependencyFailureError, InvalidNotifierConfigError } from '../../types/errors';
+import {
+  PASSWORD_RESET_NOTIFIERS,
+  PasswordResetNotifier,
+  PasswordResetNotifierConfig,
+  PasswordResetNotifierDriver,
+  WebhookNotifierConfig
+} from '../../types/auth';
+
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10000;
+
+// Like Express, an unset NODE_ENV counts as development
+const isDevelopment = (env: NodeJS.ProcessEnv): boolean =>
+  !env.NODE_ENV || env.NODE_ENV === 'development' || env.NODE_ENV === 'test';
+
+const parseWebhookUrl = (value: string | undefined): string => {
+  if (!value) {
+    throw new InvalidNotifierConfigError('PASSWORD_RESET_WEBHOOK_URL', 'is required by the webhook notifier');
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new InvalidNotifierConfigError('PASSWORD_RESET_WEBHOOK_URL', 'must be a URL');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new InvalidNotifierConfigError('PASSWORD_RESET_WEBHOOK_URL', 'must be an http or https URL');
+  }
+  return url.toString();
+};
+
+/**
+ * Reads the notifier settings: PASSWORD_RESET_NOTIFIER selects "webhook", or "none", which is only
+ * allowed in development
+ * @param env - The environment to read, process.env by default
+ * @throws InvalidNotifierConfigError when outside development no notifier is configured
+ */
+export const loadNotifierConfig = (env: NodeJS.ProcessEnv = process.env): PasswordResetNotifierConfig => {
+  const driver = (env.PASSWORD_RESET_NOTIFIER || 'none') as PasswordResetNotifierDriver;
+  if (!PASSWORD_RESET_NOTIFIERS.includes(driver)) {
+    throw new InvalidNotifierConfigError('PASSWORD_RESET_NOTIFIER', `must be one of ${PASSWORD_RESET_NOTIFIERS.join(', ')}`);
+  }
+  if (driver === 'none') {
+    if (!isDevelopment(env)) {
+      throw new InvalidNotifierConfigError('PASSWORD_RESET_NOTIFIER', `must be set when NODE_ENV is ${env.NODE_ENV}`);
+    }
+    return { driver };
+  }
+
+  const timeoutMs = env.PASSWORD_RESET_WEBHOOK_TIMEOUT_MS ? Number(env.PASSWORD_RESET_WEBHOOK_TIMEOUT_MS) : DEFAULT_WEBHOOK_TIMEOUT_MS;
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw new InvalidNotifierConfigError('PASSWORD_RESET_WEBHOOK_TIMEOUT_MS', 'must be a positive integer');
+  }
+
+  return {
+    driver,
+    url: parseWebhookUrl(env.PASSWORD_RESET_WEBHOOK_URL),
+    authToken: env.PASSWORD_RESET_WEBHOOK_TOKEN || undefined,
+    timeoutMs,
+  };
+};
+
+/**
+ * Posts each reset to a webhook, such as a mail service or an internal relay, which emails the
+ * token to the employee
+ * @param config - URL, credentials and time limit of the webhook
+ */
+export const createWebhookNotifier =
+  (config: WebhookNotifierConfig): PasswordResetNotifier =>
+  async (employee, token, expiresAt) => {
+    let response: Response;
+    try {
+      response = await fetch(config.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.authToken ? { Authorization: `Bearer ${config.authToken}` } : {}),
+        },
+        body: JSON.stringify({ email: employee.email, name: employee.name, token, expiresAt: expiresAt.toISOString() }),
+        signal: AbortSignal.timeout(config.timeoutMs),
+      });
+    } catch (error) {
+      throw new DependencyFailureError('The password reset webhook', `is unreachable: ${(error as Error).message}`);
+    }
+    if (!response.ok) {
+      throw new DependencyFailureError('The password reset webhook', `answered ${response.status}`);
+    }
+  };
+
+// Development only: the reset is recorded, but the token never leaves the server
+const undeliveredNotifier: PasswordResetNotifier = async (employee) => {
+  if (process.env.NODE_ENV !== 'test') {
+    console.warn(`Password reset requested for ${employee.email}, but PASSWORD_RESET_NOTIFIER is not set; nothing was sent`);
+  }
+};
+
+/**
+ * Builds the notifier selected by the configuration
+ */
+export const createPasswordResetNotifier = (config: PasswordResetNotifierConfig): PasswordResetNotifier =>
+  config.driver === 'webhook' ? createWebhookNotifier(config) : undeliveredNotifier;
@@ -0,0 +1,50 @@
+import { randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+import { WeakPasswordError } from '../types/errors';
+
+export const MIN_PASSWORD_LENGTH = 12;
+// scrypt cost grows with the input, so very long passwords are refused rather than hashed
+export const MAX_PASSWORD_LENGTH = 128;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const COST = { N: 16384, r: 8, p: 1 };
+
+const deriveKey = (password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+/**
+ * Checks a new password against the password policy
+ */
+export const assertPasswordPolicy = (password: unknown): void => {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new WeakPasswordError(`must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    throw new WeakPasswordError(`must be at most ${MAX_PASSWORD_LENGTH} characters long`);
+  }
+};
+
+/**
+ * Hashes a password with scrypt and a random salt, as scrypt$N$r$p$salt$key with base64 salt and key
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, COST);
+  return ['scrypt', COST.N, COST.r, COST.p, salt.toString('base64'), key.toString('base64')].join('$');
+};
+
+/**
+ * Checks a password against a hash made by hashPassword, with the cost parameters stored in the hash
+ */
+export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+  const [algorithm, N, r, p, salt, key] = passwordHash.split('$');
+  if (algorithm !== 'scrypt' || !key || password.length > MAX_PASSWORD_LENGTH) {
+    return false;
+  }
+
+  const expected = Buffer.from(key, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p) });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
@@ -0,0 +1,50 @@
+import { AuthenticatedEmployee, EMPLOYEE_ROLES, EmployeeRole, Permission } from '../types/auth';
+
+const READ_ALL: Permission[] = ['candidates:read', 'positions:read', 'applications:read', 'interviews:read', 'flows:read'];
+
+/**
+ * Permission matrix. Hiring managers and interviewers are further limited to the rows in their
+ * scope (see the access control service); admins and recruiters reach every row.
+ */
+export const ROLE_PERMISSIONS: Record<EmployeeRole, readonly Permission[]> = {
+  Admin: [
+    ...READ_ALL,
+    'candidates:write',
+    'candidates:delete',
+    'positions:write',
+    'positions:delete',
+    'applications:create',
+    'applications:move',
+    'interviews:schedule',
+    'interviews:evaluate',
+    'flows:write',
+  ],
+  Recruiter: [
+    ...READ_ALL,
+    'candidates:write',
+    'positions:write',
+    'applications:create',
+    'applications:move',
+    'interviews:schedule',
+    'interviews:evaluate',
+    'flows:write',
+  ],
+  'Hiring Manager': [...READ_ALL, 'positions:write', 'interviews:schedule', 'interviews:evaluate'],
+  Interviewer: ['applications:read', 'interviews:read', 'interviews:evaluate', 'flows:read'],
+};
+
+// Roles that reach every row; the others only reach the rows in their scope
+const UNSCOPED_ROLES: readonly EmployeeRole[] = ['Admin', 'Recruiter'];
+
+export const isEmployeeRole = (role: unknown): role is EmployeeRole => EMPLOYEE_ROLES.includes(role as EmployeeRole);
+
+/**
+ * Permissions of a role; an unknown role has none
+ */
+export const permissionsOf = (role: string): readonly Permission[] => (isEmployeeRole(role) ? ROLE_PERMISSIONS[role] : []);
+
+export const hasPermission = (employee: AuthenticatedEmployee, permission: Permission): boolean =>
+  permissionsOf(employee.role).includes(permission);
+
+export const isUnscoped = (employee: AuthenticatedEmployee): boolean =>
+  isEmployeeRole(employee.role) && UNSCOPED_ROLES.includes(employee.role);
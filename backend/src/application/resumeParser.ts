@@ -0,0 +1,345 @@
+import { extractResumeText } from './resumeText';
+import { validateCandidateUpdate, validateEducationData, validateWorkExperienceData } from './validator';
+import {
+  CandidateSuggestion,
+  ResumeParseResult,
+  SuggestedEducation,
+  SuggestedWorkExperience,
+  SuggestionConfidence
+} from '../types/resume';
+
+// Heuristics for the resumes recruiters receive, written in English or Spanish
+
+const EMAIL_PATTERN = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
+// Spanish numbers, optionally with the +34 prefix and separators between digits
+const PHONE_PATTERN = /(?<!\d)((?:\+|00)34[\s.-]?)?([679](?:[\s.-]?\d){8})(?!\d)/g;
+const PHONE_LABEL = /\b(tel|tlf|phone|mobile|tel[eé]fono|m[oó]vil)\b/i;
+
+const NAME_WORD = /^[a-zA-ZñÑáéíóúÁÉÍÓÚ]+$/;
+const NOT_A_NAME = /^(curriculum|vitae|resume|cv)$/i;
+
+const SECTION_HEADINGS = {
+  education: /^(education|academic background|educaci[oó]n|formaci[oó]n( acad[eé]mica)?|estudios)$/i,
+  experience:
+    /^((work |professional )?experience|employment( history)?|work history|experiencia( laboral| profesional)?)$/i,
+  other:
+    /^(skills|technical skills|languages|projects|certifications|courses|summary|profile|about me|interests|references|habilidades|competencias|idiomas|proyectos|certificaciones|cursos|resumen|perfil|sobre m[ií]|intereses|referencias)$/i,
+};
+
+type Section = keyof typeof SECTION_HEADINGS;
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1, ene: 1, enero: 1,
+  feb: 2, february: 2, febrero: 2,
+  mar: 3, march: 3, marzo: 3,
+  apr: 4, april: 4, abr: 4, abril: 4,
+  may: 5, mayo: 5,
+  jun: 6, june: 6, junio: 6,
+  jul: 7, july: 7, julio: 7,
+  aug: 8, august: 8, ago: 8, agosto: 8,
+  sep: 9, sept: 9, september: 9, septiembre: 9,
+  oct: 10, october: 10, octubre: 10,
+  nov: 11, november: 11, noviembre: 11,
+  dec: 12, december: 12, dic: 12, diciembre: 12,
+};
+
+// Longest names first so "marzo" is not read as "mar"
+const MONTH_NAMES = Object.keys(MONTHS)
+  .sort((a, b) => b.length - a.length)
+  .join('|');
+const DATE_TOKEN = `(?:\\b(?:${MONTH_NAMES})\\.?\\s+\\d{4}|\\b\\d{1,2}[/.-]\\d{4}|\\b\\d{4})`;
+const PRESENT = 'present|presente|actualidad|actual|now|current|today|hoy';
+const DATE_RANGE = new RegExp(`(${DATE_TOKEN})\\s*(?:-|–|—|to|a|hasta)\\s*(${DATE_TOKEN}|${PRESENT})\\b`, 'i');
+const ONLY_PRESENT = new RegExp(`^(${PRESENT})$`, 'i');
+
+const BULLET = /^[-•*·▪●◦‣]\s*/;
+const MAX_HEADER_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+const INSTITUTION_HINT =
+  /(universi|college|school|escuela|institut|academ|colegio|uned|polit[eé]cnic|facultad|faculty|bootcamp)/i;
+const COMPANY_HINT = /\b(inc|ltd|llc|gmbh|corp|corporation|group|grupo|s\.?l|s\.?a)\b\.?/i;
+
+const round = (value: number) => Math.round(Math.min(value, 1) * 100) / 100;
+
+const isValid = (validate: () => void): boolean => {
+  try {
+    validate();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const stripAccents = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const capitalize = (word: string) =>
+  word === word.toUpperCase() ? word.charAt(0) + word.slice(1).toLowerCase() : word;
+
+interface Guess<T> {
+  value: T;
+  confidence: number;
+}
+
+const findEmail = (text: string): Guess<string> | null => {
+  const emails = [...new Set(text.match(EMAIL_PATTERN) ?? [])];
+  if (emails.length === 0) return null;
+  return { value: emails[0], confidence: emails.length === 1 ? 0.95 : 0.75 };
+};
+
+const findPhone = (lines: string[]): Guess<string> | null => {
+  for (const line of lines) {
+    for (const match of line.matchAll(PHONE_PATTERN)) {
+      const value = match[2].replace(/\D/g, '');
+      const labelled = match[1] !== undefined || PHONE_LABEL.test(line);
+      return { value, confidence: labelled ? 0.9 : 0.7 };
+    }
+  }
+  return null;
+};
+
+/**
+ * The name is taken from the first short line near the top made only of name-like words
+ */
+const findName = (lines: string[], email: string | undefined): Guess<[string, string]> | null => {
+  const top = lines.slice(0, 5);
+  for (const [index, line] of top.entries()) {
+    const words = line.split(/\s+/);
+    if (words.length < 2 || words.length > 4) continue;
+    if (!words.every((word) => NAME_WORD.test(word) && !NOT_A_NAME.test(word))) continue;
+
+    const [firstName, ...lastNames] = words.map(capitalize);
+    let confidence = index === 0 ? 0.8 : 0.6;
+    if (email && stripAccents(email.toLowerCase()).includes(stripAccents(firstName.toLowerCase()))) {
+      confidence += 0.1;
+    }
+    return { value: [firstName, lastNames.join(' ')], confidence };
+  }
+  return null;
+};
+
+const sectionOf = (line: string): Section | null => {
+  const heading = line.replace(/^[^\p{L}]+|[^\p{L}]+$/gu, '').trim();
+  if (heading.length === 0 || heading.length > 40) return null;
+  const match = (Object.keys(SECTION_HEADINGS) as Section[]).find((section) => SECTION_HEADINGS[section].test(heading));
+  return match ?? null;
+};
+
+/**
+ * Lines of the education and experience sections; a repeated heading appends to its section
+ */
+const splitSections = (lines: string[]): Record<Section, string[]> => {
+  const sections: Record<Section, string[]> = { education: [], experience: [], other: [] };
+  let current: Section = 'other';
+  lines.forEach((line) => {
+    const section = sectionOf(line);
+    if (section) {
+      current = section;
+    } else {
+      sections[current].push(line);
+    }
+  });
+  return sections;
+};
+
+/**
+ * YYYY-MM-DD for a "March 2019", "03/2019" or "2019" token, or null when it is not a plausible date
+ */
+const parseDateToken = (token: string): { date: string; monthKnown: boolean } | null => {
+  const named = /^([a-z]+)\.?\s+(\d{4})$/i.exec(token);
+  const numeric = /^(\d{1,2})[/.-](\d{4})$/.exec(token);
+  const month = named ? MONTHS[named[1].toLowerCase()] : numeric ? Number(numeric[1]) : 1;
+  const year = Number(named?.[2] ?? numeric?.[2] ?? token);
+
+  if (!month || month > 12 || year < 1950 || year > 2100) return null;
+  return { date: `${year}-${String(month).padStart(2, '0')}-01`, monthKnown: !!(named || numeric) };
+};
+
+const cleanPart = (value: string) =>
+  value
+    .replace(BULLET, '')
+    .replace(/^[\s|,;:()–—-]+|[\s|,;:()–—-]+$/g, '')
+    .trim();
+
+/**
+ * Two header parts from separate lines, or from one line split on " - ", "|" or, failing that, a comma
+ */
+const headerParts = (header: string[]): string[] => {
+  if (header.length !== 1) return header.slice(0, 2);
+  const bySeparator = header[0].split(/\s+[|–—-]\s+|\s*\|\s*/);
+  const parts = bySeparator.length > 1 ? bySeparator : header[0].split(/,\s+/);
+  return parts.map(cleanPart).filter(Boolean).slice(0, 2);
+};
+
+interface RawEntry {
+  header: string[];
+  description: string[];
+  startDate: string;
+  endDate?: string;
+  monthKnown: boolean;
+}
+
+const isHeaderLine = (line: string) => !BULLET.test(line) && line.length <= MAX_HEADER_LENGTH;
+
+/**
+ * Splits a section into entries anchored on their date range. The header of an entry is the rest of
+ * the date line completed with the short lines right above it, then right below it; any other line
+ * up to the next entry is its description.
+ */
+const collectEntries = (lines: string[]): RawEntry[] => {
+  const anchors = lines.flatMap((line, index) => {
+    const match = DATE_RANGE.exec(line);
+    if (!match) return [];
+    const ongoing = ONLY_PRESENT.test(match[2]);
+    const start = parseDateToken(match[1]);
+    const end = ongoing ? null : parseDateToken(match[2]);
+    if (!start || (!ongoing && !end)) return [];
+    return [{ index, remainder: cleanPart(line.replace(match[0], '')), start, end }];
+  });
+
+  const consumed = new Set(anchors.map(({ index }) => index));
+  const incomplete = (header: string[]) => headerParts(header).length < 2;
+  const headers = anchors.map(({ index, remainder }, i) => {
+    const header = remainder ? [remainder] : [];
+    const previous = i === 0 ? -1 : anchors[i - 1].index;
+    for (let k = index - 1; k > previous && incomplete(header) && !consumed.has(k) && isHeaderLine(lines[k]); k--) {
+      header.unshift(cleanPart(lines[k]));
+      consumed.add(k);
+    }
+    const next = i === anchors.length - 1 ? lines.length : anchors[i + 1].index;
+    for (let k = index + 1; incomplete(header) && k < next && k < index + 3 && isHeaderLine(lines[k]); k++) {
+      header.push(cleanPart(lines[k]));
+      consumed.add(k);
+    }
+    return header.filter(Boolean);
+  });
+
+  return anchors.map(({ index, start, end }, i) => {
+    const next = i === anchors.length - 1 ? lines.length : anchors[i + 1].index;
+    const description = lines
+      .slice(index + 1, next)
+      .filter((_, offset) => !consumed.has(index + 1 + offset))
+      .map(cleanPart)
+      .filter(Boolean);
+    return {
+      header: headers[i],
+      description,
+      startDate: start.date,
+      ...(end ? { endDate: end.date } : {}),
+      monthKnown: start.monthKnown && (end === null || end.monthKnown),
+    };
+  });
+};
+
+const toEducation = (entry: RawEntry): Guess<SuggestedEducation> | null => {
+  const parts = headerParts(entry.header);
+  if (parts.length < 2) return null;
+
+  const institutionIndex = parts.findIndex((part) => INSTITUTION_HINT.test(part));
+  const [title, institution] = institutionIndex === 0 ? [parts[1], parts[0]] : parts;
+  const education: SuggestedEducation = {
+    institution,
+    title,
+    startDate: entry.startDate,
+    ...(entry.endDate ? { endDate: entry.endDate } : {}),
+  };
+  if (!isValid(() => validateEducationData(education))) return null;
+
+  const confidence = (institutionIndex === -1 ? 0.5 : 0.75) + (entry.monthKnown ? 0.1 : 0);
+  return { value: education, confidence };
+};
+
+const toWorkExperience = (entry: RawEntry): Guess<SuggestedWorkExperience> | null => {
+  // "Developer at Acme" and "Desarrollador en Acme" name the position first
+  const explicit = entry.header.length === 1 ? /^(.+?)\s+(?:at|en|@)\s+(.+)$/i.exec(entry.header[0]) : null;
+  const parts = explicit ? [cleanPart(explicit[1]), cleanPart(explicit[2])] : headerParts(entry.header);
+  if (parts.length < 2) return null;
+
+  const companyFirst = !explicit && COMPANY_HINT.test(parts[0]) && !COMPANY_HINT.test(parts[1]);
+  const [position, company] = companyFirst ? [parts[1], parts[0]] : parts;
+  let description = entry.description.join(' ');
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    description = `${description.slice(0, MAX_DESCRIPTION_LENGTH - 3).trimEnd()}...`;
+  }
+  const experience: SuggestedWorkExperience = {
+    company,
+    position,
+    ...(description ? { description } : {}),
+    startDate: entry.startDate,
+    ...(entry.endDate ? { endDate: entry.endDate } : {}),
+  };
+  if (!isValid(() => validateWorkExperienceData(experience))) return null;
+
+  const confidence = (explicit || companyFirst || COMPANY_HINT.test(company) ? 0.75 : 0.55) + (entry.monthKnown ? 0.1 : 0);
+  return { value: experience, confidence };
+};
+
+/**
+ * Parses resume text into a candidate pre-fill suggestion with a confidence for each field.
+ * Guesses that would not pass candidate validation are left out.
+ */
+export const parseResumeText = (text: string): ResumeParseResult => {
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  const suggestion: CandidateSuggestion = { educations: [], workExperiences: [] };
+  const confidence: SuggestionConfidence = {
+    firstName: 0,
+    lastName: 0,
+    email: 0,
+    phone: 0,
+    educations: [],
+    workExperiences: [],
+  };
+
+  const email = findEmail(text);
+  if (email && isValid(() => validateCandidateUpdate({ email: email.value }))) {
+    suggestion.email = email.value;
+    confidence.email = round(email.confidence);
+  }
+
+  const phone = findPhone(lines);
+  if (phone && isValid(() => validateCandidateUpdate({ phone: phone.value }))) {
+    suggestion.phone = phone.value;
+    confidence.phone = round(phone.confidence);
+  }
+
+  const name = findName(lines, suggestion.email);
+  if (name) {
+    const [firstName, lastName] = name.value;
+    if (isValid(() => validateCandidateUpdate({ firstName }))) {
+      suggestion.firstName = firstName;
+      confidence.firstName = round(name.confidence);
+    }
+    if (isValid(() => validateCandidateUpdate({ lastName }))) {
+      suggestion.lastName = lastName;
+      confidence.lastName = round(name.confidence);
+    }
+  }
+
+  const sections = splitSections(lines);
+  collectEntries(sections.education).forEach((entry) => {
+    const education = toEducation(entry);
+    if (!education) return;
+    suggestion.educations.push(education.value);
+    confidence.educations.push(round(education.confidence));
+  });
+  collectEntries(sections.experience).forEach((entry) => {
+    const experience = toWorkExperience(entry);
+    if (!experience) return;
+    suggestion.workExperiences.push(experience.value);
+    confidence.workExperiences.push(round(experience.confidence));
+  });
+
+  return { suggestion, confidence };
+};
+
+/**
+ * Extracts and parses an uploaded resume, or returns null for file types without text extraction
+ */
+export const parseResume = async (content: Buffer, fileType: string): Promise<ResumeParseResult | null> => {
+  const text = await extractResumeText(content, fileType);
+  return text === null ? null : parseResumeText(text);
+};
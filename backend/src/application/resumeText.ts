@@ -0,0 +1,37 @@
+import mammoth from 'mammoth';
+import pdfParse from 'pdf-parse';
+
+export const PDF_MIME_TYPE = 'application/pdf';
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Keeps very long resumes well below PostgreSQL's 1MB tsvector limit
+export const MAX_RESUME_TEXT_LENGTH = 100000;
+
+/**
+ * Collapses runs of spaces and blank lines left behind by PDF and DOCX layouts
+ */
+export const normalizeResumeText = (text: string): string =>
+  text
+    .replace(/\u0000/g, '')
+    .replace(/[ \t\f\v\r]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .slice(0, MAX_RESUME_TEXT_LENGTH);
+
+/**
+ * Plain text of an uploaded PDF or DOCX resume, or null for any other file type
+ */
+export const extractResumeText = async (content: Buffer, fileType: string): Promise<string | null> => {
+  if (fileType === PDF_MIME_TYPE) {
+    const { text } = await pdfParse(content);
+    return normalizeResumeText(text);
+  }
+
+  if (fileType === DOCX_MIME_TYPE) {
+    const { value } = await mammoth.extractRawText({ buffer: content });
+    return normalizeResumeText(value);
+  }
+
+  return null;
+};
@@ -0,0 +1,59 @@
+import net from 'net';
+import { ClamAvConfig, MalwareScanner, ScanResult } from '../../types/scanning';
+
+// clamd reads INSTREAM data in chunks, each prefixed with its length
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Verdict of a clamd reply such as "stream: OK" or "stream: Eicar-Test-Signature FOUND"
+ */
+export const parseClamAvReply = (reply: string): ScanResult => {
+  const answer = reply.replace(/\0/g, '').trim();
+  if (answer === 'stream: OK') {
+    return { status: 'clean' };
+  }
+  const found = /^stream: (.+) FOUND$/.exec(answer);
+  if (found) {
+    return { status: 'infected', signature: found[1] };
+  }
+  throw new Error(`ClamAV could not scan the file: ${answer || 'empty reply'}`);
+};
+
+/**
+ * Scans content with a ClamAV daemon over TCP using the INSTREAM command
+ * @param config - Host, port and time limit of the clamd connection
+ */
+export const createClamAvScanner = (config: ClamAvConfig): MalwareScanner => ({
+  driver: 'clamav',
+  scan: (content: Buffer): Promise<ScanResult> =>
+    new Promise((resolve, reject) => {
+      const reply: Buffer[] = [];
+      const socket = net.createConnection({ host: config.host, port: config.port });
+
+      socket.setTimeout(config.timeoutMs, () => {
+        socket.destroy(new Error(`ClamAV did not answer within ${config.timeoutMs}ms`));
+      });
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < content.length; offset += CHUNK_SIZE) {
+          const chunk = content.subarray(offset, offset + CHUNK_SIZE);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        // A zero-length chunk ends the stream
+        socket.end(Buffer.alloc(4));
+      });
+      socket.on('data', (data) => reply.push(data));
+      socket.on('error', reject);
+      socket.on('close', (hadError) => {
+        if (hadError) return;
+        try {
+          resolve(parseClamAvReply(Buffer.concat(reply).toString()));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    }),
+});
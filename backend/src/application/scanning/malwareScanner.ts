@@ -0,0 +1,60 @@
+import { createClamAvScanner } from './clamAvScanner';
+import { InvalidScannerConfigError } from '../../types/errors';
+import { MalwareScanner, SCANNER_DRIVERS, ScannerConfig, ScannerDriver } from '../../types/scanning';
+
+const DEFAULT_CLAMAV_PORT = 3310;
+const DEFAULT_CLAMAV_TIMEOUT_MS = 30000;
+
+const parsePositiveInteger = (value: string | undefined, setting: string, fallback: number): number => {
+  if (value === undefined || value === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new InvalidScannerConfigError(setting, 'must be a positive integer');
+  }
+  return parsed;
+};
+
+/**
+ * Reads the scanner settings: SCANNER_DRIVER selects "none" (default) or "clamav"
+ * @param env - The environment to read, process.env by default
+ */
+export const loadScannerConfig = (env: NodeJS.ProcessEnv = process.env): ScannerConfig => {
+  const driver = (env.SCANNER_DRIVER || 'none') as ScannerDriver;
+  if (!SCANNER_DRIVERS.includes(driver)) {
+    throw new InvalidScannerConfigError('SCANNER_DRIVER', `must be one of ${SCANNER_DRIVERS.join(', ')}`);
+  }
+  if (driver === 'none') {
+    return { driver };
+  }
+
+  return {
+    driver,
+    host: env.CLAMAV_HOST || 'localhost',
+    port: parsePositiveInteger(env.CLAMAV_PORT, 'CLAMAV_PORT', DEFAULT_CLAMAV_PORT),
+    timeoutMs: parsePositiveInteger(env.CLAMAV_TIMEOUT_MS, 'CLAMAV_TIMEOUT_MS', DEFAULT_CLAMAV_TIMEOUT_MS),
+  };
+};
+
+// Uploads are still verified by content, but left unscanned
+const noScanner: MalwareScanner = {
+  driver: 'none',
+  scan: async () => ({ status: 'clean' }),
+};
+
+/**
+ * Builds the scanner selected by the configuration
+ */
+export const createMalwareScanner = (config: ScannerConfig): MalwareScanner =>
+  config.driver === 'clamav' ? createClamAvScanner(config) : noScanner;
+
+let defaultScanner: MalwareScanner | null = null;
+
+/**
+ * Scanner configured by the environment, created on first use
+ */
+export const getMalwareScanner = (): MalwareScanner => {
+  if (!defaultScanner) {
+    defaultScanner = createMalwareScanner(loadScannerConfig());
+  }
+  return defaultScanner;
+};
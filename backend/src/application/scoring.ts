@@ -0,0 +1,92 @@
+import { INTERVIEW_SCORE_MAX, INTERVIEW_SCORE_MIN } from '../types/interview';
+
+// Weighted scores are expressed on a 0-100 scale so interview types with different rating scales compare
+
+export interface WeightedRating {
+  rating: number;
+  weight: number;
+  scaleMin: number;
+  scaleMax: number;
+}
+
+export interface ScoredInterview {
+  applicationId: number;
+  score: number | null;
+  /** Recorded when the scorecard was submitted */
+  weightedScore?: number | null;
+  ratings: WeightedRating[];
+}
+
+type InterviewScoreSource = Pick<ScoredInterview, 'score' | 'weightedScore' | 'ratings'>;
+
+export const roundScore = (value: number): number => Math.round(value * 100) / 100;
+
+export const normalizeRating = ({ rating, scaleMin, scaleMax }: WeightedRating): number =>
+  scaleMax === scaleMin ? 100 : ((rating - scaleMin) / (scaleMax - scaleMin)) * 100;
+
+/**
+ * Weighted mean of normalized ratings, or null when there is nothing to weigh
+ */
+export const computeWeightedScore = (ratings: WeightedRating[]): number | null => {
+  const totalWeight = ratings.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight <= 0) return null;
+
+  const weighted = ratings.reduce((sum, entry) => sum + entry.weight * normalizeRating(entry), 0);
+  return roundScore(weighted / totalWeight);
+};
+
+/**
+ * Ratings that count towards an interview's score. Interviews scored before scorecards
+ * existed contribute their single score as one rating of weight 1.
+ */
+export const interviewRatings = (interview: Pick<ScoredInterview, 'score' | 'ratings'>): WeightedRating[] => {
+  if (interview.ratings.length > 0) return interview.ratings;
+  if (interview.score === null) return [];
+
+  return [{ rating: interview.score, weight: 1, scaleMin: INTERVIEW_SCORE_MIN, scaleMax: INTERVIEW_SCORE_MAX }];
+};
+
+/**
+ * An interview's own weighted score: the one recorded with its scorecard, else the one of its ratings
+ */
+export const interviewScore = (interview: InterviewScoreSource): number | null =>
+  interview.weightedScore ?? computeWeightedScore(interviewRatings(interview));
+
+/**
+ * Mean of the interviews' weighted scores, so each interview counts once however many ratings
+ * its scorecard has; null when none is scored
+ */
+export const averageInterviewScores = (interviews: InterviewScoreSource[]): number | null => {
+  const scores = interviews.map(interviewScore).filter((score): score is number => score !== null);
+  if (scores.length === 0) return null;
+
+  return roundScore(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+};
+
+/**
+ * Weighted score per key, averaging the scores of the interviews grouped under it
+ */
+export const computeGroupedScores = <T extends InterviewScoreSource>(
+  interviews: T[],
+  keyOf: (interview: T) => number,
+): Record<number, number> => {
+  const interviewsByKey: Record<number, T[]> = {};
+
+  interviews.forEach((interview) => {
+    (interviewsByKey[keyOf(interview)] ??= []).push(interview);
+  });
+
+  const scores: Record<number, number> = {};
+  Object.entries(interviewsByKey).forEach(([key, grouped]) => {
+    const score = averageInterviewScores(grouped);
+    if (score !== null) scores[Number(key)] = score;
+  });
+
+  return scores;
+};
+
+/**
+ * Weighted score per application over all the given interviews
+ */
+export const computeApplicationScores = (interviews: ScoredInterview[]): Record<number, number> =>
+  computeGroupedScores(interviews, (interview) => interview.applicationId);
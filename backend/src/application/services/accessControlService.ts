@@ -0,0 +1,77 @@
+import { PrismaClient } from '@prisma/client';
+import { isUnscoped } from '../permissions';
+import { prisma } from '../database';
+import { AuthenticatedEmployee, ScopedResource } from '../../types/auth';
+
+// Export for dependency injection in tests
+export const createAccessControlService = (prismaClient: PrismaClient) => {
+  const isOwnCompany = (employee: AuthenticatedEmployee, companyId: number): boolean => companyId === employee.companyId;
+
+  const canAccessPosition = async (employee: AuthenticatedEmployee, positionId: number): Promise<boolean> => {
+    const position = await prismaClient.position.findUnique({ where: { id: positionId }, select: { companyId: true } });
+    if (!position) return true;
+    if (employee.role === 'Hiring Manager') return isOwnCompany(employee, position.companyId);
+
+    const assigned = await prismaClient.interview.count({
+      where: { employeeId: employee.id, application: { positionId } },
+    });
+    return assigned > 0;
+  };
+
+  const canAccessApplication = async (employee: AuthenticatedEmployee, applicationId: number): Promise<boolean> => {
+    const application = await prismaClient.application.findUnique({
+      where: { id: applicationId },
+      select: {
+        position: { select: { companyId: true } },
+        interviews: { where: { employeeId: employee.id }, select: { id: true } },
+      },
+    });
+    if (!application) return true;
+    if (employee.role === 'Hiring Manager') return isOwnCompany(employee, application.position.companyId);
+    return application.interviews.length > 0;
+  };
+
+  const canAccessInterview = async (employee: AuthenticatedEmployee, interviewId: number): Promise<boolean> => {
+    const interview = await prismaClient.interview.findUnique({
+      where: { id: interviewId },
+      select: { employeeId: true, application: { select: { position: { select: { companyId: true } } } } },
+    });
+    if (!interview) return true;
+    if (employee.role === 'Hiring Manager') return isOwnCompany(employee, interview.application.position.companyId);
+    return interview.employeeId === employee.id;
+  };
+
+  /**
+   * Whether a resource is in the employee's scope. Nobody reaches another company; within their
+   * own, admins and recruiters reach every row; hiring managers the rows of their company;
+   * interviewers the applications and interviews they are assigned to, and the positions of those
+   * applications. IDs that do not exist are left to the route to answer with 404.
+   * @param employee - The signed-in employee
+   * @param resource - The kind of resource
+   * @param id - The ID of the resource
+   * @returns Promise<boolean> - True when the employee may act on the resource
+   */
+  const canAccess = async (employee: AuthenticatedEmployee, resource: ScopedResource, id: number): Promise<boolean> => {
+    if (!isUnscoped(employee) && employee.role !== 'Hiring Manager' && employee.role !== 'Interviewer') return false;
+    if (resource === 'company') return isOwnCompany(employee, id);
+    if (isUnscoped(employee)) return true;
+
+    switch (resource) {
+      case 'position':
+        return canAccessPosition(employee, id);
+      case 'application':
+        return canAccessApplication(employee, id);
+      case 'interview':
+        return canAccessInterview(employee, id);
+    }
+  };
+
+  return {
+    canAccess,
+  };
+};
+
+// Default instance with real Prisma client
+const accessControlService = createAccessControlService(prisma);
+
+export const canAccess = accessControlService.canAccess;
@@ -0,0 +1,327 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  AppError,
+  ApplicationNotFoundError,
+  CandidateEmailExistsError,
+  CandidateProfileNotFoundError,
+  DuplicateApplicationError,
+  InterviewFlowHasNoStepsError,
+  InvalidApplicationDataError,
+  InvalidApplicationIdError,
+  InvalidCandidateDataError,
+  InvalidPositionIdError
+} from '../../types/errors';
+import { UploadedResume } from '../../types/resume';
+import {
+  ApplicationData,
+  ApplicationStageHistoryResponse,
+  CreateApplicationRequest
+} from '../../types/application';
+import { prisma } from '../database';
+import { validateCandidateData } from '../validator';
+import { createCandidateSearchService } from './candidateSearchService';
+import { createPositionService } from './positionService';
+import { createUploadService } from './uploadService';
+
+const applicationInclude = {
+  candidate: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+  interviewStep: {
+    select: {
+      id: true,
+      name: true,
+      orderIndex: true,
+    },
+  },
+} as const;
+
+const isUniqueViolation = (error: unknown, field: string): boolean =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === 'P2002' &&
+  ([] as string[]).concat((error.meta?.target as string[] | string) ?? []).includes(field);
+
+/**
+ * Maps a candidate payload accepted by validateCandidateData to a nested Prisma create, owned by
+ * the company of the position applied to, with the upload its cv names as the current resume
+ */
+const buildCandidateCreateData = (
+  candidate: NonNullable<CreateApplicationRequest['candidate']>,
+  companyId: number,
+  cv: UploadedResume | null,
+): Prisma.CandidateUncheckedCreateInput => {
+  const data: Prisma.CandidateUncheckedCreateInput = {
+    companyId,
+    firstName: candidate.firstName,
+    lastName: candidate.lastName,
+    email: candidate.email,
+    phone: candidate.phone,
+    address: candidate.address,
+  };
+
+  if (candidate.educations && candidate.educations.length > 0) {
+    data.educations = {
+      create: candidate.educations.map((education) => ({
+        institution: education.institution,
+        title: education.title,
+        startDate: new Date(education.startDate),
+        endDate: education.endDate ? new Date(education.endDate) : undefined,
+      })),
+    };
+  }
+
+  if (candidate.workExperiences && candidate.workExperiences.length > 0) {
+    data.workExperiences = {
+      create: candidate.workExperiences.map((experience) => ({
+        company: experience.company,
+        position: experience.position,
+        description: experience.description,
+        startDate: new Date(experience.startDate),
+        endDate: experience.endDate ? new Date(experience.endDate) : undefined,
+      })),
+    };
+  }
+
+  if (cv) {
+    data.resumes = {
+      create: [
+        {
+          filePath: cv.filePath,
+          fileType: cv.fileType,
+          originalName: cv.originalName,
+          fileSize: cv.fileSize,
+          uploadDate: new Date(),
+          isCurrent: true,
+          scanStatus: cv.scanStatus,
+          scanDetail: cv.scanDetail,
+          scannedAt: cv.scannedAt,
+        },
+      ],
+    };
+  }
+
+  return data;
+};
+
+// Export for dependency injection in tests
+export const createApplicationService = (prismaClient: PrismaClient) => {
+  const positionService = createPositionService(prismaClient);
+  const candidateSearchService = createCandidateSearchService(prismaClient);
+  const uploadService = createUploadService(prismaClient);
+
+  /**
+   * Indexes a candidate created with their application; the application stands even if indexing fails
+   */
+  const indexNewCandidate = async (candidateId: number) => {
+    try {
+      await candidateSearchService.indexCandidate(candidateId);
+    } catch (error) {
+      console.error(`Error indexing candidate ${candidateId}:`, error);
+    }
+  };
+
+  /**
+   * Submits an application to an Open position, placing it on the first step of the position's interview flow.
+   * Accepts either an existing candidate id or a full candidate payload.
+   * @param positionId - The ID of the position
+   * @param request - Existing candidateId or new candidate payload, plus optional notes
+   * @returns Promise<ApplicationData> - The created application
+   */
+  const submitApplication = async (
+    positionId: number,
+    request: CreateApplicationRequest,
+  ): Promise<ApplicationData> => {
+    if (!positionId || positionId <= 0) {
+      throw new InvalidPositionIdError(positionId);
+    }
+
+    const { candidateId, candidate, notes } = request ?? ({} as CreateApplicationRequest);
+
+    if ((candidateId === undefined) === (candidate === undefined)) {
+      throw new InvalidApplicationDataError('candidate', 'provide either candidateId or candidate');
+    }
+    if (candidateId !== undefined && (typeof candidateId !== 'number' || !Number.isInteger(candidateId) || candidateId <= 0)) {
+      throw new InvalidApplicationDataError('candidateId', 'must be a positive integer');
+    }
+    if (candidate !== undefined && (typeof candidate !== 'object' || candidate === null || Array.isArray(candidate))) {
+      throw new InvalidApplicationDataError('candidate', 'must be an object');
+    }
+    if (notes !== undefined && notes !== null && typeof notes !== 'string') {
+      throw new InvalidApplicationDataError('notes', 'must be a string');
+    }
+
+    if (candidate) {
+      // New candidates are always created, never edited, through this endpoint
+      const { id, ...candidateData } = candidate as typeof candidate & { id?: number };
+      try {
+        validateCandidateData(candidateData);
+      } catch (error) {
+        throw new InvalidCandidateDataError(error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+
+    try {
+      const position = await positionService.assertPositionAcceptsApplications(positionId);
+
+      const firstStep = await prismaClient.interviewStep.findFirst({
+        where: { interviewFlowId: position.interviewFlowId },
+        orderBy: { orderIndex: 'asc' },
+      });
+
+      if (!firstStep) {
+        throw new InterviewFlowHasNoStepsError(position.interviewFlowId);
+      }
+
+      // Only a file accepted by /upload is attached, with the type detected there
+      const cv = candidate?.cv && 'filePath' in candidate.cv ? await uploadService.findUpload(candidate.cv.filePath) : null;
+
+      if (candidateId !== undefined) {
+        const existingCandidate = await prismaClient.candidate.findUnique({
+          where: { id: candidateId },
+        });
+        if (!existingCandidate) {
+          throw new CandidateProfileNotFoundError(candidateId);
+        }
+
+        const existingApplication = await prismaClient.application.findFirst({
+          where: { positionId, candidateId },
+        });
+        if (existingApplication) {
+          throw new DuplicateApplicationError(candidateId, positionId);
+        }
+      }
+
+      const submitted = await prismaClient.$transaction(async (tx) => {
+        const applicantId =
+          candidateId ?? (await tx.candidate.create({ data: buildCandidateCreateData(candidate!, position.companyId, cv) })).id;
+
+        const application = await tx.application.create({
+          data: {
+            positionId,
+            candidateId: applicantId,
+            applicationDate: new Date(),
+            currentInterviewStep: firstStep.id,
+            notes: notes?.trim() || null,
+          },
+          include: applicationInclude,
+        });
+
+        // Opening entry so time in the first stage can be measured
+        await tx.applicationStageHistory.create({
+          data: {
+            applicationId: application.id,
+            toStepId: firstStep.id,
+            toStepName: firstStep.name,
+            changedAt: application.applicationDate,
+          },
+        });
+
+        return application;
+      });
+
+      if (candidate) {
+        await indexNewCandidate(submitted.candidateId);
+      }
+      return submitted;
+    } catch (error) {
+      console.error('Error submitting application:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      if (isUniqueViolation(error, 'email')) {
+        throw new CandidateEmailExistsError(candidate!.email);
+      }
+
+      // Concurrent submission that slipped past the duplicate check
+      if (isUniqueViolation(error, 'candidateId')) {
+        throw new DuplicateApplicationError(candidateId!, positionId);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to submit application: ${errorMessage}`);
+    }
+  };
+
+  /**
+   * Retrieves the stage history of an application, oldest first, with the time spent in each stage
+   * @param applicationId - The ID of the application
+   * @returns Promise<ApplicationStageHistoryResponse> - Current step and recorded moves
+   */
+  const getApplicationStageHistory = async (applicationId: number): Promise<ApplicationStageHistoryResponse> => {
+    if (!applicationId || applicationId <= 0) {
+      throw new InvalidApplicationIdError(applicationId);
+    }
+
+    try {
+      const application = await prismaClient.application.findUnique({
+        where: { id: applicationId },
+        include: {
+          interviewStep: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      });
+
+      if (!application) {
+        throw new ApplicationNotFoundError(applicationId);
+      }
+
+      const entries = await prismaClient.applicationStageHistory.findMany({
+        where: { applicationId },
+        orderBy: [{ changedAt: 'asc' }, { id: 'asc' }],
+      });
+
+      const now = new Date();
+      const history = entries.map((entry, index) => {
+        const leftAt = index < entries.length - 1 ? entries[index + 1].changedAt : null;
+        return {
+          ...entry,
+          leftAt,
+          durationSeconds: Math.floor(((leftAt ?? now).getTime() - entry.changedAt.getTime()) / 1000),
+        };
+      });
+
+      const lastEntry = entries[entries.length - 1];
+
+      return {
+        applicationId,
+        currentStep: {
+          id: application.interviewStep.id,
+          name: application.interviewStep.name,
+          enteredAt: lastEntry && lastEntry.toStepId === application.interviewStep.id ? lastEntry.changedAt : null,
+        },
+        history,
+      };
+    } catch (error) {
+      console.error('Error fetching application stage history:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to retrieve application stage history: ${errorMessage}`);
+    }
+  };
+
+  return {
+    submitApplication,
+    getApplicationStageHistory,
+  };
+};
+
+// Default instance with real Prisma client
+const applicationService = createApplicationService(prisma);
+
+export const submitApplication = applicationService.submitApplication;
+export const getApplicationStageHistory = applicationService.getApplicationStageHistory;
@@ -0,0 +1,284 @@
+import { PrismaClient } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { unscopedPrisma } from '../database';
+import { createPasswordResetNotifier, loadNotifierConfig } from '../notifications/passwordResetNotifier';
+import { assertPasswordPolicy, hashPassword, verifyPassword } from '../passwords';
+import {
+  AuthenticationRequiredError,
+  InvalidCredentialsError,
+  InvalidPasswordResetTokenError,
+  InvalidSessionError,
+  MissingSecretError
+} from '../../types/errors';
+import { AuthenticatedEmployee, AuthSession, PasswordResetNotifier, SessionTokens } from '../../types/auth';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+export const PASSWORD_RESET_TTL_SECONDS = 60 * 60;
+
+/**
+ * Secret used to sign access tokens. Outside production a random one is made up when JWT_SECRET is
+ * not set, so every session ends on restart; production replicas must share it.
+ * @param env - The environment to read, process.env by default
+ * @throws MissingSecretError when JWT_SECRET is not set in production
+ */
+export const resolveTokenSecret = (env: NodeJS.ProcessEnv = process.env): string => {
+  if (env.JWT_SECRET) {
+    return env.JWT_SECRET;
+  }
+  if (env.NODE_ENV === 'production') {
+    throw new MissingSecretError('JWT_SECRET');
+  }
+  if (env.NODE_ENV !== 'test') {
+    console.warn('JWT_SECRET is not set; employees will be signed out on restart');
+  }
+  return randomBytes(32).toString('hex');
+};
+
+// Refresh and reset tokens are only stored as their SHA-256, so a database leak does not expose them
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+const newOpaqueToken = (): string => randomBytes(32).toString('base64url');
+
+const normalizeEmail = (email: unknown): string => (typeof email === 'string' ? email.trim().toLowerCase() : '');
+
+interface EmployeeRow {
+  id: number;
+  companyId: number;
+  name: string;
+  email: string;
+  role: string;
+  isActive: boolean;
+  passwordHash?: string | null;
+}
+
+const toAuthenticatedEmployee = (employee: EmployeeRow): AuthenticatedEmployee => ({
+  id: employee.id,
+  companyId: employee.companyId,
+  name: employee.name,
+  email: employee.email,
+  role: employee.role,
+});
+
+// Export for dependency injection in tests
+export const createAuthService = (
+  prismaClient: PrismaClient,
+  tokenSecret: string = resolveTokenSecret(),
+  notifyPasswordReset: PasswordResetNotifier = createPasswordResetNotifier(loadNotifierConfig()),
+) => {
+  // Compared against when the email is unknown, so the response time does not reveal which emails exist
+  let dummyHash: Promise<string> | undefined;
+  const getDummyHash = (): Promise<string> => (dummyHash ??= hashPassword(randomBytes(16).toString('hex')));
+
+  const issueAccessToken = (employeeId: number, sessionId: number, now: number): Pick<SessionTokens, 'accessToken' | 'accessTokenExpiresAt'> => {
+    const accessToken = jwt.sign({ sid: sessionId }, tokenSecret, {
+      algorithm: 'HS256',
+      subject: String(employeeId),
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    });
+    return { accessToken, accessTokenExpiresAt: new Date(now + ACCESS_TOKEN_TTL_SECONDS * 1000) };
+  };
+
+  // Stored emails keep the case they were entered with, so they are matched case insensitively
+  const findEmployeeByEmail = (email: unknown) =>
+    prismaClient.employee.findFirst({
+      where: { email: { equals: normalizeEmail(email), mode: 'insensitive' } },
+      orderBy: { id: 'asc' },
+    });
+
+  /**
+   * Signs an employee in with their email and password and starts a new session
+   * @param email - The employee's email, case insensitive
+   * @param password - The employee's password
+   * @returns Promise<AuthSession> - The employee and the tokens of the new session
+   */
+  const login = async (email: unknown, password: unknown): Promise<AuthSession> => {
+    const employee = await findEmployeeByEmail(email);
+    const passwordText = typeof password === 'string' ? password : '';
+
+    if (!employee || !employee.isActive || !employee.passwordHash) {
+      await verifyPassword(passwordText, await getDummyHash());
+      throw new InvalidCredentialsError();
+    }
+    if (!(await verifyPassword(passwordText, employee.passwordHash))) {
+      throw new InvalidCredentialsError();
+    }
+
+    const now = Date.now();
+    const refreshToken = newOpaqueToken();
+    const refreshTokenExpiresAt = new Date(now + REFRESH_TOKEN_TTL_SECONDS * 1000);
+    const session = await prismaClient.employeeSession.create({
+      data: { employeeId: employee.id, tokenHash: hashToken(refreshToken), expiresAt: refreshTokenExpiresAt },
+    });
+
+    return {
+      employee: toAuthenticatedEmployee(employee),
+      tokens: { ...issueAccessToken(employee.id, session.id, now), refreshToken, refreshTokenExpiresAt },
+    };
+  };
+
+  /**
+   * Exchanges a refresh token for new tokens. The refresh token is rotated, so each one works once,
+   * and the session is extended.
+   * @param refreshToken - The refresh token of the session
+   * @returns Promise<AuthSession> - The employee and the new tokens
+   */
+  const refresh = async (refreshToken: unknown): Promise<AuthSession> => {
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      throw new InvalidSessionError('refresh token is missing');
+    }
+
+    const session = await prismaClient.employeeSession.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { employee: true },
+    });
+    const now = Date.now();
+    if (!session || session.revokedAt || session.expiresAt.getTime() <= now || !session.employee.isActive) {
+      throw new InvalidSessionError('refresh token is invalid or has expired');
+    }
+
+    const nextRefreshToken = newOpaqueToken();
+    const refreshTokenExpiresAt = new Date(now + REFRESH_TOKEN_TTL_SECONDS * 1000);
+    // Conditional on the old hash so two concurrent refreshes with the same token cannot both succeed
+    const { count } = await prismaClient.employeeSession.updateMany({
+      where: { id: session.id, tokenHash: session.tokenHash, revokedAt: null },
+      data: { tokenHash: hashToken(nextRefreshToken), expiresAt: refreshTokenExpiresAt, lastUsedAt: new Date(now) },
+    });
+    if (count === 0) {
+      throw new InvalidSessionError('refresh token has already been used');
+    }
+
+    return {
+      employee: toAuthenticatedEmployee(session.employee),
+      tokens: {
+        ...issueAccessToken(session.employeeId, session.id, now),
+        refreshToken: nextRefreshToken,
+        refreshTokenExpiresAt,
+      },
+    };
+  };
+
+  /**
+   * Ends the session of a refresh token; unknown or already ended sessions are ignored
+   * @param refreshToken - The refresh token of the session
+   */
+  const logout = async (refreshToken: unknown): Promise<void> => {
+    if (typeof refreshToken !== 'string' || !refreshToken) return;
+
+    await prismaClient.employeeSession.updateMany({
+      where: { tokenHash: hashToken(refreshToken), revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  };
+
+  /**
+   * Resolves the employee of an access token. The session is checked too, so logging out or
+   * resetting the password takes effect before the token expires.
+   * @param accessToken - The JWT from the Authorization header or the access token cookie
+   * @returns Promise<AuthenticatedEmployee> - The signed-in employee
+   */
+  const authenticate = async (accessToken: string | undefined): Promise<AuthenticatedEmployee> => {
+    if (!accessToken) {
+      throw new AuthenticationRequiredError();
+    }
+
+    let claims: jwt.JwtPayload;
+    try {
+      claims = jwt.verify(accessToken, tokenSecret, { algorithms: ['HS256'] }) as jwt.JwtPayload;
+    } catch {
+      throw new InvalidSessionError('access token is invalid or has expired');
+    }
+    if (!Number.isInteger(claims.sid)) {
+      throw new InvalidSessionError('access token is invalid or has expired');
+    }
+
+    const session = await prismaClient.employeeSession.findUnique({
+      where: { id: claims.sid },
+      include: { employee: true },
+    });
+    if (
+      !session ||
+      session.revokedAt ||
+      session.expiresAt.getTime() <= Date.now() ||
+      String(session.employeeId) !== claims.sub ||
+      !session.employee.isActive
+    ) {
+      throw new InvalidSessionError('session has ended');
+    }
+
+    return toAuthenticatedEmployee(session.employee);
+  };
+
+  /**
+   * Sends a password reset token to an active employee. Unknown emails are ignored without error,
+   * so the endpoint does not reveal which emails have accounts.
+   * @param email - The employee's email, case insensitive
+   */
+  const requestPasswordReset = async (email: unknown): Promise<void> => {
+    const employee = await findEmployeeByEmail(email);
+    if (!employee || !employee.isActive) return;
+
+    const token = newOpaqueToken();
+    const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_SECONDS * 1000);
+    await prismaClient.passwordResetToken.create({
+      data: { employeeId: employee.id, tokenHash: hashToken(token), expiresAt },
+    });
+    await notifyPasswordReset(toAuthenticatedEmployee(employee), token, expiresAt);
+  };
+
+  /**
+   * Sets a new password with a reset token and ends every session of the employee.
+   * Also sets the first password of an employee who has none.
+   * @param token - The password reset token
+   * @param password - The new password
+   */
+  const resetPassword = async (token: unknown, password: unknown): Promise<void> => {
+    assertPasswordPolicy(password);
+    if (typeof token !== 'string' || !token) {
+      throw new InvalidPasswordResetTokenError();
+    }
+
+    const reset = await prismaClient.passwordResetToken.findUnique({ where: { tokenHash: hashToken(token) } });
+    if (!reset || reset.usedAt || reset.expiresAt.getTime() <= Date.now()) {
+      throw new InvalidPasswordResetTokenError();
+    }
+
+    const passwordHash = await hashPassword(password as string);
+    const now = new Date();
+    await prismaClient.$transaction(async (tx) => {
+      // Conditional on usedAt so a token cannot be redeemed twice concurrently
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: reset.id, usedAt: null },
+        data: { usedAt: now },
+      });
+      if (count === 0) {
+        throw new InvalidPasswordResetTokenError();
+      }
+      await tx.employee.update({ where: { id: reset.employeeId }, data: { passwordHash } });
+      await tx.employeeSession.updateMany({
+        where: { employeeId: reset.employeeId, revokedAt: null },
+        data: { revokedAt: now },
+      });
+    });
+  };
+
+  return {
+    login,
+    refresh,
+    logout,
+    authenticate,
+    requestPasswordReset,
+    resetPassword,
+  };
+};
+
+// Default instance on the unscoped client: employees sign in before their company is known
+const authService = createAuthService(unscopedPrisma);
+
+export const login = authService.login;
+export const refresh = authService.refresh;
+export const logout = authService.logout;
+export const authenticate = authService.authenticate;
+export const requestPasswordReset = authService.requestPasswordReset;
+export const resetPassword = authService.resetPassword;
@@ -0,0 +1,210 @@
+import { PrismaClient } from '@prisma/client';
+import { extractResumeText } from '../resumeText';
+import { getFileStorage } from '../storage/fileStorage';
+import { CandidateProfileNotFoundError, InvalidCandidateFilterError } from '../../types/errors';
+import { CandidateSearchFilters, CandidateSearchResponse } from '../../types/candidate';
+import { FileStorage } from '../../types/storage';
+import { currentCompanyId } from '../tenancy';
+import { prisma } from '../database';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+const MAX_QUERY_LENGTH = 200;
+
+// Matched words are wrapped in <mark>; up to three fragments are joined with an ellipsis
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=3, MinWords=5, MaxWords=20, FragmentDelimiter=" … "';
+
+interface SearchableCandidate {
+  firstName: string;
+  lastName: string;
+  email: string;
+  address: string | null;
+  educations: { institution: string; title: string }[];
+  workExperiences: { company: string; position: string; description: string | null }[];
+  resumes: { textContent: string | null }[];
+}
+
+/**
+ * Text of a candidate's search document, grouped by ranking weight: A for name and email, B for
+ * education and job titles, C for job descriptions and address, D for resume text
+ */
+export const buildSearchDocument = (candidate: SearchableCandidate) => {
+  const join = (parts: (string | null)[]) => parts.filter((part): part is string => !!part).join('\n');
+
+  const profile = join([`${candidate.firstName} ${candidate.lastName}`, candidate.email]);
+  const titles = join([
+    ...candidate.educations.map((education) => `${education.title}, ${education.institution}`),
+    ...candidate.workExperiences.map((experience) => `${experience.position}, ${experience.company}`),
+  ]);
+  const details = join([...candidate.workExperiences.map((experience) => experience.description), candidate.address]);
+  const resumes = join(candidate.resumes.map((resume) => resume.textContent));
+
+  return { profile, titles, details, resumes, content: join([profile, titles, details, resumes]) };
+};
+
+interface SearchRow {
+  candidateId: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  rank: number;
+  snippet: string;
+}
+
+// Export for dependency injection in tests
+export const createCandidateSearchService = (prismaClient: PrismaClient, storage: FileStorage = getFileStorage()) => {
+  /**
+   * Rebuilds the search document of a candidate from their profile, educations, work experiences
+   * and the extracted text of their resumes
+   * @param candidateId - The ID of the candidate
+   */
+  const refreshSearchDocument = async (candidateId: number): Promise<void> => {
+    const candidate = await prismaClient.candidate.findUnique({
+      where: { id: candidateId },
+      include: {
+        educations: { orderBy: { id: 'asc' } },
+        workExperiences: { orderBy: { id: 'asc' } },
+        resumes: { where: { textContent: { not: null } }, orderBy: { uploadDate: 'desc' } },
+      },
+    });
+    if (!candidate) {
+      throw new CandidateProfileNotFoundError(candidateId);
+    }
+
+    const document = buildSearchDocument(candidate);
+    await prismaClient.$executeRaw`
+      INSERT INTO "CandidateSearchDocument" ("candidateId", "content", "searchVector", "updatedAt")
+      VALUES (
+        ${candidateId},
+        ${document.content},
+        setweight(to_tsvector('simple'::regconfig, ${document.profile}::text), 'A') ||
+          setweight(to_tsvector('simple'::regconfig, ${document.titles}::text), 'B') ||
+          setweight(to_tsvector('simple'::regconfig, ${document.details}::text), 'C') ||
+          setweight(to_tsvector('simple'::regconfig, ${document.resumes}::text), 'D'),
+        now()
+      )
+      ON CONFLICT ("candidateId") DO UPDATE
+      SET "content" = EXCLUDED."content", "searchVector" = EXCLUDED."searchVector", "updatedAt" = EXCLUDED."updatedAt"
+    `;
+  };
+
+  /**
+   * Extracts the text of the candidate's resumes that have none yet and rebuilds their search
+   * document. Quarantined files are never opened; a resume whose file cannot be read is logged and
+   * left for a later run.
+   * @param candidateId - The ID of the candidate
+   */
+  const indexCandidate = async (candidateId: number): Promise<void> => {
+    const resumes = await prismaClient.resume.findMany({
+      where: { candidateId, textContent: null, scanStatus: { not: 'Quarantined' } },
+    });
+
+    for (const resume of resumes) {
+      try {
+        const textContent = await extractResumeText(await storage.read(resume.filePath), resume.fileType);
+        if (textContent !== null) {
+          await prismaClient.resume.update({ where: { id: resume.id }, data: { textContent } });
+        }
+      } catch (error) {
+        console.error(`Error extracting text of resume ${resume.id}:`, error);
+      }
+    }
+
+    await refreshSearchDocument(candidateId);
+  };
+
+  /**
+   * Full-text search over candidate profiles and resume text, best matches first
+   * @param filters - The search query and the page to return
+   * @returns Promise<CandidateSearchResponse> - The total number of matches and the requested page
+   */
+  const searchCandidates = async (filters: CandidateSearchFilters): Promise<CandidateSearchResponse> => {
+    const query = typeof filters.q === 'string' ? filters.q.trim() : '';
+    if (query === '' || query.length > MAX_QUERY_LENGTH) {
+      throw new InvalidCandidateFilterError('q');
+    }
+    const limit = filters.limit ?? DEFAULT_SEARCH_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      throw new InvalidCandidateFilterError('limit');
+    }
+    const offset = filters.offset ?? 0;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new InvalidCandidateFilterError('offset');
+    }
+
+    try {
+      // Raw queries bypass the tenant scoped client, so they filter by the company themselves
+      const companyId = currentCompanyId() ?? null;
+      const [{ total }] = await prismaClient.$queryRaw<{ total: bigint }[]>`
+        SELECT COUNT(*) AS "total"
+        FROM "CandidateSearchDocument" d
+        JOIN "Candidate" c ON c."id" = d."candidateId"
+        WHERE d."searchVector" @@ websearch_to_tsquery('simple'::regconfig, ${query}::text)
+          AND (${companyId}::int IS NULL OR c."companyId" = ${companyId}::int)
+      `;
+      if (Number(total) === 0) {
+        return { query, total: 0, results: [] };
+      }
+
+      // Snippets are only built for the requested page; the content is escaped so only <mark> is markup
+      const rows = await prismaClient.$queryRaw<SearchRow[]>`
+        WITH matches AS (
+          SELECT d."candidateId", ts_rank_cd(d."searchVector", q.query) AS "rank"
+          FROM "CandidateSearchDocument" d
+          JOIN "Candidate" c ON c."id" = d."candidateId",
+          websearch_to_tsquery('simple'::regconfig, ${query}::text) AS q(query)
+          WHERE d."searchVector" @@ q.query
+            AND (${companyId}::int IS NULL OR c."companyId" = ${companyId}::int)
+          ORDER BY "rank" DESC, d."candidateId" ASC
+          LIMIT ${limit} OFFSET ${offset}
+        )
+        SELECT
+          m."candidateId",
+          c."firstName",
+          c."lastName",
+          c."email",
+          m."rank",
+          ts_headline(
+            'simple'::regconfig,
+            replace(replace(replace(d."content", '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+            websearch_to_tsquery('simple'::regconfig, ${query}::text),
+            ${HEADLINE_OPTIONS}::text
+          ) AS "snippet"
+        FROM matches m
+        JOIN "CandidateSearchDocument" d ON d."candidateId" = m."candidateId"
+        JOIN "Candidate" c ON c."id" = m."candidateId"
+        ORDER BY m."rank" DESC, m."candidateId" ASC
+      `;
+
+      return {
+        query,
+        total: Number(total),
+        results: rows.map((row) => ({
+          candidateId: row.candidateId,
+          fullName: `${row.firstName} ${row.lastName}`,
+          email: row.email,
+          rank: Number(row.rank),
+          snippet: row.snippet,
+        })),
+      };
+    } catch (error) {
+      console.error('Error searching candidates:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to search candidates: ${errorMessage}`);
+    }
+  };
+
+  return {
+    refreshSearchDocument,
+    indexCandidate,
+    searchCandidates,
+  };
+};
+
+// Default instance with real Prisma client
+const candidateSearchService = createCandidateSearchService(prisma);
+
+export const refreshSearchDocument = candidateSearchService.refreshSearchDocument;
+export const indexCandidate = candidateSearchService.indexCandidate;
+export const searchCandidates = candidateSearchService.searchCandidates;
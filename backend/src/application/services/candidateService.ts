@@ -1,16 +1,53 @@
+import { Prisma, PrismaClient } from '@prisma/client';
 import { Candidate } from '../../domain/models/Candidate';
-import { validateCandidateData } from '../validator';
+import { prisma } from '../database';
+import {
+    validateCandidateData,
+    validateCandidateUpdate,
+    validateEducationData,
+    validateWorkExperienceData
+} from '../validator';
 import { Education } from '../../domain/models/Education';
 import { WorkExperience } from '../../domain/models/WorkExperience';
 import { Resume } from '../../domain/models/Resume';
+import { computeGroupedScores } from '../scoring';
+import { getFileStorage } from '../storage/fileStorage';
+import { createCandidateSearchService, indexCandidate } from './candidateSearchService';
+import { findUpload } from './uploadService';
+import {
+    AppError,
+    CandidateEmailExistsError,
+    CandidateProfileNotFoundError,
+    CandidateRecordNotFoundError,
+    InvalidCandidateDataError,
+    InvalidCandidateFilterError,
+    InvalidCandidateIdError
+} from '../../types/errors';
+import {
+    CANDIDATE_SORT_FIELDS,
+    CandidateListFilters,
+    CandidateListResponse,
+    CandidateProfileData,
+    DeleteCandidateResponse,
+    EducationData,
+    EducationRequest,
+    ReplaceCandidateRequest,
+    UpdateCandidateRequest,
+    WorkExperienceData,
+    WorkExperienceRequest
+} from '../../types/candidate';
+import { FileStorage } from '../../types/storage';
 
 export const addCandidate = async (candidateData: any) => {
     try {
         validateCandidateData(candidateData); // Validar los datos del candidato
-    } catch (error: any) {
-        throw new Error(error);
+    } catch (error) {
+        throw new InvalidCandidateDataError(error instanceof Error ? error.message : 'Invalid data');
     }
 
+    // Solo se adjunta un archivo aceptado por /upload, con el tipo detectado allí
+    const cv = candidateData.cv?.filePath ? await findUpload(candidateData.cv.filePath) : null;
+
     const candidate = new Candidate(candidateData); // Crear una instancia del modelo Candidate
     try {
         const savedCandidate = await candidate.save(); // Guardar el candidato en la base de datos
@@ -37,17 +74,25 @@ export const addCandidate = async (candidateData: any) => {
         }
 
         // Guardar los archivos de CV
-        if (candidateData.cv && Object.keys(candidateData.cv).length > 0) {
-            const resumeModel = new Resume(candidateData.cv);
+        if (cv) {
+            // Primera versión del CV; las siguientes se suben a /candidates/:id/resumes
+            const resumeModel = new Resume(cv);
             resumeModel.candidateId = candidateId;
             await resumeModel.save();
             candidate.resumes.push(resumeModel);
         }
+
+        // Indexar el candidato y el texto de su CV para la búsqueda
+        try {
+            await indexCandidate(candidateId);
+        } catch (error) {
+            console.error('Error al indexar el candidato:', error);
+        }
         return savedCandidate;
     } catch (error: any) {
         if (error.code === 'P2002') {
             // Unique constraint failed on the fields: (`email`)
-            throw new Error('The email already exists in the database');
+            throw new CandidateEmailExistsError(candidateData.email);
         } else {
             throw error;
         }
@@ -59,7 +104,728 @@ export const findCandidateById = async (id: number): Promise<Candidate | null> =
         const candidate = await Candidate.findOne(id); // Cambio aquí: pasar directamente el id
         return candidate;
     } catch (error) {
-        console.error('Error al buscar el candidato:', error);
-        throw new Error('Error al recuperar el candidato');
+        return wrapError(error, 'retrieve candidate');
+    }
+};
+
+const candidateProfileInclude = {
+    educations: { orderBy: { id: 'asc' } },
+    workExperiences: { orderBy: { id: 'asc' } },
+} as const;
+
+const PROFILE_FIELDS = ['firstName', 'lastName', 'email', 'phone', 'address'] as const;
+
+const isPositiveInteger = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isEmailViolation = (error: unknown): boolean =>
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2002' &&
+    ([] as string[]).concat((error.meta?.target as string[] | string) ?? []).includes('email');
+
+/**
+ * Runs a validator from ../validator, reporting its failure as InvalidCandidateDataError
+ */
+const runValidation = (validate: () => void) => {
+    try {
+        validate();
+    } catch (error) {
+        throw new InvalidCandidateDataError(error instanceof Error ? error.message : 'Unknown error');
+    }
+};
+
+const assertObjectBody = (body: unknown) => {
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new InvalidCandidateDataError('body must be an object');
+    }
+};
+
+const assertRecordList = (field: string, value: unknown) => {
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+        throw new InvalidCandidateDataError(`${field} must be an array`);
+    }
+    value.forEach((entry, index) => {
+        assertObjectBody(entry);
+        if (entry.id !== undefined && !isPositiveInteger(entry.id)) {
+            throw new InvalidCandidateDataError(`${field}[${index}].id must be a positive integer`);
+        }
+    });
+};
+
+const toDate = (value: string) => new Date(value);
+
+const toOptionalDate = (value: string | null | undefined) => (value ? new Date(value) : null);
+
+/**
+ * Maps the supplied education fields to a Prisma update; omitted fields are left untouched
+ */
+const buildEducationUpdate = (input: EducationRequest): Prisma.EducationUncheckedUpdateInput => ({
+    ...(input.institution !== undefined ? { institution: input.institution } : {}),
+    ...(input.title !== undefined ? { title: input.title } : {}),
+    ...(input.startDate !== undefined ? { startDate: toDate(input.startDate) } : {}),
+    ...(input.endDate !== undefined ? { endDate: toOptionalDate(input.endDate) } : {}),
+});
+
+const buildEducationCreate = (candidateId: number, input: EducationRequest): Prisma.EducationUncheckedCreateInput => ({
+    candidateId,
+    institution: input.institution as string,
+    title: input.title as string,
+    startDate: toDate(input.startDate as string),
+    endDate: toOptionalDate(input.endDate),
+});
+
+const buildWorkExperienceUpdate = (input: WorkExperienceRequest): Prisma.WorkExperienceUncheckedUpdateInput => ({
+    ...(input.company !== undefined ? { company: input.company } : {}),
+    ...(input.position !== undefined ? { position: input.position } : {}),
+    ...(input.description !== undefined ? { description: input.description || null } : {}),
+    ...(input.startDate !== undefined ? { startDate: toDate(input.startDate) } : {}),
+    ...(input.endDate !== undefined ? { endDate: toOptionalDate(input.endDate) } : {}),
+});
+
+const buildWorkExperienceCreate = (
+    candidateId: number,
+    input: WorkExperienceRequest,
+): Prisma.WorkExperienceUncheckedCreateInput => ({
+    candidateId,
+    company: input.company as string,
+    position: input.position as string,
+    description: input.description || null,
+    startDate: toDate(input.startDate as string),
+    endDate: toOptionalDate(input.endDate),
+});
+
+const wrapError = (error: unknown, action: string, email?: string): never => {
+    console.error(`Error trying to ${action}:`, error);
+
+    if (error instanceof AppError) {
+        throw error;
+    }
+
+    if (email !== undefined && isEmailViolation(error)) {
+        throw new CandidateEmailExistsError(email);
     }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to ${action}: ${errorMessage}`);
+};
+
+const assertCandidateId = (candidateId: number) => {
+    if (!candidateId || candidateId <= 0) {
+        throw new InvalidCandidateIdError(candidateId);
+    }
+};
+
+const assertRecordId = (record: string, recordId: number) => {
+    if (!isPositiveInteger(recordId)) {
+        throw new InvalidCandidateDataError(`${record} ID must be a positive integer`);
+    }
+};
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+const containsText = (value: string) => ({ contains: value, mode: 'insensitive' as const });
+
+/**
+ * Checks the listing filters that the query string parser cannot judge on its own
+ */
+const assertListFilters = (filters: CandidateListFilters) => {
+    const { minScore, maxScore, limit, sortBy, sortOrder } = filters;
+    const isScore = (value: number) => Number.isFinite(value) && value >= 0 && value <= 100;
+    if (minScore !== undefined && !isScore(minScore)) throw new InvalidCandidateFilterError('minScore');
+    if (maxScore !== undefined && !isScore(maxScore)) throw new InvalidCandidateFilterError('maxScore');
+    if (minScore !== undefined && maxScore !== undefined && minScore > maxScore) {
+        throw new InvalidCandidateFilterError('minScore');
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT)) {
+        throw new InvalidCandidateFilterError('limit');
+    }
+    if (filters.cursor !== undefined && !isPositiveInteger(filters.cursor)) {
+        throw new InvalidCandidateFilterError('cursor');
+    }
+    if (sortBy !== undefined && !(CANDIDATE_SORT_FIELDS as readonly string[]).includes(sortBy)) {
+        throw new InvalidCandidateFilterError('sortBy');
+    }
+    if (sortOrder !== undefined && sortOrder !== 'asc' && sortOrder !== 'desc') {
+        throw new InvalidCandidateFilterError('sortOrder');
+    }
+};
+
+/**
+ * Maps the listing filters, except the score range, to a Prisma where clause. Every word of the
+ * name filter must match the first or last name.
+ */
+const buildCandidateWhere = (filters: CandidateListFilters): Prisma.CandidateWhereInput => {
+    const where: Prisma.CandidateWhereInput = {};
+
+    if (filters.name !== undefined) {
+        where.AND = filters.name
+            .split(/\s+/)
+            .filter(Boolean)
+            .map((word) => ({ OR: [{ firstName: containsText(word) }, { lastName: containsText(word) }] }));
+    }
+    if (filters.email !== undefined) where.email = containsText(filters.email);
+    if (filters.phone !== undefined) where.phone = { contains: filters.phone };
+    if (filters.positionId !== undefined || filters.interviewStep !== undefined) {
+        where.applications = {
+            some: {
+                ...(filters.positionId !== undefined ? { positionId: filters.positionId } : {}),
+                ...(filters.interviewStep !== undefined
+                    ? { interviewStep: { name: { equals: filters.interviewStep, mode: 'insensitive' as const } } }
+                    : {}),
+            },
+        };
+    }
+    if (filters.institution !== undefined) {
+        where.educations = { some: { institution: containsText(filters.institution) } };
+    }
+    if (filters.company !== undefined) {
+        where.workExperiences = { some: { company: containsText(filters.company) } };
+    }
+
+    return where;
+};
+
+// Completed interviews with what is needed to weigh their ratings per candidate
+const candidateInterviewSelect = {
+    score: true,
+    weightedScore: true,
+    ratings: {
+        select: {
+            rating: true,
+            weight: true,
+            scaleMin: true,
+            scaleMax: true,
+        },
+    },
+    application: { select: { candidateId: true } },
+} as const;
+
+// Export for dependency injection in tests
+export const createCandidateService = (prismaClient: PrismaClient, storage: FileStorage = getFileStorage()) => {
+    const searchService = createCandidateSearchService(prismaClient, storage);
+
+    /**
+     * Rebuilds the candidate's search document. It is derived data, so a failure is logged
+     * rather than failing the edit that triggered it.
+     */
+    const refreshSearch = async (candidateId: number) => {
+        try {
+            await searchService.refreshSearchDocument(candidateId);
+        } catch (error) {
+            console.error(`Error refreshing search document of candidate ${candidateId}:`, error);
+        }
+    };
+
+    const findProfileOrThrow = async (candidateId: number): Promise<CandidateProfileData> => {
+        const candidate = await prismaClient.candidate.findUnique({
+            where: { id: candidateId },
+            include: candidateProfileInclude,
+        });
+
+        if (!candidate) {
+            throw new CandidateProfileNotFoundError(candidateId);
+        }
+
+        return candidate;
+    };
+
+    const assertOwnRecords = (
+        record: 'education' | 'work experience',
+        candidateId: number,
+        existing: { id: number }[],
+        requested: { id?: number }[],
+    ) => {
+        const existingIds = new Set(existing.map((entry) => entry.id));
+        requested.forEach((entry) => {
+            if (entry.id !== undefined && !existingIds.has(entry.id)) {
+                throw new CandidateRecordNotFoundError(record, entry.id, candidateId);
+            }
+        });
+    };
+
+    /**
+     * Weighted scores (0-100) keyed by candidate ID: the mean score of the completed interviews of
+     * all the applications of the candidates matching the filter
+     */
+    const loadCandidateScores = async (where: Prisma.CandidateWhereInput): Promise<Record<number, number>> => {
+        const interviews = await prismaClient.interview.findMany({
+            where: { status: 'Completed', application: { candidate: where } },
+            select: candidateInterviewSelect,
+        });
+
+        return computeGroupedScores(interviews, (interview) => interview.application.candidateId);
+    };
+
+    /**
+     * Lists candidates matching the given filters, one page at a time
+     * @param filters - Optional text, position, step, score, education and work experience filters,
+     * plus the cursor, page size and sort order
+     * @returns Promise<CandidateListResponse> - A page of candidate summaries and the next cursor
+     */
+    const listCandidates = async (filters: CandidateListFilters = {}): Promise<CandidateListResponse> => {
+        assertListFilters(filters);
+
+        const limit = filters.limit ?? DEFAULT_LIST_LIMIT;
+        const sortBy = filters.sortBy ?? 'id';
+        const sortOrder = filters.sortOrder ?? 'asc';
+        let where = buildCandidateWhere(filters);
+
+        try {
+            // Scores are aggregates, so the range is resolved to the candidate IDs inside it
+            if (filters.minScore !== undefined || filters.maxScore !== undefined) {
+                const scores = await loadCandidateScores(where);
+                const minScore = filters.minScore ?? 0;
+                const maxScore = filters.maxScore ?? 100;
+                const inRange = Object.entries(scores)
+                    .filter(([, score]) => score >= minScore && score <= maxScore)
+                    .map(([candidateId]) => Number(candidateId));
+                where = { ...where, id: { in: inRange } };
+            }
+
+            // One extra row tells whether there is a next page; id breaks ties between equal sort values
+            const candidates = await prismaClient.candidate.findMany({
+                where,
+                orderBy: sortBy === 'id'
+                    ? { id: sortOrder }
+                    : [{ [sortBy]: sortOrder } as Prisma.CandidateOrderByWithRelationInput, { id: sortOrder }],
+                ...(filters.cursor !== undefined ? { cursor: { id: filters.cursor }, skip: 1 } : {}),
+                take: limit + 1,
+                select: {
+                    id: true,
+                    firstName: true,
+                    lastName: true,
+                    email: true,
+                    phone: true,
+                    applications: {
+                        ...(filters.positionId !== undefined ? { where: { positionId: filters.positionId } } : {}),
+                        orderBy: [{ applicationDate: 'desc' }, { id: 'desc' }],
+                        take: 1,
+                        select: { interviewStep: { select: { name: true } } },
+                    },
+                    _count: { select: { applications: true } },
+                },
+            });
+
+            const page = candidates.slice(0, limit);
+            const scores = page.length > 0 ? await loadCandidateScores({ id: { in: page.map(({ id }) => id) } }) : {};
+
+            return {
+                candidates: page.map((candidate) => ({
+                    id: candidate.id,
+                    fullName: `${candidate.firstName} ${candidate.lastName}`,
+                    email: candidate.email,
+                    phone: candidate.phone,
+                    currentInterviewStep: candidate.applications[0]?.interviewStep.name ?? null,
+                    weightedScore: scores[candidate.id] ?? null,
+                    applicationCount: candidate._count.applications,
+                })),
+                nextCursor: candidates.length > limit ? page[page.length - 1].id : null,
+            };
+        } catch (error) {
+            return wrapError(error, 'list candidates');
+        }
+    };
+
+    /**
+     * Replaces a candidate profile. Name and email are required; phone and address are cleared
+     * when omitted. Supplied education and work experience lists are synchronized by id.
+     * @param candidateId - The ID of the candidate
+     * @param request - The full candidate profile
+     * @returns Promise<CandidateProfileData> - The updated profile
+     */
+    const replaceCandidate = async (
+        candidateId: number,
+        request: ReplaceCandidateRequest,
+    ): Promise<CandidateProfileData> => {
+        assertCandidateId(candidateId);
+        assertObjectBody(request);
+        assertRecordList('educations', request.educations);
+        assertRecordList('workExperiences', request.workExperiences);
+
+        const { id, ...profile } = request as ReplaceCandidateRequest & { id?: number };
+        runValidation(() => validateCandidateData(profile));
+
+        try {
+            const candidate = await findProfileOrThrow(candidateId);
+            const { educations, workExperiences } = request;
+            if (educations) assertOwnRecords('education', candidateId, candidate.educations, educations);
+            if (workExperiences) {
+                assertOwnRecords('work experience', candidateId, candidate.workExperiences, workExperiences);
+            }
+
+            const replaced = await prismaClient.$transaction(async (tx) => {
+                await tx.candidate.update({
+                    where: { id: candidateId },
+                    data: {
+                        firstName: request.firstName,
+                        lastName: request.lastName,
+                        email: request.email,
+                        phone: request.phone || null,
+                        address: request.address || null,
+                    },
+                });
+
+                if (educations) {
+                    const keptIds = educations.flatMap((entry) => (entry.id !== undefined ? [entry.id] : []));
+                    await tx.education.deleteMany({ where: { candidateId, id: { notIn: keptIds } } });
+                    for (const entry of educations) {
+                        if (entry.id !== undefined) {
+                            await tx.education.update({
+                                where: { id: entry.id },
+                                data: { ...buildEducationUpdate(entry), endDate: toOptionalDate(entry.endDate) },
+                            });
+                        } else {
+                            await tx.education.create({ data: buildEducationCreate(candidateId, entry) });
+                        }
+                    }
+                }
+
+                if (workExperiences) {
+                    const keptIds = workExperiences.flatMap((entry) => (entry.id !== undefined ? [entry.id] : []));
+                    await tx.workExperience.deleteMany({ where: { candidateId, id: { notIn: keptIds } } });
+                    for (const entry of workExperiences) {
+                        if (entry.id !== undefined) {
+                            await tx.workExperience.update({
+                                where: { id: entry.id },
+                                data: {
+                                    ...buildWorkExperienceUpdate(entry),
+                                    description: entry.description || null,
+                                    endDate: toOptionalDate(entry.endDate),
+                                },
+                            });
+                        } else {
+                            await tx.workExperience.create({ data: buildWorkExperienceCreate(candidateId, entry) });
+                        }
+                    }
+                }
+
+                return (await tx.candidate.findUnique({
+                    where: { id: candidateId },
+                    include: candidateProfileInclude,
+                })) as CandidateProfileData;
+            });
+
+            await refreshSearch(candidateId);
+            return replaced;
+        } catch (error) {
+            return wrapError(error, 'replace candidate', request.email);
+        }
+    };
+
+    /**
+     * Updates only the supplied profile fields of a candidate, validating each of them
+     * @param candidateId - The ID of the candidate
+     * @param request - Profile fields to change; null clears phone or address
+     * @returns Promise<CandidateProfileData> - The updated profile
+     */
+    const updateCandidate = async (
+        candidateId: number,
+        request: UpdateCandidateRequest,
+    ): Promise<CandidateProfileData> => {
+        assertCandidateId(candidateId);
+        assertObjectBody(request);
+
+        const body = request as Record<string, unknown>;
+        if (body.educations !== undefined || body.workExperiences !== undefined) {
+            throw new InvalidCandidateDataError(
+                'educations and workExperiences are edited through /candidates/:id/educations and /candidates/:id/work-experiences',
+            );
+        }
+
+        const data: Prisma.CandidateUpdateInput = {};
+        PROFILE_FIELDS.forEach((field) => {
+            if (request[field] !== undefined) data[field] = request[field] as string;
+        });
+        if (Object.keys(data).length === 0) {
+            throw new InvalidCandidateDataError(`provide at least one of ${PROFILE_FIELDS.join(', ')}`);
+        }
+        runValidation(() => validateCandidateUpdate(request));
+        if (data.phone === '') data.phone = null;
+        if (data.address === '') data.address = null;
+
+        try {
+            await findProfileOrThrow(candidateId);
+
+            const updated = await prismaClient.candidate.update({
+                where: { id: candidateId },
+                data,
+                include: candidateProfileInclude,
+            });
+            await refreshSearch(candidateId);
+            return updated;
+        } catch (error) {
+            return wrapError(error, 'update candidate', request.email);
+        }
+    };
+
+    /**
+     * Deletes a candidate together with their applications (and the interviews and stage history
+     * of those applications), resumes, educations and work experiences. The files of every resume
+     * version, quarantined ones included, are removed from storage once the rows are gone.
+     * @param candidateId - The ID of the candidate
+     * @returns Promise<DeleteCandidateResponse> - Success status and the number of rows removed
+     */
+    const deleteCandidate = async (candidateId: number): Promise<DeleteCandidateResponse> => {
+        assertCandidateId(candidateId);
+
+        try {
+            await findProfileOrThrow(candidateId);
+            const storedFiles = await prismaClient.resume.findMany({ where: { candidateId }, select: { filePath: true } });
+            const keys = [...new Set(storedFiles.map((resume) => resume.filePath))];
+
+            const byCandidateApplications = { application: { candidateId } };
+            const [interviews, , applications, resumes, educations, workExperiences] = await prismaClient.$transaction([
+                prismaClient.interview.deleteMany({ where: byCandidateApplications }),
+                prismaClient.applicationStageHistory.deleteMany({ where: byCandidateApplications }),
+                prismaClient.application.deleteMany({ where: { candidateId } }),
+                prismaClient.resume.deleteMany({ where: { candidateId } }),
+                prismaClient.education.deleteMany({ where: { candidateId } }),
+                prismaClient.workExperience.deleteMany({ where: { candidateId } }),
+                prismaClient.candidate.delete({ where: { id: candidateId } }),
+                // The company's record of the upload goes too, so the file cannot be attached again
+                prismaClient.upload.deleteMany({ where: { key: { in: keys } } }),
+            ]);
+            await removeUnreferencedFiles(keys);
+
+            return {
+                success: true,
+                candidateId,
+                deleted: {
+                    applications: applications.count,
+                    interviews: interviews.count,
+                    educations: educations.count,
+                    workExperiences: workExperiences.count,
+                    resumes: resumes.count,
+                },
+            };
+        } catch (error) {
+            return wrapError(error, 'delete candidate');
+        }
+    };
+
+    /**
+     * Removes stored files that no resume or upload of any company refers to any more. Keys are
+     * content hashes, so another candidate may share a file. The rows are already gone, so a
+     * failure is logged rather than reported.
+     * @param keys - Storage keys of the deleted resumes
+     */
+    const removeUnreferencedFiles = async (keys: string[]) => {
+        for (const key of keys) {
+            try {
+                // Raw, so the count is not narrowed to the current company
+                const [{ references }] = await prismaClient.$queryRaw<{ references: bigint }[]>`
+                    SELECT (SELECT COUNT(*) FROM "Resume" WHERE "filePath" = ${key})
+                         + (SELECT COUNT(*) FROM "Upload" WHERE "key" = ${key}) AS "references"
+                `;
+                if (Number(references) === 0) {
+                    await storage.remove(key);
+                }
+            } catch (error) {
+                console.error(`Error removing stored file ${key} of a deleted candidate:`, error);
+            }
+        }
+    };
+
+    const findEducationOrThrow = async (candidateId: number, educationId: number) => {
+        const education = await prismaClient.education.findFirst({
+            where: { id: educationId, candidateId },
+        });
+        if (!education) {
+            throw new CandidateRecordNotFoundError('education', educationId, candidateId);
+        }
+        return education;
+    };
+
+    const findWorkExperienceOrThrow = async (candidateId: number, workExperienceId: number) => {
+        const workExperience = await prismaClient.workExperience.findFirst({
+            where: { id: workExperienceId, candidateId },
+        });
+        if (!workExperience) {
+            throw new CandidateRecordNotFoundError('work experience', workExperienceId, candidateId);
+        }
+        return workExperience;
+    };
+
+    /**
+     * Adds an education to a candidate
+     * @param candidateId - The ID of the candidate
+     * @param request - Institution, title, start date and optional end date
+     * @returns Promise<EducationData> - The created education
+     */
+    const addEducation = async (candidateId: number, request: EducationRequest): Promise<EducationData> => {
+        assertCandidateId(candidateId);
+        assertObjectBody(request);
+        runValidation(() => validateEducationData(request));
+
+        try {
+            await findProfileOrThrow(candidateId);
+            const education = await prismaClient.education.create({ data: buildEducationCreate(candidateId, request) });
+            await refreshSearch(candidateId);
+            return education;
+        } catch (error) {
+            return wrapError(error, 'add education');
+        }
+    };
+
+    /**
+     * Updates the supplied fields of one of a candidate's educations
+     * @param candidateId - The ID of the candidate
+     * @param educationId - The ID of the education
+     * @param request - Fields to change
+     * @returns Promise<EducationData> - The updated education
+     */
+    const updateEducation = async (
+        candidateId: number,
+        educationId: number,
+        request: EducationRequest,
+    ): Promise<EducationData> => {
+        assertCandidateId(candidateId);
+        assertRecordId('education', educationId);
+        assertObjectBody(request);
+        const data = buildEducationUpdate(request);
+        if (Object.keys(data).length === 0) {
+            throw new InvalidCandidateDataError('provide at least one of institution, title, startDate, endDate');
+        }
+        runValidation(() => validateEducationData(request, true));
+
+        try {
+            await findEducationOrThrow(candidateId, educationId);
+            const education = await prismaClient.education.update({ where: { id: educationId }, data });
+            await refreshSearch(candidateId);
+            return education;
+        } catch (error) {
+            return wrapError(error, 'update education');
+        }
+    };
+
+    /**
+     * Removes one of a candidate's educations
+     * @param candidateId - The ID of the candidate
+     * @param educationId - The ID of the education
+     * @returns Promise<CandidateProfileData> - The candidate profile without the education
+     */
+    const removeEducation = async (candidateId: number, educationId: number): Promise<CandidateProfileData> => {
+        assertCandidateId(candidateId);
+        assertRecordId('education', educationId);
+
+        try {
+            await findEducationOrThrow(candidateId, educationId);
+            await prismaClient.education.delete({ where: { id: educationId } });
+            await refreshSearch(candidateId);
+            return await findProfileOrThrow(candidateId);
+        } catch (error) {
+            return wrapError(error, 'remove education');
+        }
+    };
+
+    /**
+     * Adds a work experience to a candidate
+     * @param candidateId - The ID of the candidate
+     * @param request - Company, position, start date and optional description and end date
+     * @returns Promise<WorkExperienceData> - The created work experience
+     */
+    const addWorkExperience = async (
+        candidateId: number,
+        request: WorkExperienceRequest,
+    ): Promise<WorkExperienceData> => {
+        assertCandidateId(candidateId);
+        assertObjectBody(request);
+        runValidation(() => validateWorkExperienceData(request));
+
+        try {
+            await findProfileOrThrow(candidateId);
+            const workExperience = await prismaClient.workExperience.create({
+                data: buildWorkExperienceCreate(candidateId, request),
+            });
+            await refreshSearch(candidateId);
+            return workExperience;
+        } catch (error) {
+            return wrapError(error, 'add work experience');
+        }
+    };
+
+    /**
+     * Updates the supplied fields of one of a candidate's work experiences
+     * @param candidateId - The ID of the candidate
+     * @param workExperienceId - The ID of the work experience
+     * @param request - Fields to change
+     * @returns Promise<WorkExperienceData> - The updated work experience
+     */
+    const updateWorkExperience = async (
+        candidateId: number,
+        workExperienceId: number,
+        request: WorkExperienceRequest,
+    ): Promise<WorkExperienceData> => {
+        assertCandidateId(candidateId);
+        assertRecordId('work experience', workExperienceId);
+        assertObjectBody(request);
+        const data = buildWorkExperienceUpdate(request);
+        if (Object.keys(data).length === 0) {
+            throw new InvalidCandidateDataError(
+                'provide at least one of company, position, description, startDate, endDate',
+            );
+        }
+        runValidation(() => validateWorkExperienceData(request, true));
+
+        try {
+            await findWorkExperienceOrThrow(candidateId, workExperienceId);
+            const workExperience = await prismaClient.workExperience.update({ where: { id: workExperienceId }, data });
+            await refreshSearch(candidateId);
+            return workExperience;
+        } catch (error) {
+            return wrapError(error, 'update work experience');
+        }
+    };
+
+    /**
+     * Removes one of a candidate's work experiences
+     * @param candidateId - The ID of the candidate
+     * @param workExperienceId - The ID of the work experience
+     * @returns Promise<CandidateProfileData> - The candidate profile without the work experience
+     */
+    const removeWorkExperience = async (
+        candidateId: number,
+        workExperienceId: number,
+    ): Promise<CandidateProfileData> => {
+        assertCandidateId(candidateId);
+        assertRecordId('work experience', workExperienceId);
+
+        try {
+            await findWorkExperienceOrThrow(candidateId, workExperienceId);
+            await prismaClient.workExperience.delete({ where: { id: workExperienceId } });
+            await refreshSearch(candidateId);
+            return await findProfileOrThrow(candidateId);
+        } catch (error) {
+            return wrapError(error, 'remove work experience');
+        }
+    };
+
+    return {
+        listCandidates,
+        replaceCandidate,
+        updateCandidate,
+        deleteCandidate,
+        addEducation,
+        updateEducation,
+        removeEducation,
+        addWorkExperience,
+        updateWorkExperience,
+        removeWorkExperience,
+    };
 };
+
+// Default instance with real Prisma client
+const candidateService = createCandidateService(prisma);
+
+export const listCandidates = candidateService.listCandidates;
+export const replaceCandidate = candidateService.replaceCandidate;
+export const updateCandidate = candidateService.updateCandidate;
+export const deleteCandidate = candidateService.deleteCandidate;
+export const addEducation = candidateService.addEducation;
+export const updateEducation = candidateService.updateEducation;
+export const removeEducation = candidateService.removeEducation;
+export const addWorkExperience = candidateService.addWorkExperience;
+export const updateWorkExperience = candidateService.updateWorkExperience;
+export const removeWorkExperience = candidateService.removeWorkExperience;
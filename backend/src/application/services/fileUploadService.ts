@@ -1,15 +1,16 @@
 import multer from 'multer';
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
+import { parseResume } from '../resumeParser';
+import { getFileStorage } from '../storage/fileStorage';
+import { sanitizeFileName } from '../storage/storageKeys';
+import { inspectUpload } from '../uploadInspection';
+import { recordUpload } from './uploadService';
+import { DependencyFailureError, InvalidUploadError, UploadRejectedError } from '../../types/errors';
+import { ResumeParseResult, UploadedResume } from '../../types/resume';
+import { QUARANTINE_FOLDER } from '../../types/storage';
 
-const storage = multer.diskStorage({
-    destination: function (req, file, cb) {
-        cb(null, '../uploads/');
-    },
-    filename: function (req, file, cb) {
-        const uniqueSuffix = Date.now();
-        cb(null, uniqueSuffix + '-' + file.originalname);
-    }
-});
+// Los archivos se guardan en memoria hasta pasarlos al almacenamiento configurado
+const storage = multer.memoryStorage();
 
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
     if (file.mimetype === 'application/pdf' || file.mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
@@ -27,25 +28,94 @@ const upload = multer({
     fileFilter: fileFilter
 });
 
-export const uploadFile = (req: Request, res: Response) => {
-    const uploader = upload.single('file');
-    uploader(req, res, function (err) {
-        if (err instanceof multer.MulterError) {
-            // Manejo de errores específicos de Multer
-            return res.status(500).json({ error: err.message });
-        } else if (err) {
-            // Otros errores posibles
-            return res.status(500).json({ error: err.message });
-        }
-
-        // Verificar si el archivo fue rechazado por el filtro de archivos
-        if (!req.file) {
-            return res.status(400).json({ error: 'Invalid file type, only PDF and DOCX are allowed!' });
-        }
-        // Si todo está bien, proceder a responder con la ruta del archivo y el tipo de archivo
-        res.status(200).json({
-            filePath: req.file.path,
-            fileType: req.file.mimetype  // Aquí se añade el tipo de archivo
+/**
+ * Runs the upload of the "file" field, verifies and scans its content and writes it to storage.
+ * Files that fail verification or the scan are written to the quarantine folder and come back with
+ * scanStatus Quarantined.
+ * @returns Promise<UploadedResume> - The stored file
+ * @throws InvalidUploadError when the file is missing, of another type or over the limits
+ * @throws DependencyFailureError when the file cannot be written to storage
+ */
+export const receiveUpload = (req: Request, res: Response): Promise<UploadedResume> =>
+    new Promise((resolve, reject) => {
+        const uploader = upload.single('file');
+        uploader(req, res, async function (err) {
+            if (err instanceof multer.MulterError) {
+                // Manejo de errores específicos de Multer (tamaño, campos inesperados)
+                return reject(new InvalidUploadError(err.message));
+            } else if (err) {
+                // Otros errores posibles
+                return reject(err);
+            }
+
+            // Verificar si el archivo fue rechazado por el filtro de archivos
+            if (!req.file) {
+                return reject(new InvalidUploadError('only PDF and DOCX files are allowed'));
+            }
+
+            try {
+                // El tipo declarado por el cliente no es fiable; se comprueba el contenido
+                const inspection = await inspectUpload(req.file.buffer, req.file.mimetype);
+                const quarantined = inspection.scanStatus === 'Quarantined';
+                if (quarantined) {
+                    console.warn(`Archivo en cuarentena (${req.file.originalname}): ${inspection.scanDetail}`);
+                }
+
+                const stored = await getFileStorage().save(
+                    req.file.buffer,
+                    req.file.originalname,
+                    inspection.fileType,
+                    quarantined ? QUARANTINE_FOLDER : undefined
+                );
+                resolve({
+                    filePath: stored.key,
+                    fileType: inspection.fileType,
+                    originalName: sanitizeFileName(req.file.originalname),
+                    fileSize: stored.size,
+                    scanStatus: inspection.scanStatus,
+                    scanDetail: inspection.scanDetail,
+                    scannedAt: inspection.scannedAt
+                });
+            } catch (error) {
+                console.error('Error al guardar el archivo:', error);
+                reject(new DependencyFailureError('File storage', 'could not store the uploaded file'));
+            }
         });
     });
-};
\ No newline at end of file
+
+export const uploadFile = async (req: Request, res: Response, next: NextFunction) => {
+    let file: UploadedResume;
+    try {
+        file = await receiveUpload(req, res);
+    } catch (error) {
+        return next(error);
+    }
+    if (file.scanStatus === 'Quarantined') {
+        return next(new UploadRejectedError(file.scanDetail));
+    }
+
+    // Solo las claves registradas aquí pueden adjuntarse después como CV de un candidato nuevo
+    try {
+        await recordUpload(file, req.employee!);
+    } catch (error) {
+        return next(error);
+    }
+
+    // Sugerencia para prerrellenar el candidato; un CV ilegible no impide la subida
+    let parsed: ResumeParseResult | null = null;
+    try {
+        parsed = await parseResume(req.file!.buffer, file.fileType);
+    } catch (error) {
+        console.error('Error al analizar el CV:', error);
+    }
+
+    // Si todo está bien, proceder a responder con la clave del archivo en el almacenamiento y su tipo
+    res.status(200).json({
+        filePath: file.filePath,
+        fileType: file.fileType,  // Aquí se añade el tipo de archivo
+        originalName: file.originalName,
+        fileSize: file.fileSize,
+        suggestion: parsed?.suggestion ?? null,
+        confidence: parsed?.confidence ?? null
+    });
+};
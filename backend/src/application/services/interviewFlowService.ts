@@ -0,0 +1,640 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  AppError,
+  DuplicateStepNameError,
+  InterviewFlowInUseError,
+  InterviewFlowNotFoundError,
+  InterviewStepNotFoundError,
+  InterviewTypeNotFoundError,
+  InvalidInterviewFlowDataError,
+  SharedTemplateError,
+  StepHasApplicationsError
+} from '../../types/errors';
+import {
+  CloneInterviewFlowRequest,
+  CreateInterviewFlowRequest,
+  CreateInterviewStepRequest,
+  CreateInterviewTypeRequest,
+  DeleteInterviewFlowResponse,
+  InterviewFlowData,
+  InterviewFlowListResponse,
+  InterviewFlowRules,
+  InterviewStepData,
+  InterviewTypeData,
+  InterviewTypeListResponse,
+  RemoveInterviewStepResponse,
+  UpdateInterviewFlowRequest,
+  UpdateInterviewStepRequest
+} from '../../types/interviewFlow';
+import { prisma } from '../database';
+
+const stepInclude = Prisma.validator<Prisma.InterviewStepInclude>()({
+  interviewType: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+});
+
+const flowInclude = Prisma.validator<Prisma.InterviewFlowInclude>()({
+  interviewSteps: {
+    orderBy: { orderIndex: 'asc' },
+    include: stepInclude,
+  },
+});
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const validateId = (field: string, value: unknown): number => {
+  if (!isPositiveInteger(value)) {
+    throw new InvalidInterviewFlowDataError(field, 'must be a positive integer');
+  }
+  return value;
+};
+
+const validateName = (field: string, value: unknown): string => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new InvalidInterviewFlowDataError(field, 'is required');
+  }
+  return value.trim();
+};
+
+const validateDescription = (value: unknown): string | null | undefined => {
+  if (value === undefined || value === null) return value;
+  if (typeof value !== 'string') {
+    throw new InvalidInterviewFlowDataError('description', 'must be a string');
+  }
+  return value.trim();
+};
+
+/**
+ * Validates the transition rules present in a request, leaving absent ones undefined
+ */
+const validateRules = (request: Partial<InterviewFlowRules> | undefined): Partial<InterviewFlowRules> => {
+  const rules: Partial<InterviewFlowRules> = {};
+
+  if (request?.maxStepsForward !== undefined) {
+    rules.maxStepsForward = validateId('maxStepsForward', request.maxStepsForward);
+  }
+  if (request?.requireScoredInterview !== undefined) {
+    if (typeof request.requireScoredInterview !== 'boolean') {
+      throw new InvalidInterviewFlowDataError('requireScoredInterview', 'must be a boolean');
+    }
+    rules.requireScoredInterview = request.requireScoredInterview;
+  }
+  if (request?.rejectionStepName !== undefined) {
+    rules.rejectionStepName =
+      request.rejectionStepName === null ? null : validateName('rejectionStepName', request.rejectionStepName);
+  }
+
+  return rules;
+};
+
+const wrapError = (error: unknown, action: string): never => {
+  console.error(`Error trying to ${action}:`, error);
+
+  if (error instanceof AppError) {
+    throw error;
+  }
+
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  throw new Error(`Failed to ${action}: ${errorMessage}`);
+};
+
+// Export for dependency injection in tests
+export const createInterviewFlowService = (prismaClient: PrismaClient) => {
+  /**
+   * Loads a flow with its ordered steps or throws InterviewFlowNotFoundError
+   */
+  const findFlowOrThrow = async (interviewFlowId: number): Promise<InterviewFlowData> => {
+    const interviewFlow = await prismaClient.interviewFlow.findUnique({
+      where: { id: interviewFlowId },
+      include: flowInclude,
+    });
+
+    if (!interviewFlow) {
+      throw new InterviewFlowNotFoundError(interviewFlowId);
+    }
+
+    return interviewFlow;
+  };
+
+  /**
+   * Loads a flow the company may change, or throws SharedTemplateError for a shared template
+   */
+  const findOwnFlowOrThrow = async (interviewFlowId: number): Promise<InterviewFlowData> => {
+    const interviewFlow = await findFlowOrThrow(interviewFlowId);
+
+    if (interviewFlow.companyId === null) {
+      throw new SharedTemplateError('Interview flow', interviewFlowId);
+    }
+
+    return interviewFlow;
+  };
+
+  /**
+   * Loads a step belonging to the given flow or throws InterviewStepNotFoundError
+   */
+  const findStepInFlowOrThrow = async (interviewFlowId: number, stepId: number) => {
+    const step = await prismaClient.interviewStep.findFirst({
+      where: { id: stepId, interviewFlowId },
+    });
+
+    if (!step) {
+      throw new InterviewStepNotFoundError(stepId, interviewFlowId);
+    }
+
+    return step;
+  };
+
+  const assertInterviewTypesExist = async (interviewTypeIds: number[]) => {
+    const uniqueIds = Array.from(new Set(interviewTypeIds));
+    const found = await prismaClient.interviewType.findMany({
+      where: { id: { in: uniqueIds } },
+      select: { id: true },
+    });
+    const foundIds = new Set(found.map((interviewType) => interviewType.id));
+    const missingId = uniqueIds.find((id) => !foundIds.has(id));
+
+    if (missingId !== undefined) {
+      throw new InterviewTypeNotFoundError(missingId);
+    }
+  };
+
+  /**
+   * Step names are unique per flow, compared case-insensitively
+   */
+  const assertStepNameAvailable = async (interviewFlowId: number, name: string, excludeStepId?: number) => {
+    const clash = await prismaClient.interviewStep.findFirst({
+      where: {
+        interviewFlowId,
+        name: { equals: name, mode: 'insensitive' },
+        ...(excludeStepId ? { NOT: { id: excludeStepId } } : {}),
+      },
+    });
+
+    if (clash) {
+      throw new DuplicateStepNameError(name, interviewFlowId);
+    }
+  };
+
+  /**
+   * Creates a flow, optionally with its initial steps in the given order
+   * @param request - Description and ordered steps
+   * @returns Promise<InterviewFlowData> - The created flow
+   */
+  const createInterviewFlow = async (request: CreateInterviewFlowRequest): Promise<InterviewFlowData> => {
+    const description = validateDescription(request?.description);
+    const rules = validateRules(request);
+    const stepsInput = request?.steps ?? [];
+
+    if (!Array.isArray(stepsInput)) {
+      throw new InvalidInterviewFlowDataError('steps', 'must be an array');
+    }
+
+    const steps = stepsInput.map((step, index) => ({
+      name: validateName(`steps[${index}].name`, step?.name),
+      interviewTypeId: validateId(`steps[${index}].interviewTypeId`, step?.interviewTypeId),
+      orderIndex: index + 1,
+    }));
+
+    const seenNames = new Set<string>();
+    for (const step of steps) {
+      const key = step.name.toLowerCase();
+      if (seenNames.has(key)) {
+        throw new InvalidInterviewFlowDataError('steps', `contains the step name ${step.name} more than once`);
+      }
+      seenNames.add(key);
+    }
+
+    try {
+      await assertInterviewTypesExist(steps.map((step) => step.interviewTypeId));
+
+      return await prismaClient.interviewFlow.create({
+        data: {
+          description,
+          ...rules,
+          interviewSteps: { create: steps },
+        },
+        include: flowInclude,
+      });
+    } catch (error) {
+      return wrapError(error, 'create interview flow');
+    }
+  };
+
+  /**
+   * Lists all flows with their ordered steps
+   * @returns Promise<InterviewFlowListResponse> - The flows ordered by id
+   */
+  const listInterviewFlows = async (): Promise<InterviewFlowListResponse> => {
+    try {
+      const interviewFlows = await prismaClient.interviewFlow.findMany({
+        include: flowInclude,
+        orderBy: { id: 'asc' },
+      });
+
+      return { interviewFlows };
+    } catch (error) {
+      return wrapError(error, 'list interview flows');
+    }
+  };
+
+  /**
+   * Retrieves a flow with its ordered steps
+   * @param interviewFlowId - The ID of the flow
+   * @returns Promise<InterviewFlowData> - The flow
+   */
+  const getInterviewFlow = async (interviewFlowId: number): Promise<InterviewFlowData> => {
+    validateId('interviewFlowId', interviewFlowId);
+
+    try {
+      return await findFlowOrThrow(interviewFlowId);
+    } catch (error) {
+      return wrapError(error, 'retrieve interview flow');
+    }
+  };
+
+  /**
+   * Updates the description and transition rules of a flow
+   * @param interviewFlowId - The ID of the flow
+   * @param request - The new description and/or rules
+   * @returns Promise<InterviewFlowData> - The updated flow
+   */
+  const updateInterviewFlow = async (
+    interviewFlowId: number,
+    request: UpdateInterviewFlowRequest,
+  ): Promise<InterviewFlowData> => {
+    validateId('interviewFlowId', interviewFlowId);
+    const description = validateDescription(request?.description);
+    const rules = validateRules(request);
+
+    try {
+      await findOwnFlowOrThrow(interviewFlowId);
+
+      return await prismaClient.interviewFlow.update({
+        where: { id: interviewFlowId },
+        data: { description, ...rules },
+        include: flowInclude,
+      });
+    } catch (error) {
+      return wrapError(error, 'update interview flow');
+    }
+  };
+
+  /**
+   * Deletes a flow and its steps when no position uses it
+   * @param interviewFlowId - The ID of the flow
+   * @returns Promise<DeleteInterviewFlowResponse> - Success status and deleted id
+   */
+  const deleteInterviewFlow = async (interviewFlowId: number): Promise<DeleteInterviewFlowResponse> => {
+    validateId('interviewFlowId', interviewFlowId);
+
+    try {
+      await findOwnFlowOrThrow(interviewFlowId);
+
+      const positionCount = await prismaClient.position.count({
+        where: { interviewFlowId },
+      });
+      if (positionCount > 0) {
+        throw new InterviewFlowInUseError(`Interview flow ${interviewFlowId} is used by ${positionCount} position(s)`);
+      }
+
+      await prismaClient.$transaction([
+        prismaClient.interviewStep.deleteMany({ where: { interviewFlowId } }),
+        prismaClient.interviewFlow.delete({ where: { id: interviewFlowId } }),
+      ]);
+
+      return {
+        success: true,
+        interviewFlowId,
+      };
+    } catch (error) {
+      return wrapError(error, 'delete interview flow');
+    }
+  };
+
+  /**
+   * Copies a flow and its steps into a new, unused flow
+   * @param interviewFlowId - The ID of the flow to copy
+   * @param request - Optional description for the copy
+   * @returns Promise<InterviewFlowData> - The new flow
+   */
+  const cloneInterviewFlow = async (
+    interviewFlowId: number,
+    request: CloneInterviewFlowRequest = {},
+  ): Promise<InterviewFlowData> => {
+    validateId('interviewFlowId', interviewFlowId);
+    const description = validateDescription(request?.description);
+
+    try {
+      const source = await findFlowOrThrow(interviewFlowId);
+
+      return await prismaClient.interviewFlow.create({
+        data: {
+          description: description ?? `${source.description ?? `Interview flow ${source.id}`} (copy)`,
+          maxStepsForward: source.maxStepsForward,
+          requireScoredInterview: source.requireScoredInterview,
+          rejectionStepName: source.rejectionStepName,
+          interviewSteps: {
+            create: source.interviewSteps.map((step) => ({
+              name: step.name,
+              interviewTypeId: step.interviewTypeId,
+              orderIndex: step.orderIndex,
+            })),
+          },
+        },
+        include: flowInclude,
+      });
+    } catch (error) {
+      return wrapError(error, 'clone interview flow');
+    }
+  };
+
+  /**
+   * Adds a step to a flow. Without orderIndex the step is appended; otherwise later steps shift down.
+   * @param interviewFlowId - The ID of the flow
+   * @param request - Step name, interview type and optional position
+   * @returns Promise<InterviewStepData> - The created step
+   */
+  const addInterviewStep = async (
+    interviewFlowId: number,
+    request: CreateInterviewStepRequest,
+  ): Promise<InterviewStepData> => {
+    validateId('interviewFlowId', interviewFlowId);
+    const name = validateName('name', request?.name);
+    const interviewTypeId = validateId('interviewTypeId', request?.interviewTypeId);
+    if (request.orderIndex !== undefined) {
+      validateId('orderIndex', request.orderIndex);
+    }
+
+    try {
+      const interviewFlow = await findOwnFlowOrThrow(interviewFlowId);
+      await assertInterviewTypesExist([interviewTypeId]);
+      await assertStepNameAvailable(interviewFlowId, name);
+
+      const lastIndex = interviewFlow.interviewSteps.reduce((max, step) => Math.max(max, step.orderIndex), 0);
+      const orderIndex = request.orderIndex !== undefined ? Math.min(request.orderIndex, lastIndex + 1) : lastIndex + 1;
+
+      const [, step] = await prismaClient.$transaction([
+        prismaClient.interviewStep.updateMany({
+          where: { interviewFlowId, orderIndex: { gte: orderIndex } },
+          data: { orderIndex: { increment: 1 } },
+        }),
+        prismaClient.interviewStep.create({
+          data: { interviewFlowId, interviewTypeId, name, orderIndex },
+          include: stepInclude,
+        }),
+      ]);
+
+      return step;
+    } catch (error) {
+      return wrapError(error, 'add interview step');
+    }
+  };
+
+  /**
+   * Renames a step or changes its interview type
+   * @param interviewFlowId - The ID of the flow
+   * @param stepId - The ID of the step
+   * @param request - New name and/or interview type
+   * @returns Promise<InterviewStepData> - The updated step
+   */
+  const updateInterviewStep = async (
+    interviewFlowId: number,
+    stepId: number,
+    request: UpdateInterviewStepRequest,
+  ): Promise<InterviewStepData> => {
+    validateId('interviewFlowId', interviewFlowId);
+    validateId('stepId', stepId);
+
+    const data: Prisma.InterviewStepUncheckedUpdateInput = {};
+    if (request?.name !== undefined) data.name = validateName('name', request.name);
+    if (request?.interviewTypeId !== undefined) {
+      data.interviewTypeId = validateId('interviewTypeId', request.interviewTypeId);
+    }
+    if (Object.keys(data).length === 0) {
+      throw new InvalidInterviewFlowDataError('body', 'must contain name or interviewTypeId');
+    }
+
+    try {
+      await findOwnFlowOrThrow(interviewFlowId);
+      await findStepInFlowOrThrow(interviewFlowId, stepId);
+
+      if (data.interviewTypeId !== undefined) {
+        await assertInterviewTypesExist([data.interviewTypeId as number]);
+      }
+      if (data.name !== undefined) {
+        await assertStepNameAvailable(interviewFlowId, data.name as string, stepId);
+      }
+
+      return await prismaClient.interviewStep.update({
+        where: { id: stepId },
+        data,
+        include: stepInclude,
+      });
+    } catch (error) {
+      return wrapError(error, 'update interview step');
+    }
+  };
+
+  /**
+   * Removes a step. Applications on the step are moved to `migrateToStepId`, which is required when any exist,
+   * and each move is recorded in the application's stage history.
+   * Steps with recorded interviews cannot be removed, nor can the last step of a flow used by Open positions.
+   * @param interviewFlowId - The ID of the flow
+   * @param stepId - The ID of the step to remove
+   * @param migrateToStepId - Step of the same flow that receives the step's applications
+   * @param changedById - The employee removing the step, recorded on each move
+   * @returns Promise<RemoveInterviewStepResponse> - Success status and number of migrated applications
+   */
+  const removeInterviewStep = async (
+    interviewFlowId: number,
+    stepId: number,
+    migrateToStepId?: number,
+    changedById?: number,
+  ): Promise<RemoveInterviewStepResponse> => {
+    validateId('interviewFlowId', interviewFlowId);
+    validateId('stepId', stepId);
+    if (migrateToStepId !== undefined) {
+      validateId('migrateToStepId', migrateToStepId);
+      if (migrateToStepId === stepId) {
+        throw new InvalidInterviewFlowDataError('migrateToStepId', 'must be a different step');
+      }
+    }
+
+    try {
+      const interviewFlow = await findOwnFlowOrThrow(interviewFlowId);
+      const step = await findStepInFlowOrThrow(interviewFlowId, stepId);
+
+      const interviewCount = await prismaClient.interview.count({
+        where: { interviewStepId: stepId },
+      });
+      if (interviewCount > 0) {
+        throw new InterviewFlowInUseError(`Interview step ${stepId} has recorded interviews and cannot be removed`);
+      }
+
+      if (interviewFlow.interviewSteps.length === 1) {
+        const openPositionCount = await prismaClient.position.count({
+          where: { interviewFlowId, status: 'Open' },
+        });
+        if (openPositionCount > 0) {
+          throw new InterviewFlowInUseError(
+            `Interview step ${stepId} is the last step of a flow used by ${openPositionCount} open position(s)`,
+          );
+        }
+      }
+
+      const applications = await prismaClient.application.findMany({
+        where: { currentInterviewStep: stepId },
+        select: { id: true },
+      });
+
+      if (applications.length > 0 && migrateToStepId === undefined) {
+        throw new StepHasApplicationsError(stepId, applications.length);
+      }
+
+      const targetStep =
+        migrateToStepId !== undefined ? await findStepInFlowOrThrow(interviewFlowId, migrateToStepId) : null;
+
+      const operations: Prisma.PrismaPromise<unknown>[] = [];
+      if (applications.length > 0 && targetStep) {
+        operations.push(
+          prismaClient.application.updateMany({
+            where: { currentInterviewStep: stepId },
+            data: { currentInterviewStep: targetStep.id },
+          }),
+          prismaClient.applicationStageHistory.createMany({
+            data: applications.map((application) => ({
+              applicationId: application.id,
+              fromStepId: stepId,
+              fromStepName: step.name,
+              toStepId: targetStep.id,
+              toStepName: targetStep.name,
+              changedById: changedById ?? null,
+              reason: `Interview step ${step.name} was removed`,
+            })),
+          }),
+        );
+      }
+      operations.push(prismaClient.interviewStep.delete({ where: { id: stepId } }));
+
+      await prismaClient.$transaction(operations);
+
+      return {
+        success: true,
+        stepId,
+        migratedApplications: applications.length,
+      };
+    } catch (error) {
+      return wrapError(error, 'remove interview step');
+    }
+  };
+
+  /**
+   * Atomically reorders all steps of a flow
+   * @param interviewFlowId - The ID of the flow
+   * @param stepIds - Every step id of the flow, in the desired order
+   * @returns Promise<InterviewFlowData> - The reordered flow
+   */
+  const reorderInterviewSteps = async (interviewFlowId: number, stepIds: number[]): Promise<InterviewFlowData> => {
+    validateId('interviewFlowId', interviewFlowId);
+    if (!Array.isArray(stepIds) || stepIds.length === 0) {
+      throw new InvalidInterviewFlowDataError('stepIds', 'must be a non-empty array');
+    }
+    stepIds.forEach((stepId, index) => validateId(`stepIds[${index}]`, stepId));
+    if (new Set(stepIds).size !== stepIds.length) {
+      throw new InvalidInterviewFlowDataError('stepIds', 'must not contain duplicates');
+    }
+
+    try {
+      const interviewFlow = await findOwnFlowOrThrow(interviewFlowId);
+      const currentIds = new Set(interviewFlow.interviewSteps.map((step) => step.id));
+
+      if (currentIds.size !== stepIds.length || stepIds.some((stepId) => !currentIds.has(stepId))) {
+        throw new InvalidInterviewFlowDataError('stepIds', 'must list every step of the flow exactly once');
+      }
+
+      await prismaClient.$transaction(
+        stepIds.map((stepId, index) =>
+          prismaClient.interviewStep.update({
+            where: { id: stepId },
+            data: { orderIndex: index + 1 },
+          }),
+        ),
+      );
+
+      return await findFlowOrThrow(interviewFlowId);
+    } catch (error) {
+      return wrapError(error, 'reorder interview steps');
+    }
+  };
+
+  /**
+   * Lists all interview types
+   * @returns Promise<InterviewTypeListResponse> - The interview types ordered by id
+   */
+  const listInterviewTypes = async (): Promise<InterviewTypeListResponse> => {
+    try {
+      const interviewTypes = await prismaClient.interviewType.findMany({
+        orderBy: { id: 'asc' },
+      });
+
+      return { interviewTypes };
+    } catch (error) {
+      return wrapError(error, 'list interview types');
+    }
+  };
+
+  /**
+   * Creates an interview type that steps can reference
+   * @param request - Name and optional description
+   * @returns Promise<InterviewTypeData> - The created interview type
+   */
+  const createInterviewType = async (request: CreateInterviewTypeRequest): Promise<InterviewTypeData> => {
+    const name = validateName('name', request?.name);
+    const description = validateDescription(request?.description);
+
+    try {
+      return await prismaClient.interviewType.create({
+        data: { name, description },
+      });
+    } catch (error) {
+      return wrapError(error, 'create interview type');
+    }
+  };
+
+  return {
+    createInterviewFlow,
+    listInterviewFlows,
+    getInterviewFlow,
+    updateInterviewFlow,
+    deleteInterviewFlow,
+    cloneInterviewFlow,
+    addInterviewStep,
+    updateInterviewStep,
+    removeInterviewStep,
+    reorderInterviewSteps,
+    listInterviewTypes,
+    createInterviewType,
+  };
+};
+
+// Default instance with real Prisma client. A company only changes the flows it owns, which only its
+// own positions can use, so the usage checks see every position and application of a flow
+const interviewFlowService = createInterviewFlowService(prisma);
+
+export const createInterviewFlow = interviewFlowService.createInterviewFlow;
+export const listInterviewFlows = interviewFlowService.listInterviewFlows;
+export const getInterviewFlow = interviewFlowService.getInterviewFlow;
+export const updateInterviewFlow = interviewFlowService.updateInterviewFlow;
+export const deleteInterviewFlow = interviewFlowService.deleteInterviewFlow;
+export const cloneInterviewFlow = interviewFlowService.cloneInterviewFlow;
+export const addInterviewStep = interviewFlowService.addInterviewStep;
+export const updateInterviewStep = interviewFlowService.updateInterviewStep;
+export const removeInterviewStep = interviewFlowService.removeInterviewStep;
+export const reorderInterviewSteps = interviewFlowService.reorderInterviewSteps;
+export const listInterviewTypes = interviewFlowService.listInterviewTypes;
+export const createInterviewType = interviewFlowService.createInterviewType;
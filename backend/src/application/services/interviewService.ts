@@ -0,0 +1,388 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  AppError,
+  ApplicationNotFoundError,
+  EmployeeNotFoundError,
+  InterviewerNotEligibleError,
+  InterviewNotFoundError,
+  InvalidApplicationIdError,
+  InvalidInterviewDataError,
+  InvalidInterviewIdError,
+  InvalidInterviewStateError,
+  ScorecardRequiredError,
+  StepNotInFlowError
+} from '../../types/errors';
+import {
+  CancelInterviewRequest,
+  INTERVIEW_RESULTS,
+  INTERVIEW_SCORE_MAX,
+  INTERVIEW_SCORE_MIN,
+  InterviewData,
+  InterviewListResponse,
+  RescheduleInterviewRequest,
+  ScheduleInterviewRequest,
+  SubmitInterviewResultRequest
+} from '../../types/interview';
+import { prisma } from '../database';
+
+const interviewInclude = Prisma.validator<Prisma.InterviewInclude>()({
+  interviewStep: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  employee: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+});
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const validateId = (field: string, value: unknown): number => {
+  if (!isPositiveInteger(value)) {
+    throw new InvalidInterviewDataError(field, 'must be a positive integer');
+  }
+  return value;
+};
+
+/**
+ * Parses a scheduled interview date, which must lie in the future
+ */
+const parseInterviewDate = (value: unknown): Date => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new InvalidInterviewDataError('interviewDate', 'must be an ISO date string');
+  }
+  const interviewDate = new Date(value);
+  if (isNaN(interviewDate.getTime())) {
+    throw new InvalidInterviewDataError('interviewDate', 'must be an ISO date string');
+  }
+  if (interviewDate.getTime() <= Date.now()) {
+    throw new InvalidInterviewDataError('interviewDate', 'must be in the future');
+  }
+  return interviewDate;
+};
+
+const validateOptionalText = (field: string, value: unknown): string | null | undefined => {
+  if (value === undefined || value === null) return value;
+  if (typeof value !== 'string') {
+    throw new InvalidInterviewDataError(field, 'must be a string');
+  }
+  return value.trim() || null;
+};
+
+const wrapError = (error: unknown, action: string): never => {
+  console.error(`Error trying to ${action}:`, error);
+
+  if (error instanceof AppError) {
+    throw error;
+  }
+
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  throw new Error(`Failed to ${action}: ${errorMessage}`);
+};
+
+// Export for dependency injection in tests
+export const createInterviewService = (prismaClient: PrismaClient) => {
+  /**
+   * Loads an application with the company and flow of its position or throws ApplicationNotFoundError
+   */
+  const findApplicationOrThrow = async (applicationId: number) => {
+    const application = await prismaClient.application.findUnique({
+      where: { id: applicationId },
+      include: {
+        position: {
+          select: {
+            companyId: true,
+            interviewFlowId: true,
+          },
+        },
+      },
+    });
+
+    if (!application) {
+      throw new ApplicationNotFoundError(applicationId);
+    }
+
+    return application;
+  };
+
+  const findInterviewOrThrow = async (interviewId: number) => {
+    const interview = await prismaClient.interview.findUnique({
+      where: { id: interviewId },
+      include: interviewInclude,
+    });
+
+    if (!interview) {
+      throw new InterviewNotFoundError(interviewId);
+    }
+
+    return interview;
+  };
+
+  /**
+   * Interviewers must be active employees of the company that owns the position
+   */
+  const assertEligibleInterviewer = async (employeeId: number, companyId: number) => {
+    const employee = await prismaClient.employee.findUnique({
+      where: { id: employeeId },
+    });
+
+    if (!employee) {
+      throw new EmployeeNotFoundError(employeeId);
+    }
+    if (!employee.isActive) {
+      throw new InterviewerNotEligibleError(employeeId, 'employee is inactive');
+    }
+    if (employee.companyId !== companyId) {
+      throw new InterviewerNotEligibleError(employeeId, "employee does not belong to the position's company");
+    }
+  };
+
+  /**
+   * Schedules an interview for an application at a step of its position's interview flow
+   * @param applicationId - The ID of the application
+   * @param request - Step, interviewer, future date and optional notes
+   * @returns Promise<InterviewData> - The scheduled interview
+   */
+  const scheduleInterview = async (
+    applicationId: number,
+    request: ScheduleInterviewRequest,
+  ): Promise<InterviewData> => {
+    if (!applicationId || applicationId <= 0) {
+      throw new InvalidApplicationIdError(applicationId);
+    }
+
+    const interviewStepId = validateId('interviewStepId', request?.interviewStepId);
+    const employeeId = validateId('employeeId', request?.employeeId);
+    const interviewDate = parseInterviewDate(request?.interviewDate);
+    const notes = validateOptionalText('notes', request?.notes);
+
+    try {
+      const application = await findApplicationOrThrow(applicationId);
+      const { interviewFlowId, companyId } = application.position;
+
+      const interviewStep = await prismaClient.interviewStep.findFirst({
+        where: { id: interviewStepId, interviewFlowId },
+      });
+      if (!interviewStep) {
+        throw new StepNotInFlowError(interviewStepId, interviewFlowId);
+      }
+
+      await assertEligibleInterviewer(employeeId, companyId);
+
+      return await prismaClient.interview.create({
+        data: {
+          applicationId,
+          interviewStepId,
+          employeeId,
+          interviewDate,
+          status: 'Scheduled',
+          notes,
+        },
+        include: interviewInclude,
+      });
+    } catch (error) {
+      return wrapError(error, 'schedule interview');
+    }
+  };
+
+  /**
+   * Lists the interviews of an application ordered by date
+   * @param applicationId - The ID of the application
+   * @returns Promise<InterviewListResponse> - The application's interviews
+   */
+  const listApplicationInterviews = async (applicationId: number): Promise<InterviewListResponse> => {
+    if (!applicationId || applicationId <= 0) {
+      throw new InvalidApplicationIdError(applicationId);
+    }
+
+    try {
+      await findApplicationOrThrow(applicationId);
+
+      const interviews = await prismaClient.interview.findMany({
+        where: { applicationId },
+        include: interviewInclude,
+        orderBy: [{ interviewDate: 'asc' }, { id: 'asc' }],
+      });
+
+      return { interviews };
+    } catch (error) {
+      return wrapError(error, 'list interviews');
+    }
+  };
+
+  /**
+   * Retrieves a single interview
+   * @param interviewId - The ID of the interview
+   * @returns Promise<InterviewData> - The interview
+   */
+  const getInterview = async (interviewId: number): Promise<InterviewData> => {
+    if (!interviewId || interviewId <= 0) {
+      throw new InvalidInterviewIdError(interviewId);
+    }
+
+    try {
+      return await findInterviewOrThrow(interviewId);
+    } catch (error) {
+      return wrapError(error, 'retrieve interview');
+    }
+  };
+
+  /**
+   * Moves a scheduled interview to another date and/or interviewer
+   * @param interviewId - The ID of the interview
+   * @param request - New future date and/or interviewer
+   * @returns Promise<InterviewData> - The rescheduled interview
+   */
+  const rescheduleInterview = async (
+    interviewId: number,
+    request: RescheduleInterviewRequest,
+  ): Promise<InterviewData> => {
+    if (!interviewId || interviewId <= 0) {
+      throw new InvalidInterviewIdError(interviewId);
+    }
+
+    const data: Prisma.InterviewUncheckedUpdateInput = {};
+    if (request?.interviewDate !== undefined) data.interviewDate = parseInterviewDate(request.interviewDate);
+    if (request?.employeeId !== undefined) data.employeeId = validateId('employeeId', request.employeeId);
+    if (Object.keys(data).length === 0) {
+      throw new InvalidInterviewDataError('body', 'must contain interviewDate or employeeId');
+    }
+
+    try {
+      const interview = await findInterviewOrThrow(interviewId);
+      if (interview.status !== 'Scheduled') {
+        throw new InvalidInterviewStateError(interviewId, interview.status, 'reschedule');
+      }
+
+      if (data.employeeId !== undefined) {
+        const application = await findApplicationOrThrow(interview.applicationId);
+        await assertEligibleInterviewer(data.employeeId as number, application.position.companyId);
+      }
+
+      return await prismaClient.interview.update({
+        where: { id: interviewId },
+        data,
+        include: interviewInclude,
+      });
+    } catch (error) {
+      return wrapError(error, 'reschedule interview');
+    }
+  };
+
+  /**
+   * Cancels a scheduled interview
+   * @param interviewId - The ID of the interview
+   * @param request - Optional cancellation reason
+   * @returns Promise<InterviewData> - The cancelled interview
+   */
+  const cancelInterview = async (interviewId: number, request: CancelInterviewRequest = {}): Promise<InterviewData> => {
+    if (!interviewId || interviewId <= 0) {
+      throw new InvalidInterviewIdError(interviewId);
+    }
+
+    const cancellationReason = validateOptionalText('reason', request?.reason);
+
+    try {
+      const interview = await findInterviewOrThrow(interviewId);
+      if (interview.status !== 'Scheduled') {
+        throw new InvalidInterviewStateError(interviewId, interview.status, 'cancel');
+      }
+
+      return await prismaClient.interview.update({
+        where: { id: interviewId },
+        data: {
+          status: 'Cancelled',
+          cancellationReason: cancellationReason ?? null,
+        },
+        include: interviewInclude,
+      });
+    } catch (error) {
+      return wrapError(error, 'cancel interview');
+    }
+  };
+
+  /**
+   * Records the result, score and notes of an interview that has taken place.
+   * Completed interviews can be re-scored; cancelled ones cannot. Interviews whose type
+   * defines a scorecard template must be scored through submitScorecard instead.
+   * @param interviewId - The ID of the interview
+   * @param request - Result, score and optional notes
+   * @returns Promise<InterviewData> - The completed interview
+   */
+  const submitInterviewResult = async (
+    interviewId: number,
+    request: SubmitInterviewResultRequest,
+  ): Promise<InterviewData> => {
+    if (!interviewId || interviewId <= 0) {
+      throw new InvalidInterviewIdError(interviewId);
+    }
+
+    const { result, score } = request ?? ({} as SubmitInterviewResultRequest);
+    if (typeof result !== 'string' || !(INTERVIEW_RESULTS as readonly string[]).includes(result)) {
+      throw new InvalidInterviewDataError('result', `must be one of ${INTERVIEW_RESULTS.join(', ')}`);
+    }
+    if (typeof score !== 'number' || !Number.isInteger(score) || score < INTERVIEW_SCORE_MIN || score > INTERVIEW_SCORE_MAX) {
+      throw new InvalidInterviewDataError(
+        'score',
+        `must be an integer between ${INTERVIEW_SCORE_MIN} and ${INTERVIEW_SCORE_MAX}`,
+      );
+    }
+    const notes = validateOptionalText('notes', request.notes);
+
+    try {
+      const interview = await findInterviewOrThrow(interviewId);
+      if (interview.status === 'Cancelled') {
+        throw new InvalidInterviewStateError(interviewId, interview.status, 'submit a result for');
+      }
+      if (interview.interviewDate.getTime() > Date.now()) {
+        throw new InvalidInterviewStateError(interviewId, 'not yet held', 'submit a result for');
+      }
+
+      const competencyCount = await prismaClient.scorecardCompetency.count({
+        where: { interviewType: { interviewSteps: { some: { id: interview.interviewStepId } } } },
+      });
+      if (competencyCount > 0) {
+        throw new ScorecardRequiredError(interviewId);
+      }
+
+      return await prismaClient.interview.update({
+        where: { id: interviewId },
+        data: {
+          status: 'Completed',
+          result,
+          score,
+          ...(notes !== undefined ? { notes } : {}),
+        },
+        include: interviewInclude,
+      });
+    } catch (error) {
+      return wrapError(error, 'submit interview result');
+    }
+  };
+
+  return {
+    scheduleInterview,
+    listApplicationInterviews,
+    getInterview,
+    rescheduleInterview,
+    cancelInterview,
+    submitInterviewResult,
+  };
+};
+
+// Default instance with real Prisma client
+const interviewService = createInterviewService(prisma);
+
+export const scheduleInterview = interviewService.scheduleInterview;
+export const listApplicationInterviews = interviewService.listApplicationInterviews;
+export const getInterview = interviewService.getInterview;
+export const rescheduleInterview = interviewService.rescheduleInterview;
+export const cancelInterview = interviewService.cancelInterview;
+export const submitInterviewResult = interviewService.submitInterviewResult;
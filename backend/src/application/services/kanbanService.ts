@@ -1,20 +1,88 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import {
+  AppError,
+  ApplicationNotFoundError,
   CandidateNotFoundError,
+  EmployeeNotFoundError,
+  InterviewFlowNotFoundError,
+  InvalidApplicationIdError,
   InvalidCandidateIdError,
   InvalidPositionIdError,
   InvalidStageNameError,
-  KanbanError,
-  PositionNotFoundError
+  PositionNotFoundError,
+  RejectionReasonRequiredError,
+  ReopenStepNotAllowedError,
+  ScoredInterviewRequiredError,
+  StageSkipNotAllowedError,
+  StepNotInFlowError
 } from '../../types/errors';
 import {
   CandidateKanbanData,
+  KanbanCardData,
+  KanbanColumnData,
+  PositionBoardResponse,
   PositionCandidatesResponse,
+  StageMoveOptions,
+  UpdateApplicationStageResponse,
   UpdateCandidateStageResponse
 } from '../../types/kanban';
+import { computeApplicationScores } from '../scoring';
+import { prisma } from '../database';
+
+type StageTarget = string | number;
+
+const isValidStageTarget = (target: StageTarget): boolean =>
+  typeof target === 'number' ? Number.isInteger(target) && target > 0 : typeof target === 'string' && target.trim() !== '';
+
+// Completed interviews with what is needed to weigh their ratings
+const scoredInterviewSelect = {
+  applicationId: true,
+  score: true,
+  weightedScore: true,
+  ratings: {
+    select: {
+      rating: true,
+      weight: true,
+      scaleMin: true,
+      scaleMax: true,
+    },
+  },
+} as const;
+
+const hasText = (value: string | undefined): boolean => typeof value === 'string' && value.trim() !== '';
+
+/**
+ * Builds the stage history row for a move. The recorded reason is the rejection reason,
+ * else the override reason, else the free-text reason.
+ */
+const buildStageHistoryEntry = (
+  application: { id: number; currentInterviewStep: number; interviewStep: { name: string } },
+  toStep: { id: number; name: string },
+  options: StageMoveOptions,
+): Prisma.ApplicationStageHistoryUncheckedCreateInput => ({
+  applicationId: application.id,
+  fromStepId: application.currentInterviewStep,
+  fromStepName: application.interviewStep.name,
+  toStepId: toStep.id,
+  toStepName: toStep.name,
+  changedById: options.changedById ?? null,
+  reason: [options.rejectionReason, options.overrideReason, options.reason].find(hasText)?.trim() ?? null,
+});
 
 // Export for dependency injection in tests
 export const createKanbanService = (prismaClient: PrismaClient) => {
+  /**
+   * Weighted scores (0-100) keyed by application ID, from the completed interviews matching the filter
+   */
+  const loadWeightedScores = async (where: Prisma.InterviewWhereInput): Promise<Record<number, number>> => {
+    const interviews = await prismaClient.interview.findMany({
+      where: { ...where, status: 'Completed' },
+      select: scoredInterviewSelect,
+    });
+
+    return computeApplicationScores(interviews);
+  };
+
   /**
    * Retrieves all candidates for a specific position for kanban interface
    * @param positionId - The ID of the position
@@ -59,31 +127,15 @@ export const createKanbanService = (prismaClient: PrismaClient) => {
         }
       }
 
-      // Compute average scores for each application directly in the database
-      const averageScores = await prismaClient.interview.groupBy({
-        by: ['applicationId'],
-        where: {
-          application: {
-            positionId: positionId,
-          },
-        },
-        _avg: {
-          score: true,
-        },
-      });
-
-      // Map average scores to application IDs
-      const scoreMap: Record<number, number> = {};
-      averageScores.forEach((entry) => {
-        scoreMap[entry.applicationId] = Math.round((entry._avg.score ?? 0) * 100) / 100; // Round to 2 decimals
-      });
+      // Weighted scorecard results for each application
+      const scoreMap = await loadWeightedScores({ application: { positionId } });
 
       // Map candidates with their scores
       const candidatesWithScores: CandidateKanbanData[] = applications.map((application) => ({
         id: application.candidate.id,
         fullName: `${application.candidate.firstName} ${application.candidate.lastName}`,
         currentInterviewStep: application.interviewStep.name,
-        averageScore: scoreMap[application.id] || 0,
+        weightedScore: scoreMap[application.id] ?? null,
       }));
 
       return {
@@ -93,7 +145,7 @@ export const createKanbanService = (prismaClient: PrismaClient) => {
       console.error('Error fetching position candidates:', error);
 
       // Re-throw custom errors
-      if (error instanceof KanbanError) {
+      if (error instanceof AppError) {
         throw error;
       }
 
@@ -103,15 +155,249 @@ export const createKanbanService = (prismaClient: PrismaClient) => {
     }
   };
 
+  /**
+   * Retrieves the kanban board for a position: one column per interview step of the
+   * position's flow, in flow order, including steps with no applications
+   * @param positionId - The ID of the position
+   * @returns Promise<PositionBoardResponse> - Ordered columns with their cards
+   */
+  const getPositionBoard = async (positionId: number): Promise<PositionBoardResponse> => {
+    if (!positionId || positionId <= 0) {
+      throw new InvalidPositionIdError(positionId);
+    }
+
+    try {
+      const position = await prismaClient.position.findUnique({
+        where: { id: positionId },
+        select: {
+          id: true,
+          interviewFlowId: true,
+          interviewFlow: {
+            select: {
+              interviewSteps: {
+                orderBy: { orderIndex: 'asc' },
+                include: {
+                  interviewType: {
+                    select: {
+                      id: true,
+                      name: true,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!position) {
+        throw new PositionNotFoundError(positionId);
+      }
+
+      const applications = await prismaClient.application.findMany({
+        where: { positionId },
+        orderBy: [{ applicationDate: 'asc' }, { id: 'asc' }],
+        include: {
+          candidate: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+          interviewStep: {
+            select: {
+              name: true,
+            },
+          },
+        },
+      });
+
+      const scoreMap = await loadWeightedScores({ application: { positionId } });
+
+      const columns: KanbanColumnData[] = position.interviewFlow.interviewSteps.map((step) => ({
+        id: step.id,
+        name: step.name,
+        orderIndex: step.orderIndex,
+        interviewType: step.interviewType,
+        count: 0,
+        applicationIds: [],
+        cards: [],
+      }));
+      const columnMap = new Map(columns.map((column) => [column.id, column]));
+      const unassigned: KanbanCardData[] = [];
+
+      applications.forEach((application) => {
+        const card: KanbanCardData = {
+          id: application.candidate.id,
+          fullName: `${application.candidate.firstName} ${application.candidate.lastName}`,
+          currentInterviewStep: application.interviewStep.name,
+          weightedScore: scoreMap[application.id] ?? null,
+          applicationId: application.id,
+          positionId: application.positionId,
+          interviewStepId: application.currentInterviewStep,
+        };
+
+        const column = columnMap.get(application.currentInterviewStep);
+        if (!column) {
+          unassigned.push(card);
+          return;
+        }
+
+        column.cards.push(card);
+        column.applicationIds.push(application.id);
+        column.count += 1;
+      });
+
+      return {
+        positionId: position.id,
+        interviewFlowId: position.interviewFlowId,
+        columns,
+        totalCount: applications.length,
+        unassigned,
+      };
+    } catch (error) {
+      console.error('Error fetching position board:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to retrieve board for position: ${errorMessage}`);
+    }
+  };
+
+  const assertActorExists = async (changedById: number | undefined) => {
+    if (!changedById) return;
+
+    const employee = await prismaClient.employee.findUnique({
+      where: { id: changedById },
+    });
+
+    if (!employee) {
+      throw new EmployeeNotFoundError(changedById);
+    }
+  };
+
+  /**
+   * The step of the progression an application was on when it was last moved to the rejection step,
+   * or the first step when it was never on one
+   */
+  const findRejectedFromStep = async (
+    applicationId: number,
+    rejectionStepId: number,
+    progression: { id: number; name: string }[],
+  ): Promise<{ id: number; name: string } | undefined> => {
+    const rejection = await prismaClient.applicationStageHistory.findFirst({
+      where: { applicationId, toStepId: rejectionStepId },
+      orderBy: [{ changedAt: 'desc' }, { id: 'desc' }],
+      select: { fromStepId: true },
+    });
+
+    return progression.find((step) => step.id === rejection?.fromStepId) ?? progression[0];
+  };
+
+  /**
+   * Checks a move against the transition rules of the target step's interview flow.
+   * Backward moves are always allowed; moves to the rejection step only need a rejection reason,
+   * and moves out of it may only return to the step the application was rejected from.
+   * Applications on a step outside the flow may move to any of its steps.
+   * @param application - The application being moved and its current step id
+   * @param targetStep - The resolved target step
+   * @param interviewFlowId - The flow the target step belongs to
+   * @param options - Override and rejection reasons supplied with the move
+   * @returns Promise<boolean> - Whether the target is the flow's rejection step
+   */
+  const assertTransitionAllowed = async (
+    application: { id: number; currentInterviewStep: number },
+    targetStep: { id: number; name: string },
+    interviewFlowId: number,
+    options: StageMoveOptions,
+  ): Promise<boolean> => {
+    const interviewFlow = await prismaClient.interviewFlow.findUnique({
+      where: { id: interviewFlowId },
+      select: {
+        maxStepsForward: true,
+        requireScoredInterview: true,
+        rejectionStepName: true,
+        interviewSteps: {
+          orderBy: { orderIndex: 'asc' },
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    if (!interviewFlow) {
+      throw new InterviewFlowNotFoundError(interviewFlowId);
+    }
+
+    const rejectionStepName = interviewFlow.rejectionStepName?.trim().toLowerCase();
+    const isRejectionStep = (step: { name: string }) =>
+      rejectionStepName !== undefined && rejectionStepName !== '' && step.name.trim().toLowerCase() === rejectionStepName;
+
+    if (isRejectionStep(targetStep)) {
+      if (!hasText(options.rejectionReason)) {
+        throw new RejectionReasonRequiredError(targetStep.name);
+      }
+      return true;
+    }
+
+    // Distance is measured along the flow's progression, ignoring the rejection step
+    const progression = interviewFlow.interviewSteps.filter((step) => !isRejectionStep(step));
+
+    const rejectionStep = interviewFlow.interviewSteps.find(isRejectionStep);
+    if (rejectionStep && application.currentInterviewStep === rejectionStep.id) {
+      const rejectedFrom = await findRejectedFromStep(application.id, rejectionStep.id, progression);
+      if (rejectedFrom && targetStep.id !== rejectedFrom.id) {
+        throw new ReopenStepNotAllowedError(application.id, rejectedFrom.name);
+      }
+      return false;
+    }
+
+    const fromIndex = progression.findIndex((step) => step.id === application.currentInterviewStep);
+    const toIndex = progression.findIndex((step) => step.id === targetStep.id);
+
+    if (fromIndex === -1 || toIndex <= fromIndex) {
+      return false;
+    }
+
+    const currentStep = progression[fromIndex];
+
+    if (toIndex - fromIndex > interviewFlow.maxStepsForward && !hasText(options.overrideReason)) {
+      throw new StageSkipNotAllowedError(currentStep.name, targetStep.name, interviewFlow.maxStepsForward);
+    }
+
+    if (interviewFlow.requireScoredInterview) {
+      const scoredInterviews = await prismaClient.interview.count({
+        where: {
+          applicationId: application.id,
+          interviewStepId: currentStep.id,
+          score: { not: null },
+        },
+      });
+
+      if (scoredInterviews === 0) {
+        throw new ScoredInterviewRequiredError(application.id, currentStep.name);
+      }
+    }
+
+    return false;
+  };
+
   /**
    * Updates a candidate's current interview stage
+   * @deprecated Moves every application of the candidate on the flow of the first step matching the name;
+   * use updateApplicationStage or updatePositionCandidateStage instead
    * @param candidateId - The ID of the candidate
    * @param newStage - The new interview stage name
+   * @param options - Override and rejection reasons checked against the flow's transition rules
    * @returns Promise<UpdateCandidateStageResponse> - Success status and updated info
    */
   const updateCandidateStage = async (
     candidateId: number,
-    newStage: string
+    newStage: string,
+    options: StageMoveOptions = {}
   ): Promise<UpdateCandidateStageResponse> => {
     // Validate inputs
     if (!candidateId || candidateId <= 0) {
@@ -123,10 +409,27 @@ export const createKanbanService = (prismaClient: PrismaClient) => {
     }
 
     try {
-      // Find the interview step by name
+      const applications = await prismaClient.application.findMany({
+        where: {
+          candidateId: candidateId,
+        },
+        select: {
+          id: true,
+          currentInterviewStep: true,
+          interviewStep: { select: { name: true } },
+          position: { select: { interviewFlowId: true } },
+        },
+      });
+
+      if (applications.length === 0) {
+        throw new CandidateNotFoundError(candidateId);
+      }
+
+      // Find the interview step by name among the flows of the candidate's applications
       const interviewStep = await prismaClient.interviewStep.findFirst({
         where: {
           name: newStage.trim(),
+          interviewFlowId: { in: applications.map((application) => application.position.interviewFlowId) },
         },
       });
 
@@ -134,20 +437,41 @@ export const createKanbanService = (prismaClient: PrismaClient) => {
         throw new InvalidStageNameError(newStage.trim());
       }
 
-      // Update the candidate's current interview step
-      const updatedApplication = await prismaClient.application.updateMany({
-        where: {
-          candidateId: candidateId,
-        },
-        data: {
-          currentInterviewStep: interviewStep.id,
-        },
-      });
+      await assertActorExists(options.changedById);
 
-      if (updatedApplication.count === 0) {
-        throw new CandidateNotFoundError(candidateId);
+      // Only applications whose flow contains the step move, each checked against that flow's rules
+      const moves: { application: (typeof applications)[number]; isRejection: boolean }[] = [];
+      for (const application of applications) {
+        if (application.position.interviewFlowId === interviewStep.interviewFlowId) {
+          const isRejection = await assertTransitionAllowed(
+            application,
+            interviewStep,
+            interviewStep.interviewFlowId,
+            options,
+          );
+          moves.push({ application, isRejection });
+        }
       }
 
+      // Update the current interview step of each moved application and record each actual move
+      await prismaClient.$transaction(async (tx) => {
+        for (const { application, isRejection } of moves) {
+          await tx.application.update({
+            where: { id: application.id },
+            data: {
+              currentInterviewStep: interviewStep.id,
+              ...(isRejection ? { rejectionReason: options.rejectionReason!.trim() } : {}),
+            },
+          });
+        }
+
+        await tx.applicationStageHistory.createMany({
+          data: moves
+            .filter(({ application }) => application.currentInterviewStep !== interviewStep.id)
+            .map(({ application }) => buildStageHistoryEntry(application, interviewStep, options)),
+        });
+      });
+
       return {
         success: true,
         candidateId: candidateId,
@@ -157,7 +481,7 @@ export const createKanbanService = (prismaClient: PrismaClient) => {
       console.error('Error updating candidate stage:', error);
 
       // Re-throw custom errors
-      if (error instanceof KanbanError) {
+      if (error instanceof AppError) {
         throw error;
       }
 
@@ -166,15 +490,198 @@ export const createKanbanService = (prismaClient: PrismaClient) => {
     }
   };
 
+  /**
+   * Moves a single application to a step of its own position's interview flow
+   * and records the move in the application's stage history
+   * @param application - The application to move, with its current step and position's flow id
+   * @param target - Step id or step name within the flow
+   * @param options - Reasons checked against the flow's transition rules, plus the acting employee
+   * @returns Promise<UpdateApplicationStageResponse> - The updated kanban card
+   */
+  const moveApplication = async (
+    application: {
+      id: number;
+      currentInterviewStep: number;
+      interviewStep: { name: string };
+      position: { interviewFlowId: number };
+    },
+    target: StageTarget,
+    options: StageMoveOptions,
+  ): Promise<UpdateApplicationStageResponse> => {
+    const interviewFlowId = application.position.interviewFlowId;
+
+    const interviewStep = await prismaClient.interviewStep.findFirst({
+      where:
+        typeof target === 'number'
+          ? { id: target, interviewFlowId }
+          : { name: target.trim(), interviewFlowId },
+    });
+
+    if (!interviewStep) {
+      throw new StepNotInFlowError(typeof target === 'number' ? target : target.trim(), interviewFlowId);
+    }
+
+    const isRejection = await assertTransitionAllowed(application, interviewStep, interviewFlowId, options);
+
+    const updatedApplication = await prismaClient.$transaction(async (tx) => {
+      const updated = await tx.application.update({
+        where: { id: application.id },
+        data: {
+          currentInterviewStep: interviewStep.id,
+          ...(isRejection ? { rejectionReason: options.rejectionReason!.trim() } : {}),
+        },
+        include: {
+          candidate: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+      });
+
+      if (application.currentInterviewStep !== interviewStep.id) {
+        await tx.applicationStageHistory.create({
+          data: buildStageHistoryEntry(application, interviewStep, options),
+        });
+      }
+
+      return updated;
+    });
+
+    const scoreMap = await loadWeightedScores({ applicationId: application.id });
+
+    return {
+      success: true,
+      card: {
+        id: updatedApplication.candidate.id,
+        fullName: `${updatedApplication.candidate.firstName} ${updatedApplication.candidate.lastName}`,
+        currentInterviewStep: interviewStep.name,
+        weightedScore: scoreMap[application.id] ?? null,
+        applicationId: updatedApplication.id,
+        positionId: updatedApplication.positionId,
+        interviewStepId: interviewStep.id,
+      },
+    };
+  };
+
+  /**
+   * Updates the interview stage of a single application
+   * @param applicationId - The ID of the application
+   * @param target - Step id or step name within the position's interview flow
+   * @param options - Override and rejection reasons checked against the flow's transition rules
+   * @returns Promise<UpdateApplicationStageResponse> - The updated kanban card
+   */
+  const updateApplicationStage = async (
+    applicationId: number,
+    target: StageTarget,
+    options: StageMoveOptions = {},
+  ): Promise<UpdateApplicationStageResponse> => {
+    if (!applicationId || applicationId <= 0) {
+      throw new InvalidApplicationIdError(applicationId);
+    }
+
+    if (!isValidStageTarget(target)) {
+      throw new InvalidStageNameError(String(target));
+    }
+
+    try {
+      const application = await prismaClient.application.findUnique({
+        where: { id: applicationId },
+        include: {
+          interviewStep: { select: { name: true } },
+          position: { select: { interviewFlowId: true } },
+        },
+      });
+
+      if (!application) {
+        throw new ApplicationNotFoundError(applicationId);
+      }
+
+      await assertActorExists(options.changedById);
+
+      return await moveApplication(application, target, options);
+    } catch (error) {
+      console.error('Error updating application stage:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to update application stage: ${errorMessage}`);
+    }
+  };
+
+  /**
+   * Updates the interview stage of a candidate's application to one position
+   * @param positionId - The ID of the position
+   * @param candidateId - The ID of the candidate
+   * @param target - Step id or step name within the position's interview flow
+   * @param options - Override and rejection reasons checked against the flow's transition rules
+   * @returns Promise<UpdateApplicationStageResponse> - The updated kanban card
+   */
+  const updatePositionCandidateStage = async (
+    positionId: number,
+    candidateId: number,
+    target: StageTarget,
+    options: StageMoveOptions = {},
+  ): Promise<UpdateApplicationStageResponse> => {
+    if (!positionId || positionId <= 0) {
+      throw new InvalidPositionIdError(positionId);
+    }
+
+    if (!candidateId || candidateId <= 0) {
+      throw new InvalidCandidateIdError(candidateId);
+    }
+
+    if (!isValidStageTarget(target)) {
+      throw new InvalidStageNameError(String(target));
+    }
+
+    try {
+      const application = await prismaClient.application.findUnique({
+        where: { positionId_candidateId: { positionId, candidateId } },
+        include: {
+          interviewStep: { select: { name: true } },
+          position: { select: { interviewFlowId: true } },
+        },
+      });
+
+      if (!application) {
+        throw new CandidateNotFoundError(candidateId);
+      }
+
+      await assertActorExists(options.changedById);
+
+      return await moveApplication(application, target, options);
+    } catch (error) {
+      console.error('Error updating position candidate stage:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to update candidate stage: ${errorMessage}`);
+    }
+  };
+
   return {
     getPositionCandidates,
+    getPositionBoard,
     updateCandidateStage,
+    updateApplicationStage,
+    updatePositionCandidateStage,
   };
 };
 
 // Default instance with real Prisma client
-const prisma = new PrismaClient();
 const kanbanService = createKanbanService(prisma);
 
 export const getPositionCandidates = kanbanService.getPositionCandidates;
+export const getPositionBoard = kanbanService.getPositionBoard;
 export const updateCandidateStage = kanbanService.updateCandidateStage;
+export const updateApplicationStage = kanbanService.updateApplicationStage;
+export const updatePositionCandidateStage = kanbanService.updatePositionCandidateStage;
@@ -0,0 +1,539 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  AppError,
+  CompanyNotFoundError,
+  EmployeeNotFoundError,
+  InterviewFlowNotFoundError,
+  InvalidPositionDataError,
+  InvalidPositionFilterError,
+  InvalidPositionIdError,
+  InvalidPositionStatusError,
+  InvalidStatusTransitionError,
+  PositionHasApplicationsError,
+  PositionNotFoundError,
+  PositionNotOpenError,
+  PositionStatusChangedError
+} from '../../types/errors';
+import {
+  CreatePositionRequest,
+  DeletePositionResponse,
+  POSITION_STATUSES,
+  PositionData,
+  PositionListFilters,
+  PositionListResponse,
+  PositionStatus,
+  PositionStatusHistoryResponse,
+  PositionTransitionRequest,
+  PositionTransitionResponse,
+  UpdatePositionRequest
+} from '../../types/position';
+import { prisma } from '../database';
+
+const REQUIRED_STRING_FIELDS = ['title', 'description', 'location', 'jobDescription'] as const;
+const OPTIONAL_STRING_FIELDS = [
+  'requirements',
+  'responsibilities',
+  'employmentType',
+  'benefits',
+  'companyDescription',
+  'contactInfo',
+] as const;
+
+/**
+ * Allowed status changes. Closed, Filled and Cancelled are terminal.
+ */
+const POSITION_STATUS_TRANSITIONS: Record<PositionStatus, PositionStatus[]> = {
+  Draft: ['Open', 'Cancelled'],
+  Open: ['On Hold', 'Closed', 'Filled', 'Cancelled'],
+  'On Hold': ['Open', 'Closed', 'Cancelled'],
+  Closed: [],
+  Filled: [],
+  Cancelled: [],
+};
+
+const isPositionStatus = (value: unknown): value is PositionStatus =>
+  typeof value === 'string' && (POSITION_STATUSES as readonly string[]).includes(value);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const validateSalary = (field: string, value: unknown) => {
+  if (value === null) return;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new InvalidPositionDataError(field, 'must be a non-negative number');
+  }
+};
+
+const parseDeadline = (value: unknown): Date | null => {
+  if (value === null) return null;
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new InvalidPositionDataError('applicationDeadline', 'must be an ISO date string');
+  }
+  const deadline = new Date(value);
+  if (isNaN(deadline.getTime())) {
+    throw new InvalidPositionDataError('applicationDeadline', 'must be an ISO date string');
+  }
+  if (deadline.getTime() <= Date.now()) {
+    throw new InvalidPositionDataError('applicationDeadline', 'must be in the future');
+  }
+  return deadline;
+};
+
+/**
+ * Validates the supplied position fields and maps them to Prisma column values.
+ * When `partial` is true only the fields present in `input` are checked.
+ */
+const buildPositionData = (input: UpdatePositionRequest, partial: boolean) => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new InvalidPositionDataError('body', 'must be an object');
+  }
+
+  const data: Record<string, unknown> = {};
+
+  for (const field of ['companyId', 'interviewFlowId'] as const) {
+    if (input[field] === undefined && partial) continue;
+    if (!isPositiveInteger(input[field])) {
+      throw new InvalidPositionDataError(field, 'must be a positive integer');
+    }
+    data[field] = input[field];
+  }
+
+  for (const field of REQUIRED_STRING_FIELDS) {
+    const value = input[field];
+    if (value === undefined && partial) continue;
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new InvalidPositionDataError(field, 'is required');
+    }
+    data[field] = value.trim();
+  }
+
+  for (const field of OPTIONAL_STRING_FIELDS) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== 'string') {
+      throw new InvalidPositionDataError(field, 'must be a string');
+    }
+    data[field] = value === null ? null : value.trim();
+  }
+
+  if (input.isVisible !== undefined) {
+    if (typeof input.isVisible !== 'boolean') {
+      throw new InvalidPositionDataError('isVisible', 'must be a boolean');
+    }
+    data.isVisible = input.isVisible;
+  }
+
+  for (const field of ['salaryMin', 'salaryMax'] as const) {
+    if (input[field] === undefined) continue;
+    validateSalary(field, input[field]);
+    data[field] = input[field];
+  }
+
+  if (input.applicationDeadline !== undefined) {
+    data.applicationDeadline = parseDeadline(input.applicationDeadline);
+  }
+
+  return data;
+};
+
+const validateSalaryRange = (salaryMin: number | null | undefined, salaryMax: number | null | undefined) => {
+  if (salaryMin != null && salaryMax != null && salaryMin > salaryMax) {
+    throw new InvalidPositionDataError('salaryMin', 'must be less than or equal to salaryMax');
+  }
+};
+
+// Export for dependency injection in tests
+export const createPositionService = (prismaClient: PrismaClient) => {
+  /**
+   * Ensures the company and interview flow referenced by a position exist
+   */
+  const assertReferencesExist = async (data: Record<string, unknown>) => {
+    if (data.companyId !== undefined) {
+      const company = await prismaClient.company.findUnique({
+        where: { id: data.companyId as number },
+      });
+      if (!company) {
+        throw new CompanyNotFoundError(data.companyId as number);
+      }
+    }
+
+    if (data.interviewFlowId !== undefined) {
+      const interviewFlow = await prismaClient.interviewFlow.findUnique({
+        where: { id: data.interviewFlowId as number },
+      });
+      if (!interviewFlow) {
+        throw new InterviewFlowNotFoundError(data.interviewFlowId as number);
+      }
+    }
+  };
+
+  /**
+   * Loads a position or throws PositionNotFoundError
+   */
+  const findPositionOrThrow = async (positionId: number): Promise<PositionData> => {
+    const position = await prismaClient.position.findUnique({
+      where: { id: positionId },
+    });
+
+    if (!position) {
+      throw new PositionNotFoundError(positionId);
+    }
+
+    return position;
+  };
+
+  /**
+   * Creates a new position
+   * @param input - The position fields
+   * @returns Promise<PositionData> - The created position
+   */
+  const createPosition = async (input: CreatePositionRequest): Promise<PositionData> => {
+    const data = buildPositionData(input, false);
+
+    // New positions always start in Draft and hidden; publishing goes through transitionPositionStatus
+    if (input.status !== undefined && input.status !== 'Draft') {
+      throw new InvalidPositionDataError('status', 'must be Draft when creating a position');
+    }
+    if (data.isVisible === true) {
+      throw new InvalidPositionDataError('isVisible', 'can only be true for Open positions');
+    }
+    data.status = 'Draft';
+
+    validateSalaryRange(data.salaryMin as number | null | undefined, data.salaryMax as number | null | undefined);
+
+    try {
+      await assertReferencesExist(data);
+
+      return await prismaClient.position.create({
+        data: data as Prisma.PositionUncheckedCreateInput,
+      });
+    } catch (error) {
+      console.error('Error creating position:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to create position: ${errorMessage}`);
+    }
+  };
+
+  /**
+   * Lists positions matching the given filters
+   * @param filters - Optional filters on company, status, visibility, location, employment type and salary
+   * @returns Promise<PositionListResponse> - The matching positions ordered by id
+   */
+  const listPositions = async (filters: PositionListFilters = {}): Promise<PositionListResponse> => {
+    if (filters.salaryMin !== undefined && filters.salaryMax !== undefined && filters.salaryMin > filters.salaryMax) {
+      throw new InvalidPositionFilterError('salaryMin');
+    }
+
+    const where: Prisma.PositionWhereInput = {};
+
+    if (filters.companyId !== undefined) where.companyId = filters.companyId;
+    if (filters.status !== undefined) where.status = filters.status;
+    if (filters.isVisible !== undefined) where.isVisible = filters.isVisible;
+    if (filters.location !== undefined) {
+      where.location = { contains: filters.location, mode: 'insensitive' };
+    }
+    if (filters.employmentType !== undefined) {
+      where.employmentType = { equals: filters.employmentType, mode: 'insensitive' };
+    }
+    // Salary filters match positions whose advertised range overlaps the requested one
+    if (filters.salaryMin !== undefined) where.salaryMax = { gte: filters.salaryMin };
+    if (filters.salaryMax !== undefined) where.salaryMin = { lte: filters.salaryMax };
+
+    try {
+      const positions = await prismaClient.position.findMany({
+        where,
+        orderBy: { id: 'asc' },
+      });
+
+      return { positions };
+    } catch (error) {
+      console.error('Error listing positions:', error);
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to list positions: ${errorMessage}`);
+    }
+  };
+
+  /**
+   * Retrieves a single position
+   * @param positionId - The ID of the position
+   * @returns Promise<PositionData> - The position
+   */
+  const getPositionById = async (positionId: number): Promise<PositionData> => {
+    if (!positionId || positionId <= 0) {
+      throw new InvalidPositionIdError(positionId);
+    }
+
+    try {
+      return await findPositionOrThrow(positionId);
+    } catch (error) {
+      console.error('Error fetching position:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to retrieve position: ${errorMessage}`);
+    }
+  };
+
+  /**
+   * Partially updates a position, validating only the supplied fields
+   * @param positionId - The ID of the position
+   * @param input - The fields to change
+   * @returns Promise<PositionData> - The updated position
+   */
+  const updatePosition = async (positionId: number, input: UpdatePositionRequest): Promise<PositionData> => {
+    if (!positionId || positionId <= 0) {
+      throw new InvalidPositionIdError(positionId);
+    }
+
+    if (input && input.status !== undefined) {
+      throw new InvalidPositionDataError('status', 'must be changed through POST /positions/:id/transitions');
+    }
+
+    const data = buildPositionData(input, true);
+
+    try {
+      const existing = await findPositionOrThrow(positionId);
+
+      if (data.isVisible === true && existing.status !== 'Open') {
+        throw new InvalidPositionDataError('isVisible', 'can only be true for Open positions');
+      }
+
+      validateSalaryRange(
+        data.salaryMin !== undefined ? (data.salaryMin as number | null) : existing.salaryMin,
+        data.salaryMax !== undefined ? (data.salaryMax as number | null) : existing.salaryMax,
+      );
+
+      await assertReferencesExist(data);
+
+      // Existing applications point at steps of the current flow, so the flow is fixed once anyone applied
+      if (data.interviewFlowId !== undefined && data.interviewFlowId !== existing.interviewFlowId) {
+        const applicationCount = await prismaClient.application.count({
+          where: { positionId },
+        });
+        if (applicationCount > 0) {
+          throw new InvalidPositionDataError('interviewFlowId', 'cannot change while the position has applications');
+        }
+      }
+
+      return await prismaClient.position.update({
+        where: { id: positionId },
+        data: data as Prisma.PositionUncheckedUpdateInput,
+      });
+    } catch (error) {
+      console.error('Error updating position:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to update position: ${errorMessage}`);
+    }
+  };
+
+  /**
+   * Deletes a position that has no applications
+   * @param positionId - The ID of the position
+   * @returns Promise<DeletePositionResponse> - Success status and deleted id
+   */
+  const deletePosition = async (positionId: number): Promise<DeletePositionResponse> => {
+    if (!positionId || positionId <= 0) {
+      throw new InvalidPositionIdError(positionId);
+    }
+
+    try {
+      await findPositionOrThrow(positionId);
+
+      const applicationCount = await prismaClient.application.count({
+        where: { positionId },
+      });
+      if (applicationCount > 0) {
+        throw new PositionHasApplicationsError(positionId);
+      }
+
+      await prismaClient.$transaction([
+        prismaClient.positionStatusHistory.deleteMany({ where: { positionId } }),
+        prismaClient.position.delete({ where: { id: positionId } }),
+      ]);
+
+      return {
+        success: true,
+        positionId,
+      };
+    } catch (error) {
+      console.error('Error deleting position:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to delete position: ${errorMessage}`);
+    }
+  };
+
+  /**
+   * Moves a position through its lifecycle and records the change.
+   * Visibility follows the status: only Open positions are visible.
+   * @param positionId - The ID of the position
+   * @param request - Target status, optional acting employee and reason
+   * @returns Promise<PositionTransitionResponse> - The updated position and the recorded transition
+   */
+  const transitionPositionStatus = async (
+    positionId: number,
+    request: PositionTransitionRequest,
+  ): Promise<PositionTransitionResponse> => {
+    if (!positionId || positionId <= 0) {
+      throw new InvalidPositionIdError(positionId);
+    }
+
+    const { status, changedById, reason } = request ?? ({} as PositionTransitionRequest);
+
+    if (!isPositionStatus(status)) {
+      throw new InvalidPositionStatusError(status);
+    }
+    if (changedById !== undefined && changedById !== null && !isPositiveInteger(changedById)) {
+      throw new InvalidPositionDataError('changedById', 'must be a positive integer');
+    }
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      throw new InvalidPositionDataError('reason', 'must be a string');
+    }
+
+    try {
+      const position = await findPositionOrThrow(positionId);
+      const fromStatus = position.status;
+
+      if (!isPositionStatus(fromStatus) || !POSITION_STATUS_TRANSITIONS[fromStatus].includes(status)) {
+        throw new InvalidStatusTransitionError(fromStatus, status);
+      }
+
+      if (changedById) {
+        const employee = await prismaClient.employee.findUnique({
+          where: { id: changedById },
+        });
+        if (!employee) {
+          throw new EmployeeNotFoundError(changedById);
+        }
+      }
+
+      const [updatedPosition, transition] = await prismaClient.$transaction(async (tx) => {
+        // Moves the position only from the status checked above, so a concurrent change wins
+        const { count } = await tx.position.updateMany({
+          where: { id: positionId, status: fromStatus },
+          data: {
+            status,
+            isVisible: status === 'Open',
+          },
+        });
+        if (count === 0) {
+          throw new PositionStatusChangedError(positionId, fromStatus);
+        }
+
+        return Promise.all([
+          tx.position.findUniqueOrThrow({ where: { id: positionId } }),
+          tx.positionStatusHistory.create({
+            data: {
+              positionId,
+              fromStatus,
+              toStatus: status,
+              changedById: changedById ?? null,
+              reason: reason?.trim() || null,
+            },
+          }),
+        ]);
+      });
+
+      return {
+        position: updatedPosition,
+        transition,
+      };
+    } catch (error) {
+      console.error('Error transitioning position status:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to transition position status: ${errorMessage}`);
+    }
+  };
+
+  /**
+   * Retrieves the recorded status changes of a position, oldest first
+   * @param positionId - The ID of the position
+   * @returns Promise<PositionStatusHistoryResponse> - The status history
+   */
+  const getPositionStatusHistory = async (positionId: number): Promise<PositionStatusHistoryResponse> => {
+    if (!positionId || positionId <= 0) {
+      throw new InvalidPositionIdError(positionId);
+    }
+
+    try {
+      await findPositionOrThrow(positionId);
+
+      const history = await prismaClient.positionStatusHistory.findMany({
+        where: { positionId },
+        orderBy: { changedAt: 'asc' },
+      });
+
+      return { history };
+    } catch (error) {
+      console.error('Error fetching position status history:', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to retrieve position status history: ${errorMessage}`);
+    }
+  };
+
+  /**
+   * Ensures a position exists and is Open before an application is accepted
+   * @param positionId - The ID of the position
+   * @returns Promise<PositionData> - The open position
+   */
+  const assertPositionAcceptsApplications = async (positionId: number): Promise<PositionData> => {
+    const position = await findPositionOrThrow(positionId);
+
+    if (position.status !== 'Open') {
+      throw new PositionNotOpenError(positionId, position.status);
+    }
+
+    return position;
+  };
+
+  return {
+    createPosition,
+    listPositions,
+    getPositionById,
+    updatePosition,
+    deletePosition,
+    transitionPositionStatus,
+    getPositionStatusHistory,
+    assertPositionAcceptsApplications,
+  };
+};
+
+// Default instance with real Prisma client
+const positionService = createPositionService(prisma);
+
+export const createPosition = positionService.createPosition;
+export const listPositions = positionService.listPositions;
+export const getPositionById = positionService.getPositionById;
+export const updatePosition = positionService.updatePosition;
+export const deletePosition = positionService.deletePosition;
+export const transitionPositionStatus = positionService.transitionPositionStatus;
+export const getPositionStatusHistory = positionService.getPositionStatusHistory;
+export const assertPositionAcceptsApplications = positionService.assertPositionAcceptsApplications;
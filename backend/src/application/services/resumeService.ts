@@ -0,0 +1,255 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import path from 'path';
+import { prisma } from '../database';
+import { createCandidateSearchService } from './candidateSearchService';
+import { getFileStorage } from '../storage/fileStorage';
+import {
+  CandidateProfileNotFoundError,
+  ConcurrentResumeUploadError,
+  InvalidCandidateIdError,
+  InvalidDownloadLinkError,
+  InvalidResumeIdError,
+  InvalidStorageKeyError,
+  MissingSecretError,
+  ResumeFileMissingError,
+  ResumeNotFoundError,
+  ResumeQuarantinedError,
+  StoredFileNotFoundError
+} from '../../types/errors';
+import { ResumeData, ResumeDownloadLink, ResumeFile, ResumeScanStatus, UploadedResume } from '../../types/resume';
+import { FileStorage } from '../../types/storage';
+
+export const DOWNLOAD_LINK_TTL_SECONDS = 15 * 60;
+
+/**
+ * Secret used to sign download links. Outside production a random one is made up when
+ * RESUME_DOWNLOAD_SECRET is not set, so links only last until restart.
+ * @param env - The environment to read, process.env by default
+ * @throws MissingSecretError when RESUME_DOWNLOAD_SECRET is not set in production
+ */
+export const resolveDownloadSecret = (env: NodeJS.ProcessEnv = process.env): string => {
+  if (env.RESUME_DOWNLOAD_SECRET) {
+    return env.RESUME_DOWNLOAD_SECRET;
+  }
+  if (env.NODE_ENV === 'production') {
+    throw new MissingSecretError('RESUME_DOWNLOAD_SECRET');
+  }
+  if (env.NODE_ENV !== 'test') {
+    console.warn('RESUME_DOWNLOAD_SECRET is not set; resume download links will stop working on restart');
+  }
+  return randomBytes(32).toString('hex');
+};
+
+/**
+ * HMAC-SHA256 of the resume ID and expiry, hex encoded
+ */
+export const signResumeDownload = (resumeId: number, expires: number, secret: string): string =>
+  createHmac('sha256', secret).update(`${resumeId}:${expires}`).digest('hex');
+
+interface ResumeRow {
+  id: number;
+  candidateId: number;
+  filePath: string;
+  fileType: string;
+  originalName: string | null;
+  fileSize: number | null;
+  version: number;
+  isCurrent: boolean;
+  uploadDate: Date;
+  scanStatus: string;
+  scanDetail: string | null;
+  scannedAt: Date | null;
+}
+
+const assertPositiveId = (id: number, error: (id: number) => Error): void => {
+  if (!Number.isInteger(id) || id <= 0) {
+    throw error(id);
+  }
+};
+
+// Export for dependency injection in tests
+export const createResumeService = (
+  prismaClient: PrismaClient,
+  storage: FileStorage = getFileStorage(),
+  downloadSecret: string = resolveDownloadSecret(),
+) => {
+  const candidateSearchService = createCandidateSearchService(prismaClient, storage);
+
+  const toResumeData = (resume: ResumeRow): ResumeData => {
+    const expires = Math.floor(Date.now() / 1000) + DOWNLOAD_LINK_TTL_SECONDS;
+    const signature = signResumeDownload(resume.id, expires, downloadSecret);
+    const quarantined = resume.scanStatus === 'Quarantined';
+
+    return {
+      id: resume.id,
+      candidateId: resume.candidateId,
+      version: resume.version,
+      isCurrent: resume.isCurrent,
+      originalName: resume.originalName,
+      fileType: resume.fileType,
+      fileSize: resume.fileSize,
+      uploadDate: resume.uploadDate,
+      scanStatus: resume.scanStatus as ResumeScanStatus,
+      scanDetail: resume.scanDetail,
+      scannedAt: resume.scannedAt,
+      downloadUrl: quarantined ? null : `/resumes/${resume.id}/file?expires=${expires}&signature=${signature}`,
+    };
+  };
+
+  const assertCandidateExists = async (candidateId: number): Promise<void> => {
+    assertPositiveId(candidateId, (id) => new InvalidCandidateIdError(id));
+
+    const candidate = await prismaClient.candidate.findUnique({ where: { id: candidateId }, select: { id: true } });
+    if (!candidate) {
+      throw new CandidateProfileNotFoundError(candidateId);
+    }
+  };
+
+  /**
+   * Attaches an uploaded file to a candidate as their new current resume; earlier versions are kept.
+   * A quarantined file is recorded as a version that never becomes current.
+   * @param candidateId - The ID of the candidate
+   * @param file - The file accepted by the upload middleware
+   * @returns Promise<ResumeData> - The stored resume version
+   */
+  const addResume = async (candidateId: number, file: UploadedResume): Promise<ResumeData> => {
+    await assertCandidateExists(candidateId);
+    const quarantined = file.scanStatus === 'Quarantined';
+
+    const resume = await prismaClient.$transaction(async (tx) => {
+      const latest = await tx.resume.findFirst({
+        where: { candidateId },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+      if (!quarantined) {
+        await tx.resume.updateMany({ where: { candidateId, isCurrent: true }, data: { isCurrent: false } });
+      }
+
+      return tx.resume.create({
+        data: {
+          candidateId,
+          filePath: file.filePath,
+          fileType: file.fileType,
+          originalName: file.originalName,
+          fileSize: file.fileSize,
+          version: (latest?.version ?? 0) + 1,
+          isCurrent: !quarantined,
+          uploadDate: new Date(),
+          scanStatus: file.scanStatus,
+          scanDetail: file.scanDetail,
+          scannedAt: file.scannedAt,
+        },
+      });
+    }).catch((error) => {
+      // A concurrent upload took the version number, or became current first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConcurrentResumeUploadError(candidateId);
+      }
+      throw error;
+    });
+
+    if (quarantined) {
+      return toResumeData(resume);
+    }
+
+    // The resume is stored even when its text cannot be indexed for search
+    try {
+      await candidateSearchService.indexCandidate(candidateId);
+    } catch (error) {
+      console.error(`Error indexing resume ${resume.id} of candidate ${candidateId}:`, error);
+    }
+
+    return toResumeData(resume);
+  };
+
+  /**
+   * Lists every resume version of a candidate, newest first
+   * @param candidateId - The ID of the candidate
+   * @returns Promise<ResumeData[]> - The resume versions with fresh download links
+   */
+  const listResumes = async (candidateId: number): Promise<ResumeData[]> => {
+    await assertCandidateExists(candidateId);
+
+    const resumes = await prismaClient.resume.findMany({
+      where: { candidateId },
+      orderBy: { version: 'desc' },
+    });
+    return resumes.map(toResumeData);
+  };
+
+  /**
+   * Opens the file of a resume after checking the signed download link
+   * @param resumeId - The ID of the resume
+   * @param link - The expires and signature query parameters of the link
+   * @returns Promise<ResumeFile> - The file content and the name and type to download it as
+   */
+  const openResumeFile = async (resumeId: number, link: ResumeDownloadLink): Promise<ResumeFile> => {
+    assertPositiveId(resumeId, (id) => new InvalidResumeIdError(id));
+
+    if (!link.expires || !/^\d+$/.test(link.expires) || !link.signature || !/^[0-9a-f]{64}$/.test(link.signature)) {
+      throw new InvalidDownloadLinkError('missing or malformed signature');
+    }
+    const expected = signResumeDownload(resumeId, Number(link.expires), downloadSecret);
+    if (!timingSafeEqual(Buffer.from(expected, 'hex'), Buffer.from(link.signature, 'hex'))) {
+      throw new InvalidDownloadLinkError('signature does not match');
+    }
+    if (Number(link.expires) * 1000 < Date.now()) {
+      throw new InvalidDownloadLinkError('link has expired');
+    }
+
+    const resume = await prismaClient.resume.findUnique({ where: { id: resumeId } });
+    if (!resume) {
+      throw new ResumeNotFoundError(resumeId);
+    }
+    if (resume.scanStatus === 'Quarantined') {
+      throw new ResumeQuarantinedError(resumeId);
+    }
+
+    try {
+      return {
+        content: await storage.openReadStream(resume.filePath),
+        fileType: resume.fileType,
+        fileName: resume.originalName ?? path.basename(resume.filePath),
+        fileSize: resume.fileSize,
+      };
+    } catch (error) {
+      if (error instanceof StoredFileNotFoundError || error instanceof InvalidStorageKeyError) {
+        throw new ResumeFileMissingError(resumeId);
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Removes an uploaded file that could not be attached, unless a resume or upload of any company
+   * already stores the same content. Keys are content hashes, so the file may be shared.
+   * @param key - The storage key of the file
+   */
+  const discardUpload = async (key: string): Promise<void> => {
+    // Raw, so the count is not narrowed to the current company
+    const [{ references }] = await prismaClient.$queryRaw<{ references: bigint }[]>`
+      SELECT (SELECT COUNT(*) FROM "Resume" WHERE "filePath" = ${key})
+           + (SELECT COUNT(*) FROM "Upload" WHERE "key" = ${key}) AS "references"
+    `;
+    if (Number(references) === 0) {
+      await storage.remove(key);
+    }
+  };
+
+  return {
+    addResume,
+    listResumes,
+    openResumeFile,
+    discardUpload,
+  };
+};
+
+// Default instance with real Prisma client
+const resumeService = createResumeService(prisma);
+
+export const addResume = resumeService.addResume;
+export const listResumes = resumeService.listResumes;
+export const openResumeFile = resumeService.openResumeFile;
+export const discardUpload = resumeService.discardUpload;
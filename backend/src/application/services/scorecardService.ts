@@ -0,0 +1,446 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  AppError,
+  ApplicationNotFoundError,
+  InterviewNotFoundError,
+  InterviewTypeNotFoundError,
+  InvalidApplicationIdError,
+  InvalidInterviewIdError,
+  InvalidInterviewStateError,
+  InvalidScorecardDataError,
+  ScorecardTemplateMissingError,
+  SharedTemplateError
+} from '../../types/errors';
+import { INTERVIEW_SCORE_MAX, INTERVIEW_SCORE_MIN } from '../../types/interview';
+import {
+  ApplicationScorecardResponse,
+  CompetencyScoreData,
+  InterviewScorecardData,
+  RECOMMENDATIONS,
+  ScorecardTemplateData,
+  SubmitScorecardRequest,
+  UpdateScorecardTemplateRequest
+} from '../../types/scorecard';
+import { averageInterviewScores, computeWeightedScore, interviewScore, normalizeRating, roundScore } from '../scoring';
+import { prisma } from '../database';
+
+const interviewTypeSelect = {
+  id: true,
+  name: true,
+  ratingScaleMin: true,
+  ratingScaleMax: true,
+} as const;
+
+const scorecardInclude = Prisma.validator<Prisma.InterviewInclude>()({
+  interviewStep: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  employee: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+  ratings: {
+    orderBy: { id: 'asc' },
+  },
+});
+
+// Recommendations that count as a pass when deriving the interview result
+const PASSING_RECOMMENDATIONS: readonly string[] = ['Strong Hire', 'Hire'];
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+const validateOptionalText = (field: string, value: unknown): string | null | undefined => {
+  if (value === undefined || value === null) return value;
+  if (typeof value !== 'string') {
+    throw new InvalidScorecardDataError(field, 'must be a string');
+  }
+  return value.trim() || null;
+};
+
+/**
+ * Validates a template update and returns the normalized scale and competencies
+ */
+const validateTemplate = (
+  request: UpdateScorecardTemplateRequest,
+  current: { ratingScaleMin: number; ratingScaleMax: number },
+) => {
+  const ratingScaleMin = request?.ratingScaleMin ?? current.ratingScaleMin;
+  const ratingScaleMax = request?.ratingScaleMax ?? current.ratingScaleMax;
+
+  if (!isInteger(ratingScaleMin) || ratingScaleMin < 0) {
+    throw new InvalidScorecardDataError('ratingScaleMin', 'must be a non-negative integer');
+  }
+  if (!isInteger(ratingScaleMax) || ratingScaleMax <= ratingScaleMin) {
+    throw new InvalidScorecardDataError('ratingScaleMax', 'must be an integer greater than ratingScaleMin');
+  }
+
+  if (!Array.isArray(request?.competencies) || request.competencies.length === 0) {
+    throw new InvalidScorecardDataError('competencies', 'must be a non-empty array');
+  }
+
+  const seenNames = new Set<string>();
+  const competencies = request.competencies.map((competency, index) => {
+    const name = typeof competency?.name === 'string' ? competency.name.trim() : '';
+    if (!name) {
+      throw new InvalidScorecardDataError(`competencies[${index}].name`, 'is required');
+    }
+    if (seenNames.has(name.toLowerCase())) {
+      throw new InvalidScorecardDataError(`competencies[${index}].name`, `duplicates "${name}"`);
+    }
+    seenNames.add(name.toLowerCase());
+
+    const weight = competency.weight;
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) {
+      throw new InvalidScorecardDataError(`competencies[${index}].weight`, 'must be a positive number');
+    }
+
+    return {
+      name,
+      description: validateOptionalText(`competencies[${index}].description`, competency.description) ?? null,
+      weight,
+      orderIndex: index + 1,
+    };
+  });
+
+  return { ratingScaleMin, ratingScaleMax, competencies };
+};
+
+const wrapError = (error: unknown, action: string): never => {
+  console.error(`Error trying to ${action}:`, error);
+
+  if (error instanceof AppError) {
+    throw error;
+  }
+
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  throw new Error(`Failed to ${action}: ${errorMessage}`);
+};
+
+// Export for dependency injection in tests
+export const createScorecardService = (prismaClient: PrismaClient) => {
+  const loadTemplate = async (interviewTypeId: number): Promise<ScorecardTemplateData> => {
+    const interviewType = await prismaClient.interviewType.findUnique({
+      where: { id: interviewTypeId },
+      select: {
+        ...interviewTypeSelect,
+        competencies: {
+          orderBy: { orderIndex: 'asc' },
+        },
+      },
+    });
+
+    if (!interviewType) {
+      throw new InterviewTypeNotFoundError(interviewTypeId);
+    }
+
+    const { competencies, ...type } = interviewType;
+    return { interviewType: type, competencies };
+  };
+
+  /**
+   * Throws unless the interview type exists and belongs to the company: the templates shared by
+   * every company cannot be changed
+   */
+  const assertOwnInterviewType = async (interviewTypeId: number) => {
+    const interviewType = await prismaClient.interviewType.findUnique({
+      where: { id: interviewTypeId },
+      select: { companyId: true },
+    });
+
+    if (!interviewType) {
+      throw new InterviewTypeNotFoundError(interviewTypeId);
+    }
+    if (interviewType.companyId === null) {
+      throw new SharedTemplateError('Interview type', interviewTypeId);
+    }
+  };
+
+  /**
+   * Retrieves the scorecard template (rating scale and weighted competencies) of an interview type
+   * @param interviewTypeId - The ID of the interview type
+   * @returns Promise<ScorecardTemplateData> - The template, with no competencies if none is defined
+   */
+  const getScorecardTemplate = async (interviewTypeId: number): Promise<ScorecardTemplateData> => {
+    if (!interviewTypeId || interviewTypeId <= 0) {
+      throw new InvalidScorecardDataError('interviewTypeId', 'must be a positive integer');
+    }
+
+    try {
+      return await loadTemplate(interviewTypeId);
+    } catch (error) {
+      return wrapError(error, 'retrieve scorecard template');
+    }
+  };
+
+  /**
+   * Replaces the scorecard template of an interview type the company owns. Competencies are matched
+   * by name so existing ratings keep their link; competencies left out of the request are removed.
+   * @param interviewTypeId - The ID of the interview type
+   * @param request - Optional rating scale and the full list of competencies, in display order
+   * @returns Promise<ScorecardTemplateData> - The updated template
+   */
+  const updateScorecardTemplate = async (
+    interviewTypeId: number,
+    request: UpdateScorecardTemplateRequest,
+  ): Promise<ScorecardTemplateData> => {
+    if (!interviewTypeId || interviewTypeId <= 0) {
+      throw new InvalidScorecardDataError('interviewTypeId', 'must be a positive integer');
+    }
+
+    try {
+      await assertOwnInterviewType(interviewTypeId);
+      const current = await loadTemplate(interviewTypeId);
+      const { ratingScaleMin, ratingScaleMax, competencies } = validateTemplate(request, current.interviewType);
+
+      await prismaClient.$transaction([
+        prismaClient.interviewType.update({
+          where: { id: interviewTypeId },
+          data: { ratingScaleMin, ratingScaleMax },
+        }),
+        prismaClient.scorecardCompetency.deleteMany({
+          where: { interviewTypeId, name: { notIn: competencies.map((competency) => competency.name) } },
+        }),
+        ...competencies.map((competency) =>
+          prismaClient.scorecardCompetency.upsert({
+            where: { interviewTypeId_name: { interviewTypeId, name: competency.name } },
+            create: { interviewTypeId, ...competency },
+            update: competency,
+          }),
+        ),
+      ]);
+
+      return await loadTemplate(interviewTypeId);
+    } catch (error) {
+      return wrapError(error, 'update scorecard template');
+    }
+  };
+
+  /**
+   * Records per-competency ratings and a recommendation for a held interview.
+   * Every competency of the interview type must be rated exactly once; resubmitting replaces
+   * the previous ratings. The interview is completed with a weighted score (0-100), a legacy
+   * score on the interview scale and a result derived from the recommendation.
+   * @param interviewId - The ID of the interview
+   * @param request - Ratings, recommendation and optional notes
+   * @returns Promise<InterviewScorecardData> - The scored interview with its ratings
+   */
+  const submitScorecard = async (
+    interviewId: number,
+    request: SubmitScorecardRequest,
+  ): Promise<InterviewScorecardData> => {
+    if (!interviewId || interviewId <= 0) {
+      throw new InvalidInterviewIdError(interviewId);
+    }
+
+    const { ratings, recommendation } = request ?? ({} as SubmitScorecardRequest);
+    if (!Array.isArray(ratings) || ratings.length === 0) {
+      throw new InvalidScorecardDataError('ratings', 'must be a non-empty array');
+    }
+    if (typeof recommendation !== 'string' || !(RECOMMENDATIONS as readonly string[]).includes(recommendation)) {
+      throw new InvalidScorecardDataError('recommendation', `must be one of ${RECOMMENDATIONS.join(', ')}`);
+    }
+    const notes = validateOptionalText('notes', request.notes);
+
+    try {
+      const interview = await prismaClient.interview.findUnique({
+        where: { id: interviewId },
+        include: {
+          interviewStep: {
+            select: {
+              interviewType: {
+                select: {
+                  ...interviewTypeSelect,
+                  competencies: {
+                    orderBy: { orderIndex: 'asc' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!interview) {
+        throw new InterviewNotFoundError(interviewId);
+      }
+      if (interview.status === 'Cancelled') {
+        throw new InvalidInterviewStateError(interviewId, interview.status, 'submit a scorecard for');
+      }
+      if (interview.interviewDate.getTime() > Date.now()) {
+        throw new InvalidInterviewStateError(interviewId, 'not yet held', 'submit a scorecard for');
+      }
+
+      const { interviewType } = interview.interviewStep;
+      if (interviewType.competencies.length === 0) {
+        throw new ScorecardTemplateMissingError(interviewType.id);
+      }
+
+      const { ratingScaleMin: scaleMin, ratingScaleMax: scaleMax } = interviewType;
+      const ratedIds = new Set<number>();
+      const rows = ratings.map((entry, index) => {
+        const competency = interviewType.competencies.find((candidate) => candidate.id === entry?.competencyId);
+        if (!competency) {
+          throw new InvalidScorecardDataError(
+            `ratings[${index}].competencyId`,
+            `is not a competency of interview type ${interviewType.id}`,
+          );
+        }
+        if (ratedIds.has(competency.id)) {
+          throw new InvalidScorecardDataError(`ratings[${index}].competencyId`, `rates ${competency.name} twice`);
+        }
+        ratedIds.add(competency.id);
+
+        if (!isInteger(entry.rating) || entry.rating < scaleMin || entry.rating > scaleMax) {
+          throw new InvalidScorecardDataError(
+            `ratings[${index}].rating`,
+            `must be an integer between ${scaleMin} and ${scaleMax}`,
+          );
+        }
+
+        return {
+          interviewId,
+          competencyId: competency.id,
+          competencyName: competency.name,
+          weight: competency.weight,
+          scaleMin,
+          scaleMax,
+          rating: entry.rating,
+          comment: validateOptionalText(`ratings[${index}].comment`, entry.comment) ?? null,
+        };
+      });
+
+      const unrated = interviewType.competencies.filter((competency) => !ratedIds.has(competency.id));
+      if (unrated.length > 0) {
+        throw new InvalidScorecardDataError(
+          'ratings',
+          `are missing for ${unrated.map((competency) => competency.name).join(', ')}`,
+        );
+      }
+
+      const weightedScore = computeWeightedScore(rows) as number;
+      const score = Math.round(INTERVIEW_SCORE_MIN + (weightedScore / 100) * (INTERVIEW_SCORE_MAX - INTERVIEW_SCORE_MIN));
+
+      const [, , scoredInterview] = await prismaClient.$transaction([
+        prismaClient.interviewRating.deleteMany({ where: { interviewId } }),
+        prismaClient.interviewRating.createMany({ data: rows }),
+        prismaClient.interview.update({
+          where: { id: interviewId },
+          data: {
+            status: 'Completed',
+            recommendation,
+            weightedScore,
+            score,
+            result: PASSING_RECOMMENDATIONS.includes(recommendation) ? 'Passed' : 'Failed',
+            ...(notes !== undefined ? { notes } : {}),
+          },
+          include: scorecardInclude,
+        }),
+      ]);
+
+      return scoredInterview;
+    } catch (error) {
+      return wrapError(error, 'submit scorecard');
+    }
+  };
+
+  /**
+   * Aggregates the completed interviews of an application into a weighted score, a per-competency
+   * breakdown and a tally of recommendations. Interviews scored before scorecards existed count
+   * towards the overall score only.
+   * @param applicationId - The ID of the application
+   * @returns Promise<ApplicationScorecardResponse> - The application's aggregated scorecard
+   */
+  const getApplicationScorecard = async (applicationId: number): Promise<ApplicationScorecardResponse> => {
+    if (!applicationId || applicationId <= 0) {
+      throw new InvalidApplicationIdError(applicationId);
+    }
+
+    try {
+      const application = await prismaClient.application.findUnique({
+        where: { id: applicationId },
+      });
+
+      if (!application) {
+        throw new ApplicationNotFoundError(applicationId);
+      }
+
+      const interviews = await prismaClient.interview.findMany({
+        where: { applicationId, status: 'Completed' },
+        include: {
+          interviewStep: {
+            select: {
+              name: true,
+            },
+          },
+          ratings: {
+            orderBy: { id: 'asc' },
+          },
+        },
+        orderBy: [{ interviewDate: 'asc' }, { id: 'asc' }],
+      });
+
+      const competencies = new Map<string, CompetencyScoreData & { normalizedTotal: number }>();
+      const recommendations: Record<string, number> = {};
+
+      interviews.forEach((interview) => {
+        interview.ratings.forEach((rating) => {
+          const key = rating.competencyId !== null ? `id:${rating.competencyId}` : `name:${rating.competencyName}`;
+          const entry = competencies.get(key) ?? {
+            competencyId: rating.competencyId,
+            competencyName: rating.competencyName,
+            weight: rating.weight,
+            ratingsCount: 0,
+            averageScore: 0,
+            normalizedTotal: 0,
+          };
+          entry.ratingsCount += 1;
+          entry.normalizedTotal += normalizeRating(rating);
+          entry.averageScore = roundScore(entry.normalizedTotal / entry.ratingsCount);
+          competencies.set(key, entry);
+        });
+
+        if (interview.recommendation) {
+          recommendations[interview.recommendation] = (recommendations[interview.recommendation] ?? 0) + 1;
+        }
+      });
+
+      return {
+        applicationId,
+        weightedScore: averageInterviewScores(interviews),
+        competencies: Array.from(competencies.values()).map(({ normalizedTotal, ...competency }) => competency),
+        interviews: interviews.map((interview) => ({
+          interviewId: interview.id,
+          interviewStepId: interview.interviewStepId,
+          interviewStepName: interview.interviewStep.name,
+          employeeId: interview.employeeId,
+          recommendation: interview.recommendation,
+          weightedScore: interviewScore(interview),
+        })),
+        recommendations,
+      };
+    } catch (error) {
+      return wrapError(error, 'retrieve application scorecard');
+    }
+  };
+
+  return {
+    getScorecardTemplate,
+    updateScorecardTemplate,
+    submitScorecard,
+    getApplicationScorecard,
+  };
+};
+
+// Default instance with real Prisma client
+const scorecardService = createScorecardService(prisma);
+
+export const getScorecardTemplate = scorecardService.getScorecardTemplate;
+export const updateScorecardTemplate = scorecardService.updateScorecardTemplate;
+export const submitScorecard = scorecardService.submitScorecard;
+export const getApplicationScorecard = scorecardService.getApplicationScorecard;
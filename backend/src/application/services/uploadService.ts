@@ -0,0 +1,67 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma } from '../database';
+import { UnknownUploadError } from '../../types/errors';
+import { AuthenticatedEmployee } from '../../types/auth';
+import { ResumeScanStatus, UploadedResume } from '../../types/resume';
+
+// Export for dependency injection in tests
+export const createUploadService = (prismaClient: PrismaClient) => {
+  /**
+   * Records a file accepted by POST /upload, so a new candidate's cv can name it by its key.
+   * The same content uploaded again keeps its first record.
+   * @param file - The stored file, which passed verification and the scan
+   * @param employee - The signed-in employee who uploaded it
+   */
+  const recordUpload = async (file: UploadedResume, employee: AuthenticatedEmployee): Promise<void> => {
+    await prismaClient.upload.upsert({
+      where: { companyId_key: { companyId: employee.companyId, key: file.filePath } },
+      create: {
+        companyId: employee.companyId,
+        key: file.filePath,
+        fileType: file.fileType,
+        originalName: file.originalName,
+        fileSize: file.fileSize,
+        scanStatus: file.scanStatus,
+        scanDetail: file.scanDetail,
+        scannedAt: file.scannedAt,
+        uploadedById: employee.id,
+      },
+      update: {},
+    });
+  };
+
+  /**
+   * Finds the upload a new candidate's cv names. The type, name and scan result come from the
+   * record, never from the request.
+   * @param key - The storage key returned by POST /upload
+   * @returns Promise<UploadedResume> - The stored file
+   * @throws UnknownUploadError when the company has no accepted upload under the key
+   */
+  const findUpload = async (key: string): Promise<UploadedResume> => {
+    const upload = await prismaClient.upload.findFirst({ where: { key } });
+    if (!upload || upload.scanStatus === 'Quarantined') {
+      throw new UnknownUploadError(key);
+    }
+
+    return {
+      filePath: upload.key,
+      fileType: upload.fileType,
+      originalName: upload.originalName,
+      fileSize: upload.fileSize,
+      scanStatus: upload.scanStatus as ResumeScanStatus,
+      scanDetail: upload.scanDetail,
+      scannedAt: upload.scannedAt,
+    };
+  };
+
+  return {
+    recordUpload,
+    findUpload,
+  };
+};
+
+// Default instance with real Prisma client
+const uploadService = createUploadService(prisma);
+
+export const recordUpload = uploadService.recordUpload;
+export const findUpload = uploadService.findUpload;
@@ -0,0 +1,60 @@
+import { createLocalFileStorage } from './localFileStorage';
+import { createS3FileStorage } from './s3FileStorage';
+import { InvalidStorageConfigError } from '../../types/errors';
+import { FileStorage, STORAGE_DRIVERS, StorageConfig, StorageDriver } from '../../types/storage';
+
+// Same directory multer wrote to before storage was configurable
+export const DEFAULT_LOCAL_ROOT = '../uploads';
+
+/**
+ * Reads the storage settings: STORAGE_DRIVER selects "local" (default) or "s3"
+ * @param env - The environment to read, process.env by default
+ */
+export const loadStorageConfig = (env: NodeJS.ProcessEnv = process.env): StorageConfig => {
+  const driver = (env.STORAGE_DRIVER || 'local') as StorageDriver;
+  if (!STORAGE_DRIVERS.includes(driver)) {
+    throw new InvalidStorageConfigError('STORAGE_DRIVER', `must be one of ${STORAGE_DRIVERS.join(', ')}`);
+  }
+
+  if (driver === 'local') {
+    return { driver, root: env.STORAGE_LOCAL_ROOT || DEFAULT_LOCAL_ROOT };
+  }
+
+  if (!env.S3_BUCKET) {
+    throw new InvalidStorageConfigError('S3_BUCKET', 'is required by the s3 driver');
+  }
+  if (!!env.S3_ACCESS_KEY_ID !== !!env.S3_SECRET_ACCESS_KEY) {
+    throw new InvalidStorageConfigError('S3_ACCESS_KEY_ID', 'and S3_SECRET_ACCESS_KEY must be set together');
+  }
+  const prefix = (env.S3_PREFIX ?? '').replace(/^\/+/, '');
+
+  return {
+    driver,
+    bucket: env.S3_BUCKET,
+    region: env.S3_REGION || 'us-east-1',
+    endpoint: env.S3_ENDPOINT || undefined,
+    // MinIO and most self-hosted services only serve path-style URLs
+    forcePathStyle: env.S3_FORCE_PATH_STYLE ? env.S3_FORCE_PATH_STYLE === 'true' : !!env.S3_ENDPOINT,
+    accessKeyId: env.S3_ACCESS_KEY_ID || undefined,
+    secretAccessKey: env.S3_SECRET_ACCESS_KEY || undefined,
+    prefix: prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix,
+  };
+};
+
+/**
+ * Builds the storage backend selected by the configuration
+ */
+export const createFileStorage = (config: StorageConfig): FileStorage =>
+  config.driver === 's3' ? createS3FileStorage(config) : createLocalFileStorage(config.root);
+
+let defaultStorage: FileStorage | null = null;
+
+/**
+ * Storage backend configured by the environment, created on first use
+ */
+export const getFileStorage = (): FileStorage => {
+  if (!defaultStorage) {
+    defaultStorage = createFileStorage(loadStorageConfig());
+  }
+  return defaultStorage;
+};
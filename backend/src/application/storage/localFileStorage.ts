@@ -0,0 +1,83 @@
+import { randomBytes } from 'crypto';
+import { createReadStream } from 'fs';
+import { access, mkdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { assertValidKey, contentKey } from './storageKeys';
+import { InvalidStorageKeyError, StoredFileNotFoundError } from '../../types/errors';
+import { FileStorage, StoredFile } from '../../types/storage';
+
+const isMissing = (error: unknown): boolean => (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+/**
+ * Stores files under a directory of the local filesystem
+ * @param root - The directory, resolved against the process working directory
+ */
+export const createLocalFileStorage = (root: string): FileStorage => {
+  const rootPath = path.resolve(root);
+
+  const resolveKey = (key: string): string => {
+    assertValidKey(key);
+    const filePath = path.resolve(rootPath, key);
+    if (!filePath.startsWith(rootPath + path.sep)) {
+      throw new InvalidStorageKeyError(key);
+    }
+    return filePath;
+  };
+
+  const exists = async (key: string): Promise<boolean> => {
+    try {
+      await access(resolveKey(key));
+      return true;
+    } catch (error) {
+      if (isMissing(error)) return false;
+      throw error;
+    }
+  };
+
+  const save = async (content: Buffer, originalName: string, contentType: string, folder?: string): Promise<StoredFile> => {
+    const key = contentKey(content, originalName, folder);
+    if (await exists(key)) {
+      return { key, size: content.length };
+    }
+
+    // Write next to the target and rename, so a crash never leaves a partial file under the key
+    const filePath = resolveKey(key);
+    const temporaryPath = `${filePath}.${randomBytes(6).toString('hex')}.tmp`;
+    await mkdir(path.dirname(filePath), { recursive: true });
+    try {
+      await writeFile(temporaryPath, content, { flag: 'wx' });
+      await rename(temporaryPath, filePath);
+    } catch (error) {
+      await unlink(temporaryPath).catch(() => undefined);
+      throw error;
+    }
+    return { key, size: content.length };
+  };
+
+  const read = async (key: string): Promise<Buffer> => {
+    try {
+      return await readFile(resolveKey(key));
+    } catch (error) {
+      if (isMissing(error)) throw new StoredFileNotFoundError(key);
+      throw error;
+    }
+  };
+
+  const openReadStream = async (key: string): Promise<Readable> => {
+    if (!(await exists(key))) {
+      throw new StoredFileNotFoundError(key);
+    }
+    return createReadStream(resolveKey(key));
+  };
+
+  const remove = async (key: string): Promise<void> => {
+    try {
+      await unlink(resolveKey(key));
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+    }
+  };
+
+  return { driver: 'local', save, read, openReadStream, exists, remove };
+};
@@ -0,0 +1,88 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { assertValidKey, contentKey } from './storageKeys';
+import { StoredFileNotFoundError } from '../../types/errors';
+import { FileStorage, S3StorageConfig, StoredFile } from '../../types/storage';
+
+const isMissing = (error: unknown): boolean => {
+  const { name, $metadata } = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return name === 'NoSuchKey' || name === 'NotFound' || $metadata?.httpStatusCode === 404;
+};
+
+/**
+ * S3 client for the configured endpoint and credentials
+ */
+export const createS3Client = (config: S3StorageConfig): S3Client =>
+  new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials:
+      config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+  });
+
+/**
+ * Stores files as objects of an S3 bucket, or of an S3-compatible service such as MinIO
+ * @param config - Bucket, endpoint and credentials
+ * @param client - The S3 client, created from the configuration by default
+ */
+export const createS3FileStorage = (config: S3StorageConfig, client: S3Client = createS3Client(config)): FileStorage => {
+  const objectKey = (key: string): string => {
+    assertValidKey(key);
+    return `${config.prefix}${key}`;
+  };
+
+  const getObject = async (key: string) => {
+    try {
+      const { Body } = await client.send(new GetObjectCommand({ Bucket: config.bucket, Key: objectKey(key) }));
+      if (!Body) throw new StoredFileNotFoundError(key);
+      return Body;
+    } catch (error) {
+      if (isMissing(error)) throw new StoredFileNotFoundError(key);
+      throw error;
+    }
+  };
+
+  const exists = async (key: string): Promise<boolean> => {
+    try {
+      await client.send(new HeadObjectCommand({ Bucket: config.bucket, Key: objectKey(key) }));
+      return true;
+    } catch (error) {
+      if (isMissing(error)) return false;
+      throw error;
+    }
+  };
+
+  const save = async (content: Buffer, originalName: string, contentType: string, folder?: string): Promise<StoredFile> => {
+    const key = contentKey(content, originalName, folder);
+    if (!(await exists(key))) {
+      await client.send(
+        new PutObjectCommand({ Bucket: config.bucket, Key: objectKey(key), Body: content, ContentType: contentType }),
+      );
+    }
+    return { key, size: content.length };
+  };
+
+  const read = async (key: string): Promise<Buffer> => {
+    const body = await getObject(key);
+    return Buffer.from(await body.transformToByteArray());
+  };
+
+  // In Node.js the SDK returns object bodies as readable streams
+  const openReadStream = async (key: string): Promise<Readable> => (await getObject(key)) as Readable;
+
+  // S3 deletes are idempotent, so a missing object needs no special case
+  const remove = async (key: string): Promise<void> => {
+    await client.send(new DeleteObjectCommand({ Bucket: config.bucket, Key: objectKey(key) }));
+  };
+
+  return { driver: 's3', save, read, openReadStream, exists, remove };
+};
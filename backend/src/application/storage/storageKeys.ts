@@ -0,0 +1,64 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { InvalidStorageKeyError } from '../../types/errors';
+import { QUARANTINE_FOLDER } from '../../types/storage';
+
+const MAX_FILE_NAME_LENGTH = 100;
+
+/**
+ * Reduces a client-supplied file name to ASCII letters, digits, dots, dashes and underscores,
+ * without directories, so it is safe in keys, logs and Content-Disposition headers
+ */
+export const sanitizeFileName = (originalName: string): string => {
+  const base = originalName.split(/[/\\]/).pop() ?? '';
+  const sanitized = base
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9._-]+/g, '-')
+    .replace(/-{2,}/g, '-')
+    .replace(/-\./g, '.')
+    .replace(/^[.-]+|[.-]+$/g, '');
+
+  if (sanitized.length <= MAX_FILE_NAME_LENGTH) {
+    return sanitized || 'file';
+  }
+  // Keep the extension when shortening
+  const extension = path.extname(sanitized).slice(0, 11);
+  return sanitized.slice(0, MAX_FILE_NAME_LENGTH - extension.length) + extension;
+};
+
+/**
+ * Storage key of a file: the SHA-256 of its content, fanned out by the first two hex digits,
+ * with the lower-cased extension of its sanitized name, inside the folder when one is given
+ */
+export const contentKey = (content: Buffer, originalName: string, folder?: string): string => {
+  const hash = createHash('sha256').update(content).digest('hex');
+  const extension = path.extname(sanitizeFileName(originalName)).toLowerCase();
+  const key = `${hash.slice(0, 2)}/${hash}${/^\.[a-z0-9]{1,10}$/.test(extension) ? extension : ''}`;
+  return folder ? `${folder}/${key}` : key;
+};
+
+/**
+ * Whether a key is relative, stays inside the storage root and names each file one way only:
+ * no empty, "." or ".." segments
+ */
+export const isValidKey = (key: string): boolean =>
+  key !== '' &&
+  !key.startsWith('/') &&
+  !key.includes('\0') &&
+  !key.split(/[/\\]/).some((segment) => segment === '..' || segment === '.' || segment === '');
+
+/**
+ * Whether a valid key lies in the quarantine folder
+ */
+export const isQuarantineKey = (key: string): boolean => key.split(/[/\\]/)[0] === QUARANTINE_FOLDER;
+
+/**
+ * Rejects keys that are empty, absolute, climb out of the storage root or are not in their
+ * canonical form
+ */
+export const assertValidKey = (key: string): void => {
+  if (!isValidKey(key)) {
+    throw new InvalidStorageKeyError(key);
+  }
+};
@@ -0,0 +1,168 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { PrismaClient } from '@prisma/client';
+import { CrossTenantWriteError } from '../types/errors';
+
+type Where = Record<string, unknown>;
+type Args = Record<string, unknown>;
+
+const tenantContext = new AsyncLocalStorage<{ companyId: number }>();
+
+/**
+ * Runs a callback, and everything it starts, on behalf of a company. Queries made through a
+ * tenant scoped client only see and write that company's rows.
+ * @param companyId - The ID of the company
+ * @param callback - The work to run
+ */
+export const runWithTenant = <T>(companyId: number, callback: () => T): T => tenantContext.run({ companyId }, callback);
+
+/**
+ * The company of the current request, or undefined outside of one (logins, seeds, scripts)
+ */
+export const currentCompanyId = (): number | undefined => tenantContext.getStore()?.companyId;
+
+// How each model reaches its company; models left out (sessions, password resets) are not tenant data
+const TENANT_FILTERS: Record<string, (companyId: number) => Where> = {
+  Company: (companyId) => ({ id: companyId }),
+  Candidate: (companyId) => ({ companyId }),
+  Position: (companyId) => ({ companyId }),
+  Employee: (companyId) => ({ companyId }),
+  CandidateSearchDocument: (companyId) => ({ candidate: { companyId } }),
+  Education: (companyId) => ({ candidate: { companyId } }),
+  WorkExperience: (companyId) => ({ candidate: { companyId } }),
+  Resume: (companyId) => ({ candidate: { companyId } }),
+  Upload: (companyId) => ({ companyId }),
+  PositionStatusHistory: (companyId) => ({ position: { companyId } }),
+  Application: (companyId) => ({ position: { companyId } }),
+  ApplicationStageHistory: (companyId) => ({ application: { position: { companyId } } }),
+  Interview: (companyId) => ({ application: { position: { companyId } } }),
+  InterviewRating: (companyId) => ({ interview: { application: { position: { companyId } } } }),
+  InterviewFlow: (companyId) => ({ companyId }),
+  InterviewStep: (companyId) => ({ interviewFlow: { companyId } }),
+  InterviewType: (companyId) => ({ companyId }),
+  ScorecardCompetency: (companyId) => ({ interviewType: { companyId } }),
+};
+
+// Rows without a company are templates: every company reads them, none can change them
+const SHARED_FILTERS: Record<string, Where> = {
+  InterviewFlow: { companyId: null },
+  InterviewStep: { interviewFlow: { companyId: null } },
+  InterviewType: { companyId: null },
+  ScorecardCompetency: { interviewType: { companyId: null } },
+};
+
+// Models that store their company themselves, so new rows are stamped with it
+const COMPANY_OWNED_MODELS = ['Candidate', 'Position', 'Employee', 'InterviewFlow', 'InterviewType', 'Upload'];
+
+const READ_OPERATIONS = [
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+];
+
+const FILTERED_OPERATIONS = [
+  ...READ_OPERATIONS,
+  'update',
+  'updateMany',
+  'upsert',
+  'delete',
+  'deleteMany',
+];
+
+// Prisma arguments arrive untyped; only plain objects are read as a where clause or row data
+const asRecord = (value: unknown): Args | undefined =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Args) : undefined;
+
+const addFilter = (where: Where | undefined, filter: Where): Where => {
+  if (!where) return filter;
+  const and = where.AND === undefined ? [] : ([] as unknown[]).concat(where.AND);
+  // Unique fields stay at the top level so findUnique, update and delete still accept the filter
+  return { ...where, AND: [...and, filter] };
+};
+
+const stampCompany = (model: string, data: Args | undefined, companyId: number): Args | undefined => {
+  if (!data) return data;
+  if (data.companyId !== undefined && data.companyId !== companyId) {
+    throw new CrossTenantWriteError(model, data.companyId);
+  }
+  return { ...data, companyId };
+};
+
+const checkCompany = (model: string, data: Args | undefined, companyId: number): Args | undefined => {
+  if (data?.companyId !== undefined && data.companyId !== companyId) {
+    throw new CrossTenantWriteError(model, data.companyId);
+  }
+  return data;
+};
+
+/**
+ * Narrows the arguments of a Prisma operation to one company: every read, update and delete is
+ * filtered to the company's rows, and rows of company owned models are created for the company.
+ * Reads of shared models also see the templates, which updates and deletes never reach.
+ * Rows of other models are created under a parent that the scoped reads have already found.
+ * @param model - The Prisma model name
+ * @param operation - The Prisma operation
+ * @param args - The arguments of the operation
+ * @param companyId - The ID of the company
+ * @returns The scoped arguments, never undefined even when the operation was given none
+ * @throws CrossTenantWriteError when the data names another company
+ */
+export const scopeTenantArgs = (model: string, operation: string, args: Args | undefined, companyId: number): Args => {
+  const filter = TENANT_FILTERS[model];
+  if (!filter) return { ...args };
+
+  let scoped: Args = { ...args };
+  if (FILTERED_OPERATIONS.includes(operation)) {
+    const shared = READ_OPERATIONS.includes(operation) ? SHARED_FILTERS[model] : undefined;
+    scoped.where = addFilter(asRecord(scoped.where), shared ? { OR: [filter(companyId), shared] } : filter(companyId));
+  }
+  if (!COMPANY_OWNED_MODELS.includes(model)) {
+    return scoped;
+  }
+
+  switch (operation) {
+    case 'create':
+      scoped.data = stampCompany(model, asRecord(scoped.data), companyId);
+      break;
+    case 'createMany':
+      scoped.data = ([] as unknown[])
+        .concat(scoped.data ?? [])
+        .map((data) => stampCompany(model, asRecord(data), companyId));
+      break;
+    case 'upsert':
+      scoped = {
+        ...scoped,
+        create: stampCompany(model, asRecord(scoped.create), companyId),
+        update: checkCompany(model, asRecord(scoped.update), companyId),
+      };
+      break;
+    case 'update':
+    case 'updateMany':
+      scoped.data = checkCompany(model, asRecord(scoped.data), companyId);
+      break;
+  }
+  return scoped;
+};
+
+/**
+ * Extends a Prisma client so the queries made inside runWithTenant are scoped to that company.
+ * Raw queries are not scoped and must filter by currentCompanyId() themselves.
+ * @param client - The Prisma client to extend
+ * @returns The tenant scoped client
+ */
+export const withTenantScope = (client: PrismaClient): PrismaClient =>
+  client.$extends({
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const companyId = currentCompanyId();
+          if (companyId === undefined) return query(args);
+          return query(scopeTenantArgs(model, operation, args, companyId) as typeof args);
+        },
+      },
+    },
+  }) as unknown as PrismaClient;
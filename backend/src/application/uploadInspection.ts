@@ -0,0 +1,45 @@
+import { verifyDocument } from './documentVerification';
+import { getMalwareScanner } from './scanning/malwareScanner';
+import { ResumeScanStatus } from '../types/resume';
+import { MalwareScanner } from '../types/scanning';
+
+export interface UploadInspection {
+  /** The type detected from the content, or the declared one when the content was rejected */
+  fileType: string;
+  scanStatus: ResumeScanStatus;
+  scanDetail: string | null;
+  scannedAt: Date | null;
+}
+
+/**
+ * Verifies the content of an upload and scans it for malware. Any failure, including a scanner
+ * that cannot be reached, quarantines the file.
+ * @param content - The uploaded bytes
+ * @param declaredType - The MIME type the client sent
+ * @param scanner - The malware scanner, the configured one by default
+ */
+export const inspectUpload = async (
+  content: Buffer,
+  declaredType: string,
+  scanner: MalwareScanner = getMalwareScanner(),
+): Promise<UploadInspection> => {
+  const check = verifyDocument(content, declaredType);
+  if (!check.valid) {
+    return { fileType: declaredType, scanStatus: 'Quarantined', scanDetail: check.reason, scannedAt: new Date() };
+  }
+  if (scanner.driver === 'none') {
+    return { fileType: check.fileType, scanStatus: 'Unscanned', scanDetail: null, scannedAt: null };
+  }
+
+  try {
+    const result = await scanner.scan(content);
+    if (result.status === 'infected') {
+      return { fileType: check.fileType, scanStatus: 'Quarantined', scanDetail: `malware detected: ${result.signature}`, scannedAt: new Date() };
+    }
+    return { fileType: check.fileType, scanStatus: 'Clean', scanDetail: null, scannedAt: new Date() };
+  } catch (error) {
+    console.error('Error scanning upload:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { fileType: check.fileType, scanStatus: 'Quarantined', scanDetail: `scan failed: ${message}`, scannedAt: new Date() };
+  }
+};
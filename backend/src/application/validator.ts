@@ -1,85 +1,86 @@
-const NAME_REGEX = /^[a-zA-ZñÑáéíóúÁÉÍÓÚ ]+$/;
-const EMAIL_REGEX = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
-const PHONE_REGEX = /^(6|7|9)\d{8}$/;
-const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
-
-//Length validations according to the database schema
-
-const validateName = (name: string) => {
-    if (!name || name.length < 2 || name.length > 100 || !NAME_REGEX.test(name)) {
-        throw new Error('Invalid name');
-    }
-};
-
-const validateEmail = (email: string) => {
-    if (!email || !EMAIL_REGEX.test(email)) {
-        throw new Error('Invalid email');
-    }
+import { ZodTypeAny } from 'zod';
+import {
+    candidateAddress,
+    candidateEmail,
+    candidateName,
+    candidatePhone,
+    educationFields,
+    workExperienceFields
+} from '../schemas/candidate';
+import { isQuarantineKey, isValidKey } from './storage/storageKeys';
+
+// The rules live in the request schemas; these checks apply them to data that does not come
+// straight from a request (application payloads, resume suggestions) with the legacy messages
+
+const FIELD_MESSAGES: Record<string, string> = {
+    institution: 'Invalid institution',
+    title: 'Invalid title',
+    company: 'Invalid company',
+    position: 'Invalid position',
+    description: 'Invalid description',
+    startDate: 'Invalid date',
+    endDate: 'Invalid end date',
 };
 
-const validatePhone = (phone: string) => {
-    if (phone && !PHONE_REGEX.test(phone)) {
-        throw new Error('Invalid phone');
+const check = (schema: ZodTypeAny, value: unknown, message: string) => {
+    if (!schema.safeParse(value).success) {
+        throw new Error(message);
     }
 };
 
-const validateDate = (date: string) => {
-    if (!date || !DATE_REGEX.test(date)) {
-        throw new Error('Invalid date');
+// Reports the first failing field of a record
+const checkRecord = (schema: ZodTypeAny, record: unknown) => {
+    const result = schema.safeParse(record);
+    if (!result.success) {
+        throw new Error(FIELD_MESSAGES[String(result.error.issues[0].path[0])] ?? 'Invalid data');
     }
 };
 
-const validateAddress = (address: string) => {
-    if (address && address.length > 100) {
-        throw new Error('Invalid address');
-    }
-};
+const validateName = (name: string) => check(candidateName, name, 'Invalid name');
 
-const validateEducation = (education: any) => {
-    if (!education.institution || education.institution.length > 100) {
-        throw new Error('Invalid institution');
-    }
+const validateEmail = (email: string) => check(candidateEmail, email, 'Invalid email');
 
-    if (!education.title || education.title.length > 100) {
-        throw new Error('Invalid title');
-    }
+const validatePhone = (phone: string) => check(candidatePhone, phone, 'Invalid phone');
 
-    validateDate(education.startDate);
+const validateAddress = (address: string) => check(candidateAddress, address, 'Invalid address');
 
-    if (education.endDate && !DATE_REGEX.test(education.endDate)) {
-        throw new Error('Invalid end date');
-    }
-};
+// In partial mode (editing) only the fields present on the payload are checked
+const validateEducation = (education: any, partial = false) =>
+    checkRecord(partial ? educationFields.partial() : educationFields, education);
 
-const validateExperience = (experience: any) => {
-    if (!experience.company || experience.company.length > 100) {
-        throw new Error('Invalid company');
-    }
+const validateExperience = (experience: any, partial = false) =>
+    checkRecord(partial ? workExperienceFields.partial() : workExperienceFields, experience);
 
-    if (!experience.position || experience.position.length > 100) {
-        throw new Error('Invalid position');
+const validateCV = (cv: any) => {
+    // The file type is taken from the upload record, so a fileType sent along is not checked
+    if (typeof cv !== 'object' || !cv.filePath || typeof cv.filePath !== 'string') {
+        throw new Error('Invalid CV data');
     }
-
-    if (experience.description && experience.description.length > 200) {
-        throw new Error('Invalid description');
+    // Quarantined uploads are never attached to a candidate; keys such as "./quarantine/..." are not valid
+    if (!isValidKey(cv.filePath) || isQuarantineKey(cv.filePath)) {
+        throw new Error('Invalid CV data');
     }
+};
 
-    validateDate(experience.startDate);
+export const validateEducationData = validateEducation;
 
-    if (experience.endDate && !DATE_REGEX.test(experience.endDate)) {
-        throw new Error('Invalid end date');
-    }
-};
+export const validateWorkExperienceData = validateExperience;
 
-const validateCV = (cv: any) => {
-    if (typeof cv !== 'object' || !cv.filePath || typeof cv.filePath !== 'string' || !cv.fileType || typeof cv.fileType !== 'string') {
-        throw new Error('Invalid CV data');
-    }
+/**
+ * Validates the fields supplied when editing a candidate; omitted fields are left untouched
+ */
+export const validateCandidateUpdate = (data: any) => {
+    if (data.firstName !== undefined) validateName(data.firstName);
+    if (data.lastName !== undefined) validateName(data.lastName);
+    if (data.email !== undefined) validateEmail(data.email);
+    if (data.phone !== undefined) validatePhone(data.phone);
+    if (data.address !== undefined) validateAddress(data.address);
 };
 
 export const validateCandidateData = (data: any) => {
     if (data.id) {
-        // If id is provided, we are editing an existing candidate, so fields are not mandatory
+        // If id is provided, we are editing an existing candidate, so only the supplied fields are checked
+        validateCandidateUpdate(data);
         return;
     }
 
@@ -104,4 +105,4 @@ export const validateCandidateData = (data: any) => {
     if (data.cv && Object.keys(data.cv).length > 0) {
         validateCV(data.cv);
     }
-};
\ No newline at end of file
+};
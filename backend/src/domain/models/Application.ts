@@ -1,8 +1,6 @@
-import { PrismaClient } from '@prisma/client';
+import { prisma } from '../../application/database';
 import { Interview } from './Interview';
 
-const prisma = new PrismaClient();
-
 export class Application {
     id?: number;
     positionId: number;
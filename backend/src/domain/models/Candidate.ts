@@ -1,13 +1,14 @@
-import { Prisma, PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../application/database';
+import { CandidateProfileNotFoundError, DependencyFailureError } from '../../types/errors';
 import { Application } from './Application';
 import { Education } from './Education';
 import { Resume } from './Resume';
 import { WorkExperience } from './WorkExperience';
 
-const prisma = new PrismaClient();
-
 export class Candidate {
   id?: number;
+  companyId?: number;
   firstName: string;
   lastName: string;
   email: string;
@@ -20,6 +21,7 @@ export class Candidate {
 
   constructor(data: any) {
     this.id = data.id;
+    this.companyId = data.companyId;
     this.firstName = data.firstName;
     this.lastName = data.lastName;
     this.email = data.email;
@@ -35,6 +37,7 @@ export class Candidate {
     const candidateData: any = {};
 
     // Solo añadir al objeto candidateData los campos que no son undefined
+    if (this.companyId !== undefined) candidateData.companyId = this.companyId;
     if (this.firstName !== undefined) candidateData.firstName = this.firstName;
     if (this.lastName !== undefined) candidateData.lastName = this.lastName;
     if (this.email !== undefined) candidateData.email = this.email;
@@ -69,9 +72,12 @@ export class Candidate {
     // Añadir resumes si hay alguno para añadir
     if (this.resumes.length > 0) {
       candidateData.resumes = {
-        create: this.resumes.map(resume => ({
+        create: this.resumes.map((resume, index) => ({
           filePath: resume.filePath,
-          fileType: resume.fileType
+          fileType: resume.fileType,
+          uploadDate: resume.uploadDate,
+          version: index + 1,
+          isCurrent: index === this.resumes.length - 1
         }))
       };
     }
@@ -99,10 +105,10 @@ export class Candidate {
       } catch (error: any) {
         if (error instanceof Prisma.PrismaClientInitializationError) {
           // Database connection error
-          throw new Error('No se pudo conectar con la base de datos. Por favor, asegúrese de que el servidor de base de datos esté en ejecución.');
+          throw new DependencyFailureError('The database', 'is unreachable');
         } else if (error.code === 'P2025') {
           // Record not found error
-          throw new Error('No se pudo encontrar el registro del candidato con el ID proporcionado.');
+          throw new CandidateProfileNotFoundError(this.id);
         } else {
           throw error;
         }
@@ -117,7 +123,7 @@ export class Candidate {
       } catch (error: any) {
         if (error instanceof Prisma.PrismaClientInitializationError) {
           // Database connection error
-          throw new Error('No se pudo conectar con la base de datos. Por favor, asegúrese de que el servidor de base de datos esté en ejecución.');
+          throw new DependencyFailureError('The database', 'is unreachable');
         } else {
           throw error;
         }
@@ -157,6 +163,7 @@ export class Candidate {
       }
     });
     if (!data) return null;
-    return new Candidate(data);
+    // The relations are named educations and workExperiences in the schema
+    return new Candidate({ ...data, education: data.educations, workExperience: data.workExperiences });
   }
 }
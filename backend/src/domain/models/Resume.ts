@@ -1,27 +1,44 @@
-import { PrismaClient } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { prisma } from '../../application/database';
 
 export class Resume {
   id: number;
   candidateId: number;
   filePath: string;
   fileType: string;
+  originalName?: string;
+  fileSize?: number;
+  version: number;
+  isCurrent: boolean;
   uploadDate: Date;
+  scanStatus: string;
+  scanDetail: string | null;
+  scannedAt: Date | null;
 
   constructor(data: any) {
     this.id = data?.id;
     this.candidateId = data?.candidateId;
     this.filePath = data?.filePath;
     this.fileType = data?.fileType;
-    this.uploadDate = new Date();
+    this.originalName = data?.originalName ?? undefined;
+    this.fileSize = data?.fileSize ?? undefined;
+    this.version = data?.version ?? 1;
+    this.isCurrent = data?.isCurrent ?? true;
+    this.uploadDate = data?.uploadDate ? new Date(data.uploadDate) : new Date();
+    this.scanStatus = data?.scanStatus ?? 'Unscanned';
+    this.scanDetail = data?.scanDetail ?? null;
+    this.scannedAt = data?.scannedAt ? new Date(data.scannedAt) : null;
   }
 
   async save(): Promise<Resume> {
     if (!this.id) {
       return await this.create();
     }
-    throw new Error('No se permite la actualización de un currículum existente.');
+    // El archivo de una versión no cambia; solo se puede marcar o desmarcar como actual
+    const updatedResume = await prisma.resume.update({
+      where: { id: this.id },
+      data: { isCurrent: this.isCurrent },
+    });
+    return new Resume(updatedResume);
   }
 
   async create(): Promise<Resume> {
@@ -30,7 +47,14 @@ export class Resume {
         candidateId: this.candidateId,
         filePath: this.filePath,
         fileType: this.fileType,
-        uploadDate: this.uploadDate
+        originalName: this.originalName,
+        fileSize: this.fileSize,
+        version: this.version,
+        isCurrent: this.isCurrent,
+        uploadDate: this.uploadDate,
+        scanStatus: this.scanStatus,
+        scanDetail: this.scanDetail,
+        scannedAt: this.scannedAt
       },
     });
     return new Resume(createdResume);
@@ -4,28 +4,50 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 import { PrismaClient } from '@prisma/client';
+import cookieParser from 'cookie-parser';
 import cors from 'cors';
-import express, { NextFunction, Request, Response } from 'express';
+import express from 'express';
 import { uploadFile } from './application/services/fileUploadService';
+import { prisma } from './application/database';
+import { requireAuthentication } from './middleware/authentication';
+import { authorize } from './middleware/authorization';
+import { assignCorrelationId, errorHandler, routeNotFound } from './middleware/errorHandling';
+import { createSecurityPipeline, loadSecurityConfig } from './middleware/securityPipeline';
+import applicationRoutes from './routes/applicationRoutes';
+import authRoutes from './routes/authRoutes';
 import candidateRoutes from './routes/candidateRoutes';
+import docsRoutes from './routes/docsRoutes';
+import interviewFlowRoutes from './routes/interviewFlowRoutes';
+import interviewRoutes from './routes/interviewRoutes';
 import kanbanRoutes from './routes/kanbanRoutes';
+import positionRoutes from './routes/positionRoutes';
+import resumeRoutes from './routes/resumeRoutes';
+import scorecardRoutes from './routes/scorecardRoutes';
+import { AuthenticatedEmployee } from './types/auth';
 
-// Extender la interfaz Request para incluir prisma
+// Extender la interfaz Request para incluir prisma, el empleado autenticado y el ID de correlación
 declare global {
   namespace Express {
     interface Request {
       prisma: PrismaClient;
+      employee?: AuthenticatedEmployee;
+      correlationId?: string;
     }
   }
 }
-const prisma = new PrismaClient();
 
 export const app = express();
 export default app;
 
+// Every request gets a correlation ID, echoed in the X-Correlation-Id header and in error responses
+app.use(assignCorrelationId);
+
 // Middleware para parsear JSON. Asegúrate de que esto esté antes de tus rutas.
 app.use(express.json());
 
+// Las cookies llevan los tokens de sesión
+app.use(cookieParser());
+
 // Middleware para adjuntar prisma al objeto de solicitud
 app.use((req, res, next) => {
   req.prisma = prisma;
@@ -38,14 +60,90 @@ app.use(cors({
   credentials: true
 }));
 
+// Security headers, rate limits and input checks, configured per route group (auth, upload and
+// the rest of the API) by the SECURITY_* environment variables
+app.use(createSecurityPipeline(loadSecurityConfig()));
+
+// The OpenAPI document and its Swagger UI are public
+app.use('/', docsRoutes);
+
+// Auth routes are reachable without a session; GET /auth/me checks it itself
+app.use('/auth', authRoutes);
+
+/**
+ * @openapi
+ * /:
+ *   get:
+ *     tags: [Health]
+ *     summary: Answers with a greeting while the server is up
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: The greeting
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ */
+app.get('/', (req, res) => {
+  res.send('Hola LTI!');
+});
+
+// Every route below requires a signed-in employee, available as req.employee, and checks their
+// role's permissions with authorize()
+app.use(requireAuthentication);
+
+// Resume downloads need a session of the candidate's company as well as their signed link
+app.use('/resumes', resumeRoutes);
+
 // Import and use kanban routes first (more specific routes should come before generic ones)
 app.use('/', kanbanRoutes);
 
+// Import and use applicationRoutes
+app.use('/', applicationRoutes);
+
+// Import and use interviewFlowRoutes
+app.use('/', interviewFlowRoutes);
+
+// Import and use interviewRoutes
+app.use('/', interviewRoutes);
+
+// Import and use scorecardRoutes
+app.use('/', scorecardRoutes);
+
 // Import and use candidateRoutes
 app.use('/candidates', candidateRoutes);
 
-// Route for file uploads
-app.post('/upload', uploadFile);
+// Import and use positionRoutes
+app.use('/positions', positionRoutes);
+
+/**
+ * @openapi
+ * /upload:
+ *   post:
+ *     tags: [Resumes]
+ *     summary: Uploads a PDF or DOCX and suggests the candidate it belongs to
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: A PDF or DOCX file
+ *     responses:
+ *       200:
+ *         description: The stored file and the suggested candidate
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UploadedFileResponse'
+ */
+app.post('/upload', authorize('candidates:write'), uploadFile);
 
 app.use((req, res, next) => {
   console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
@@ -54,16 +152,13 @@ app.use((req, res, next) => {
 
 const port = 3010;
 
-app.get('/', (req, res) => {
-  res.send('Hola LTI!');
-});
-
-app.use((err: any, req: Request, res: Response, next: NextFunction) => {
-  console.error(err.stack);
-  res.type('text/plain');
-  res.status(500).send('Something broke!');
-});
+// Unmatched routes and every error passed to next() are answered with application/problem+json
+app.use(routeNotFound);
+app.use(errorHandler);
 
-app.listen(port, () => {
-  console.log(`Server is running at http://localhost:${port}`);
-});
+// Tests import the app directly, so only bind the port outside of Jest
+if (process.env.NODE_ENV !== 'test') {
+  app.listen(port, () => {
+    console.log(`Server is running at http://localhost:${port}`);
+  });
+}
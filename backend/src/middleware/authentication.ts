@@ -0,0 +1,34 @@
+import { NextFunction, Request, Response } from 'express';
+import { authenticate } from '../application/services/authService';
+import { runWithTenant } from '../application/tenancy';
+
+export const ACCESS_TOKEN_COOKIE = 'access_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+/**
+ * Access token from an "Authorization: Bearer" header, or else from the access token cookie
+ */
+export const readAccessToken = (req: Request): string | undefined => {
+  const header = req.get('authorization');
+  const match = header ? /^Bearer\s+(\S+)$/i.exec(header) : null;
+  if (match) {
+    return match[1];
+  }
+  const cookie = req.cookies?.[ACCESS_TOKEN_COOKIE];
+  return typeof cookie === 'string' && cookie ? cookie : undefined;
+};
+
+/**
+ * Fails requests without a valid access token with AUTHENTICATION_REQUIRED or INVALID_SESSION (401)
+ * and attaches the signed-in employee to req.employee otherwise. The rest of the request runs
+ * scoped to the employee's company.
+ */
+export const requireAuthentication = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    req.employee = await authenticate(readAccessToken(req));
+  } catch (error) {
+    next(error);
+    return;
+  }
+  runWithTenant(req.employee.companyId, next);
+};
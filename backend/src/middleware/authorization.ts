@@ -0,0 +1,42 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { hasPermission } from '../application/permissions';
+import { canAccess } from '../application/services/accessControlService';
+import { AccessScope, Permission } from '../types/auth';
+import { AccessDeniedError } from '../types/errors';
+
+// IDs that are not positive integers are left to the route, which answers 400
+const readScopedId = (req: Request, scope: AccessScope): number | null => {
+  const raw = scope.body ? req.body?.[scope.body] : req.params[scope.param ?? 'id'];
+  const id = typeof raw === 'number' ? raw : parseInt(raw, 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+/**
+ * Lets the request through only when the signed-in employee's role has the permission and every
+ * scoped resource the request names is within their reach; fails with ACCESS_DENIED (403) otherwise.
+ * Runs after requireAuthentication.
+ * @param permission - The permission the route needs
+ * @param scopes - Resources to check, read from route parameters or body fields
+ */
+export const authorize = (permission: Permission, ...scopes: AccessScope[]): RequestHandler =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const employee = req.employee;
+    if (!employee || !hasPermission(employee, permission)) {
+      next(new AccessDeniedError(`role ${employee?.role ?? 'none'} lacks the ${permission} permission`));
+      return;
+    }
+
+    try {
+      for (const scope of scopes) {
+        const id = readScopedId(req, scope);
+        if (id !== null && !(await canAccess(employee, scope.resource, id))) {
+          next(new AccessDeniedError(`${scope.resource} ${id} is outside your scope`));
+          return;
+        }
+      }
+    } catch (error) {
+      next(error);
+      return;
+    }
+    next();
+  };
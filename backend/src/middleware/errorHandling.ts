@@ -0,0 +1,130 @@
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { ErrorRequestHandler, Request, RequestHandler, Response } from 'express';
+import {
+  AppError,
+  DependencyFailureError,
+  isAppError,
+  MalformedJsonError,
+  RequestBlockedError,
+  RouteNotFoundError
+} from '../types/errors';
+import { CORRELATION_ID_HEADER, PROBLEM_CONTENT_TYPE, ProblemDetails } from '../types/problem';
+
+// A correlation ID sent by the client is kept only when it cannot forge log lines
+const CLIENT_CORRELATION_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Middleware that gives every request a correlation ID, reusing the client's X-Correlation-Id when
+ * it is well formed, and sends it back in the X-Correlation-Id response header
+ */
+export const assignCorrelationId: RequestHandler = (req, res, next) => {
+  const supplied = req.get(CORRELATION_ID_HEADER);
+  req.correlationId = supplied && CLIENT_CORRELATION_ID.test(supplied) ? supplied : randomUUID();
+  res.setHeader(CORRELATION_ID_HEADER, req.correlationId);
+  next();
+};
+
+// Middleware mounted on its own, e.g. in tests, runs without assignCorrelationId
+const correlationIdOf = (req: Request, res: Response): string => {
+  if (!req.correlationId) {
+    req.correlationId = randomUUID();
+    res.setHeader(CORRELATION_ID_HEADER, req.correlationId);
+  }
+  return req.correlationId;
+};
+
+// POSITION_NOT_FOUND -> position-not-found
+const problemType = (code: string): string => `urn:lti:problem:${code.toLowerCase().replace(/_/g, '-')}`;
+
+// POSITION_NOT_FOUND -> Position not found
+const problemTitle = (code: string): string => {
+  const words = code.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Maps errors raised outside the application code (body parsing, the database driver) to
+ * application errors; anything else stays unknown
+ */
+const toAppError = (error: unknown): AppError | null => {
+  if (isAppError(error)) {
+    return error;
+  }
+  const bodyParserType = (error as { type?: unknown } | null)?.type;
+  if (bodyParserType === 'entity.parse.failed') {
+    return new MalformedJsonError();
+  }
+  if (bodyParserType === 'entity.too.large') {
+    return new RequestBlockedError({ status: 413, body: { error: 'Request entity too large', code: 'PAYLOAD_TOO_LARGE' } });
+  }
+  if (error instanceof Prisma.PrismaClientInitializationError) {
+    return new DependencyFailureError('The database', 'is unreachable');
+  }
+  return null;
+};
+
+/**
+ * Builds the problem details of an error. Unknown errors and internal errors are answered with a
+ * generic 500 so that no server detail leaks to the client.
+ */
+export const toProblem = (error: unknown, instance: string, correlationId: string): ProblemDetails => {
+  const appError = toAppError(error);
+  if (!appError || appError.category === 'internal') {
+    return {
+      type: problemType('INTERNAL_ERROR'),
+      title: problemTitle('INTERNAL_ERROR'),
+      status: 500,
+      detail: 'Internal server error',
+      instance,
+      code: 'INTERNAL_ERROR',
+      correlationId,
+    };
+  }
+
+  return {
+    ...appError.toProblemExtensions(),
+    type: problemType(appError.code),
+    title: problemTitle(appError.code),
+    status: appError.status,
+    detail: appError.message,
+    instance,
+    code: appError.code,
+    correlationId,
+  };
+};
+
+/**
+ * Answers a request with the problem details of an error
+ */
+export const sendProblem = (req: Request, res: Response, error: unknown): void => {
+  const problem = toProblem(error, req.originalUrl, correlationIdOf(req, res));
+
+  if (problem.status >= 500) {
+    console.error(`Request ${problem.correlationId} failed: ${req.method} ${req.originalUrl}`, error);
+  }
+  if (problem.status === 401) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+  }
+  res.status(problem.status).type(PROBLEM_CONTENT_TYPE).json(problem);
+};
+
+/**
+ * Answers requests that no route matched with 404 ROUTE_NOT_FOUND. Mount it after every route.
+ */
+export const routeNotFound: RequestHandler = (req, res, next) => {
+  next(new RouteNotFoundError(req.method, req.path));
+};
+
+/**
+ * Error handling middleware: answers every error passed to next() with an
+ * application/problem+json response. Mount it last.
+ */
+export const errorHandler: ErrorRequestHandler = (error, req, res, next) => {
+  // Once a response has started, e.g. a streamed download, only Express can abort it
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+  sendProblem(req, res, error);
+};
@@ -1,7 +1,10 @@
-import { NextFunction, Request, Response } from 'express';
-import rateLimit from 'express-rate-limit';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import rateLimit, { RateLimitExceededEventHandler } from 'express-rate-limit';
 import helmet from 'helmet';
 import DOMPurify from 'isomorphic-dompurify';
+import { RequestBlockedError } from '../types/errors';
+import { SecurityCheck, SecurityGuard } from '../types/security';
+import { sendProblem } from './errorHandling';
 
 /**
  * Security Middleware Stack
@@ -13,10 +16,29 @@ import DOMPurify from 'isomorphic-dompurify';
  * - CSRF protection
  * - Path traversal prevention
  * - ReDoS protection
+ *
+ * Each blocking guard is a check that returns the violation a request would be blocked for, so
+ * the security pipeline can run it in report-only mode as well.
  */
 
-// Rate limiting configuration - more permissive for tests
-export const rateLimiter = rateLimit({
+/**
+ * Middleware that answers with the problem details of the violation found by the check, or passes
+ * clean requests on. Guards answer themselves so they also work mounted without the error handler.
+ */
+export const blockOn = (check: SecurityCheck): RequestHandler => (req, res, next) => {
+  const violation = check(req);
+  if (violation) {
+    sendProblem(req, res, new RequestBlockedError(violation));
+    return;
+  }
+  next();
+};
+
+const sendRateLimited: RateLimitExceededEventHandler = (req, res, next, options) =>
+  sendProblem(req, res, new RequestBlockedError({ status: options.statusCode, body: options.message }));
+
+// Rate limiting configuration - more permissive for tests. Pass a handler to replace the 429 response.
+export const createRateLimiter = (onLimitReached?: RateLimitExceededEventHandler) => rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: process.env.NODE_ENV === 'test' ? 10000 : 100, // Higher limit for tests
   message: {
@@ -26,9 +48,12 @@ export const rateLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
   // Skip requests from localhost in development and tests
-  skip: (req: Request) => (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test') && req.ip === '127.0.0.1'
+  skip: (req: Request) => (process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test') && req.ip === '127.0.0.1',
+  handler: onLimitReached ?? sendRateLimited
 });
 
+export const rateLimiter = createRateLimiter();
+
 // Strict rate limiting for authentication endpoints
 export const authRateLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -37,21 +62,25 @@ export const authRateLimiter = rateLimit({
     error: 'Too many authentication attempts, please try again later.',
     code: 'AUTH_RATE_LIMIT_EXCEEDED'
   },
-  skipSuccessfulRequests: true
+  skipSuccessfulRequests: true,
+  handler: sendRateLimited
 });
 
 // DoS protection - request size and complexity limits (more reasonable for legitimate use)
-export const dosProtection = (req: Request, res: Response, next: NextFunction) => {
+const checkPayloadLimits: SecurityCheck = (req) => {
   // Check request size - increased to 5MB for legitimate large payloads
   const contentLength = parseInt(req.get('content-length') ?? '0');
   const maxSize = 5 * 1024 * 1024; // 5MB limit
 
   if (contentLength > maxSize) {
-    return res.status(413).json({
-      error: 'Request entity too large',
-      code: 'PAYLOAD_TOO_LARGE',
-      maxSize: maxSize
-    });
+    return {
+      status: 413,
+      body: {
+        error: 'Request entity too large',
+        code: 'PAYLOAD_TOO_LARGE',
+        maxSize: maxSize
+      }
+    };
   }
 
   // Check JSON complexity if applicable - more reasonable limits
@@ -59,25 +88,33 @@ export const dosProtection = (req: Request, res: Response, next: NextFunction) =
     const complexity = calculateJsonComplexity(req.body);
 
     if (complexity.depth > 20) { // Increased from 10 to 20
-      return res.status(400).json({
-        error: 'JSON structure too deeply nested',
-        code: 'EXCESSIVE_NESTING',
-        maxDepth: 20
-      });
+      return {
+        status: 400,
+        body: {
+          error: 'JSON structure too deeply nested',
+          code: 'EXCESSIVE_NESTING',
+          maxDepth: 20
+        }
+      };
     }
 
     if (complexity.fieldCount > 5000) { // Increased from 1000 to 5000
-      return res.status(400).json({
-        error: 'Too many fields in request',
-        code: 'EXCESSIVE_FIELDS',
-        maxFields: 5000
-      });
+      return {
+        status: 400,
+        body: {
+          error: 'Too many fields in request',
+          code: 'EXCESSIVE_FIELDS',
+          maxFields: 5000
+        }
+      };
     }
   }
 
-  next();
+  return null;
 };
 
+export const dosProtection = blockOn(checkPayloadLimits);
+
 // Calculate JSON complexity to prevent DoS
 function calculateJsonComplexity(obj: any, depth = 0): { depth: number; fieldCount: number } {
   if (depth > 50) return { depth: 50, fieldCount: 0 }; // Circuit breaker
@@ -145,6 +182,24 @@ export const xssProtection = (req: Request, res: Response, next: NextFunction) =
   next();
 };
 
+// XSS detection - sanitizing rewrites the input instead of blocking it, so this reports the
+// requests it would change
+const checkXss: SecurityCheck = (req) => {
+  const wouldChange = (obj: any): boolean => obj !== undefined && JSON.stringify(sanitizeObject(obj)) !== JSON.stringify(obj);
+
+  if (wouldChange(req.body) || wouldChange(req.query)) {
+    return {
+      status: 400,
+      body: {
+        error: 'Markup detected in input',
+        code: 'XSS_SANITIZED'
+      }
+    };
+  }
+
+  return null;
+};
+
 function sanitizeObject(obj: any): any {
   if (typeof obj === 'string') {
     return DOMPurify.sanitize(obj, {
@@ -175,7 +230,7 @@ function sanitizeObject(obj: any): any {
 }
 
 // SQL Injection Protection - more precise validation
-export const sqlInjectionProtection = (req: Request, res: Response, next: NextFunction) => {
+const checkSqlInjection: SecurityCheck = (req) => {
   const suspiciousPatterns = [
     // More specific SQL injection patterns to reduce false positives
     /(\b(SELECT|INSERT|UPDATE|DELETE|DROP|CREATE|ALTER|EXEC|UNION)\b).*(\b(FROM|WHERE|ORDER|GROUP|INTO|VALUES)\b)/i,
@@ -210,26 +265,34 @@ export const sqlInjectionProtection = (req: Request, res: Response, next: NextFu
   };
 
   if (req.body && checkForSqlInjection(req.body)) {
-    return res.status(400).json({
-      error: 'Potentially malicious input detected',
-      code: 'SUSPICIOUS_INPUT',
-      message: 'Request contains patterns that may indicate SQL injection attempt'
-    });
+    return {
+      status: 400,
+      body: {
+        error: 'Potentially malicious input detected',
+        code: 'SUSPICIOUS_INPUT',
+        message: 'Request contains patterns that may indicate SQL injection attempt'
+      }
+    };
   }
 
   if (req.query && checkForSqlInjection(req.query)) {
-    return res.status(400).json({
-      error: 'Potentially malicious query parameters',
-      code: 'SUSPICIOUS_QUERY',
-      message: 'Query parameters contain suspicious patterns'
-    });
+    return {
+      status: 400,
+      body: {
+        error: 'Potentially malicious query parameters',
+        code: 'SUSPICIOUS_QUERY',
+        message: 'Query parameters contain suspicious patterns'
+      }
+    };
   }
 
-  next();
+  return null;
 };
 
+export const sqlInjectionProtection = blockOn(checkSqlInjection);
+
 // Path Traversal Protection - Enhanced to check all input
-export const pathTraversalProtection = (req: Request, res: Response, next: NextFunction) => {
+const checkPathTraversal: SecurityCheck = (req) => {
   const suspiciousPathPatterns = [
     /\.\.[/\\]/,  // Directory traversal with slashes
     /%2e%2e[%2f%5c]/i,  // URL-encoded .. with path separators
@@ -254,36 +317,47 @@ export const pathTraversalProtection = (req: Request, res: Response, next: NextF
   };
 
   if (checkPath(req.path)) {
-    return res.status(400).json({
-      error: 'Invalid path detected',
-      code: 'INVALID_PATH',
-      message: 'Path contains potentially dangerous characters'
-    });
+    return {
+      status: 400,
+      body: {
+        error: 'Invalid path detected',
+        code: 'INVALID_PATH',
+        message: 'Path contains potentially dangerous characters'
+      }
+    };
   }
 
   // Check request body and query parameters for path traversal
   if (checkPath(req.body) || checkPath(req.query)) {
-    return res.status(400).json({
-      error: 'Path traversal attempt detected',
-      code: 'PATH_TRAVERSAL_BLOCKED',
-      message: 'Request contains path traversal patterns'
-    });
+    return {
+      status: 400,
+      body: {
+        error: 'Path traversal attempt detected',
+        code: 'PATH_TRAVERSAL_BLOCKED',
+        message: 'Request contains path traversal patterns'
+      }
+    };
   }
 
   // Check file upload paths if present
   if (req.file && checkPath(req.file.originalname)) {
-    return res.status(400).json({
-      error: 'Invalid filename',
-      code: 'INVALID_FILENAME',
-      message: 'Filename contains potentially dangerous characters'
-    });
+    return {
+      status: 400,
+      body: {
+        error: 'Invalid filename',
+        code: 'INVALID_FILENAME',
+        message: 'Filename contains potentially dangerous characters'
+      }
+    };
   }
 
-  next();
+  return null;
 };
 
+export const pathTraversalProtection = blockOn(checkPathTraversal);
+
 // ReDoS Protection - Enhanced pattern detection
-export const redosProtection = (req: Request, res: Response, next: NextFunction) => {
+const checkRedos: SecurityCheck = (req) => {
   // Check for potentially problematic input lengths and patterns
   const checkForRedosInput = (obj: any): boolean => {
     if (typeof obj === 'string') {
@@ -323,24 +397,32 @@ export const redosProtection = (req: Request, res: Response, next: NextFunction)
   };
 
   if (req.body && checkForRedosInput(req.body)) {
-    return res.status(400).json({
-      error: 'Potentially malicious pattern detected',
-      code: 'REDOS_PATTERN',
-      message: 'Input contains patterns that may cause Regular Expression Denial of Service'
-    });
+    return {
+      status: 400,
+      body: {
+        error: 'Potentially malicious pattern detected',
+        code: 'REDOS_PATTERN',
+        message: 'Input contains patterns that may cause Regular Expression Denial of Service'
+      }
+    };
   }
 
   if (req.query && checkForRedosInput(req.query)) {
-    return res.status(400).json({
-      error: 'Potentially malicious query pattern detected',
-      code: 'REDOS_PATTERN',
-      message: 'Query contains patterns that may cause Regular Expression Denial of Service'
-    });
+    return {
+      status: 400,
+      body: {
+        error: 'Potentially malicious query pattern detected',
+        code: 'REDOS_PATTERN',
+        message: 'Query contains patterns that may cause Regular Expression Denial of Service'
+      }
+    };
   }
 
-  next();
+  return null;
 };
 
+export const redosProtection = blockOn(checkRedos);
+
 // Security headers middleware
 export const securityHeaders = helmet({
   contentSecurityPolicy: {
@@ -371,7 +453,7 @@ export const applySecurity = [
 ];
 
 // DOM Clobbering Protection - Enhanced patterns
-export const domClobberingProtection = (req: Request, res: Response, next: NextFunction) => {
+const checkDomClobbering: SecurityCheck = (req) => {
   const domClobberingPatterns = [
     /<\s*form[^>]*>/i,
     /<\s*input\s+[^>]*name\s*=\s*["']?(eval|location|constructor|__proto__)["']?/i,
@@ -410,48 +492,61 @@ export const domClobberingProtection = (req: Request, res: Response, next: NextF
   };
 
   if (checkForDomClobbering(req.body) || checkForDomClobbering(req.query) || checkForDomClobbering(req.params)) {
-    return res.status(400).json({
-      error: 'Potential DOM clobbering attack detected',
-      code: 'DOM_CLOBBERING_BLOCKED'
-    });
+    return {
+      status: 400,
+      body: {
+        error: 'Potential DOM clobbering attack detected',
+        code: 'DOM_CLOBBERING_BLOCKED'
+      }
+    };
   }
 
-  next();
+  return null;
 };
 
+export const domClobberingProtection = blockOn(checkDomClobbering);
+
 // WebSocket Header Flood Protection
-export const headerFloodProtection = (req: Request, res: Response, next: NextFunction) => {
+const checkHeaderFlood: SecurityCheck = (req) => {
   const headers = req.headers;
   const headerCount = Object.keys(headers).length;
   const maxHeaders = 100;
 
   if (headerCount > maxHeaders) {
-    return res.status(400).json({
-      error: 'Too many HTTP headers',
-      code: 'HEADER_FLOOD_DETECTED',
-      headerCount,
-      maxHeaders
-    });
+    return {
+      status: 400,
+      body: {
+        error: 'Too many HTTP headers',
+        code: 'HEADER_FLOOD_DETECTED',
+        headerCount,
+        maxHeaders
+      }
+    };
   }
 
   // Check for excessively long header values
   for (const [key, value] of Object.entries(headers)) {
     if (typeof value === 'string' && value.length > 8192) { // 8KB limit per header
-      return res.status(400).json({
-        error: 'Header value too long',
-        code: 'HEADER_TOO_LONG',
-        header: key,
-        length: value.length,
-        maxLength: 8192
-      });
+      return {
+        status: 400,
+        body: {
+          error: 'Header value too long',
+          code: 'HEADER_TOO_LONG',
+          header: key,
+          length: value.length,
+          maxLength: 8192
+        }
+      };
     }
   }
 
-  next();
+  return null;
 };
 
+export const headerFloodProtection = blockOn(checkHeaderFlood);
+
 // Template Injection Protection - Enhanced detection
-export const templateInjectionProtection = (req: Request, res: Response, next: NextFunction) => {
+const checkTemplateInjection: SecurityCheck = (req) => {
   const templatePatterns = [
     /\{\{.*?\}\}/,
     /\$\{.*?\}/,
@@ -482,17 +577,22 @@ export const templateInjectionProtection = (req: Request, res: Response, next: N
   };
 
   if (checkForTemplateInjection(req.body) || checkForTemplateInjection(req.query) || checkForTemplateInjection(req.params)) {
-    return res.status(400).json({
-      error: 'Potential template injection detected',
-      code: 'TEMPLATE_INJECTION'
-    });
+    return {
+      status: 400,
+      body: {
+        error: 'Potential template injection detected',
+        code: 'TEMPLATE_INJECTION'
+      }
+    };
   }
 
-  next();
+  return null;
 };
 
+export const templateInjectionProtection = blockOn(checkTemplateInjection);
+
 // Cookie Parsing Protection - Enhanced detection
-export const cookieParsingProtection = (req: Request, res: Response, next: NextFunction) => {
+const checkCookies: SecurityCheck = (req) => {
   const cookieHeader = req.headers.cookie;
 
   if (cookieHeader) {
@@ -503,10 +603,13 @@ export const cookieParsingProtection = (req: Request, res: Response, next: NextF
     });
 
     if (hasControlChars) {
-      return res.status(400).json({
-        error: 'Invalid characters in cookie header',
-        code: 'MALICIOUS_COOKIE'
-      });
+      return {
+        status: 400,
+        body: {
+          error: 'Invalid characters in cookie header',
+          code: 'MALICIOUS_COOKIE'
+        }
+      };
     }
 
     // Check for malicious cookie patterns
@@ -520,30 +623,38 @@ export const cookieParsingProtection = (req: Request, res: Response, next: NextF
     ];
 
     if (maliciousCookiePatterns.some(pattern => pattern.test(cookieHeader))) {
-      return res.status(400).json({
-        error: 'Malicious cookie detected',
-        code: 'MALICIOUS_COOKIE'
-      });
+      return {
+        status: 400,
+        body: {
+          error: 'Malicious cookie detected',
+          code: 'MALICIOUS_COOKIE'
+        }
+      };
     }
 
     // Check for excessively long cookie values
     const cookies = cookieHeader.split(';');
     for (const cookie of cookies) {
       if (cookie.length > 4096) { // 4KB limit per cookie
-        return res.status(400).json({
-          error: 'Cookie value too long',
-          code: 'COOKIE_TOO_LONG',
-          maxLength: 4096
-        });
+        return {
+          status: 400,
+          body: {
+            error: 'Cookie value too long',
+            code: 'COOKIE_TOO_LONG',
+            maxLength: 4096
+          }
+        };
       }
     }
   }
 
-  next();
+  return null;
 };
 
+export const cookieParsingProtection = blockOn(checkCookies);
+
 // Enhanced CSS/PostCSS Protection
-export const cssProtection = (req: Request, res: Response, next: NextFunction) => {
+const checkCss: SecurityCheck = (req) => {
   const cssPatterns = [
     /@font-face\s*\{\s*font\s*:\s*\([^)]*\\r[^)]*\)/i, // PostCSS line return vulnerability
     /expression\s*\(/i, // CSS expression injection
@@ -573,15 +684,20 @@ export const cssProtection = (req: Request, res: Response, next: NextFunction) =
   };
 
   if (checkForMaliciousCSS(req.body) || checkForMaliciousCSS(req.query)) {
-    return res.status(400).json({
-      error: 'Malicious CSS detected',
-      code: 'MALICIOUS_CSS'
-    });
+    return {
+      status: 400,
+      body: {
+        error: 'Malicious CSS detected',
+        code: 'MALICIOUS_CSS'
+      }
+    };
   }
 
-  next();
+  return null;
 };
 
+export const cssProtection = blockOn(checkCss);
+
 // Enhanced redirect protection
 export const redirectProtection = (req: Request, res: Response, next: NextFunction) => {
   // Store reference to request for validation
@@ -610,3 +726,17 @@ export const enhancedSecurity = [
   templateInjectionProtection,
   cssProtection
 ];
+
+// Checks behind the blocking guards, by their name in the security pipeline configuration
+export const securityChecks: Record<Exclude<SecurityGuard, 'headers' | 'rateLimit'>, SecurityCheck> = {
+  payloadLimits: checkPayloadLimits,
+  headerFlood: checkHeaderFlood,
+  cookies: checkCookies,
+  xss: checkXss,
+  sqlInjection: checkSqlInjection,
+  pathTraversal: checkPathTraversal,
+  redos: checkRedos,
+  domClobbering: checkDomClobbering,
+  templateInjection: checkTemplateInjection,
+  css: checkCss
+};
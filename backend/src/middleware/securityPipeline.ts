@@ -0,0 +1,138 @@
+import { Request, RequestHandler, Router } from 'express';
+import { InvalidSecurityConfigError } from '../types/errors';
+import {
+  SECURITY_GUARDS,
+  SECURITY_ROUTE_GROUPS,
+  SecurityCheck,
+  SecurityConfig,
+  SecurityGuard,
+  SecurityProfile,
+  SecurityRouteGroup,
+  SecurityViolation
+} from '../types/security';
+import { blockOn, createRateLimiter, securityChecks, securityHeaders, xssProtection } from './security';
+
+// Strict for sign-in, relaxed for multipart uploads. No group sanitizes markup by default: it
+// rewrites what is stored (an "&" in a note becomes "&amp;") and would change passwords. Template
+// and CSS patterns match ordinary job descriptions ("Behavior: ...", "Hiring process. (3 rounds)"),
+// so they only guard sign-in.
+const DEFAULT_GUARDS: Record<SecurityRouteGroup, SecurityGuard[]> = {
+  auth: [
+    'headers',
+    'rateLimit',
+    'payloadLimits',
+    'headerFlood',
+    'cookies',
+    'sqlInjection',
+    'pathTraversal',
+    'redos',
+    'domClobbering',
+    'templateInjection',
+    'css'
+  ],
+  upload: ['headers', 'rateLimit', 'headerFlood', 'cookies', 'pathTraversal'],
+  api: ['headers', 'rateLimit', 'payloadLimits', 'headerFlood', 'cookies', 'sqlInjection', 'pathTraversal', 'redos', 'domClobbering']
+};
+
+// Path prefixes of the route groups; every other path belongs to "api"
+const GROUP_PATHS: [SecurityRouteGroup, string][] = [
+  ['auth', '/auth'],
+  ['upload', '/upload']
+];
+
+const routeGroupOf = (path: string): SecurityRouteGroup => {
+  const match = GROUP_PATHS.find(([, prefix]) => path === prefix || path.startsWith(`${prefix}/`));
+  return match ? match[0] : 'api';
+};
+
+const parseGuards = (value: string, setting: string): SecurityGuard[] => {
+  const guards = value.split(',').map((guard) => guard.trim()).filter((guard) => guard !== '');
+  const unknown = guards.find((guard) => !SECURITY_GUARDS.includes(guard as SecurityGuard));
+  if (unknown !== undefined) {
+    throw new InvalidSecurityConfigError(setting, `names the unknown guard "${unknown}"; use ${SECURITY_GUARDS.join(', ')}`);
+  }
+  return guards as SecurityGuard[];
+};
+
+const parseBoolean = (value: string | undefined, setting: string, fallback: boolean): boolean => {
+  if (value === undefined || value === '') return fallback;
+  if (value === 'true' || value === 'false') return value === 'true';
+  throw new InvalidSecurityConfigError(setting, 'must be true or false');
+};
+
+/**
+ * Reads the security settings of the route groups (AUTH, UPLOAD and API).
+ * SECURITY_<GROUP>_GUARDS replaces the guards of a group with a comma-separated list,
+ * SECURITY_DISABLED_GUARDS turns guards off in every group, and SECURITY_REPORT_ONLY or
+ * SECURITY_<GROUP>_REPORT_ONLY log the requests that would be blocked instead of blocking them.
+ * @param env - The environment to read, process.env by default
+ */
+export const loadSecurityConfig = (env: NodeJS.ProcessEnv = process.env): SecurityConfig => {
+  const disabled = parseGuards(env.SECURITY_DISABLED_GUARDS ?? '', 'SECURITY_DISABLED_GUARDS');
+  const reportOnly = parseBoolean(env.SECURITY_REPORT_ONLY, 'SECURITY_REPORT_ONLY', false);
+
+  const profileOf = (group: SecurityRouteGroup): SecurityProfile => {
+    const prefix = `SECURITY_${group.toUpperCase()}`;
+    const listed = env[`${prefix}_GUARDS`];
+    const guards = listed === undefined ? DEFAULT_GUARDS[group] : parseGuards(listed, `${prefix}_GUARDS`);
+    return {
+      guards: guards.filter((guard) => !disabled.includes(guard)),
+      reportOnly: parseBoolean(env[`${prefix}_REPORT_ONLY`], `${prefix}_REPORT_ONLY`, reportOnly)
+    };
+  };
+
+  return { auth: profileOf('auth'), upload: profileOf('upload'), api: profileOf('api') };
+};
+
+const reportViolation = (group: SecurityRouteGroup, guard: SecurityGuard, req: Request, violation: SecurityViolation): void => {
+  console.warn(
+    `Security report-only (${group}): ${guard} would block ${req.method} ${req.originalUrl} with ${violation.status} ${violation.body.code}`
+  );
+};
+
+const reportOn = (group: SecurityRouteGroup, guard: SecurityGuard, check: SecurityCheck): RequestHandler => (req, res, next) => {
+  const violation = check(req);
+  if (violation) {
+    reportViolation(group, guard, req, violation);
+  }
+  next();
+};
+
+const guardHandler = (group: SecurityRouteGroup, guard: SecurityGuard, reportOnly: boolean): RequestHandler => {
+  switch (guard) {
+    case 'headers':
+      return securityHeaders;
+    case 'rateLimit':
+      // Each group counts its own requests
+      return reportOnly
+        ? createRateLimiter((req, res, next, options) => {
+            reportViolation(group, guard, req, { status: options.statusCode, body: options.message });
+            next();
+          })
+        : createRateLimiter();
+    case 'xss':
+      // Sanitizes instead of blocking
+      return reportOnly ? reportOn(group, guard, securityChecks.xss) : xssProtection;
+    default:
+      return reportOnly ? reportOn(group, guard, securityChecks[guard]) : blockOn(securityChecks[guard]);
+  }
+};
+
+/**
+ * Middleware that runs the guards of the request's route group, in a fixed order: headers, rate
+ * limit, payload limits, header flood, cookies, then the input checks
+ * @param config - The guards and mode of each route group
+ */
+export const createSecurityPipeline = (config: SecurityConfig): RequestHandler => {
+  const pipelines = {} as Record<SecurityRouteGroup, Router>;
+  for (const group of SECURITY_ROUTE_GROUPS) {
+    const { guards, reportOnly } = config[group];
+    const pipeline = Router();
+    SECURITY_GUARDS.filter((guard) => guards.includes(guard)).forEach((guard) =>
+      pipeline.use(guardHandler(group, guard, reportOnly))
+    );
+    pipelines[group] = pipeline;
+  }
+
+  return (req, res, next) => pipelines[routeGroupOf(req.path)](req, res, next);
+};
@@ -0,0 +1,78 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { ParamsDictionary } from 'express-serve-static-core';
+import { ParsedQs } from 'qs';
+import { z } from 'zod';
+import { RequestValidationError } from '../types/errors';
+import { RequestSchema, ValidationIssue } from '../types/validation';
+
+type Output<T, Fallback> = T extends z.ZodTypeAny ? z.output<T> : Fallback;
+
+/**
+ * A request whose params, query and body have been parsed by the schema of its route
+ */
+export type ValidatedRequest<S extends RequestSchema> = Request<
+  Output<S['params'], ParamsDictionary>,
+  any,
+  Output<S['body'], unknown>,
+  Output<S['query'], ParsedQs>
+>;
+
+const REQUEST_PARTS = ['params', 'query', 'body'] as const;
+
+// The schema of each validateRequest middleware, read when the OpenAPI document is built
+const requestSchemas = new WeakMap<RequestHandler, RequestSchema>();
+
+/**
+ * Middleware that parses the params, query and body of a request with a route schema and replaces
+ * them with the parsed values. Fails with a RequestValidationError listing every failing field when
+ * any part is invalid.
+ * @param schema - The schemas of the parts to check; parts left out are not checked
+ */
+export const validateRequest = (schema: RequestSchema): RequestHandler => {
+  const middleware: RequestHandler = (req, res, next) => {
+    const details: ValidationIssue[] = [];
+    const parsed: Partial<Record<(typeof REQUEST_PARTS)[number], unknown>> = {};
+
+    for (const part of REQUEST_PARTS) {
+      const partSchema = schema[part];
+      if (!partSchema) continue;
+
+      // A missing JSON body is checked as an empty object, so its required fields are listed
+      const result = partSchema.safeParse(part === 'body' ? req.body ?? {} : req[part]);
+      if (result.success) {
+        parsed[part] = result.data;
+      } else {
+        result.error.issues.forEach((issue) =>
+          details.push({ path: [part, ...issue.path].join('.'), code: issue.code, message: issue.message }),
+        );
+      }
+    }
+
+    if (details.length > 0) {
+      next(new RequestValidationError(details));
+      return;
+    }
+
+    Object.assign(req, parsed);
+    next();
+  };
+  requestSchemas.set(middleware, schema);
+  return middleware;
+};
+
+/**
+ * The schema a route handler validates requests with, when it is a validateRequest middleware
+ */
+export const requestSchemaOf = (handler: unknown): RequestSchema | undefined =>
+  requestSchemas.get(handler as RequestHandler);
+
+/**
+ * Pairs a controller with the schema of its route: the controller only runs on valid requests
+ * and receives the parsed values, typed by the schema
+ * @param schema - The schemas of the route's params, query and body
+ * @param handler - The controller
+ */
+export const validate = <S extends RequestSchema>(
+  schema: S,
+  handler: (req: ValidatedRequest<S>, res: Response, next: NextFunction) => unknown,
+): RequestHandler[] => [validateRequest(schema), handler as unknown as RequestHandler];
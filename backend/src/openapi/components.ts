@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { applicationData, applicationStageHistoryResponse } from '../schemas/application';
+import { currentEmployeeResponse, messageResponse, sessionResponse } from '../schemas/auth';
+import {
+  candidateDetail,
+  candidateListResponse,
+  candidateProfileData,
+  candidateRecord,
+  candidateSearchResponse,
+  deleteCandidateResponse,
+  educationData,
+  workExperienceData
+} from '../schemas/candidate';
+import { interviewData, interviewListResponse } from '../schemas/interview';
+import {
+  deleteInterviewFlowResponse,
+  interviewFlowData,
+  interviewFlowListResponse,
+  interviewStepData,
+  interviewTypeData,
+  interviewTypeListResponse,
+  removeInterviewStepResponse
+} from '../schemas/interviewFlow';
+import {
+  positionBoardResponse,
+  positionCandidatesResponse,
+  updateApplicationStageResponse,
+  updateCandidateStageResponse
+} from '../schemas/kanban';
+import {
+  deletePositionResponse,
+  positionData,
+  positionListResponse,
+  positionStatusHistoryResponse,
+  positionTransitionResponse
+} from '../schemas/position';
+import { problemDetails, validationProblem } from '../schemas/problem';
+import { resumeData, resumeListResponse, uploadedFileResponse } from '../schemas/resume';
+import { applicationScorecardResponse, interviewScorecardData, scorecardTemplateData } from '../schemas/scorecard';
+
+/**
+ * Response bodies of the OpenAPI document, named after the types they describe. Route docs refer
+ * to them as #/components/schemas/<name>.
+ */
+export const componentSchemas: Record<string, z.ZodTypeAny> = {
+  Problem: problemDetails,
+  ValidationProblem: validationProblem,
+  SessionResponse: sessionResponse,
+  CurrentEmployeeResponse: currentEmployeeResponse,
+  MessageResponse: messageResponse,
+  Candidate: candidateRecord,
+  CandidateDetail: candidateDetail,
+  CandidateListResponse: candidateListResponse,
+  CandidateSearchResponse: candidateSearchResponse,
+  CandidateProfileData: candidateProfileData,
+  DeleteCandidateResponse: deleteCandidateResponse,
+  EducationData: educationData,
+  WorkExperienceData: workExperienceData,
+  ResumeData: resumeData,
+  ResumeListResponse: resumeListResponse,
+  UploadedFileResponse: uploadedFileResponse,
+  PositionData: positionData,
+  PositionListResponse: positionListResponse,
+  DeletePositionResponse: deletePositionResponse,
+  PositionTransitionResponse: positionTransitionResponse,
+  PositionStatusHistoryResponse: positionStatusHistoryResponse,
+  PositionCandidatesResponse: positionCandidatesResponse,
+  PositionBoardResponse: positionBoardResponse,
+  UpdateCandidateStageResponse: updateCandidateStageResponse,
+  UpdateApplicationStageResponse: updateApplicationStageResponse,
+  ApplicationData: applicationData,
+  ApplicationStageHistoryResponse: applicationStageHistoryResponse,
+  InterviewData: interviewData,
+  InterviewListResponse: interviewListResponse,
+  InterviewFlowData: interviewFlowData,
+  InterviewFlowListResponse: interviewFlowListResponse,
+  DeleteInterviewFlowResponse: deleteInterviewFlowResponse,
+  InterviewStepData: interviewStepData,
+  RemoveInterviewStepResponse: removeInterviewStepResponse,
+  InterviewTypeData: interviewTypeData,
+  InterviewTypeListResponse: interviewTypeListResponse,
+  ScorecardTemplateData: scorecardTemplateData,
+  InterviewScorecardData: interviewScorecardData,
+  ApplicationScorecardResponse: applicationScorecardResponse,
+};
@@ -0,0 +1,172 @@
+import { Application, RequestHandler } from 'express';
+import path from 'path';
+import swaggerJsdoc from 'swagger-jsdoc';
+import { z } from 'zod';
+import { ACCESS_TOKEN_COOKIE } from '../middleware/authentication';
+import { requestSchemaOf } from '../middleware/validation';
+import {
+  JsonSchema,
+  OPENAPI_METHODS,
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiParameter,
+  RegisteredRoute
+} from '../types/openapi';
+import { PROBLEM_CONTENT_TYPE } from '../types/problem';
+import { RequestSchema } from '../types/validation';
+import { componentSchemas } from './components';
+import { toJsonSchema } from './jsonSchema';
+
+/**
+ * The parts of an Express 4 router layer read to list the routes
+ */
+interface RouterLayer {
+  name: string;
+  handle: RequestHandler & { stack?: RouterLayer[] };
+  regexp: RegExp & { fast_slash?: boolean };
+  route?: { path: unknown; methods: Record<string, boolean>; stack: RouterLayer[] };
+}
+
+// Route docs are read from the source next to this file: .ts under ts-node and Jest, .js once built
+const SOURCE_EXTENSION = path.extname(__filename);
+const ROUTE_DOCS = [
+  path.join(__dirname, '..', 'routes', `*${SOURCE_EXTENSION}`),
+  path.join(__dirname, '..', `index${SOURCE_EXTENSION}`),
+];
+
+// Express 4 only keeps the pattern of a router's mount path, e.g. /^\/candidates\/?(?=\/|$)/i
+const mountPathOf = (layer: RouterLayer): string =>
+  layer.regexp.fast_slash
+    ? ''
+    : layer.regexp.source
+        .replace(/^\^/, '')
+        .replace(/\\\/\?\(\?=\\\/\|\$\)$/, '')
+        .replace(/\\\//g, '/');
+
+// /positions/:id/candidates/ -> /positions/{id}/candidates
+const toOpenApiPath = (expressPath: string): string =>
+  expressPath.replace(/:(\w+)/g, '{$1}').replace(/(.)\/$/, '$1');
+
+/**
+ * Lists the routes registered on an app, with the schema each one validates requests with
+ */
+export const listRoutes = (app: Application): RegisteredRoute[] => {
+  const routes: RegisteredRoute[] = [];
+
+  const collect = (stack: RouterLayer[], prefix: string): void => {
+    for (const layer of stack) {
+      if (layer.route && typeof layer.route.path === 'string') {
+        const { route } = layer;
+        const schema = route.stack.map((routeLayer) => requestSchemaOf(routeLayer.handle)).find(Boolean);
+        OPENAPI_METHODS.filter((method) => route.methods[method]).forEach((method) =>
+          routes.push({ method, path: toOpenApiPath(prefix + route.path), schema }),
+        );
+      } else if (layer.name === 'router' && layer.handle.stack) {
+        collect(layer.handle.stack, prefix + mountPathOf(layer));
+      }
+    }
+  };
+
+  collect((app as unknown as { _router?: { stack: RouterLayer[] } })._router?.stack ?? [], '');
+  return routes;
+};
+
+const problemResponse = (description: string, ...schemas: string[]) => {
+  const [schema, ...others] = schemas.map((name) => ({ $ref: `#/components/schemas/${name}` }));
+  return {
+    description,
+    content: { [PROBLEM_CONTENT_TYPE]: { schema: others.length > 0 ? { anyOf: [schema, ...others] } : schema } },
+  };
+};
+
+const definition = {
+  openapi: '3.1.0',
+  info: {
+    title: 'LTI Talent Tracking System API',
+    version: '1.0.0',
+    description:
+      'Every endpoint outside /auth requires a signed-in employee. Errors are answered as application/problem+json ' +
+      'with a stable code and a correlation ID.',
+  },
+  security: [{ bearerAuth: [] }, { cookieAuth: [] }],
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      cookieAuth: { type: 'apiKey', in: 'cookie', name: ACCESS_TOKEN_COOKIE },
+    },
+    responses: {
+      // Services also reject some requests the schema lets through, e.g. INVALID_STAGE_NAME
+      BadRequest: problemResponse(
+        'The request is invalid; VALIDATION_FAILED lists every field that does not match the route schema',
+        'ValidationProblem',
+        'Problem',
+      ),
+      AuthenticationRequired: problemResponse('No valid access token was sent', 'Problem'),
+      Problem: problemResponse('Any other error; branch on its code', 'Problem'),
+    },
+    schemas: Object.fromEntries(Object.entries(componentSchemas).map(([name, schema]) => [name, toJsonSchema(schema)])),
+  },
+};
+
+const parametersOf = (schema: z.ZodTypeAny | undefined, location: 'path' | 'query'): OpenApiParameter[] => {
+  if (!(schema instanceof z.ZodObject)) return [];
+  return Object.entries<z.ZodTypeAny>(schema.shape).map(([name, field]) => {
+    const { description, ...fieldSchema }: JsonSchema = toJsonSchema(field);
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !field.isOptional(),
+      ...(typeof description === 'string' ? { description } : {}),
+      schema: fieldSchema,
+    };
+  });
+};
+
+/**
+ * Adds what the route schema says about the request, and the error responses every operation
+ * shares, to an operation documented in a route comment
+ */
+const completeOperation = (operation: OpenApiOperation, schema: RequestSchema | undefined): void => {
+  // Parameters and bodies documented in the comment take precedence over the generated ones
+  const documented = operation.parameters ?? [];
+  const parameters = [
+    ...parametersOf(schema?.params, 'path'),
+    ...parametersOf(schema?.query, 'query'),
+  ].filter((parameter) => !documented.some((other) => other.name === parameter.name && other.in === parameter.in));
+  if (parameters.length > 0) operation.parameters = [...parameters, ...documented];
+
+  if (schema?.body && !operation.requestBody) {
+    operation.requestBody = {
+      // A missing body is checked as an empty object
+      required: !schema.body.safeParse({}).success,
+      content: { 'application/json': { schema: toJsonSchema(schema.body) } },
+    };
+  }
+
+  const responses = (operation.responses ??= {});
+  if (schema) responses['400'] ??= { $ref: '#/components/responses/BadRequest' };
+  if (operation.security?.length !== 0) responses['401'] ??= { $ref: '#/components/responses/AuthenticationRequired' };
+  responses.default ??= { $ref: '#/components/responses/Problem' };
+};
+
+/**
+ * Builds the OpenAPI document of an app. Each route is documented by the @openapi comment above
+ * its definition; its parameters and request body come from the schema it validates requests
+ * with, and response bodies from the schemas in components.ts. Build it once every route is
+ * registered: routes without a comment are left out.
+ */
+export const buildOpenApiDocument = (app: Application): OpenApiDocument => {
+  const document = swaggerJsdoc({ definition, apis: ROUTE_DOCS, failOnErrors: true }) as OpenApiDocument;
+  const routes = listRoutes(app);
+
+  for (const [routePath, pathItem] of Object.entries(document.paths)) {
+    for (const method of OPENAPI_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) continue;
+      const route = routes.find((candidate) => candidate.method === method && candidate.path === routePath);
+      completeOperation(operation, route?.schema);
+    }
+  }
+
+  return document;
+};
@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import { JsonSchema } from '../types/openapi';
+
+/**
+ * Makes a schema also accept null
+ */
+const nullable = (schema: JsonSchema): JsonSchema => {
+  if (typeof schema.type === 'string' && !('enum' in schema) && !('const' in schema)) {
+    return { ...schema, type: [schema.type, 'null'] };
+  }
+  const options = Array.isArray(schema.anyOf) && Object.keys(schema).length === 1 ? schema.anyOf : [schema];
+  return { anyOf: [...options, { type: 'null' }] };
+};
+
+const stringSchema = (schema: z.ZodString): JsonSchema => {
+  const json: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') json.minLength = check.value;
+    else if (check.kind === 'max') json.maxLength = check.value;
+    else if (check.kind === 'length') json.minLength = json.maxLength = check.value;
+    else if (check.kind === 'regex') json.pattern = check.regex.source;
+    else if (check.kind === 'email') json.format = 'email';
+    else if (check.kind === 'datetime') json.format = 'date-time';
+  }
+  return json;
+};
+
+const numberSchema = (schema: z.ZodNumber): JsonSchema => {
+  const json: JsonSchema = { type: 'number' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'int') json.type = 'integer';
+    else if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+    else if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+  }
+  return json;
+};
+
+const objectSchema = (schema: z.AnyZodObject): JsonSchema => {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const [name, field] of Object.entries<z.ZodTypeAny>(schema.shape)) {
+    // A field that must be left out is not part of the documented shape
+    if (field instanceof z.ZodUndefined) continue;
+    properties[name] = toJsonSchema(field);
+    if (!field.isOptional()) required.push(name);
+  }
+
+  const json: JsonSchema = { type: 'object', properties };
+  if (required.length > 0) json.required = required;
+  if (schema._def.unknownKeys === 'strict') json.additionalProperties = false;
+  else if (schema._def.unknownKeys === 'passthrough') json.additionalProperties = true;
+  return json;
+};
+
+const describe = (schema: z.ZodTypeAny): JsonSchema => {
+  if (schema instanceof z.ZodObject) return objectSchema(schema);
+  if (schema instanceof z.ZodString) return stringSchema(schema);
+  if (schema instanceof z.ZodNumber) return numberSchema(schema);
+  if (schema instanceof z.ZodBoolean) return { type: 'boolean' };
+  // Dates travel as ISO 8601 strings
+  if (schema instanceof z.ZodDate) return { type: 'string', format: 'date-time' };
+  if (schema instanceof z.ZodNull) return { type: 'null' };
+  if (schema instanceof z.ZodEnum) return { type: 'string', enum: [...schema.options] };
+  if (schema instanceof z.ZodLiteral) return { type: typeof schema.value, const: schema.value };
+  if (schema instanceof z.ZodArray) {
+    const json: JsonSchema = { type: 'array', items: toJsonSchema(schema.element) };
+    const { minLength, maxLength, exactLength } = schema._def;
+    if (minLength ?? exactLength) json.minItems = (minLength ?? exactLength)!.value;
+    if (maxLength ?? exactLength) json.maxItems = (maxLength ?? exactLength)!.value;
+    return json;
+  }
+  if (schema instanceof z.ZodRecord) return { type: 'object', additionalProperties: toJsonSchema(schema.valueSchema) };
+  if (schema instanceof z.ZodUnion) return { anyOf: schema.options.map((option: z.ZodTypeAny) => toJsonSchema(option)) };
+  // Optionality is a property of the enclosing object
+  if (schema instanceof z.ZodOptional) return toJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodNullable) return nullable(toJsonSchema(schema.unwrap()));
+  if (schema instanceof z.ZodDefault) return { ...toJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  // Clients send the input of transforms, refinements and pipes
+  if (schema instanceof z.ZodEffects) return toJsonSchema(schema.innerType());
+  if (schema instanceof z.ZodPipeline) return toJsonSchema(schema._def.in);
+  if (schema instanceof z.ZodAny || schema instanceof z.ZodUnknown) return {};
+
+  throw new Error(`${schema._def.typeName} cannot be described in the OpenAPI document`);
+};
+
+/**
+ * Converts a zod schema to the JSON Schema of the JSON values it accepts. Request schemas are
+ * described by what clients send, i.e. before transforms; dates as ISO 8601 strings.
+ * Descriptions given with .describe() are kept.
+ */
+export const toJsonSchema = (schema: z.ZodTypeAny): JsonSchema => {
+  const json = describe(schema);
+  return schema.description ? { ...json, description: schema.description } : json;
+};
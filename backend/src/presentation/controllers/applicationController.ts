@@ -0,0 +1,40 @@
+import { NextFunction, Response } from 'express';
+import { getApplicationStageHistory, submitApplication } from '../../application/services/applicationService';
+import { ValidatedRequest } from '../../middleware/validation';
+import { applicationSchema, submitApplicationSchema } from '../../schemas/application';
+
+/**
+ * Controller for POST /positions/:id/applications
+ * Submits a candidate's application to a position
+ */
+export const submitApplicationController = async (
+  req: ValidatedRequest<typeof submitApplicationSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await submitApplication(req.params.id, req.body);
+
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /applications/:id/history
+ * Retrieves the stage history of an application
+ */
+export const getApplicationStageHistoryController = async (
+  req: ValidatedRequest<typeof applicationSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await getApplicationStageHistory(req.params.id);
+
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,136 @@
+import { CookieOptions, NextFunction, Request, Response } from 'express';
+import { permissionsOf } from '../../application/permissions';
+import { login, logout, refresh, requestPasswordReset, resetPassword } from '../../application/services/authService';
+import { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE } from '../../middleware/authentication';
+import { ValidatedRequest } from '../../middleware/validation';
+import { loginSchema, passwordResetSchema, resetPasswordSchema } from '../../schemas/auth';
+import { AuthSession } from '../../types/auth';
+import { isAppError } from '../../types/errors';
+
+// The refresh token is only sent back to the auth routes that use it
+const REFRESH_TOKEN_PATH = '/auth';
+
+const cookieOptions = (path: string): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict',
+  path,
+});
+
+/**
+ * Sets the session cookies and answers with the employee and the access token,
+ * for clients that send it as a Bearer header instead of the cookie
+ */
+const sendSession = (res: Response, session: AuthSession): void => {
+  const { tokens } = session;
+  res.cookie(ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+    ...cookieOptions('/'),
+    expires: tokens.accessTokenExpiresAt,
+  });
+  res.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    ...cookieOptions(REFRESH_TOKEN_PATH),
+    expires: tokens.refreshTokenExpiresAt,
+  });
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200).json({
+    employee: session.employee,
+    accessToken: tokens.accessToken,
+    accessTokenExpiresAt: tokens.accessTokenExpiresAt,
+  });
+};
+
+const clearSessionCookies = (res: Response): void => {
+  res.clearCookie(ACCESS_TOKEN_COOKIE, cookieOptions('/'));
+  res.clearCookie(REFRESH_TOKEN_COOKIE, cookieOptions(REFRESH_TOKEN_PATH));
+};
+
+/**
+ * Controller for POST /auth/login
+ * Signs an employee in with email and password
+ */
+export const loginController = async (
+  req: ValidatedRequest<typeof loginSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const session = await login(req.body.email, req.body.password);
+    sendSession(res, session);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for POST /auth/refresh
+ * Rotates the refresh token cookie and issues a new access token
+ */
+export const refreshController = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const session = await refresh(req.cookies?.[REFRESH_TOKEN_COOKIE]);
+    sendSession(res, session);
+  } catch (error) {
+    if (isAppError(error) && error.code === 'INVALID_SESSION') {
+      clearSessionCookies(res);
+    }
+    next(error);
+  }
+};
+
+/**
+ * Controller for POST /auth/logout
+ * Ends the session of the refresh token cookie and clears both cookies
+ */
+export const logoutController = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    await logout(req.cookies?.[REFRESH_TOKEN_COOKIE]);
+    clearSessionCookies(res);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /auth/me
+ * Returns the signed-in employee with the permissions of their role
+ */
+export const currentEmployeeController = (req: Request, res: Response): void => {
+  const employee = req.employee!;
+  res.status(200).json({ ...employee, permissions: permissionsOf(employee.role) });
+};
+
+/**
+ * Controller for POST /auth/password-reset
+ * Sends a reset token to the employee; answers 202 whether or not the email has an account
+ */
+export const requestPasswordResetController = async (
+  req: ValidatedRequest<typeof passwordResetSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await requestPasswordReset(req.body.email);
+    res.status(202).json({ message: 'If the email belongs to an active employee, a reset token has been sent' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for POST /auth/password-reset/confirm
+ * Sets a new password with a reset token and signs the employee out everywhere
+ */
+export const resetPasswordController = async (
+  req: ValidatedRequest<typeof resetPasswordSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await resetPassword(req.body.token, req.body.password);
+    clearSessionCookies(res);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
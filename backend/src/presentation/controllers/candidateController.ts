@@ -1,33 +1,250 @@
-import { Request, Response } from 'express';
-import { addCandidate, findCandidateById } from '../../application/services/candidateService';
+import { NextFunction, Request, Response } from 'express';
+import {
+    addCandidate,
+    addEducation,
+    addWorkExperience,
+    deleteCandidate,
+    findCandidateById,
+    listCandidates,
+    removeEducation,
+    removeWorkExperience,
+    replaceCandidate,
+    updateCandidate,
+    updateEducation,
+    updateWorkExperience
+} from '../../application/services/candidateService';
+import { searchCandidates } from '../../application/services/candidateSearchService';
+import { ValidatedRequest } from '../../middleware/validation';
+import {
+    addEducationSchema,
+    addWorkExperienceSchema,
+    candidateSchema,
+    educationSchema,
+    listCandidatesSchema,
+    replaceCandidateSchema,
+    searchCandidatesSchema,
+    updateCandidateSchema,
+    updateEducationSchema,
+    updateWorkExperienceSchema,
+    workExperienceSchema
+} from '../../schemas/candidate';
+import { CandidateProfileNotFoundError } from '../../types/errors';
 
-export const addCandidateController = async (req: Request, res: Response) => {
+/**
+ * Controller for GET /candidates
+ * Lists candidate summaries with cursor pagination
+ */
+export const listCandidatesController = async (
+    req: ValidatedRequest<typeof listCandidatesSchema>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await listCandidates(req.query);
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Controller for GET /candidates/search
+ * Full-text search over candidate profiles and resume text
+ */
+export const searchCandidatesController = async (
+    req: ValidatedRequest<typeof searchCandidatesSchema>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const result = await searchCandidates(req.query);
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+export const addCandidateController = async (req: Request, res: Response, next: NextFunction) => {
     try {
         const candidateData = req.body;
         const candidate = await addCandidate(candidateData);
         res.status(201).json({ message: 'Candidate added successfully', data: candidate });
-    } catch (error: unknown) {
-        if (error instanceof Error) {
-            res.status(400).json({ message: 'Error adding candidate', error: error.message });
-        } else {
-            res.status(400).json({ message: 'Error adding candidate', error: 'Unknown error' });
-        }
+    } catch (error) {
+        next(error);
     }
 };
 
-export const getCandidateById = async (req: Request, res: Response) => {
+export const getCandidateById = async (req: ValidatedRequest<typeof candidateSchema>, res: Response, next: NextFunction) => {
     try {
-        const id = parseInt(req.params.id);
-        if (isNaN(id)) {
-            return res.status(400).json({ error: 'Invalid ID format' });
-        }
-        const candidate = await findCandidateById(id);
+        const candidate = await findCandidateById(req.params.id);
         if (!candidate) {
-            return res.status(404).json({ error: 'Candidate not found' });
+            return next(new CandidateProfileNotFoundError(req.params.id));
         }
         res.json(candidate);
     } catch (error) {
-        res.status(500).json({ error: 'Internal Server Error' });
+        next(error);
+    }
+};
+
+/**
+ * Controller for PUT /candidates/:id
+ * Replaces a candidate profile, synchronizing any supplied educations and work experiences
+ */
+export const replaceCandidateController = async (
+    req: ValidatedRequest<typeof replaceCandidateSchema>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const candidateId = req.params.id;
+        const result = await replaceCandidate(candidateId, req.body);
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Controller for PATCH /candidates/:id
+ * Updates the supplied profile fields of a candidate
+ */
+export const updateCandidateController = async (
+    req: ValidatedRequest<typeof updateCandidateSchema>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const candidateId = req.params.id;
+        const result = await updateCandidate(candidateId, req.body);
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Controller for DELETE /candidates/:id
+ * Deletes a candidate and everything attached to them
+ */
+export const deleteCandidateController = async (
+    req: ValidatedRequest<typeof candidateSchema>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const candidateId = req.params.id;
+        const result = await deleteCandidate(candidateId);
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Controller for POST /candidates/:id/educations
+ * Adds an education to a candidate
+ */
+export const addEducationController = async (
+    req: ValidatedRequest<typeof addEducationSchema>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const candidateId = req.params.id;
+        const result = await addEducation(candidateId, req.body);
+        res.status(201).json(result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Controller for PATCH /candidates/:id/educations/:educationId
+ * Updates the supplied fields of an education
+ */
+export const updateEducationController = async (
+    req: ValidatedRequest<typeof updateEducationSchema>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { id: candidateId, educationId } = req.params;
+        const result = await updateEducation(candidateId, educationId, req.body);
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Controller for DELETE /candidates/:id/educations/:educationId
+ * Removes an education from a candidate
+ */
+export const removeEducationController = async (
+    req: ValidatedRequest<typeof educationSchema>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { id: candidateId, educationId } = req.params;
+        const result = await removeEducation(candidateId, educationId);
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Controller for POST /candidates/:id/work-experiences
+ * Adds a work experience to a candidate
+ */
+export const addWorkExperienceController = async (
+    req: ValidatedRequest<typeof addWorkExperienceSchema>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const candidateId = req.params.id;
+        const result = await addWorkExperience(candidateId, req.body);
+        res.status(201).json(result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Controller for PATCH /candidates/:id/work-experiences/:workExperienceId
+ * Updates the supplied fields of a work experience
+ */
+export const updateWorkExperienceController = async (
+    req: ValidatedRequest<typeof updateWorkExperienceSchema>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { id: candidateId, workExperienceId } = req.params;
+        const result = await updateWorkExperience(candidateId, workExperienceId, req.body);
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Controller for DELETE /candidates/:id/work-experiences/:workExperienceId
+ * Removes a work experience from a candidate
+ */
+export const removeWorkExperienceController = async (
+    req: ValidatedRequest<typeof workExperienceSchema>,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { id: candidateId, workExperienceId } = req.params;
+        const result = await removeWorkExperience(candidateId, workExperienceId);
+        res.status(200).json(result);
+    } catch (error) {
+        next(error);
     }
 };
 
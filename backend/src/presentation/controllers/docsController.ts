@@ -0,0 +1,19 @@
+import { Application, Request, Response } from 'express';
+import { buildOpenApiDocument } from '../../openapi/document';
+import { OpenApiDocument } from '../../types/openapi';
+
+// Built on the first request, once every route is registered
+const documents = new WeakMap<Application, OpenApiDocument>();
+
+/**
+ * Controller for GET /openapi.json
+ * Answers with the OpenAPI document of the app
+ */
+export const openApiDocumentController = (req: Request, res: Response): void => {
+  let document = documents.get(req.app);
+  if (!document) {
+    document = buildOpenApiDocument(req.app);
+    documents.set(req.app, document);
+  }
+  res.status(200).json(document);
+};
@@ -0,0 +1,126 @@
+import { NextFunction, Response } from 'express';
+import {
+  cancelInterview,
+  getInterview,
+  listApplicationInterviews,
+  rescheduleInterview,
+  scheduleInterview,
+  submitInterviewResult
+} from '../../application/services/interviewService';
+import { ValidatedRequest } from '../../middleware/validation';
+import {
+  applicationInterviewsSchema,
+  cancelInterviewSchema,
+  interviewSchema,
+  rescheduleInterviewSchema,
+  scheduleInterviewSchema,
+  submitInterviewResultSchema
+} from '../../schemas/interview';
+
+/**
+ * Controller for POST /applications/:id/interviews
+ * Schedules an interview for an application
+ */
+export const scheduleInterviewController = async (
+  req: ValidatedRequest<typeof scheduleInterviewSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const applicationId = req.params.id;
+    const result = await scheduleInterview(applicationId, req.body);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /applications/:id/interviews
+ * Lists the interviews of an application
+ */
+export const listApplicationInterviewsController = async (
+  req: ValidatedRequest<typeof applicationInterviewsSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const applicationId = req.params.id;
+    const result = await listApplicationInterviews(applicationId);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /interviews/:id
+ * Retrieves a single interview
+ */
+export const getInterviewController = async (
+  req: ValidatedRequest<typeof interviewSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const interviewId = req.params.id;
+    const result = await getInterview(interviewId);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for PATCH /interviews/:id
+ * Reschedules an interview to another date and/or interviewer
+ */
+export const rescheduleInterviewController = async (
+  req: ValidatedRequest<typeof rescheduleInterviewSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const interviewId = req.params.id;
+    const result = await rescheduleInterview(interviewId, req.body);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for POST /interviews/:id/cancel
+ * Cancels a scheduled interview
+ */
+export const cancelInterviewController = async (
+  req: ValidatedRequest<typeof cancelInterviewSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const interviewId = req.params.id;
+    const result = await cancelInterview(interviewId, req.body);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for PUT /interviews/:id/result
+ * Records the result, score and notes of a held interview
+ */
+export const submitInterviewResultController = async (
+  req: ValidatedRequest<typeof submitInterviewResultSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const interviewId = req.params.id;
+    const result = await submitInterviewResult(interviewId, req.body);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,230 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+  addInterviewStep,
+  cloneInterviewFlow,
+  createInterviewFlow,
+  createInterviewType,
+  deleteInterviewFlow,
+  getInterviewFlow,
+  listInterviewFlows,
+  listInterviewTypes,
+  removeInterviewStep,
+  reorderInterviewSteps,
+  updateInterviewFlow,
+  updateInterviewStep
+} from '../../application/services/interviewFlowService';
+import { ValidatedRequest } from '../../middleware/validation';
+import {
+  addInterviewStepSchema,
+  cloneInterviewFlowSchema,
+  createInterviewFlowSchema,
+  createInterviewTypeSchema,
+  interviewFlowSchema,
+  removeInterviewStepSchema,
+  reorderInterviewStepsSchema,
+  updateInterviewFlowSchema,
+  updateInterviewStepSchema
+} from '../../schemas/interviewFlow';
+
+/**
+ * Controller for POST /interview-flows
+ * Creates a flow with optional initial steps
+ */
+export const createInterviewFlowController = async (
+  req: ValidatedRequest<typeof createInterviewFlowSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await createInterviewFlow(req.body);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /interview-flows
+ * Lists all flows with their steps
+ */
+export const listInterviewFlowsController = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const result = await listInterviewFlows();
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /interview-flows/:id
+ * Retrieves a flow with its ordered steps
+ */
+export const getInterviewFlowController = async (
+  req: ValidatedRequest<typeof interviewFlowSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const interviewFlowId = req.params.id;
+    const result = await getInterviewFlow(interviewFlowId);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for PATCH /interview-flows/:id
+ * Updates a flow's description
+ */
+export const updateInterviewFlowController = async (
+  req: ValidatedRequest<typeof updateInterviewFlowSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const interviewFlowId = req.params.id;
+    const result = await updateInterviewFlow(interviewFlowId, req.body);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for DELETE /interview-flows/:id
+ * Deletes a flow that no position uses
+ */
+export const deleteInterviewFlowController = async (
+  req: ValidatedRequest<typeof interviewFlowSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const interviewFlowId = req.params.id;
+    const result = await deleteInterviewFlow(interviewFlowId);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for POST /interview-flows/:id/clone
+ * Copies a flow and its steps
+ */
+export const cloneInterviewFlowController = async (
+  req: ValidatedRequest<typeof cloneInterviewFlowSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const interviewFlowId = req.params.id;
+    const result = await cloneInterviewFlow(interviewFlowId, req.body);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for POST /interview-flows/:id/steps
+ * Adds a step to a flow
+ */
+export const addInterviewStepController = async (
+  req: ValidatedRequest<typeof addInterviewStepSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const interviewFlowId = req.params.id;
+    const result = await addInterviewStep(interviewFlowId, req.body);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for PUT /interview-flows/:id/steps/order
+ * Reorders every step of a flow
+ */
+export const reorderInterviewStepsController = async (
+  req: ValidatedRequest<typeof reorderInterviewStepsSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await reorderInterviewSteps(req.params.id, req.body.stepIds);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for PATCH /interview-flows/:id/steps/:stepId
+ * Renames a step or changes its interview type
+ */
+export const updateInterviewStepController = async (
+  req: ValidatedRequest<typeof updateInterviewStepSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: interviewFlowId, stepId } = req.params;
+    const result = await updateInterviewStep(interviewFlowId, stepId, req.body);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for DELETE /interview-flows/:id/steps/:stepId
+ * Removes a step, migrating its applications to ?migrateToStepId when given
+ */
+export const removeInterviewStepController = async (
+  req: ValidatedRequest<typeof removeInterviewStepSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: interviewFlowId, stepId } = req.params;
+    const result = await removeInterviewStep(interviewFlowId, stepId, req.query.migrateToStepId, req.employee!.id);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /interview-types
+ * Lists all interview types
+ */
+export const listInterviewTypesController = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const result = await listInterviewTypes();
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for POST /interview-types
+ * Creates an interview type
+ */
+export const createInterviewTypeController = async (
+  req: ValidatedRequest<typeof createInterviewTypeSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await createInterviewType(req.body);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
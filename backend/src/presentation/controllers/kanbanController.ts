@@ -1,43 +1,53 @@
-import { Request, Response } from 'express';
-import { getPositionCandidates, updateCandidateStage } from '../../application/services/kanbanService';
+import { NextFunction, Response } from 'express';
 import {
-  isKanbanError
-} from '../../types/errors';
+  getPositionBoard,
+  getPositionCandidates,
+  updateApplicationStage,
+  updateCandidateStage,
+  updatePositionCandidateStage
+} from '../../application/services/kanbanService';
+import { ValidatedRequest } from '../../middleware/validation';
+import {
+  positionBoardSchema,
+  updateApplicationStageSchema,
+  updateCandidateStageSchema,
+  updatePositionCandidateStageSchema
+} from '../../schemas/kanban';
 
 /**
  * Controller for GET /positions/:id/candidates
  * Retrieves all candidates for a specific position in kanban format
  */
-export const getPositionCandidatesController = async (req: Request, res: Response): Promise<void> => {
+export const getPositionCandidatesController = async (
+  req: ValidatedRequest<typeof positionBoardSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    // Validate position ID parameter
-    const positionId = parseInt(req.params.id, 10);
-    if (isNaN(positionId) || positionId <= 0) {
-      res.status(400).json({ error: 'Invalid position ID format' });
-      return;
-    }
-
     // Call service to get candidates
-    const result = await getPositionCandidates(positionId);
+    const result = await getPositionCandidates(req.params.id);
 
     res.status(200).json(result);
   } catch (error) {
-    console.error('Error in getPositionCandidatesController:', error);
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /positions/:id/board
+ * Retrieves the position's kanban board as ordered interview step columns
+ */
+export const getPositionBoardController = async (
+  req: ValidatedRequest<typeof positionBoardSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await getPositionBoard(req.params.id);
 
-    if (isKanbanError(error)) {
-      switch (error.code) {
-        case 'INVALID_POSITION_ID':
-          res.status(400).json({ error: error.message });
-          break;
-        case 'POSITION_NOT_FOUND':
-          res.status(404).json({ error: error.message });
-          break;
-        default:
-          res.status(500).json({ error: 'Internal server error' });
-      }
-    } else {
-      res.status(500).json({ error: 'Internal server error' });
-    }
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
   }
 };
 
@@ -45,53 +55,62 @@ export const getPositionCandidatesController = async (req: Request, res: Respons
  * Controller for PUT /candidates/:id/stage
  * Updates a candidate's current interview stage
  */
-export const updateCandidateStageController = async (req: Request, res: Response): Promise<void> => {
+export const updateCandidateStageController = async (
+  req: ValidatedRequest<typeof updateCandidateStageSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    // Validate candidate ID parameter
-    const candidateId = parseInt(req.params.id, 10);
-    if (isNaN(candidateId) || candidateId <= 0) {
-      res.status(400).json({ error: 'Invalid candidate ID format' });
-      return;
-    }
-
-    // Validate request body
-    const { stage } = req.body;
-    if (stage === undefined || stage === null) {
-      res.status(400).json({ error: 'Stage is required' });
-      return;
-    }
+    const { stage, ...options } = req.body;
 
-    if (typeof stage !== 'string') {
-      res.status(400).json({ error: 'Stage must be a string' });
-      return;
-    }
+    // Call service to update candidate stage
+    const result = await updateCandidateStage(req.params.id, stage, { ...options, changedById: req.employee!.id });
 
-    if (stage.trim() === '') {
-      res.status(400).json({ error: 'Stage cannot be empty' });
-      return;
-    }
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
 
-    // Call service to update candidate stage
-    const result = await updateCandidateStage(candidateId, stage);
+/**
+ * Controller for PUT /applications/:id/stage
+ * Moves a single application to a step of its position's interview flow
+ */
+export const updateApplicationStageController = async (
+  req: ValidatedRequest<typeof updateApplicationStageSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // The schema lets exactly one of stage and stepId through
+    const { stage, stepId, ...options } = req.body;
+    const result = await updateApplicationStage(req.params.id, (stepId ?? stage)!, { ...options, changedById: req.employee!.id });
 
     res.status(200).json(result);
   } catch (error) {
-    console.error('Error in updateCandidateStageController:', error);
+    next(error);
+  }
+};
 
-    if (isKanbanError(error)) {
-      switch (error.code) {
-        case 'INVALID_CANDIDATE_ID':
-        case 'INVALID_STAGE_NAME':
-          res.status(400).json({ error: error.message });
-          break;
-        case 'CANDIDATE_NOT_FOUND':
-          res.status(404).json({ error: error.message });
-          break;
-        default:
-          res.status(500).json({ error: 'Internal server error' });
-      }
-    } else {
-      res.status(500).json({ error: 'Internal server error' });
-    }
+/**
+ * Controller for PUT /positions/:positionId/candidates/:candidateId/stage
+ * Moves a candidate's application to one position without touching their other applications
+ */
+export const updatePositionCandidateStageController = async (
+  req: ValidatedRequest<typeof updatePositionCandidateStageSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // The schema lets exactly one of stage and stepId through
+    const { stage, stepId, ...options } = req.body;
+    const result = await updatePositionCandidateStage(req.params.positionId, req.params.candidateId, (stepId ?? stage)!, {
+      ...options,
+      changedById: req.employee!.id,
+    });
+
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
   }
 };
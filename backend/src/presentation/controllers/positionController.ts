@@ -0,0 +1,148 @@
+import { NextFunction, Response } from 'express';
+import {
+  createPosition,
+  deletePosition,
+  getPositionById,
+  getPositionStatusHistory,
+  listPositions,
+  transitionPositionStatus,
+  updatePosition
+} from '../../application/services/positionService';
+import { ValidatedRequest } from '../../middleware/validation';
+import {
+  createPositionSchema,
+  listPositionsSchema,
+  positionSchema,
+  transitionPositionSchema,
+  updatePositionSchema
+} from '../../schemas/position';
+import { PositionListFilters } from '../../types/position';
+
+/**
+ * Controller for POST /positions
+ * Creates a new position
+ */
+export const createPositionController = async (
+  req: ValidatedRequest<typeof createPositionSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await createPosition(req.body);
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /positions
+ * Lists positions filtered by the query string
+ */
+export const listPositionsController = async (
+  req: ValidatedRequest<typeof listPositionsSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const filters: PositionListFilters = { ...req.query };
+    // Hiring managers only see the positions of their company
+    if (req.employee?.role === 'Hiring Manager') {
+      filters.companyId = req.employee.companyId;
+    }
+    const result = await listPositions(filters);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /positions/:id
+ * Retrieves a single position
+ */
+export const getPositionController = async (
+  req: ValidatedRequest<typeof positionSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const positionId = req.params.id;
+    const result = await getPositionById(positionId);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for PATCH /positions/:id
+ * Partially updates a position
+ */
+export const updatePositionController = async (
+  req: ValidatedRequest<typeof updatePositionSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const positionId = req.params.id;
+    const result = await updatePosition(positionId, req.body);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for DELETE /positions/:id
+ * Deletes a position without applications
+ */
+export const deletePositionController = async (
+  req: ValidatedRequest<typeof positionSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const positionId = req.params.id;
+    const result = await deletePosition(positionId);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for POST /positions/:id/transitions
+ * Moves a position to a new lifecycle status
+ */
+export const transitionPositionController = async (
+  req: ValidatedRequest<typeof transitionPositionSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const positionId = req.params.id;
+    const result = await transitionPositionStatus(positionId, { ...req.body, changedById: req.employee!.id });
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /positions/:id/transitions
+ * Retrieves the status history of a position
+ */
+export const getPositionTransitionsController = async (
+  req: ValidatedRequest<typeof positionSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const positionId = req.params.id;
+    const result = await getPositionStatusHistory(positionId);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
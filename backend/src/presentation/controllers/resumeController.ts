@@ -0,0 +1,89 @@
+import { NextFunction, Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { receiveUpload } from '../../application/services/fileUploadService';
+import { addResume, discardUpload, listResumes, openResumeFile } from '../../application/services/resumeService';
+import { ValidatedRequest } from '../../middleware/validation';
+import { downloadResumeSchema, resumesSchema } from '../../schemas/resume';
+import { UploadRejectedError } from '../../types/errors';
+
+/**
+ * Controller for POST /candidates/:id/resumes
+ * Uploads a PDF or DOCX and attaches it as the candidate's current resume; a file that fails
+ * verification or the malware scan is recorded as quarantined and answered with 422
+ */
+export const addResumeController = async (
+  req: ValidatedRequest<typeof resumesSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const candidateId = req.params.id;
+    // Multer parses the multipart body of the raw request
+    const file = await receiveUpload(req as unknown as Request, res);
+
+    const result = await addResume(candidateId, file).catch(async (error) => {
+      // Do not keep files that were never attached to a candidate
+      await discardUpload(file.filePath).catch((cleanupError) =>
+        console.error(`Error discarding upload ${file.filePath}:`, cleanupError),
+      );
+      throw error;
+    });
+    if (result.scanStatus === 'Quarantined') {
+      // Recorded on the candidate so recruiters can see the rejected upload
+      throw new UploadRejectedError(result.scanDetail, result);
+    }
+    res.status(201).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /candidates/:id/resumes
+ * Lists the resume versions of a candidate, newest first
+ */
+export const listResumesController = async (
+  req: ValidatedRequest<typeof resumesSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const candidateId = req.params.id;
+    const result = await listResumes(candidateId);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /resumes/:id/file
+ * Streams a resume file back when the signed download link is valid
+ */
+export const downloadResumeController = async (
+  req: ValidatedRequest<typeof downloadResumeSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const file = await openResumeFile(req.params.id, req.query);
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    if (file.fileSize !== null) {
+      res.setHeader('Content-Length', file.fileSize);
+    }
+    res.attachment(file.fileName);
+    res.type(file.fileType);
+    res.status(200);
+    // Once streaming has started a failure can only abort the response
+    await pipeline(file.content, res);
+  } catch (error) {
+    if (res.headersSent) {
+      console.error('Error in downloadResumeController:', error);
+      res.destroy();
+      return;
+    }
+    next(error);
+  }
+};
@@ -0,0 +1,86 @@
+import { NextFunction, Response } from 'express';
+import {
+  getApplicationScorecard,
+  getScorecardTemplate,
+  submitScorecard,
+  updateScorecardTemplate
+} from '../../application/services/scorecardService';
+import { ValidatedRequest } from '../../middleware/validation';
+import {
+  applicationScorecardSchema,
+  scorecardTemplateSchema,
+  submitScorecardSchema,
+  updateScorecardTemplateSchema
+} from '../../schemas/scorecard';
+
+/**
+ * Controller for GET /interview-types/:id/scorecard
+ * Retrieves the scorecard template of an interview type
+ */
+export const getScorecardTemplateController = async (
+  req: ValidatedRequest<typeof scorecardTemplateSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const interviewTypeId = req.params.id;
+    const result = await getScorecardTemplate(interviewTypeId);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for PUT /interview-types/:id/scorecard
+ * Replaces the rating scale and competencies of an interview type
+ */
+export const updateScorecardTemplateController = async (
+  req: ValidatedRequest<typeof updateScorecardTemplateSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const interviewTypeId = req.params.id;
+    const result = await updateScorecardTemplate(interviewTypeId, req.body);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for PUT /interviews/:id/scorecard
+ * Records per-competency ratings and a recommendation for a held interview
+ */
+export const submitScorecardController = async (
+  req: ValidatedRequest<typeof submitScorecardSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const interviewId = req.params.id;
+    const result = await submitScorecard(interviewId, req.body);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Controller for GET /applications/:id/scorecard
+ * Retrieves the aggregated scorecard of an application
+ */
+export const getApplicationScorecardController = async (
+  req: ValidatedRequest<typeof applicationScorecardSchema>,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const applicationId = req.params.id;
+    const result = await getApplicationScorecard(applicationId);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { authorize } from '../middleware/authorization';
+import { validate } from '../middleware/validation';
+import {
+  getApplicationStageHistoryController,
+  submitApplicationController
+} from '../presentation/controllers/applicationController';
+import {
+  applicationSchema,
+  submitApplicationSchema
+} from '../schemas/application';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /positions/{id}/applications:
+ *   post:
+ *     tags: [Applications]
+ *     summary: Submits an application for an existing candidate or a new candidate payload
+ *     responses:
+ *       201:
+ *         description: The created application
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApplicationData'
+ */
+router.post('/positions/:id/applications', authorize('applications:create', { resource: 'position' }), validate(submitApplicationSchema, submitApplicationController));
+
+/**
+ * @openapi
+ * /applications/{id}/history:
+ *   get:
+ *     tags: [Applications]
+ *     summary: Retrieves the stage moves of an application with the time spent in each stage
+ *     responses:
+ *       200:
+ *         description: The current step and the recorded moves
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApplicationStageHistoryResponse'
+ */
+router.get('/applications/:id/history', authorize('applications:read', { resource: 'application' }), validate(applicationSchema, getApplicationStageHistoryController));
+
+export default router;
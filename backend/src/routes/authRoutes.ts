@@ -0,0 +1,114 @@
+import { Router } from 'express';
+import { authRateLimiter } from '../middleware/security';
+import { requireAuthentication } from '../middleware/authentication';
+import { validate } from '../middleware/validation';
+import {
+  currentEmployeeController,
+  loginController,
+  logoutController,
+  refreshController,
+  requestPasswordResetController,
+  resetPasswordController
+} from '../presentation/controllers/authController';
+import {
+  loginSchema,
+  passwordResetSchema,
+  resetPasswordSchema
+} from '../schemas/auth';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /auth/login:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Signs an employee in with email and password; sets the access and refresh token cookies
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: Signed in; the access_token and refresh_token cookies are set
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SessionResponse'
+ */
+router.post('/login', authRateLimiter, validate(loginSchema, loginController));
+
+/**
+ * @openapi
+ * /auth/refresh:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Rotates the refresh token cookie and issues a new access token
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: The new access token; both cookies are replaced
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SessionResponse'
+ */
+router.post('/refresh', authRateLimiter, refreshController);
+
+/**
+ * @openapi
+ * /auth/logout:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Ends the current session and clears the cookies
+ *     security: []
+ *     responses:
+ *       204:
+ *         description: Signed out; both cookies are cleared
+ */
+router.post('/logout', logoutController);
+
+/**
+ * @openapi
+ * /auth/me:
+ *   get:
+ *     tags: [Auth]
+ *     summary: Returns the signed-in employee
+ *     responses:
+ *       200:
+ *         description: The signed-in employee with the permissions of their role
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CurrentEmployeeResponse'
+ */
+router.get('/me', requireAuthentication, currentEmployeeController);
+
+/**
+ * @openapi
+ * /auth/password-reset:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Sends a password reset token to the employee with that email
+ *     security: []
+ *     responses:
+ *       202:
+ *         description: Answered whether or not the email belongs to an employee
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MessageResponse'
+ */
+router.post('/password-reset', authRateLimiter, validate(passwordResetSchema, requestPasswordResetController));
+
+/**
+ * @openapi
+ * /auth/password-reset/confirm:
+ *   post:
+ *     tags: [Auth]
+ *     summary: Sets a new password with a reset token
+ *     security: []
+ *     responses:
+ *       204:
+ *         description: The password is set and every session of the employee ended
+ */
+router.post('/password-reset/confirm', authRateLimiter, validate(resetPasswordSchema, resetPasswordController));
+
+export default router;
@@ -1,21 +1,303 @@
 import { Router } from 'express';
-import { addCandidate, getCandidateById } from '../presentation/controllers/candidateController';
+import { authorize } from '../middleware/authorization';
+import { validate } from '../middleware/validation';
+import {
+  addCandidate,
+  addEducationController,
+  addWorkExperienceController,
+  deleteCandidateController,
+  getCandidateById,
+  listCandidatesController,
+  removeEducationController,
+  removeWorkExperienceController,
+  replaceCandidateController,
+  searchCandidatesController,
+  updateCandidateController,
+  updateEducationController,
+  updateWorkExperienceController
+} from '../presentation/controllers/candidateController';
+import { addResumeController, listResumesController } from '../presentation/controllers/resumeController';
+import {
+  addCandidateSchema,
+  addEducationSchema,
+  addWorkExperienceSchema,
+  candidateSchema,
+  educationSchema,
+  listCandidatesSchema,
+  replaceCandidateSchema,
+  searchCandidatesSchema,
+  updateCandidateSchema,
+  updateEducationSchema,
+  updateWorkExperienceSchema,
+  workExperienceSchema
+} from '../schemas/candidate';
+import { resumesSchema } from '../schemas/resume';
 
 const router = Router();
 
-router.post('/', async (req, res) => {
+/**
+ * @openapi
+ * /candidates:
+ *   post:
+ *     tags: [Candidates]
+ *     summary: Creates a candidate with their educations, work experiences and first resume
+ *     responses:
+ *       201:
+ *         description: The created candidate
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Candidate'
+ */
+router.post('/', authorize('candidates:write'), validate(addCandidateSchema, async (req, res, next) => {
   try {
     const result = await addCandidate(req.body);
     res.status(201).send(result);
   } catch (error) {
-    if (error instanceof Error) {
-      res.status(400).send({ message: error.message });
-    } else {
-      res.status(500).send({ message: "An unexpected error occurred" });
-    }
+    next(error);
   }
-});
+}));
 
-router.get('/:id', getCandidateById);
+/**
+ * @openapi
+ * /candidates:
+ *   get:
+ *     tags: [Candidates]
+ *     summary: Lists candidate summaries; filters, sorting and the page cursor come from the query string
+ *     responses:
+ *       200:
+ *         description: A page of candidate summaries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CandidateListResponse'
+ */
+router.get('/', authorize('candidates:read'), validate(listCandidatesSchema, listCandidatesController));
+
+/**
+ * @openapi
+ * /candidates/search:
+ *   get:
+ *     tags: [Candidates]
+ *     summary: Ranks candidates by full-text match of q against their profile and resume text
+ *     responses:
+ *       200:
+ *         description: The total number of matches and the requested page
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CandidateSearchResponse'
+ */
+router.get('/search', authorize('candidates:read'), validate(searchCandidatesSchema, searchCandidatesController));
+
+/**
+ * @openapi
+ * /candidates/{id}:
+ *   get:
+ *     tags: [Candidates]
+ *     summary: Retrieves a candidate with their educations, work experiences, resumes and applications
+ *     responses:
+ *       200:
+ *         description: The candidate
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CandidateDetail'
+ */
+router.get('/:id', authorize('candidates:read'), validate(candidateSchema, getCandidateById));
+
+/**
+ * @openapi
+ * /candidates/{id}:
+ *   put:
+ *     tags: [Candidates]
+ *     summary: Replaces a candidate profile; supplied education and work experience lists are synchronized
+ *     responses:
+ *       200:
+ *         description: The updated profile
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CandidateProfileData'
+ */
+router.put('/:id', authorize('candidates:write'), validate(replaceCandidateSchema, replaceCandidateController));
+
+/**
+ * @openapi
+ * /candidates/{id}:
+ *   patch:
+ *     tags: [Candidates]
+ *     summary: Updates only the supplied profile fields
+ *     responses:
+ *       200:
+ *         description: The updated profile
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CandidateProfileData'
+ */
+router.patch('/:id', authorize('candidates:write'), validate(updateCandidateSchema, updateCandidateController));
+
+/**
+ * @openapi
+ * /candidates/{id}:
+ *   delete:
+ *     tags: [Candidates]
+ *     summary: Deletes a candidate with their applications, interviews, resumes, educations and work experiences
+ *     responses:
+ *       200:
+ *         description: The number of rows removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeleteCandidateResponse'
+ */
+router.delete('/:id', authorize('candidates:delete'), validate(candidateSchema, deleteCandidateController));
+
+/**
+ * @openapi
+ * /candidates/{id}/educations:
+ *   post:
+ *     tags: [Candidates]
+ *     summary: Adds an education to a candidate
+ *     responses:
+ *       201:
+ *         description: The created education
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EducationData'
+ */
+router.post('/:id/educations', authorize('candidates:write'), validate(addEducationSchema, addEducationController));
+
+/**
+ * @openapi
+ * /candidates/{id}/educations/{educationId}:
+ *   patch:
+ *     tags: [Candidates]
+ *     summary: Updates the supplied fields of an education
+ *     responses:
+ *       200:
+ *         description: The updated education
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EducationData'
+ */
+router.patch('/:id/educations/:educationId', authorize('candidates:write'), validate(updateEducationSchema, updateEducationController));
+
+/**
+ * @openapi
+ * /candidates/{id}/educations/{educationId}:
+ *   delete:
+ *     tags: [Candidates]
+ *     summary: Removes an education
+ *     responses:
+ *       200:
+ *         description: The profile without the education
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CandidateProfileData'
+ */
+router.delete('/:id/educations/:educationId', authorize('candidates:write'), validate(educationSchema, removeEducationController));
+
+/**
+ * @openapi
+ * /candidates/{id}/work-experiences:
+ *   post:
+ *     tags: [Candidates]
+ *     summary: Adds a work experience to a candidate
+ *     responses:
+ *       201:
+ *         description: The created work experience
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WorkExperienceData'
+ */
+router.post('/:id/work-experiences', authorize('candidates:write'), validate(addWorkExperienceSchema, addWorkExperienceController));
+
+/**
+ * @openapi
+ * /candidates/{id}/work-experiences/{workExperienceId}:
+ *   patch:
+ *     tags: [Candidates]
+ *     summary: Updates the supplied fields of a work experience
+ *     responses:
+ *       200:
+ *         description: The updated work experience
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WorkExperienceData'
+ */
+router.patch('/:id/work-experiences/:workExperienceId', authorize('candidates:write'), validate(updateWorkExperienceSchema, updateWorkExperienceController));
+
+/**
+ * @openapi
+ * /candidates/{id}/work-experiences/{workExperienceId}:
+ *   delete:
+ *     tags: [Candidates]
+ *     summary: Removes a work experience
+ *     responses:
+ *       200:
+ *         description: The profile without the work experience
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CandidateProfileData'
+ */
+router.delete('/:id/work-experiences/:workExperienceId', authorize('candidates:write'), validate(workExperienceSchema, removeWorkExperienceController));
+
+/**
+ * @openapi
+ * /candidates/{id}/resumes:
+ *   post:
+ *     tags: [Resumes]
+ *     summary: Uploads a resume file and makes it the candidate's current version
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: A PDF or DOCX file
+ *     responses:
+ *       201:
+ *         description: The stored resume, now the current version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ResumeData'
+ *       422:
+ *         description: The file failed verification or the malware scan; the quarantined version is in resume
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Problem'
+ */
+router.post('/:id/resumes', authorize('candidates:write'), validate(resumesSchema, addResumeController));
+
+/**
+ * @openapi
+ * /candidates/{id}/resumes:
+ *   get:
+ *     tags: [Resumes]
+ *     summary: Lists the resume versions of a candidate with signed download links
+ *     responses:
+ *       200:
+ *         description: The resume versions, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ResumeListResponse'
+ */
+router.get('/:id/resumes', authorize('candidates:read'), validate(resumesSchema, listResumesController));
 
 export default router;
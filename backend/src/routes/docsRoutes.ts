@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { openApiDocumentController } from '../presentation/controllers/docsController';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /openapi.json:
+ *   get:
+ *     tags: [Docs]
+ *     summary: Retrieves the OpenAPI document generated from the route definitions and their schemas
+ *     security: []
+ *     responses:
+ *       200:
+ *         description: The OpenAPI 3.1 document
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ */
+router.get('/openapi.json', openApiDocumentController);
+
+// Swagger UI loads the document above, so it always matches the running app
+router.use('/docs', swaggerUi.serve, swaggerUi.setup(undefined, { swaggerOptions: { url: '/openapi.json' } }));
+
+export default router;
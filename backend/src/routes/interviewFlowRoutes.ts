@@ -0,0 +1,224 @@
+import { Router } from 'express';
+import { authorize } from '../middleware/authorization';
+import { validate } from '../middleware/validation';
+import {
+  addInterviewStepController,
+  cloneInterviewFlowController,
+  createInterviewFlowController,
+  createInterviewTypeController,
+  deleteInterviewFlowController,
+  getInterviewFlowController,
+  listInterviewFlowsController,
+  listInterviewTypesController,
+  removeInterviewStepController,
+  reorderInterviewStepsController,
+  updateInterviewFlowController,
+  updateInterviewStepController
+} from '../presentation/controllers/interviewFlowController';
+import {
+  addInterviewStepSchema,
+  cloneInterviewFlowSchema,
+  createInterviewFlowSchema,
+  createInterviewTypeSchema,
+  interviewFlowSchema,
+  removeInterviewStepSchema,
+  reorderInterviewStepsSchema,
+  updateInterviewFlowSchema,
+  updateInterviewStepSchema
+} from '../schemas/interviewFlow';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /interview-flows:
+ *   post:
+ *     tags: [InterviewFlows]
+ *     summary: Creates an interview flow, optionally with its steps
+ *     responses:
+ *       201:
+ *         description: The created flow
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewFlowData'
+ */
+router.post('/interview-flows', authorize('flows:write'), validate(createInterviewFlowSchema, createInterviewFlowController));
+
+/**
+ * @openapi
+ * /interview-flows:
+ *   get:
+ *     tags: [InterviewFlows]
+ *     summary: Lists interview flows with their ordered steps
+ *     responses:
+ *       200:
+ *         description: The flows ordered by id
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewFlowListResponse'
+ */
+router.get('/interview-flows', authorize('flows:read'), listInterviewFlowsController);
+
+/**
+ * @openapi
+ * /interview-flows/{id}:
+ *   get:
+ *     tags: [InterviewFlows]
+ *     summary: Retrieves an interview flow with its ordered steps
+ *     responses:
+ *       200:
+ *         description: The flow
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewFlowData'
+ */
+router.get('/interview-flows/:id', authorize('flows:read'), validate(interviewFlowSchema, getInterviewFlowController));
+
+/**
+ * @openapi
+ * /interview-flows/{id}:
+ *   patch:
+ *     tags: [InterviewFlows]
+ *     summary: Updates an interview flow's description
+ *     responses:
+ *       200:
+ *         description: The updated flow
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewFlowData'
+ */
+router.patch('/interview-flows/:id', authorize('flows:write'), validate(updateInterviewFlowSchema, updateInterviewFlowController));
+
+/**
+ * @openapi
+ * /interview-flows/{id}:
+ *   delete:
+ *     tags: [InterviewFlows]
+ *     summary: Deletes an interview flow that no position uses
+ *     responses:
+ *       200:
+ *         description: The flow was deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeleteInterviewFlowResponse'
+ */
+router.delete('/interview-flows/:id', authorize('flows:write'), validate(interviewFlowSchema, deleteInterviewFlowController));
+
+/**
+ * @openapi
+ * /interview-flows/{id}/clone:
+ *   post:
+ *     tags: [InterviewFlows]
+ *     summary: Copies an interview flow and its steps
+ *     responses:
+ *       201:
+ *         description: The new flow
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewFlowData'
+ */
+router.post('/interview-flows/:id/clone', authorize('flows:write'), validate(cloneInterviewFlowSchema, cloneInterviewFlowController));
+
+/**
+ * @openapi
+ * /interview-flows/{id}/steps:
+ *   post:
+ *     tags: [InterviewFlows]
+ *     summary: Adds a step, appended or inserted at orderIndex
+ *     responses:
+ *       201:
+ *         description: The created step
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewStepData'
+ */
+router.post('/interview-flows/:id/steps', authorize('flows:write'), validate(addInterviewStepSchema, addInterviewStepController));
+
+/**
+ * @openapi
+ * /interview-flows/{id}/steps/order:
+ *   put:
+ *     tags: [InterviewFlows]
+ *     summary: Atomically reorders every step of the flow
+ *     responses:
+ *       200:
+ *         description: The reordered flow
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewFlowData'
+ */
+router.put('/interview-flows/:id/steps/order', authorize('flows:write'), validate(reorderInterviewStepsSchema, reorderInterviewStepsController));
+
+/**
+ * @openapi
+ * /interview-flows/{id}/steps/{stepId}:
+ *   patch:
+ *     tags: [InterviewFlows]
+ *     summary: Renames a step or changes its interview type
+ *     responses:
+ *       200:
+ *         description: The updated step
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewStepData'
+ */
+router.patch('/interview-flows/:id/steps/:stepId', authorize('flows:write'), validate(updateInterviewStepSchema, updateInterviewStepController));
+
+/**
+ * @openapi
+ * /interview-flows/{id}/steps/{stepId}:
+ *   delete:
+ *     tags: [InterviewFlows]
+ *     summary: Removes a step; applications on it move to ?migrateToStepId
+ *     responses:
+ *       200:
+ *         description: The step was removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RemoveInterviewStepResponse'
+ */
+router.delete('/interview-flows/:id/steps/:stepId', authorize('flows:write'), validate(removeInterviewStepSchema, removeInterviewStepController));
+
+/**
+ * @openapi
+ * /interview-types:
+ *   get:
+ *     tags: [InterviewFlows]
+ *     summary: Lists interview types
+ *     responses:
+ *       200:
+ *         description: The interview types ordered by id
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewTypeListResponse'
+ */
+router.get('/interview-types', authorize('flows:read'), listInterviewTypesController);
+
+/**
+ * @openapi
+ * /interview-types:
+ *   post:
+ *     tags: [InterviewFlows]
+ *     summary: Creates an interview type
+ *     responses:
+ *       201:
+ *         description: The created interview type
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewTypeData'
+ */
+router.post('/interview-types', authorize('flows:write'), validate(createInterviewTypeSchema, createInterviewTypeController));
+
+export default router;
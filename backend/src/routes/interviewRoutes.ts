@@ -0,0 +1,119 @@
+import { Router } from 'express';
+import { authorize } from '../middleware/authorization';
+import { validate } from '../middleware/validation';
+import {
+  cancelInterviewController,
+  getInterviewController,
+  listApplicationInterviewsController,
+  rescheduleInterviewController,
+  scheduleInterviewController,
+  submitInterviewResultController
+} from '../presentation/controllers/interviewController';
+import {
+  applicationInterviewsSchema,
+  cancelInterviewSchema,
+  interviewSchema,
+  rescheduleInterviewSchema,
+  scheduleInterviewSchema,
+  submitInterviewResultSchema
+} from '../schemas/interview';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /applications/{id}/interviews:
+ *   post:
+ *     tags: [Interviews]
+ *     summary: Schedules an interview at a step of the application's flow with an eligible employee
+ *     responses:
+ *       201:
+ *         description: The scheduled interview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewData'
+ */
+router.post('/applications/:id/interviews', authorize('interviews:schedule', { resource: 'application' }), validate(scheduleInterviewSchema, scheduleInterviewController));
+
+/**
+ * @openapi
+ * /applications/{id}/interviews:
+ *   get:
+ *     tags: [Interviews]
+ *     summary: Lists the interviews of an application
+ *     responses:
+ *       200:
+ *         description: The application's interviews
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewListResponse'
+ */
+router.get('/applications/:id/interviews', authorize('interviews:read', { resource: 'application' }), validate(applicationInterviewsSchema, listApplicationInterviewsController));
+
+/**
+ * @openapi
+ * /interviews/{id}:
+ *   get:
+ *     tags: [Interviews]
+ *     summary: Retrieves a single interview
+ *     responses:
+ *       200:
+ *         description: The interview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewData'
+ */
+router.get('/interviews/:id', authorize('interviews:read', { resource: 'interview' }), validate(interviewSchema, getInterviewController));
+
+/**
+ * @openapi
+ * /interviews/{id}:
+ *   patch:
+ *     tags: [Interviews]
+ *     summary: Reschedules a scheduled interview
+ *     responses:
+ *       200:
+ *         description: The rescheduled interview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewData'
+ */
+router.patch('/interviews/:id', authorize('interviews:schedule', { resource: 'interview' }), validate(rescheduleInterviewSchema, rescheduleInterviewController));
+
+/**
+ * @openapi
+ * /interviews/{id}/cancel:
+ *   post:
+ *     tags: [Interviews]
+ *     summary: Cancels a scheduled interview
+ *     responses:
+ *       200:
+ *         description: The cancelled interview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewData'
+ */
+router.post('/interviews/:id/cancel', authorize('interviews:schedule', { resource: 'interview' }), validate(cancelInterviewSchema, cancelInterviewController));
+
+/**
+ * @openapi
+ * /interviews/{id}/result:
+ *   put:
+ *     tags: [Interviews]
+ *     summary: Records the result, score and notes of a held interview
+ *     responses:
+ *       200:
+ *         description: The completed interview
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewData'
+ */
+router.put('/interviews/:id/result', authorize('interviews:evaluate', { resource: 'interview' }), validate(submitInterviewResultSchema, submitInterviewResultController));
+
+export default router;
@@ -1,21 +1,102 @@
 import { Router } from 'express';
+import { authorize } from '../middleware/authorization';
+import { validate } from '../middleware/validation';
 import {
+  getPositionBoardController,
   getPositionCandidatesController,
-  updateCandidateStageController
+  updateApplicationStageController,
+  updateCandidateStageController,
+  updatePositionCandidateStageController
 } from '../presentation/controllers/kanbanController';
+import {
+  positionBoardSchema,
+  updateApplicationStageSchema,
+  updateCandidateStageSchema,
+  updatePositionCandidateStageSchema
+} from '../schemas/kanban';
 
 const router = Router();
 
 /**
- * GET /positions/:id/candidates
- * Retrieves all candidates for a specific position for kanban interface
+ * @openapi
+ * /positions/{id}/candidates:
+ *   get:
+ *     tags: [Kanban]
+ *     summary: Retrieves all candidates for a specific position for kanban interface
+ *     responses:
+ *       200:
+ *         description: The position's candidates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PositionCandidatesResponse'
+ */
+router.get('/positions/:id/candidates', authorize('positions:read', { resource: 'position' }), validate(positionBoardSchema, getPositionCandidatesController));
+
+/**
+ * @openapi
+ * /positions/{id}/board:
+ *   get:
+ *     tags: [Kanban]
+ *     summary: Retrieves the position's interview steps as ordered kanban columns with their cards
+ *     responses:
+ *       200:
+ *         description: The position's board
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PositionBoardResponse'
+ */
+router.get('/positions/:id/board', authorize('positions:read', { resource: 'position' }), validate(positionBoardSchema, getPositionBoardController));
+
+/**
+ * @openapi
+ * /candidates/{id}/stage:
+ *   put:
+ *     tags: [Kanban]
+ *     summary: Updates a candidate's current interview stage
+ *     description: Moves every application of the candidate; use one of the routes below
+ *     deprecated: true
+ *     responses:
+ *       200:
+ *         description: Every application of the candidate was moved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UpdateCandidateStageResponse'
+ */
+router.put('/candidates/:id/stage', authorize('applications:move'), validate(updateCandidateStageSchema, updateCandidateStageController));
+
+/**
+ * @openapi
+ * /applications/{id}/stage:
+ *   put:
+ *     tags: [Kanban]
+ *     summary: Moves a single application to a step (by id or name) of its position's interview flow
+ *     responses:
+ *       200:
+ *         description: The moved application
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UpdateApplicationStageResponse'
  */
-router.get('/positions/:id/candidates', getPositionCandidatesController);
+router.put('/applications/:id/stage', authorize('applications:move'), validate(updateApplicationStageSchema, updateApplicationStageController));
 
 /**
- * PUT /candidates/:id/stage
- * Updates a candidate's current interview stage
+ * @openapi
+ * /positions/{positionId}/candidates/{candidateId}/stage:
+ *   put:
+ *     tags: [Kanban]
+ *     summary: Moves a candidate's application to one position
+ *     responses:
+ *       200:
+ *         description: The moved application
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UpdateApplicationStageResponse'
  */
-router.put('/candidates/:id/stage', updateCandidateStageController);
+router.put('/positions/:positionId/candidates/:candidateId/stage', authorize('applications:move'), validate(updatePositionCandidateStageSchema, updatePositionCandidateStageController));
 
 export default router;
@@ -0,0 +1,135 @@
+import { Router } from 'express';
+import { authorize } from '../middleware/authorization';
+import { validate } from '../middleware/validation';
+import {
+  createPositionController,
+  deletePositionController,
+  getPositionController,
+  getPositionTransitionsController,
+  listPositionsController,
+  transitionPositionController,
+  updatePositionController
+} from '../presentation/controllers/positionController';
+import {
+  createPositionSchema,
+  listPositionsSchema,
+  positionSchema,
+  transitionPositionSchema,
+  updatePositionSchema
+} from '../schemas/position';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /positions:
+ *   post:
+ *     tags: [Positions]
+ *     summary: Creates a new position
+ *     responses:
+ *       201:
+ *         description: The created position
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PositionData'
+ */
+router.post('/', authorize('positions:write', { resource: 'company', body: 'companyId' }), validate(createPositionSchema, createPositionController));
+
+/**
+ * @openapi
+ * /positions:
+ *   get:
+ *     tags: [Positions]
+ *     summary: Lists positions, filterable by companyId, status, isVisible, location, employmentType and salary range
+ *     responses:
+ *       200:
+ *         description: The matching positions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PositionListResponse'
+ */
+router.get('/', authorize('positions:read'), validate(listPositionsSchema, listPositionsController));
+
+/**
+ * @openapi
+ * /positions/{id}:
+ *   get:
+ *     tags: [Positions]
+ *     summary: Retrieves a single position
+ *     responses:
+ *       200:
+ *         description: The position
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PositionData'
+ */
+router.get('/:id', authorize('positions:read', { resource: 'position' }), validate(positionSchema, getPositionController));
+
+/**
+ * @openapi
+ * /positions/{id}:
+ *   patch:
+ *     tags: [Positions]
+ *     summary: Partially updates a position
+ *     responses:
+ *       200:
+ *         description: The updated position
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PositionData'
+ */
+router.patch('/:id', authorize('positions:write', { resource: 'position' }, { resource: 'company', body: 'companyId' }), validate(updatePositionSchema, updatePositionController));
+
+/**
+ * @openapi
+ * /positions/{id}:
+ *   delete:
+ *     tags: [Positions]
+ *     summary: Deletes a position that has no applications
+ *     responses:
+ *       200:
+ *         description: The position was deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeletePositionResponse'
+ */
+router.delete('/:id', authorize('positions:delete', { resource: 'position' }), validate(positionSchema, deletePositionController));
+
+/**
+ * @openapi
+ * /positions/{id}/transitions:
+ *   post:
+ *     tags: [Positions]
+ *     summary: Moves a position through its lifecycle (Draft → Open → On Hold → Closed/Filled/Cancelled)
+ *     responses:
+ *       200:
+ *         description: The position and the recorded transition
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PositionTransitionResponse'
+ */
+router.post('/:id/transitions', authorize('positions:write', { resource: 'position' }), validate(transitionPositionSchema, transitionPositionController));
+
+/**
+ * @openapi
+ * /positions/{id}/transitions:
+ *   get:
+ *     tags: [Positions]
+ *     summary: Retrieves the recorded status changes of a position
+ *     responses:
+ *       200:
+ *         description: The status changes, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PositionStatusHistoryResponse'
+ */
+router.get('/:id/transitions', authorize('positions:read', { resource: 'position' }), validate(positionSchema, getPositionTransitionsController));
+
+export default router;
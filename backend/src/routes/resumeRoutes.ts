@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { authorize } from '../middleware/authorization';
+import { validate } from '../middleware/validation';
+import { downloadResumeController } from '../presentation/controllers/resumeController';
+import { downloadResumeSchema } from '../schemas/resume';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /resumes/{id}/file:
+ *   get:
+ *     tags: [Resumes]
+ *     summary: Streams a resume file; requires a session and the signed link returned by GET /candidates/:id/resumes
+ *     responses:
+ *       200:
+ *         description: The file, with the name it was uploaded with
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           application/vnd.openxmlformats-officedocument.wordprocessingml.document:
+ *             schema:
+ *               type: string
+ *               format: binary
+ */
+router.get('/:id/file', authorize('candidates:read'), validate(downloadResumeSchema, downloadResumeController));
+
+export default router;
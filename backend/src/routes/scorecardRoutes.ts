@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { authorize } from '../middleware/authorization';
+import { validate } from '../middleware/validation';
+import {
+  getApplicationScorecardController,
+  getScorecardTemplateController,
+  submitScorecardController,
+  updateScorecardTemplateController
+} from '../presentation/controllers/scorecardController';
+import {
+  applicationScorecardSchema,
+  scorecardTemplateSchema,
+  submitScorecardSchema,
+  updateScorecardTemplateSchema
+} from '../schemas/scorecard';
+
+const router = Router();
+
+/**
+ * @openapi
+ * /interview-types/{id}/scorecard:
+ *   get:
+ *     tags: [Scorecards]
+ *     summary: Retrieves the rating scale and weighted competencies of an interview type
+ *     responses:
+ *       200:
+ *         description: The scorecard template
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScorecardTemplateData'
+ */
+router.get('/interview-types/:id/scorecard', authorize('flows:read'), validate(scorecardTemplateSchema, getScorecardTemplateController));
+
+/**
+ * @openapi
+ * /interview-types/{id}/scorecard:
+ *   put:
+ *     tags: [Scorecards]
+ *     summary: Replaces the rating scale and weighted competencies of an interview type
+ *     responses:
+ *       200:
+ *         description: The updated scorecard template
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScorecardTemplateData'
+ */
+router.put('/interview-types/:id/scorecard', authorize('flows:write'), validate(updateScorecardTemplateSchema, updateScorecardTemplateController));
+
+/**
+ * @openapi
+ * /interviews/{id}/scorecard:
+ *   put:
+ *     tags: [Scorecards]
+ *     summary: Rates every competency of a held interview and records a hire recommendation
+ *     responses:
+ *       200:
+ *         description: The interview with its ratings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/InterviewScorecardData'
+ */
+router.put('/interviews/:id/scorecard', authorize('interviews:evaluate', { resource: 'interview' }), validate(submitScorecardSchema, submitScorecardController));
+
+/**
+ * @openapi
+ * /applications/{id}/scorecard:
+ *   get:
+ *     tags: [Scorecards]
+ *     summary: Retrieves the weighted score and per-competency breakdown of an application
+ *     responses:
+ *       200:
+ *         description: The weighted score and its breakdown
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApplicationScorecardResponse'
+ */
+router.get('/applications/:id/scorecard', authorize('applications:read', { resource: 'application' }), validate(applicationScorecardSchema, getApplicationScorecardController));
+
+export default router;
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import type { ApplicationData, ApplicationStageHistoryResponse } from '../types/application';
+import { newCandidateFields } from './candidate';
+import { id, idParams, integer } from './common';
+
+/**
+ * An existing candidate by candidateId, or a new candidate to create with the application
+ */
+export const createApplicationBody = z
+  .object({
+    candidateId: id.optional(),
+    candidate: newCandidateFields.optional(),
+    notes: z.string().nullish(),
+  })
+  .superRefine((body, ctx) => {
+    if ((body.candidateId === undefined) === (body.candidate === undefined)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['candidate'], message: 'Provide either candidateId or candidate' });
+    }
+  });
+
+export const submitApplicationSchema = { params: idParams, body: createApplicationBody };
+export const applicationSchema = { params: idParams };
+
+export const applicationData: z.ZodType<ApplicationData> = z.object({
+  id: integer,
+  positionId: integer,
+  candidateId: integer,
+  applicationDate: z.date(),
+  currentInterviewStep: integer,
+  notes: z.string().nullable(),
+  candidate: z.object({ id: integer, firstName: z.string(), lastName: z.string(), email: z.string() }),
+  interviewStep: z.object({ id: integer, name: z.string(), orderIndex: integer }),
+});
+
+export const applicationStageHistoryResponse: z.ZodType<ApplicationStageHistoryResponse> = z.object({
+  applicationId: integer,
+  currentStep: z.object({ id: integer, name: z.string(), enteredAt: z.date().nullable() }),
+  history: z.array(
+    z.object({
+      id: integer,
+      applicationId: integer,
+      fromStepId: integer.nullable(),
+      fromStepName: z.string().nullable(),
+      toStepId: integer.nullable(),
+      toStepName: z.string(),
+      changedById: integer.nullable(),
+      reason: z.string().nullable(),
+      changedAt: z.date(),
+      leftAt: z.date().nullable().describe('When the application left toStep, or null if it is still there'),
+      durationSeconds: z.number().describe('Time spent in toStep, up to now for the current stage'),
+    }),
+  ),
+});
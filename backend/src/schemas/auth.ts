@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { EMPLOYEE_ROLES, PERMISSIONS } from '../types/auth';
+import { integer } from './common';
+
+export const loginBody = z.object({
+  email: z.string(),
+  password: z.string(),
+});
+
+export const passwordResetBody = z.object({
+  email: z.string(),
+});
+
+/**
+ * The password policy is checked by the auth service
+ */
+export const resetPasswordBody = z.object({
+  token: z.string().min(1, 'is required'),
+  password: z.string(),
+});
+
+export const loginSchema = { body: loginBody };
+export const passwordResetSchema = { body: passwordResetBody };
+export const resetPasswordSchema = { body: resetPasswordBody };
+
+const employee = z.object({
+  id: integer,
+  companyId: integer,
+  name: z.string(),
+  email: z.string(),
+  role: z.enum(EMPLOYEE_ROLES),
+});
+
+/**
+ * The signed-in employee and the access token, also set as a cookie, for clients that send it as a
+ * Bearer header
+ */
+export const sessionResponse = z.object({
+  employee,
+  accessToken: z.string(),
+  accessTokenExpiresAt: z.date(),
+});
+
+export const currentEmployeeResponse = employee.extend({
+  permissions: z.array(z.enum(PERMISSIONS)).describe("The permissions of the employee's role"),
+});
+
+export const messageResponse = z.object({ message: z.string() });
@@ -0,0 +1,271 @@
+import { z } from 'zod';
+import type {
+  CandidateListResponse,
+  CandidateProfileData,
+  CandidateSearchResponse,
+  DeleteCandidateResponse,
+  EducationData,
+  WorkExperienceData
+} from '../types/candidate';
+import { CANDIDATE_SORT_FIELDS } from '../types/candidate';
+import { RESUME_SCAN_STATUSES } from '../types/resume';
+import { filterString, id, idParams, idString, integer, numberString } from './common';
+
+//Length validations according to the database schema
+
+const NAME_REGEX = /^[a-zA-ZñÑáéíóúÁÉÍÓÚ ]+$/;
+const EMAIL_REGEX = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+const PHONE_REGEX = /^(6|7|9)\d{8}$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export const candidateName = z
+  .string()
+  .min(2, 'must be 2 to 100 characters long')
+  .max(100, 'must be 2 to 100 characters long')
+  .regex(NAME_REGEX, 'must only contain letters and spaces');
+
+export const candidateEmail = z.string().regex(EMAIL_REGEX, 'must be an email address');
+
+/** Empty or null leaves the candidate without a phone */
+export const candidatePhone = z
+  .string()
+  .regex(PHONE_REGEX, 'must be 9 digits starting with 6, 7 or 9')
+  .or(z.literal(''))
+  .nullish();
+
+/** Empty or null leaves the candidate without an address */
+export const candidateAddress = z.string().max(100, 'must be at most 100 characters long').nullish();
+
+/** A YYYY-MM-DD date */
+export const calendarDate = z.string().regex(DATE_REGEX, 'must be a YYYY-MM-DD date');
+
+/** Empty or null leaves the record without an end date */
+const endDate = calendarDate.or(z.literal('')).nullish();
+
+const requiredText = (max: number) =>
+  z.string().min(1, 'is required').max(max, `must be at most ${max} characters long`);
+
+export const educationFields = z.object({
+  institution: requiredText(100),
+  title: requiredText(100),
+  startDate: calendarDate,
+  endDate,
+});
+
+export const workExperienceFields = z.object({
+  company: requiredText(100),
+  position: requiredText(100),
+  description: z.string().max(200, 'must be at most 200 characters long').nullish(),
+  startDate: calendarDate,
+  endDate,
+});
+
+const candidateProfileFields = z.object({
+  firstName: candidateName,
+  lastName: candidateName,
+  email: candidateEmail,
+  phone: candidatePhone,
+  address: candidateAddress,
+});
+
+/**
+ * A new candidate, as submitted with an application or to POST /candidates
+ */
+export const newCandidateFields = candidateProfileFields.extend({
+  educations: z.array(educationFields).optional(),
+  workExperiences: z.array(workExperienceFields).optional(),
+  cv: z
+    .object({
+      filePath: z.string().min(1, 'is required').describe('Key returned by POST /upload'),
+      fileType: z.string().optional().describe('Ignored; the type detected on upload is used'),
+    })
+    .or(z.object({}).strict())
+    .optional(),
+});
+
+export const replaceCandidateBody = candidateProfileFields.extend({
+  educations: z.array(educationFields.extend({ id: id.optional() })).optional(),
+  workExperiences: z.array(workExperienceFields.extend({ id: id.optional() })).optional(),
+});
+
+const editedElsewhere = z.undefined({
+  invalid_type_error: 'is edited through /candidates/:id/educations and /candidates/:id/work-experiences',
+});
+
+export const updateCandidateBody = candidateProfileFields.partial().extend({
+  educations: editedElsewhere,
+  workExperiences: editedElsewhere,
+});
+
+export const listCandidatesQuery = z.object({
+  name: filterString.optional(),
+  email: filterString.optional(),
+  phone: filterString.optional(),
+  positionId: idString.optional(),
+  interviewStep: filterString.optional(),
+  minScore: numberString.optional(),
+  maxScore: numberString.optional(),
+  institution: filterString.optional(),
+  company: filterString.optional(),
+  /** ID of the last candidate of the previous page */
+  cursor: idString.optional(),
+  limit: idString.optional(),
+  sortBy: z.enum(CANDIDATE_SORT_FIELDS).optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+});
+
+export const searchCandidatesQuery = z.object({
+  q: filterString,
+  limit: idString.optional(),
+  offset: numberString.pipe(z.number().int('must be an integer')).optional(),
+});
+
+const educationParams = z.object({ id: idString, educationId: idString });
+const workExperienceParams = z.object({ id: idString, workExperienceId: idString });
+
+export const addCandidateSchema = { body: newCandidateFields };
+export const listCandidatesSchema = { query: listCandidatesQuery };
+export const searchCandidatesSchema = { query: searchCandidatesQuery };
+export const candidateSchema = { params: idParams };
+export const replaceCandidateSchema = { params: idParams, body: replaceCandidateBody };
+export const updateCandidateSchema = { params: idParams, body: updateCandidateBody };
+export const addEducationSchema = { params: idParams, body: educationFields };
+export const updateEducationSchema = { params: educationParams, body: educationFields.partial() };
+export const educationSchema = { params: educationParams };
+export const addWorkExperienceSchema = { params: idParams, body: workExperienceFields };
+export const updateWorkExperienceSchema = { params: workExperienceParams, body: workExperienceFields.partial() };
+export const workExperienceSchema = { params: workExperienceParams };
+
+export const educationData: z.ZodType<EducationData> = z.object({
+  id: integer,
+  institution: z.string(),
+  title: z.string(),
+  startDate: z.date(),
+  endDate: z.date().nullable(),
+  candidateId: integer,
+});
+
+export const workExperienceData: z.ZodType<WorkExperienceData> = z.object({
+  id: integer,
+  company: z.string(),
+  position: z.string(),
+  description: z.string().nullable(),
+  startDate: z.date(),
+  endDate: z.date().nullable(),
+  candidateId: integer,
+});
+
+/**
+ * A candidate without their educations, work experiences, resumes and applications, as created by
+ * POST /candidates
+ */
+export const candidateRecord = z.object({
+  id: integer,
+  companyId: integer,
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string(),
+  phone: z.string().nullable(),
+  address: z.string().nullable(),
+});
+
+export const candidateProfileData: z.ZodType<CandidateProfileData> = candidateRecord.omit({ companyId: true }).extend({
+  educations: z.array(educationData),
+  workExperiences: z.array(workExperienceData),
+});
+
+/**
+ * A candidate with everything recorded about them, as returned by GET /candidates/:id
+ */
+export const candidateDetail = candidateRecord.extend({
+  education: z.array(educationData),
+  workExperience: z.array(workExperienceData),
+  resumes: z.array(
+    z.object({
+      id: integer,
+      candidateId: integer,
+      filePath: z.string(),
+      fileType: z.string(),
+      originalName: z.string().nullable(),
+      fileSize: integer.nullable(),
+      version: integer,
+      isCurrent: z.boolean(),
+      uploadDate: z.date(),
+      scanStatus: z.enum(RESUME_SCAN_STATUSES),
+      scanDetail: z.string().nullable(),
+      scannedAt: z.date().nullable(),
+      textContent: z.string().nullable(),
+    }),
+  ),
+  applications: z.array(
+    z.object({
+      id: integer,
+      positionId: integer,
+      candidateId: integer,
+      applicationDate: z.date(),
+      currentInterviewStep: integer,
+      notes: z.string().nullable(),
+      rejectionReason: z.string().nullable(),
+      position: z.object({ id: integer, title: z.string() }),
+      interviews: z.array(
+        z.object({
+          interviewDate: z.date(),
+          interviewStep: z.object({ name: z.string() }),
+          notes: z.string().nullable(),
+          score: integer.nullable(),
+        }),
+      ),
+    }),
+  ),
+});
+
+export const deleteCandidateResponse: z.ZodType<DeleteCandidateResponse> = z.object({
+  success: z.boolean(),
+  candidateId: integer,
+  deleted: z
+    .object({
+      applications: integer,
+      interviews: integer,
+      educations: integer,
+      workExperiences: integer,
+      resumes: integer,
+    })
+    .describe('Number of rows removed with the candidate'),
+});
+
+export const candidateListResponse: z.ZodType<CandidateListResponse> = z.object({
+  candidates: z.array(
+    z.object({
+      id: integer,
+      fullName: z.string(),
+      email: z.string(),
+      phone: z.string().nullable(),
+      currentInterviewStep: z
+        .string()
+        .nullable()
+        .describe('Step of the most recent application (of the filtered position, if any), null without applications'),
+      weightedScore: z
+        .number()
+        .nullable()
+        .describe("Weighted scorecard result of the candidate's completed interviews (0-100), null when none is scored"),
+      applicationCount: integer,
+    }),
+  ),
+  nextCursor: integer.nullable().describe('Cursor for the next page, null on the last page'),
+});
+
+export const candidateSearchResponse: z.ZodType<CandidateSearchResponse> = z.object({
+  query: z.string(),
+  total: integer,
+  results: z.array(
+    z.object({
+      candidateId: integer,
+      fullName: z.string(),
+      email: z.string(),
+      rank: z.number(),
+      snippet: z
+        .string()
+        .describe('Matching fragments with the matched words wrapped in <mark> tags; the rest of the text is HTML-escaped'),
+    }),
+  ),
+});
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+/**
+ * An ID sent in a JSON body
+ */
+export const id = z.number({ invalid_type_error: 'must be a positive integer' }).int('must be a positive integer').positive('must be a positive integer');
+
+/**
+ * An ID sent in the path or query string, parsed to a number
+ */
+export const idString = z
+  .string()
+  .regex(/^\d+$/, 'must be a positive integer')
+  .transform(Number)
+  .pipe(z.number().positive('must be a positive integer'));
+
+/**
+ * The :id route parameter
+ */
+export const idParams = z.object({ id: idString });
+
+/**
+ * A non-negative number sent in the query string, parsed to a number
+ */
+export const numberString = z
+  .string()
+  .trim()
+  .min(1, 'must be a non-negative number')
+  .transform(Number)
+  .pipe(z.number().finite('must be a non-negative number').nonnegative('must be a non-negative number'));
+
+/**
+ * A text filter sent in the query string, trimmed and not empty
+ */
+export const filterString = z.string().trim().min(1, 'must not be empty');
+
+/**
+ * A string with visible content; the value is passed on untrimmed
+ */
+export const text = z.string().refine((value) => value.trim() !== '', 'must not be empty');
+
+/**
+ * An ISO 8601 date or date-time string
+ */
+export const isoDate = z.string().refine((value) => value.trim() !== '' && !isNaN(new Date(value).getTime()), 'must be an ISO date string');
+
+/**
+ * Accepts null as "not given": the parsed value is undefined
+ */
+export const omittable = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+
+/**
+ * A whole number in a response, e.g. an ID or a count
+ */
+export const integer = z.number().int();
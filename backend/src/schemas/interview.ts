@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import type { InterviewData, InterviewListResponse } from '../types/interview';
+import { INTERVIEW_RESULTS, INTERVIEW_SCORE_MAX, INTERVIEW_SCORE_MIN, INTERVIEW_STATUSES } from '../types/interview';
+import { RECOMMENDATIONS } from '../types/scorecard';
+import { id, idParams, integer, isoDate } from './common';
+
+export const scheduleInterviewBody = z.object({
+  interviewStepId: id,
+  employeeId: id,
+  /** ISO date; must lie in the future */
+  interviewDate: isoDate,
+  notes: z.string().nullish(),
+});
+
+/**
+ * At least one of interviewDate and employeeId
+ */
+export const rescheduleInterviewBody = z.object({
+  interviewDate: isoDate.optional(),
+  employeeId: id.optional(),
+});
+
+export const cancelInterviewBody = z.object({
+  reason: z.string().nullish(),
+});
+
+export const submitInterviewResultBody = z.object({
+  result: z.enum(INTERVIEW_RESULTS),
+  score: z.number().int().min(INTERVIEW_SCORE_MIN).max(INTERVIEW_SCORE_MAX),
+  notes: z.string().nullish(),
+});
+
+export const scheduleInterviewSchema = { params: idParams, body: scheduleInterviewBody };
+export const applicationInterviewsSchema = { params: idParams };
+export const interviewSchema = { params: idParams };
+export const rescheduleInterviewSchema = { params: idParams, body: rescheduleInterviewBody };
+export const cancelInterviewSchema = { params: idParams, body: cancelInterviewBody };
+export const submitInterviewResultSchema = { params: idParams, body: submitInterviewResultBody };
+
+export const interviewFields = z.object({
+  id: integer,
+  applicationId: integer,
+  interviewStepId: integer,
+  employeeId: integer,
+  interviewDate: z.date(),
+  status: z.enum(INTERVIEW_STATUSES),
+  result: z.enum(INTERVIEW_RESULTS).nullable(),
+  score: integer.nullable(),
+  notes: z.string().nullable(),
+  cancellationReason: z.string().nullable(),
+  recommendation: z.enum(RECOMMENDATIONS).nullable(),
+  weightedScore: z.number().nullable(),
+  interviewStep: z.object({ id: integer, name: z.string() }),
+  employee: z.object({ id: integer, name: z.string(), email: z.string() }),
+});
+
+export const interviewData: z.ZodType<InterviewData> = interviewFields;
+
+export const interviewListResponse: z.ZodType<InterviewListResponse> = z.object({
+  interviews: z.array(interviewFields),
+});
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import type {
+  DeleteInterviewFlowResponse,
+  InterviewFlowData,
+  InterviewFlowListResponse,
+  InterviewStepData,
+  InterviewTypeData,
+  InterviewTypeListResponse,
+  RemoveInterviewStepResponse
+} from '../types/interviewFlow';
+import { id, idParams, idString, integer, text } from './common';
+
+/**
+ * Transition rules of a flow; rules left out keep their current or default value
+ */
+export const interviewFlowRules = z.object({
+  /** How many steps an application may advance in one move */
+  maxStepsForward: id.optional(),
+  /** Whether advancing past a step requires a scored interview on it */
+  requireScoredInterview: z.boolean().optional(),
+  /** Step that requires a rejection reason to move to, null for none */
+  rejectionStepName: text.nullable().optional(),
+});
+
+export const createInterviewStepBody = z.object({
+  name: text,
+  interviewTypeId: id,
+  /** 1-based position; later steps shift down. Appended when left out */
+  orderIndex: id.optional(),
+});
+
+export const updateInterviewStepBody = createInterviewStepBody.omit({ orderIndex: true }).partial();
+
+export const createInterviewFlowBody = interviewFlowRules.extend({
+  description: z.string().nullish(),
+  steps: z.array(createInterviewStepBody.omit({ orderIndex: true })).optional(),
+});
+
+export const updateInterviewFlowBody = interviewFlowRules.extend({
+  description: z.string().nullish(),
+});
+
+export const cloneInterviewFlowBody = z.object({
+  description: z.string().nullish(),
+});
+
+export const reorderInterviewStepsBody = z.object({
+  stepIds: z.array(id).min(1, 'must not be empty'),
+});
+
+export const createInterviewTypeBody = z.object({
+  name: text,
+  description: z.string().nullish(),
+});
+
+const stepParams = z.object({ id: idString, stepId: idString });
+
+export const createInterviewFlowSchema = { body: createInterviewFlowBody };
+export const interviewFlowSchema = { params: idParams };
+export const updateInterviewFlowSchema = { params: idParams, body: updateInterviewFlowBody };
+export const cloneInterviewFlowSchema = { params: idParams, body: cloneInterviewFlowBody };
+export const addInterviewStepSchema = { params: idParams, body: createInterviewStepBody };
+export const reorderInterviewStepsSchema = { params: idParams, body: reorderInterviewStepsBody };
+export const updateInterviewStepSchema = { params: stepParams, body: updateInterviewStepBody };
+export const removeInterviewStepSchema = {
+  params: stepParams,
+  /** Step to move the applications on the removed step to */
+  query: z.object({ migrateToStepId: idString.optional() }),
+};
+export const createInterviewTypeSchema = { body: createInterviewTypeBody };
+
+export const interviewStepData: z.ZodType<InterviewStepData> = z.object({
+  id: integer,
+  interviewFlowId: integer,
+  interviewTypeId: integer,
+  name: z.string(),
+  orderIndex: integer,
+  interviewType: z.object({ id: integer, name: z.string() }),
+});
+
+export const interviewFlowData: z.ZodType<InterviewFlowData> = z.object({
+  id: integer,
+  companyId: integer.nullable().describe('The company that may change the flow; null for a shared template, which can only be cloned'),
+  description: z.string().nullable(),
+  maxStepsForward: integer.describe('Steps an application may advance in one move without an override reason'),
+  requireScoredInterview: z.boolean().describe('Whether a scored interview at the current step is required before advancing'),
+  rejectionStepName: z
+    .string()
+    .nullable()
+    .describe('Name of the terminal rejection step, which requires a rejection reason; null disables the rule'),
+  interviewSteps: z.array(interviewStepData),
+});
+
+export const interviewFlowListResponse: z.ZodType<InterviewFlowListResponse> = z.object({
+  interviewFlows: z.array(interviewFlowData),
+});
+
+export const removeInterviewStepResponse: z.ZodType<RemoveInterviewStepResponse> = z.object({
+  success: z.boolean(),
+  stepId: integer,
+  migratedApplications: integer,
+});
+
+export const deleteInterviewFlowResponse: z.ZodType<DeleteInterviewFlowResponse> = z.object({
+  success: z.boolean(),
+  interviewFlowId: integer,
+});
+
+export const interviewTypeData: z.ZodType<InterviewTypeData> = z.object({
+  id: integer,
+  companyId: integer.nullable().describe('The company that may change the type and its scorecard; null for a shared template'),
+  name: z.string(),
+  description: z.string().nullable(),
+});
+
+export const interviewTypeListResponse: z.ZodType<InterviewTypeListResponse> = z.object({
+  interviewTypes: z.array(interviewTypeData),
+});
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import type {
+  PositionBoardResponse,
+  PositionCandidatesResponse,
+  UpdateApplicationStageResponse,
+  UpdateCandidateStageResponse
+} from '../types/kanban';
+import { id, idParams, idString, integer, omittable, text } from './common';
+
+/**
+ * Reasons accompanying a stage move; null is treated as not given. The move is recorded as made
+ * by the signed-in employee.
+ */
+export const stageMoveOptions = z.object({
+  /** Allows advancing more steps than the flow's maxStepsForward */
+  overrideReason: omittable(z.string()),
+  /** Required when moving to the flow's rejection step */
+  rejectionReason: omittable(z.string()),
+  /** Free-text note recorded in the stage history */
+  reason: omittable(z.string()),
+});
+
+export const updateCandidateStageBody = stageMoveOptions.extend({ stage: text });
+
+/**
+ * Target stage for a per-application move: either a step name or a step id
+ */
+export const updateApplicationStageBody = stageMoveOptions
+  .extend({ stage: omittable(text), stepId: omittable(id) })
+  .superRefine((body, ctx) => {
+    if (body.stage === undefined && body.stepId === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['stage'], message: 'Provide either stage or stepId' });
+    } else if (body.stage !== undefined && body.stepId !== undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['stepId'], message: 'Provide either stage or stepId, not both' });
+    }
+  });
+
+export const positionBoardSchema = { params: idParams };
+export const updateCandidateStageSchema = { params: idParams, body: updateCandidateStageBody };
+export const updateApplicationStageSchema = { params: idParams, body: updateApplicationStageBody };
+export const updatePositionCandidateStageSchema = {
+  params: z.object({ positionId: idString, candidateId: idString }),
+  body: updateApplicationStageBody,
+};
+
+const candidateKanbanData = z.object({
+  id: integer,
+  fullName: z.string(),
+  currentInterviewStep: z.string(),
+  weightedScore: z.number().nullable().describe('Weighted scorecard result of completed interviews (0-100), null when none is scored'),
+});
+
+const kanbanCardData = candidateKanbanData.extend({
+  applicationId: integer,
+  positionId: integer,
+  interviewStepId: integer,
+});
+
+export const positionCandidatesResponse: z.ZodType<PositionCandidatesResponse> = z.object({
+  candidates: z.array(candidateKanbanData),
+});
+
+export const updateCandidateStageResponse: z.ZodType<UpdateCandidateStageResponse> = z.object({
+  success: z.boolean(),
+  candidateId: integer,
+  newStage: z.string(),
+});
+
+export const updateApplicationStageResponse: z.ZodType<UpdateApplicationStageResponse> = z.object({
+  success: z.boolean(),
+  card: kanbanCardData,
+});
+
+export const positionBoardResponse: z.ZodType<PositionBoardResponse> = z.object({
+  positionId: integer,
+  interviewFlowId: integer,
+  columns: z.array(
+    z
+      .object({
+        id: integer,
+        name: z.string(),
+        orderIndex: integer,
+        interviewType: z.object({ id: integer, name: z.string() }),
+        count: integer,
+        applicationIds: z.array(integer),
+        cards: z.array(kanbanCardData),
+      })
+      .describe("An interview step of the position's flow with the cards currently on it"),
+  ),
+  totalCount: integer,
+  unassigned: z.array(kanbanCardData).describe("Applications whose current step is not part of the position's flow"),
+});
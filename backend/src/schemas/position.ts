@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import type {
+  DeletePositionResponse,
+  PositionData,
+  PositionListResponse,
+  PositionStatusHistoryResponse,
+  PositionTransitionResponse
+} from '../types/position';
+import { POSITION_STATUSES } from '../types/position';
+import { filterString, id, idParams, idString, integer, isoDate, numberString, text } from './common';
+
+const salary = z.number().finite().nonnegative('must be a non-negative number').nullish();
+const optionalText = z.string().nullish();
+
+export const createPositionBody = z.object({
+  companyId: id,
+  interviewFlowId: id,
+  title: text,
+  description: text,
+  location: text,
+  jobDescription: text,
+  status: z.enum(POSITION_STATUSES).optional(),
+  isVisible: z.boolean().optional(),
+  requirements: optionalText,
+  responsibilities: optionalText,
+  salaryMin: salary,
+  salaryMax: salary,
+  employmentType: optionalText,
+  benefits: optionalText,
+  companyDescription: optionalText,
+  /** ISO date; must lie in the future */
+  applicationDeadline: isoDate.nullish(),
+  contactInfo: optionalText,
+});
+
+export const updatePositionBody = createPositionBody.partial();
+
+export const listPositionsQuery = z.object({
+  companyId: idString.optional(),
+  status: filterString.optional(),
+  isVisible: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  location: filterString.optional(),
+  employmentType: filterString.optional(),
+  salaryMin: numberString.optional(),
+  salaryMax: numberString.optional(),
+});
+
+export const positionTransitionBody = z.object({
+  status: z.enum(POSITION_STATUSES),
+  reason: z.string().nullish(),
+});
+
+export const createPositionSchema = { body: createPositionBody };
+export const listPositionsSchema = { query: listPositionsQuery };
+export const positionSchema = { params: idParams };
+export const updatePositionSchema = { params: idParams, body: updatePositionBody };
+export const transitionPositionSchema = { params: idParams, body: positionTransitionBody };
+
+export const positionData: z.ZodType<PositionData> = z.object({
+  id: integer,
+  companyId: integer,
+  interviewFlowId: integer,
+  title: z.string(),
+  description: z.string(),
+  status: z.enum(POSITION_STATUSES),
+  isVisible: z.boolean(),
+  location: z.string(),
+  jobDescription: z.string(),
+  requirements: z.string().nullable(),
+  responsibilities: z.string().nullable(),
+  salaryMin: z.number().nullable(),
+  salaryMax: z.number().nullable(),
+  employmentType: z.string().nullable(),
+  benefits: z.string().nullable(),
+  companyDescription: z.string().nullable(),
+  applicationDeadline: z.date().nullable(),
+  contactInfo: z.string().nullable(),
+});
+
+const positionStatusHistoryEntry = z.object({
+  id: integer,
+  positionId: integer,
+  fromStatus: z.enum(POSITION_STATUSES),
+  toStatus: z.enum(POSITION_STATUSES),
+  changedById: integer.nullable(),
+  reason: z.string().nullable(),
+  changedAt: z.date(),
+});
+
+export const positionListResponse: z.ZodType<PositionListResponse> = z.object({
+  positions: z.array(positionData),
+});
+
+export const deletePositionResponse: z.ZodType<DeletePositionResponse> = z.object({
+  success: z.boolean(),
+  positionId: integer,
+});
+
+export const positionTransitionResponse: z.ZodType<PositionTransitionResponse> = z.object({
+  position: positionData,
+  transition: positionStatusHistoryEntry,
+});
+
+export const positionStatusHistoryResponse: z.ZodType<PositionStatusHistoryResponse> = z.object({
+  history: z.array(positionStatusHistoryEntry),
+});
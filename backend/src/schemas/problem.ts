@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import type { ProblemDetails } from '../types/problem';
+import type { ValidationIssue } from '../types/validation';
+import { integer } from './common';
+
+const problemFields = z
+  .object({
+    type: z.string().describe('Identifies the problem type, e.g. urn:lti:problem:position-not-found'),
+    title: z.string().describe('Summary of the problem type, e.g. Position not found'),
+    status: integer,
+    detail: z.string().describe('What went wrong in this occurrence'),
+    instance: z.string().describe('Path of the request'),
+    code: z.string().describe('Stable, machine-readable code, e.g. POSITION_NOT_FOUND'),
+    correlationId: z.string().describe('ID of the request in the server logs, also sent in the X-Correlation-Id header'),
+  })
+  .passthrough();
+
+export const problemDetails: z.ZodType<ProblemDetails> = problemFields;
+
+const validationIssue: z.ZodType<ValidationIssue> = z.object({
+  path: z.string().describe('Where the field is, e.g. body.educations.0.startDate'),
+  code: z.string().describe('Machine-readable reason, e.g. invalid_type or too_small'),
+  message: z.string(),
+});
+
+/**
+ * The problem of a request whose params, query or body failed their schema
+ */
+export const validationProblem: z.ZodType<ProblemDetails> = problemFields.extend({
+  code: z.literal('VALIDATION_FAILED'),
+  details: z.array(validationIssue),
+});
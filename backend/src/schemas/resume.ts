@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import type { CandidateSuggestion, ResumeData, SuggestionConfidence } from '../types/resume';
+import { RESUME_SCAN_STATUSES } from '../types/resume';
+import { idParams, integer } from './common';
+
+export const resumesSchema = { params: idParams };
+
+/**
+ * The expiry and signature of a download link from GET /candidates/:id/resumes
+ */
+export const downloadResumeSchema = {
+  params: idParams,
+  query: z.object({ expires: z.string().optional(), signature: z.string().optional() }),
+};
+
+export const resumeData: z.ZodType<ResumeData> = z.object({
+  id: integer,
+  candidateId: integer,
+  version: integer,
+  isCurrent: z.boolean(),
+  originalName: z.string().nullable(),
+  fileType: z.string(),
+  fileSize: integer.nullable(),
+  uploadDate: z.date(),
+  scanStatus: z.enum(RESUME_SCAN_STATUSES),
+  scanDetail: z.string().nullable().describe('Why the file was quarantined'),
+  scannedAt: z.date().nullable(),
+  downloadUrl: z
+    .string()
+    .nullable()
+    .describe('Signed link to GET /resumes/:id/file, valid for a limited time; null for quarantined files'),
+});
+
+export const resumeListResponse = z.array(resumeData);
+
+const suggestedDate = z.string().describe('YYYY-MM-DD; the first day of the month (or year) the resume gives');
+
+const candidateSuggestion: z.ZodType<CandidateSuggestion> = z
+  .object({
+    firstName: z.string().optional(),
+    lastName: z.string().optional(),
+    email: z.string().optional(),
+    phone: z.string().optional(),
+    educations: z.array(
+      z.object({ institution: z.string(), title: z.string(), startDate: suggestedDate, endDate: suggestedDate.optional() }),
+    ),
+    workExperiences: z.array(
+      z.object({
+        company: z.string(),
+        position: z.string(),
+        description: z.string().optional(),
+        startDate: suggestedDate,
+        endDate: suggestedDate.optional(),
+      }),
+    ),
+  })
+  .describe('Candidate fields found in the resume, in the shape accepted by POST /candidates; fields not found are omitted; null when the text could not be read');
+
+const suggestionConfidence: z.ZodType<SuggestionConfidence> = z
+  .object({
+    firstName: z.number(),
+    lastName: z.number(),
+    email: z.number(),
+    phone: z.number(),
+    educations: z.array(z.number()),
+    workExperiences: z.array(z.number()),
+  })
+  .describe('Confidence from 0 to 1 of each suggested field, 0 when it was not found; one value per list entry');
+
+/**
+ * A file stored by POST /upload, to send as cv with POST /candidates, and what its text suggests
+ */
+export const uploadedFileResponse = z.object({
+  filePath: z.string().describe('Storage key of the file'),
+  fileType: z.string(),
+  originalName: z.string().describe('Sanitized name the file was uploaded with'),
+  fileSize: integer,
+  suggestion: candidateSuggestion.nullable(),
+  confidence: suggestionConfidence.nullable(),
+});
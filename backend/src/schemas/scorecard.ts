@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import type { ApplicationScorecardResponse, InterviewScorecardData, ScorecardTemplateData } from '../types/scorecard';
+import { RECOMMENDATIONS } from '../types/scorecard';
+import { id, idParams, integer, text } from './common';
+import { interviewFields } from './interview';
+
+export const updateScorecardTemplateBody = z.object({
+  ratingScaleMin: z.number().int().nonnegative().optional(),
+  ratingScaleMax: z.number().int().optional(),
+  competencies: z
+    .array(
+      z.object({
+        name: text,
+        description: z.string().nullish(),
+        weight: z.number().finite().positive(),
+      }),
+    )
+    .min(1, 'must not be empty'),
+});
+
+export const submitScorecardBody = z.object({
+  ratings: z
+    .array(
+      z.object({
+        competencyId: id,
+        rating: z.number().int(),
+        comment: z.string().nullish(),
+      }),
+    )
+    .min(1, 'must not be empty'),
+  recommendation: z.enum(RECOMMENDATIONS),
+  notes: z.string().nullish(),
+});
+
+export const scorecardTemplateSchema = { params: idParams };
+export const updateScorecardTemplateSchema = { params: idParams, body: updateScorecardTemplateBody };
+export const submitScorecardSchema = { params: idParams, body: submitScorecardBody };
+export const applicationScorecardSchema = { params: idParams };
+
+export const scorecardTemplateData: z.ZodType<ScorecardTemplateData> = z.object({
+  interviewType: z.object({ id: integer, name: z.string(), ratingScaleMin: integer, ratingScaleMax: integer }),
+  competencies: z.array(
+    z.object({
+      id: integer,
+      interviewTypeId: integer,
+      name: z.string(),
+      description: z.string().nullable(),
+      weight: z.number(),
+      orderIndex: integer,
+    }),
+  ),
+});
+
+export const interviewScorecardData: z.ZodType<InterviewScorecardData> = interviewFields.extend({
+  ratings: z.array(
+    z.object({
+      id: integer,
+      interviewId: integer,
+      competencyId: integer.nullable(),
+      competencyName: z.string(),
+      weight: z.number(),
+      scaleMin: integer,
+      scaleMax: integer,
+      rating: integer,
+      comment: z.string().nullable(),
+    }),
+  ),
+});
+
+export const applicationScorecardResponse: z.ZodType<ApplicationScorecardResponse> = z.object({
+  applicationId: integer,
+  weightedScore: z
+    .number()
+    .nullable()
+    .describe("Mean of the completed interviews' weighted scores on a 0-100 scale, null when nothing is scored"),
+  competencies: z.array(
+    z
+      .object({
+        competencyId: integer.nullable(),
+        competencyName: z.string(),
+        weight: z.number(),
+        ratingsCount: integer,
+        averageScore: z.number(),
+      })
+      .describe("Aggregated ratings of one competency across the application's interviews, on a 0-100 scale"),
+  ),
+  interviews: z.array(
+    z.object({
+      interviewId: integer,
+      interviewStepId: integer,
+      interviewStepName: z.string(),
+      employeeId: integer,
+      recommendation: z.enum(RECOMMENDATIONS).nullable(),
+      weightedScore: z.number().nullable(),
+    }),
+  ),
+  recommendations: z.record(integer).describe('Number of interviews with each recommendation'),
+});
@@ -0,0 +1,54 @@
+/**
+ * TypeScript interfaces for Application endpoints
+ */
+
+import type { z } from 'zod';
+import type { createApplicationBody } from '../schemas/application';
+
+export type CreateApplicationRequest = z.infer<typeof createApplicationBody>;
+
+export interface ApplicationData {
+  id: number;
+  positionId: number;
+  candidateId: number;
+  applicationDate: Date;
+  currentInterviewStep: number;
+  notes: string | null;
+  candidate: {
+    id: number;
+    firstName: string;
+    lastName: string;
+    email: string;
+  };
+  interviewStep: {
+    id: number;
+    name: string;
+    orderIndex: number;
+  };
+}
+
+export interface ApplicationStageHistoryEntry {
+  id: number;
+  applicationId: number;
+  fromStepId: number | null;
+  fromStepName: string | null;
+  toStepId: number | null;
+  toStepName: string;
+  changedById: number | null;
+  reason: string | null;
+  changedAt: Date;
+  /** When the application left toStep, or null if it is still there */
+  leftAt: Date | null;
+  /** Time spent in toStep, up to now for the current stage */
+  durationSeconds: number;
+}
+
+export interface ApplicationStageHistoryResponse {
+  applicationId: number;
+  currentStep: {
+    id: number;
+    name: string;
+    enteredAt: Date | null;
+  };
+  history: ApplicationStageHistoryEntry[];
+}
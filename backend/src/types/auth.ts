@@ -0,0 +1,90 @@
+/**
+ * TypeScript interfaces for employee authentication
+ */
+
+export const EMPLOYEE_ROLES = ['Admin', 'Recruiter', 'Hiring Manager', 'Interviewer'] as const;
+
+export type EmployeeRole = (typeof EMPLOYEE_ROLES)[number];
+
+export const PERMISSIONS = [
+  'candidates:read',
+  'candidates:write',
+  'candidates:delete',
+  'positions:read',
+  'positions:write',
+  'positions:delete',
+  'applications:read',
+  'applications:create',
+  'applications:move',
+  'interviews:read',
+  'interviews:schedule',
+  'interviews:evaluate',
+  'flows:read',
+  'flows:write',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Resources whose rows some roles may only reach in part: hiring managers those of their company,
+ * interviewers the applications and interviews they are assigned to
+ */
+export const SCOPED_RESOURCES = ['company', 'position', 'application', 'interview'] as const;
+
+export type ScopedResource = (typeof SCOPED_RESOURCES)[number];
+
+/**
+ * Where authorize() finds the ID of the resource to check: a route parameter, or a body field
+ * that is only checked when present
+ */
+export interface AccessScope {
+  resource: ScopedResource;
+  param?: string;
+  body?: string;
+}
+
+/**
+ * The signed-in employee, attached to each authenticated request as req.employee
+ */
+export interface AuthenticatedEmployee {
+  id: number;
+  companyId: number;
+  name: string;
+  email: string;
+  role: string;
+}
+
+/**
+ * Tokens issued on login and refresh. The access token is a short-lived JWT; the refresh token is
+ * an opaque value stored hashed on the session and rotated on every refresh.
+ */
+export interface SessionTokens {
+  accessToken: string;
+  accessTokenExpiresAt: Date;
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+}
+
+export interface AuthSession {
+  employee: AuthenticatedEmployee;
+  tokens: SessionTokens;
+}
+
+/**
+ * Delivers a password reset token to the employee, e.g. by email
+ */
+export type PasswordResetNotifier = (employee: AuthenticatedEmployee, token: string, expiresAt: Date) => Promise<void>;
+
+export const PASSWORD_RESET_NOTIFIERS = ['none', 'webhook'] as const;
+export type PasswordResetNotifierDriver = (typeof PASSWORD_RESET_NOTIFIERS)[number];
+
+export interface WebhookNotifierConfig {
+  driver: 'webhook';
+  /** Receives a POST with the employee's email and name, the token and its expiry */
+  url: string;
+  /** Sent as a bearer token so the receiver can tell the requests are genuine */
+  authToken?: string;
+  timeoutMs: number;
+}
+
+export type PasswordResetNotifierConfig = { driver: 'none' } | WebhookNotifierConfig;
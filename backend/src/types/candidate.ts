@@ -0,0 +1,121 @@
+/**
+ * TypeScript interfaces for Candidate edit endpoints
+ */
+
+import type { z } from 'zod';
+import type {
+  educationFields,
+  listCandidatesQuery,
+  replaceCandidateBody,
+  searchCandidatesQuery,
+  updateCandidateBody,
+  workExperienceFields
+} from '../schemas/candidate';
+
+export interface EducationData {
+  id: number;
+  institution: string;
+  title: string;
+  startDate: Date;
+  endDate: Date | null;
+  candidateId: number;
+}
+
+export interface WorkExperienceData {
+  id: number;
+  company: string;
+  position: string;
+  description: string | null;
+  startDate: Date;
+  endDate: Date | null;
+  candidateId: number;
+}
+
+export interface CandidateProfileData {
+  id: number;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string | null;
+  address: string | null;
+  educations: EducationData[];
+  workExperiences: WorkExperienceData[];
+}
+
+/**
+ * Dates are YYYY-MM-DD strings; a null endDate clears it
+ */
+export type EducationRequest = Partial<z.infer<typeof educationFields>>;
+
+export type WorkExperienceRequest = Partial<z.infer<typeof workExperienceFields>>;
+
+/**
+ * Body of PATCH /candidates/:id. Educations and work experiences are edited through their own endpoints.
+ */
+export type UpdateCandidateRequest = z.infer<typeof updateCandidateBody>;
+
+/**
+ * Body of PUT /candidates/:id. List entries with an id update that record, entries without one are
+ * created and existing records left out are removed. Omitting a list leaves it untouched.
+ */
+export type ReplaceCandidateRequest = z.infer<typeof replaceCandidateBody>;
+
+export interface DeleteCandidateResponse {
+  success: boolean;
+  candidateId: number;
+  deleted: {
+    applications: number;
+    interviews: number;
+    educations: number;
+    workExperiences: number;
+    resumes: number;
+  };
+}
+
+export const CANDIDATE_SORT_FIELDS = ['id', 'firstName', 'lastName', 'email'] as const;
+
+export type CandidateSortField = (typeof CANDIDATE_SORT_FIELDS)[number];
+
+/**
+ * Query of GET /candidates. Text filters are case-insensitive substring matches; positionId and
+ * interviewStep apply to the same application when both are given.
+ */
+export type CandidateListFilters = z.infer<typeof listCandidatesQuery>;
+
+export interface CandidateSummaryData {
+  id: number;
+  fullName: string;
+  email: string;
+  phone: string | null;
+  /** Step of the most recent application (of the filtered position, if any), null without applications */
+  currentInterviewStep: string | null;
+  /** Weighted scorecard result of the candidate's completed interviews (0-100), null when none is scored */
+  weightedScore: number | null;
+  applicationCount: number;
+}
+
+export interface CandidateListResponse {
+  candidates: CandidateSummaryData[];
+  /** Cursor for the next page, null on the last page */
+  nextCursor: number | null;
+}
+
+/**
+ * Query of GET /candidates/search. q uses web search syntax: quoted phrases, OR and -excluded words.
+ */
+export type CandidateSearchFilters = z.infer<typeof searchCandidatesQuery>;
+
+export interface CandidateSearchResult {
+  candidateId: number;
+  fullName: string;
+  email: string;
+  rank: number;
+  /** Matching fragments with the matched words wrapped in <mark> tags; the rest of the text is HTML-escaped */
+  snippet: string;
+}
+
+export interface CandidateSearchResponse {
+  query: string;
+  total: number;
+  results: CandidateSearchResult[];
+}
@@ -1,14 +1,33 @@
 /**
- * @fileoverview Custom Error Classes for Kanban Service
+ * @fileoverview Application Error Classes
  * @author GG
- * @version 1.0.0
+ * @version 2.0.0
  */
+import type { ResumeData } from './resume';
+import type { SecurityViolation } from './security';
+import type { ValidationIssue } from './validation';
 
 /**
- * Base class for all Kanban-related errors
+ * What went wrong, independently of the error: decides the HTTP status of the problem response
  */
-export abstract class KanbanError extends Error {
+export type ErrorCategory =
+  | 'validation'
+  | 'authentication'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'dependency_failure'
+  | 'internal';
+
+/**
+ * Base class for all application errors. The error handling middleware answers them with an
+ * application/problem+json response built from their code, status and message.
+ */
+export abstract class AppError extends Error {
+  /** Stable, machine-readable code, e.g. POSITION_NOT_FOUND */
   abstract readonly code: string;
+  abstract readonly category: ErrorCategory;
+  abstract readonly status: number;
 
   constructor(message: string) {
     super(message);
@@ -19,12 +38,141 @@ export abstract class KanbanError extends Error {
       Error.captureStackTrace(this, this.constructor);
     }
   }
+
+  /**
+   * Members added to the problem response besides the standard ones
+   */
+  toProblemExtensions(): Record<string, unknown> {
+    return {};
+  }
+}
+
+/**
+ * The request is malformed or breaks a business rule about its own content (400)
+ */
+export abstract class ValidationError extends AppError {
+  readonly category = 'validation';
+  readonly status: number = 400;
+}
+
+/**
+ * The request has no valid credentials (401)
+ */
+export abstract class AuthenticationError extends AppError {
+  readonly category = 'authentication';
+  readonly status: number = 401;
+}
+
+/**
+ * The signed-in employee or link may not do this (403)
+ */
+export abstract class ForbiddenError extends AppError {
+  readonly category = 'forbidden';
+  readonly status: number = 403;
+}
+
+/**
+ * A resource the request names does not exist (404)
+ */
+export abstract class NotFoundError extends AppError {
+  readonly category = 'not_found';
+  readonly status: number = 404;
+}
+
+/**
+ * The request is valid but clashes with the current state of a resource (409)
+ */
+export abstract class ConflictError extends AppError {
+  readonly category = 'conflict';
+  readonly status: number = 409;
+}
+
+/**
+ * The server is misconfigured or broke one of its own invariants (500)
+ */
+export abstract class InternalError extends AppError {
+  readonly category = 'internal';
+  readonly status: number = 500;
+}
+
+/**
+ * Thrown when the database, file storage or another service the request needs is unavailable (503)
+ */
+export class DependencyFailureError extends AppError {
+  readonly code = 'DEPENDENCY_FAILURE';
+  readonly category = 'dependency_failure';
+  readonly status = 503;
+
+  constructor(dependency: string, reason: string) {
+    super(`${dependency} ${reason}`);
+  }
+}
+
+/**
+ * Thrown when the params, query or body of a request do not match the schema of its route
+ */
+export class RequestValidationError extends ValidationError {
+  readonly code = 'VALIDATION_FAILED';
+  readonly details: ValidationIssue[];
+
+  constructor(details: ValidationIssue[]) {
+    super('Request validation failed');
+    this.details = details;
+  }
+
+  toProblemExtensions(): Record<string, unknown> {
+    return { details: this.details };
+  }
+}
+
+/**
+ * Thrown when a request body is not valid JSON
+ */
+export class MalformedJsonError extends ValidationError {
+  readonly code = 'MALFORMED_JSON';
+
+  constructor() {
+    super('Request body is not valid JSON');
+  }
+}
+
+/**
+ * Thrown when a security guard blocks a request; the code and status are the guard's
+ */
+export class RequestBlockedError extends ValidationError {
+  readonly code: string;
+  readonly status: number;
+  private readonly violation: SecurityViolation;
+
+  constructor(violation: SecurityViolation) {
+    const { error, message } = violation.body;
+    super(typeof message === 'string' ? message : error);
+    this.code = violation.body.code;
+    this.status = violation.status;
+    this.violation = violation;
+  }
+
+  toProblemExtensions(): Record<string, unknown> {
+    const { error, code, message, ...extensions } = this.violation.body;
+    return extensions;
+  }
+}
+
+/**
+ * Thrown when no route matches the method and path of a request
+ */
+export class RouteNotFoundError extends NotFoundError {
+  readonly code = 'ROUTE_NOT_FOUND';
+
+  constructor(method: string, path: string) {
+    super(`No route for ${method} ${path}`);
+  }
 }
 
 /**
  * Thrown when an invalid position ID is provided
  */
-export class InvalidPositionIdError extends KanbanError {
+export class InvalidPositionIdError extends ValidationError {
   readonly code = 'INVALID_POSITION_ID';
 
   constructor(positionId?: number | string) {
@@ -35,7 +183,7 @@ export class InvalidPositionIdError extends KanbanError {
 /**
  * Thrown when a position is not found
  */
-export class PositionNotFoundError extends KanbanError {
+export class PositionNotFoundError extends NotFoundError {
   readonly code = 'POSITION_NOT_FOUND';
 
   constructor(positionId: number) {
@@ -46,7 +194,7 @@ export class PositionNotFoundError extends KanbanError {
 /**
  * Thrown when an invalid candidate ID is provided
  */
-export class InvalidCandidateIdError extends KanbanError {
+export class InvalidCandidateIdError extends ValidationError {
   readonly code = 'INVALID_CANDIDATE_ID';
 
   constructor(candidateId?: number | string) {
@@ -57,7 +205,7 @@ export class InvalidCandidateIdError extends KanbanError {
 /**
  * Thrown when a candidate application is not found
  */
-export class CandidateNotFoundError extends KanbanError {
+export class CandidateNotFoundError extends NotFoundError {
   readonly code = 'CANDIDATE_NOT_FOUND';
 
   constructor(candidateId: number) {
@@ -68,7 +216,7 @@ export class CandidateNotFoundError extends KanbanError {
 /**
  * Thrown when an invalid stage name is provided
  */
-export class InvalidStageNameError extends KanbanError {
+export class InvalidStageNameError extends ValidationError {
   readonly code = 'INVALID_STAGE_NAME';
 
   constructor(stageName?: string) {
@@ -76,10 +224,43 @@ export class InvalidStageNameError extends KanbanError {
   }
 }
 
+/**
+ * Thrown when an invalid application ID is provided
+ */
+export class InvalidApplicationIdError extends ValidationError {
+  readonly code = 'INVALID_APPLICATION_ID';
+
+  constructor(applicationId?: number | string) {
+    super(applicationId ? `Invalid application ID: ${applicationId}` : 'Invalid application ID');
+  }
+}
+
+/**
+ * Thrown when an application is not found
+ */
+export class ApplicationNotFoundError extends NotFoundError {
+  readonly code = 'APPLICATION_NOT_FOUND';
+
+  constructor(applicationId: number) {
+    super(`Application not found: ${applicationId}`);
+  }
+}
+
+/**
+ * Thrown when the requested stage does not belong to the application's interview flow
+ */
+export class StepNotInFlowError extends ValidationError {
+  readonly code = 'STEP_NOT_IN_FLOW';
+
+  constructor(stage: string | number, interviewFlowId: number) {
+    super(`Interview step ${stage} does not belong to interview flow ${interviewFlowId}`);
+  }
+}
+
 /**
  * Thrown when a required field is missing
  */
-export class MissingFieldError extends KanbanError {
+export class MissingFieldError extends ValidationError {
   readonly code = 'MISSING_FIELD';
 
   constructor(fieldName: string) {
@@ -88,8 +269,689 @@ export class MissingFieldError extends KanbanError {
 }
 
 /**
- * Type guard to check if an error is a KanbanError
+ * Thrown when position data fails validation
+ */
+export class InvalidPositionDataError extends ValidationError {
+  readonly code = 'INVALID_POSITION_DATA';
+  readonly field: string;
+
+  constructor(field: string, reason: string) {
+    super(`Invalid position data: ${field} ${reason}`);
+    this.field = field;
+  }
+
+  toProblemExtensions(): Record<string, unknown> {
+    return { field: this.field };
+  }
+}
+
+/**
+ * Thrown when a position listing filter is malformed
+ */
+export class InvalidPositionFilterError extends ValidationError {
+  readonly code = 'INVALID_POSITION_FILTER';
+
+  constructor(filterName: string) {
+    super(`Invalid position filter: ${filterName}`);
+  }
+}
+
+/**
+ * Thrown when a company is not found
+ */
+export class CompanyNotFoundError extends NotFoundError {
+  readonly code = 'COMPANY_NOT_FOUND';
+
+  constructor(companyId: number) {
+    super(`Company not found: ${companyId}`);
+  }
+}
+
+/**
+ * Thrown when an interview flow is not found
+ */
+export class InterviewFlowNotFoundError extends NotFoundError {
+  readonly code = 'INTERVIEW_FLOW_NOT_FOUND';
+
+  constructor(interviewFlowId: number) {
+    super(`Interview flow not found: ${interviewFlowId}`);
+  }
+}
+
+/**
+ * Thrown when deleting a position that still has applications
+ */
+export class PositionHasApplicationsError extends ConflictError {
+  readonly code = 'POSITION_HAS_APPLICATIONS';
+
+  constructor(positionId: number) {
+    super(`Position ${positionId} has applications and cannot be deleted`);
+  }
+}
+
+/**
+ * Thrown when a status outside the position lifecycle is requested
+ */
+export class InvalidPositionStatusError extends ValidationError {
+  readonly code = 'INVALID_POSITION_STATUS';
+
+  constructor(status?: string) {
+    super(status ? `Invalid position status: ${status}` : 'Invalid position status');
+  }
+}
+
+/**
+ * Thrown when a position status change is not allowed by the lifecycle
+ */
+export class InvalidStatusTransitionError extends ConflictError {
+  readonly code = 'INVALID_STATUS_TRANSITION';
+
+  constructor(fromStatus: string, toStatus: string) {
+    super(`Cannot transition position from ${fromStatus} to ${toStatus}`);
+  }
+}
+
+/**
+ * Thrown when a position's status changed while a transition from the previous status was being applied
+ */
+export class PositionStatusChangedError extends ConflictError {
+  readonly code = 'POSITION_STATUS_CHANGED';
+
+  constructor(positionId: number, fromStatus: string) {
+    super(`Position ${positionId} is no longer ${fromStatus}; it was changed by another request`);
+  }
+}
+
+/**
+ * Thrown when applying to a position that is not Open
+ */
+export class PositionNotOpenError extends ConflictError {
+  readonly code = 'POSITION_NOT_OPEN';
+
+  constructor(positionId: number, status: string) {
+    super(`Position ${positionId} is not accepting applications (status: ${status})`);
+  }
+}
+
+/**
+ * Thrown when an employee is not found
+ */
+export class EmployeeNotFoundError extends NotFoundError {
+  readonly code = 'EMPLOYEE_NOT_FOUND';
+
+  constructor(employeeId: number) {
+    super(`Employee not found: ${employeeId}`);
+  }
+}
+
+/**
+ * Thrown when a candidate record is not found
+ */
+export class CandidateProfileNotFoundError extends NotFoundError {
+  readonly code = 'CANDIDATE_PROFILE_NOT_FOUND';
+
+  constructor(candidateId: number) {
+    super(`Candidate not found: ${candidateId}`);
+  }
+}
+
+/**
+ * Thrown when candidate data fails validation
+ */
+export class InvalidCandidateDataError extends ValidationError {
+  readonly code = 'INVALID_CANDIDATE_DATA';
+
+  constructor(reason: string) {
+    super(`Invalid candidate data: ${reason}`);
+  }
+}
+
+/**
+ * Thrown when a candidate with the same email already exists
+ */
+export class CandidateEmailExistsError extends ConflictError {
+  readonly code = 'CANDIDATE_EMAIL_EXISTS';
+
+  constructor(email: string) {
+    super(`A candidate with email ${email} already exists`);
+  }
+}
+
+/**
+ * Thrown when an education or work experience does not belong to the candidate
+ */
+export class CandidateRecordNotFoundError extends NotFoundError {
+  readonly code = 'CANDIDATE_RECORD_NOT_FOUND';
+
+  constructor(record: 'education' | 'work experience', recordId: number, candidateId: number) {
+    super(`Candidate ${candidateId} has no ${record} with ID ${recordId}`);
+  }
+}
+
+/**
+ * Thrown when a candidate listing filter is malformed
+ */
+export class InvalidCandidateFilterError extends ValidationError {
+  readonly code = 'INVALID_CANDIDATE_FILTER';
+
+  constructor(filterName: string) {
+    super(`Invalid candidate filter: ${filterName}`);
+  }
+}
+
+/**
+ * Thrown when application data fails validation
+ */
+export class InvalidApplicationDataError extends ValidationError {
+  readonly code = 'INVALID_APPLICATION_DATA';
+
+  constructor(field: string, reason: string) {
+    super(`Invalid application data: ${field} ${reason}`);
+  }
+}
+
+/**
+ * Thrown when a candidate has already applied to a position
+ */
+export class DuplicateApplicationError extends ConflictError {
+  readonly code = 'DUPLICATE_APPLICATION';
+
+  constructor(candidateId: number, positionId: number) {
+    super(`Candidate ${candidateId} has already applied to position ${positionId}`);
+  }
+}
+
+/**
+ * Thrown when a position's interview flow has no steps to place applications on
+ */
+export class InterviewFlowHasNoStepsError extends ConflictError {
+  readonly code = 'INTERVIEW_FLOW_HAS_NO_STEPS';
+
+  constructor(interviewFlowId: number) {
+    super(`Interview flow ${interviewFlowId} has no steps`);
+  }
+}
+
+/**
+ * Thrown when interview flow or step data fails validation
+ */
+export class InvalidInterviewFlowDataError extends ValidationError {
+  readonly code = 'INVALID_INTERVIEW_FLOW_DATA';
+
+  constructor(field: string, reason: string) {
+    super(`Invalid interview flow data: ${field} ${reason}`);
+  }
+}
+
+/**
+ * Thrown when an interview step is not found in a flow
+ */
+export class InterviewStepNotFoundError extends NotFoundError {
+  readonly code = 'INTERVIEW_STEP_NOT_FOUND';
+
+  constructor(stepId: number, interviewFlowId?: number) {
+    super(
+      interviewFlowId
+        ? `Interview step ${stepId} not found in interview flow ${interviewFlowId}`
+        : `Interview step not found: ${stepId}`,
+    );
+  }
+}
+
+/**
+ * Thrown when an interview type is not found
+ */
+export class InterviewTypeNotFoundError extends NotFoundError {
+  readonly code = 'INTERVIEW_TYPE_NOT_FOUND';
+
+  constructor(interviewTypeId: number) {
+    super(`Interview type not found: ${interviewTypeId}`);
+  }
+}
+
+/**
+ * Thrown when a step name is already used within the same flow
+ */
+export class DuplicateStepNameError extends ConflictError {
+  readonly code = 'DUPLICATE_STEP_NAME';
+
+  constructor(name: string, interviewFlowId: number) {
+    super(`Interview flow ${interviewFlowId} already has a step named ${name}`);
+  }
+}
+
+/**
+ * Thrown when removing a step that still has applications without a migration target
+ */
+export class StepHasApplicationsError extends ConflictError {
+  readonly code = 'STEP_HAS_APPLICATIONS';
+
+  constructor(stepId: number, applicationCount: number) {
+    super(`Interview step ${stepId} has ${applicationCount} application(s); a migration target step is required`);
+  }
+}
+
+/**
+ * Thrown when changing an interview flow or type that is a template shared by every company
+ */
+export class SharedTemplateError extends ForbiddenError {
+  readonly code = 'SHARED_TEMPLATE';
+
+  constructor(resource: string, id: number) {
+    super(`${resource} ${id} is shared by every company and cannot be changed`);
+  }
+}
+
+/**
+ * Thrown when an interview flow or step cannot be changed because it is still referenced
+ */
+export class InterviewFlowInUseError extends ConflictError {
+  readonly code = 'INTERVIEW_FLOW_IN_USE';
+
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when a forward move skips more steps than the flow allows and no override reason is given
+ */
+export class StageSkipNotAllowedError extends ConflictError {
+  readonly code = 'STAGE_SKIP_NOT_ALLOWED';
+
+  constructor(fromStage: string, toStage: string, maxStepsForward: number) {
+    super(
+      `Cannot move from ${fromStage} to ${toStage}: at most ${maxStepsForward} step(s) forward without an override reason`,
+    );
+  }
+}
+
+/**
+ * Thrown when moving forward from a step that has no scored interview for the application
+ */
+export class ScoredInterviewRequiredError extends ConflictError {
+  readonly code = 'SCORED_INTERVIEW_REQUIRED';
+
+  constructor(applicationId: number, stage: string) {
+    super(`Application ${applicationId} needs at least one scored interview at ${stage} before moving forward`);
+  }
+}
+
+/**
+ * Thrown when a rejected application is moved to a step other than the one it was rejected from
+ */
+export class ReopenStepNotAllowedError extends ConflictError {
+  readonly code = 'REOPEN_STEP_NOT_ALLOWED';
+
+  constructor(applicationId: number, stage: string) {
+    super(`Application ${applicationId} was rejected from ${stage} and can only be reopened there`);
+  }
+}
+
+/**
+ * Thrown when moving an application to the flow's rejection step without a reason
+ */
+export class RejectionReasonRequiredError extends ValidationError {
+  readonly code = 'REJECTION_REASON_REQUIRED';
+
+  constructor(stage: string) {
+    super(`A rejection reason is required to move an application to ${stage}`);
+  }
+}
+
+/**
+ * Thrown when an interview ID is invalid
+ */
+export class InvalidInterviewIdError extends ValidationError {
+  readonly code = 'INVALID_INTERVIEW_ID';
+
+  constructor(interviewId: number) {
+    super(`Invalid interview ID: ${interviewId}`);
+  }
+}
+
+/**
+ * Thrown when an interview is not found
+ */
+export class InterviewNotFoundError extends NotFoundError {
+  readonly code = 'INTERVIEW_NOT_FOUND';
+
+  constructor(interviewId: number) {
+    super(`Interview not found: ${interviewId}`);
+  }
+}
+
+/**
+ * Thrown when interview scheduling or result data fails validation
+ */
+export class InvalidInterviewDataError extends ValidationError {
+  readonly code = 'INVALID_INTERVIEW_DATA';
+
+  constructor(field: string, reason: string) {
+    super(`Invalid interview data: ${field} ${reason}`);
+  }
+}
+
+/**
+ * Thrown when the interviewer is inactive or works for another company than the position
+ */
+export class InterviewerNotEligibleError extends ValidationError {
+  readonly code = 'INTERVIEWER_NOT_ELIGIBLE';
+
+  constructor(employeeId: number, reason: string) {
+    super(`Employee ${employeeId} cannot conduct this interview: ${reason}`);
+  }
+}
+
+/**
+ * Thrown when an interview action is not allowed in the interview's current status
+ */
+export class InvalidInterviewStateError extends ConflictError {
+  readonly code = 'INVALID_INTERVIEW_STATE';
+
+  constructor(interviewId: number, status: string, action: string) {
+    super(`Cannot ${action} interview ${interviewId} while it is ${status}`);
+  }
+}
+
+/**
+ * Thrown when a scorecard template or submission fails validation
+ */
+export class InvalidScorecardDataError extends ValidationError {
+  readonly code = 'INVALID_SCORECARD_DATA';
+
+  constructor(field: string, reason: string) {
+    super(`Invalid scorecard data: ${field} ${reason}`);
+  }
+}
+
+/**
+ * Thrown when submitting a scorecard for an interview type that has no competencies
+ */
+export class ScorecardTemplateMissingError extends ConflictError {
+  readonly code = 'SCORECARD_TEMPLATE_MISSING';
+
+  constructor(interviewTypeId: number) {
+    super(`Interview type ${interviewTypeId} has no scorecard template`);
+  }
+}
+
+/**
+ * Thrown when a single score is submitted for an interview whose type uses a scorecard
+ */
+export class ScorecardRequiredError extends ConflictError {
+  readonly code = 'SCORECARD_REQUIRED';
+
+  constructor(interviewId: number) {
+    super(`Interview ${interviewId} uses a scorecard; submit per-competency ratings instead of a single score`);
+  }
+}
+
+/**
+ * Thrown when the resume ID is not a positive integer
+ */
+export class InvalidResumeIdError extends ValidationError {
+  readonly code = 'INVALID_RESUME_ID';
+
+  constructor(resumeId: number | string) {
+    super(`Invalid resume ID: ${resumeId}`);
+  }
+}
+
+/**
+ * Thrown when a resume does not exist
+ */
+export class ResumeNotFoundError extends NotFoundError {
+  readonly code = 'RESUME_NOT_FOUND';
+
+  constructor(resumeId: number) {
+    super(`Resume with ID ${resumeId} not found`);
+  }
+}
+
+/**
+ * Thrown when a resume download link is missing, tampered with or expired
+ */
+export class InvalidDownloadLinkError extends ForbiddenError {
+  readonly code = 'INVALID_DOWNLOAD_LINK';
+
+  constructor(reason: string) {
+    super(`Invalid download link: ${reason}`);
+  }
+}
+
+/**
+ * Thrown when a resume row exists but its file is no longer in storage
+ */
+export class ResumeFileMissingError extends NotFoundError {
+  readonly code = 'RESUME_FILE_MISSING';
+  readonly status = 410;
+
+  constructor(resumeId: number) {
+    super(`File of resume ${resumeId} is no longer available`);
+  }
+}
+
+/**
+ * Thrown when another resume of the candidate was stored at the same time
+ */
+export class ConcurrentResumeUploadError extends ConflictError {
+  readonly code = 'CONCURRENT_RESUME_UPLOAD';
+
+  constructor(candidateId: number) {
+    super(`Another resume of candidate ${candidateId} was uploaded at the same time`);
+  }
+}
+
+/**
+ * Thrown when an upload is missing its file, has a type other than PDF or DOCX, or breaks the upload limits
+ */
+export class InvalidUploadError extends ValidationError {
+  readonly code = 'INVALID_UPLOAD';
+
+  constructor(reason: string) {
+    super(`Invalid upload: ${reason}`);
+  }
+}
+
+/**
+ * Thrown when a new candidate's cv names a key that POST /upload did not issue to the company
+ */
+export class UnknownUploadError extends ValidationError {
+  readonly code = 'UNKNOWN_UPLOAD';
+
+  constructor(key: string) {
+    super(`Upload ${key} not found; upload the file to /upload first`);
+  }
+}
+
+/**
+ * Thrown when an uploaded file fails verification or the malware scan. Uploads to a candidate are
+ * still recorded, as a quarantined resume, and returned with the error.
+ */
+export class UploadRejectedError extends ValidationError {
+  readonly code = 'UPLOAD_REJECTED';
+  readonly status = 422;
+  readonly resume?: ResumeData;
+
+  constructor(reason: string | null, resume?: ResumeData) {
+    super(`File rejected: ${reason}`);
+    this.resume = resume;
+  }
+
+  toProblemExtensions(): Record<string, unknown> {
+    return this.resume ? { resume: this.resume } : {};
+  }
+}
+
+/**
+ * Thrown when nothing is stored under a storage key
+ */
+export class StoredFileNotFoundError extends InternalError {
+  readonly code = 'STORED_FILE_NOT_FOUND';
+
+  constructor(key: string) {
+    super(`No file stored under key: ${key}`);
+  }
+}
+
+/**
+ * Thrown when a storage key is empty, absolute or points outside the storage root
+ */
+export class InvalidStorageKeyError extends InternalError {
+  readonly code = 'INVALID_STORAGE_KEY';
+
+  constructor(key: string) {
+    super(`Invalid storage key: ${key}`);
+  }
+}
+
+/**
+ * Thrown when the storage environment variables select an unknown driver or miss a setting
+ */
+export class InvalidStorageConfigError extends InternalError {
+  readonly code = 'INVALID_STORAGE_CONFIG';
+
+  constructor(setting: string, reason: string) {
+    super(`Invalid storage configuration: ${setting} ${reason}`);
+  }
+}
+
+/**
+ * Thrown when downloading a resume whose file failed verification or the malware scan
+ */
+export class ResumeQuarantinedError extends ForbiddenError {
+  readonly code = 'RESUME_QUARANTINED';
+
+  constructor(resumeId: number) {
+    super(`Resume ${resumeId} is quarantined and cannot be downloaded`);
+  }
+}
+
+/**
+ * Thrown at startup in production when a signing secret is not set
+ */
+export class MissingSecretError extends InternalError {
+  readonly code = 'MISSING_SECRET';
+
+  constructor(setting: string) {
+    super(`${setting} must be set in production`);
+  }
+}
+
+/**
+ * Thrown when the password reset notifier environment variables are missing or invalid
+ */
+export class InvalidNotifierConfigError extends InternalError {
+  readonly code = 'INVALID_NOTIFIER_CONFIG';
+
+  constructor(setting: string, reason: string) {
+    super(`Invalid password reset notifier configuration: ${setting} ${reason}`);
+  }
+}
+
+/**
+ * Thrown when the scanner environment variables select an unknown driver or hold an invalid setting
+ */
+export class InvalidScannerConfigError extends InternalError {
+  readonly code = 'INVALID_SCANNER_CONFIG';
+
+  constructor(setting: string, reason: string) {
+    super(`Invalid scanner configuration: ${setting} ${reason}`);
+  }
+}
+
+/**
+ * Thrown when a login does not match an active employee with that password
+ */
+export class InvalidCredentialsError extends AuthenticationError {
+  readonly code = 'INVALID_CREDENTIALS';
+
+  constructor() {
+    super('Invalid email or password');
+  }
+}
+
+/**
+ * Thrown when a protected route is called without an access token
+ */
+export class AuthenticationRequiredError extends AuthenticationError {
+  readonly code = 'AUTHENTICATION_REQUIRED';
+
+  constructor() {
+    super('Authentication required');
+  }
+}
+
+/**
+ * Thrown when an access or refresh token is malformed, expired or belongs to an ended session
+ */
+export class InvalidSessionError extends AuthenticationError {
+  readonly code = 'INVALID_SESSION';
+
+  constructor(reason: string) {
+    super(`Invalid session: ${reason}`);
+  }
+}
+
+/**
+ * Thrown when a password reset token is unknown, expired or already used
+ */
+export class InvalidPasswordResetTokenError extends ValidationError {
+  readonly code = 'INVALID_PASSWORD_RESET_TOKEN';
+
+  constructor() {
+    super('Password reset token is invalid or has expired');
+  }
+}
+
+/**
+ * Thrown when a new password does not meet the password policy
+ */
+export class WeakPasswordError extends ValidationError {
+  readonly code = 'WEAK_PASSWORD';
+
+  constructor(reason: string) {
+    super(`Password ${reason}`);
+  }
+}
+
+/**
+ * Thrown when the signed-in employee's role lacks a permission, or the resource is outside their scope
+ */
+export class AccessDeniedError extends ForbiddenError {
+  readonly code = 'ACCESS_DENIED';
+
+  constructor(reason: string) {
+    super(`Access denied: ${reason}`);
+  }
+}
+
+/**
+ * Thrown when the security environment variables name an unknown guard or hold an invalid setting
+ */
+export class InvalidSecurityConfigError extends InternalError {
+  readonly code = 'INVALID_SECURITY_CONFIG';
+
+  constructor(setting: string, reason: string) {
+    super(`Invalid security configuration: ${setting} ${reason}`);
+  }
+}
+
+/**
+ * Thrown when a query would create or move a row into a company other than the signed-in employee's
+ */
+export class CrossTenantWriteError extends ForbiddenError {
+  readonly code = 'CROSS_TENANT_WRITE';
+
+  constructor(model: string, companyId: unknown) {
+    super(`Cannot write ${model} rows for company ${companyId}`);
+  }
+}
+
+/**
+ * Type guard to check if an error is an AppError
  */
-export function isKanbanError(error: unknown): error is KanbanError {
-  return error instanceof KanbanError;
+export function isAppError(error: unknown): error is AppError {
+  return error instanceof AppError;
 }
@@ -0,0 +1,58 @@
+/**
+ * TypeScript interfaces for Interview endpoints
+ */
+
+import type { z } from 'zod';
+import type {
+  cancelInterviewBody,
+  rescheduleInterviewBody,
+  scheduleInterviewBody,
+  submitInterviewResultBody
+} from '../schemas/interview';
+
+export const INTERVIEW_STATUSES = ['Scheduled', 'Completed', 'Cancelled'] as const;
+
+export type InterviewStatus = (typeof INTERVIEW_STATUSES)[number];
+
+export const INTERVIEW_RESULTS = ['Passed', 'Failed', 'Pending'] as const;
+
+export type InterviewResult = (typeof INTERVIEW_RESULTS)[number];
+
+export const INTERVIEW_SCORE_MIN = 0;
+export const INTERVIEW_SCORE_MAX = 5;
+
+export interface InterviewData {
+  id: number;
+  applicationId: number;
+  interviewStepId: number;
+  employeeId: number;
+  interviewDate: Date;
+  status: string;
+  result: string | null;
+  score: number | null;
+  notes: string | null;
+  cancellationReason: string | null;
+  recommendation: string | null;
+  weightedScore: number | null;
+  interviewStep: {
+    id: number;
+    name: string;
+  };
+  employee: {
+    id: number;
+    name: string;
+    email: string;
+  };
+}
+
+export interface InterviewListResponse {
+  interviews: InterviewData[];
+}
+
+export type ScheduleInterviewRequest = z.infer<typeof scheduleInterviewBody>;
+
+export type RescheduleInterviewRequest = z.infer<typeof rescheduleInterviewBody>;
+
+export type CancelInterviewRequest = z.infer<typeof cancelInterviewBody>;
+
+export type SubmitInterviewResultRequest = z.infer<typeof submitInterviewResultBody>;
@@ -0,0 +1,87 @@
+/**
+ * TypeScript interfaces for Interview Flow endpoints
+ */
+
+import type { z } from 'zod';
+import type {
+  cloneInterviewFlowBody,
+  createInterviewFlowBody,
+  createInterviewStepBody,
+  createInterviewTypeBody,
+  reorderInterviewStepsBody,
+  updateInterviewFlowBody,
+  updateInterviewStepBody
+} from '../schemas/interviewFlow';
+
+export interface InterviewStepData {
+  id: number;
+  interviewFlowId: number;
+  interviewTypeId: number;
+  name: string;
+  orderIndex: number;
+  interviewType: {
+    id: number;
+    name: string;
+  };
+}
+
+/**
+ * Stage transition rules enforced when moving applications between the flow's steps
+ */
+export interface InterviewFlowRules {
+  /** Steps an application may advance in one move without an override reason */
+  maxStepsForward: number;
+  /** Whether a scored interview at the current step is required before advancing */
+  requireScoredInterview: boolean;
+  /** Name of the terminal rejection step, which requires a rejection reason; null disables the rule */
+  rejectionStepName: string | null;
+}
+
+export interface InterviewFlowData extends InterviewFlowRules {
+  id: number;
+  /** The company that may change the flow; null for a shared template, which can only be cloned */
+  companyId: number | null;
+  description: string | null;
+  interviewSteps: InterviewStepData[];
+}
+
+export interface InterviewFlowListResponse {
+  interviewFlows: InterviewFlowData[];
+}
+
+export type CreateInterviewStepRequest = z.infer<typeof createInterviewStepBody>;
+
+export type UpdateInterviewStepRequest = z.infer<typeof updateInterviewStepBody>;
+
+export type CreateInterviewFlowRequest = z.infer<typeof createInterviewFlowBody>;
+
+export type UpdateInterviewFlowRequest = z.infer<typeof updateInterviewFlowBody>;
+
+export type CloneInterviewFlowRequest = z.infer<typeof cloneInterviewFlowBody>;
+
+export type ReorderInterviewStepsRequest = z.infer<typeof reorderInterviewStepsBody>;
+
+export interface RemoveInterviewStepResponse {
+  success: boolean;
+  stepId: number;
+  migratedApplications: number;
+}
+
+export interface DeleteInterviewFlowResponse {
+  success: boolean;
+  interviewFlowId: number;
+}
+
+export interface InterviewTypeData {
+  id: number;
+  /** The company that may change the type and its scorecard; null for a shared template */
+  companyId: number | null;
+  name: string;
+  description: string | null;
+}
+
+export interface InterviewTypeListResponse {
+  interviewTypes: InterviewTypeData[];
+}
+
+export type CreateInterviewTypeRequest = z.infer<typeof createInterviewTypeBody>;
@@ -2,23 +2,71 @@
  * TypeScript interfaces for Kanban endpoints
  */
 
+import type { z } from 'zod';
+import type { stageMoveOptions, updateApplicationStageBody, updateCandidateStageBody } from '../schemas/kanban';
+
 export interface CandidateKanbanData {
   id: number;
   fullName: string;
   currentInterviewStep: string;
-  averageScore: number;
+  /** Weighted scorecard result of completed interviews (0-100), null when none is scored */
+  weightedScore: number | null;
 }
 
 export interface PositionCandidatesResponse {
   candidates: CandidateKanbanData[];
 }
 
-export interface UpdateCandidateStageRequest {
-  stage: string;
-}
+/**
+ * Reasons accompanying a stage move, and the employee making it
+ */
+export type StageMoveOptions = z.infer<typeof stageMoveOptions> & { changedById?: number };
+
+export type UpdateCandidateStageRequest = z.infer<typeof updateCandidateStageBody>;
 
 export interface UpdateCandidateStageResponse {
   success: boolean;
   candidateId: number;
   newStage: string;
 }
+
+export interface KanbanCardData extends CandidateKanbanData {
+  applicationId: number;
+  positionId: number;
+  interviewStepId: number;
+}
+
+/**
+ * Target stage for a per-application move: either a step name or a step id
+ */
+export type UpdateApplicationStageRequest = z.infer<typeof updateApplicationStageBody>;
+
+export interface UpdateApplicationStageResponse {
+  success: boolean;
+  card: KanbanCardData;
+}
+
+/**
+ * A board column: one interview step of the position's flow with the cards currently on it
+ */
+export interface KanbanColumnData {
+  id: number;
+  name: string;
+  orderIndex: number;
+  interviewType: {
+    id: number;
+    name: string;
+  };
+  count: number;
+  applicationIds: number[];
+  cards: KanbanCardData[];
+}
+
+export interface PositionBoardResponse {
+  positionId: number;
+  interviewFlowId: number;
+  columns: KanbanColumnData[];
+  totalCount: number;
+  /** Applications whose current step is not part of the position's flow */
+  unassigned: KanbanCardData[];
+}
@@ -0,0 +1,59 @@
+/**
+ * TypeScript interfaces for the OpenAPI document
+ */
+import { RequestSchema } from './validation';
+
+export const OPENAPI_METHODS = ['get', 'put', 'post', 'delete', 'patch'] as const;
+
+export type OpenApiMethod = (typeof OPENAPI_METHODS)[number];
+
+/**
+ * A JSON Schema (draft 2020-12, as used by OpenAPI 3.1)
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  [keyword: string]: unknown;
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header' | 'cookie';
+  required?: boolean;
+  description?: string;
+  schema?: JsonSchema;
+}
+
+export interface OpenApiOperation {
+  tags?: string[];
+  summary?: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: Record<string, unknown>;
+  responses?: Record<string, unknown>;
+  /** An empty list makes the operation public */
+  security?: Record<string, string[]>[];
+  [field: string]: unknown;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  paths: Record<string, Partial<Record<OpenApiMethod, OpenApiOperation>>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    responses: Record<string, unknown>;
+    securitySchemes: Record<string, unknown>;
+  };
+  security: Record<string, string[]>[];
+  [field: string]: unknown;
+}
+
+/**
+ * A route registered on the Express app
+ */
+export interface RegisteredRoute {
+  method: OpenApiMethod;
+  /** Full path in OpenAPI form, e.g. /positions/{id}/candidates */
+  path: string;
+  /** The schema the route validates requests with, if any */
+  schema?: RequestSchema;
+}
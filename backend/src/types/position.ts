@@ -0,0 +1,70 @@
+/**
+ * TypeScript interfaces for Position endpoints
+ */
+
+import type { z } from 'zod';
+import type { createPositionBody, listPositionsQuery, positionTransitionBody, updatePositionBody } from '../schemas/position';
+
+export const POSITION_STATUSES = ['Draft', 'Open', 'On Hold', 'Closed', 'Filled', 'Cancelled'] as const;
+
+export type PositionStatus = (typeof POSITION_STATUSES)[number];
+
+export interface PositionData {
+  id: number;
+  companyId: number;
+  interviewFlowId: number;
+  title: string;
+  description: string;
+  status: string;
+  isVisible: boolean;
+  location: string;
+  jobDescription: string;
+  requirements: string | null;
+  responsibilities: string | null;
+  salaryMin: number | null;
+  salaryMax: number | null;
+  employmentType: string | null;
+  benefits: string | null;
+  companyDescription: string | null;
+  applicationDeadline: Date | null;
+  contactInfo: string | null;
+}
+
+export type CreatePositionRequest = z.infer<typeof createPositionBody>;
+
+export type UpdatePositionRequest = z.infer<typeof updatePositionBody>;
+
+export type PositionListFilters = z.infer<typeof listPositionsQuery>;
+
+export interface PositionListResponse {
+  positions: PositionData[];
+}
+
+export interface DeletePositionResponse {
+  success: boolean;
+  positionId: number;
+}
+
+/**
+ * Target status and reason of a position transition, and the employee making it
+ */
+export type PositionTransitionRequest = z.infer<typeof positionTransitionBody> & { changedById?: number | null };
+
+export interface PositionStatusHistoryEntry {
+  id: number;
+  positionId: number;
+  fromStatus: string;
+  toStatus: string;
+  changedById: number | null;
+  reason: string | null;
+  changedAt: Date;
+}
+
+export interface PositionTransitionResponse {
+  position: PositionData;
+  transition: PositionStatusHistoryEntry;
+}
+
+export interface PositionStatusHistoryResponse {
+  history: PositionStatusHistoryEntry[];
+}
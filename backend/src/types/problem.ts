@@ -0,0 +1,28 @@
+/**
+ * TypeScript interfaces for error responses (RFC 7807 problem details)
+ */
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-Id';
+
+/**
+ * Body of every error response
+ */
+export interface ProblemDetails {
+  /** Identifies the problem type, e.g. urn:lti:problem:position-not-found */
+  type: string;
+  /** Summary of the problem type, the same for every occurrence, e.g. Position not found */
+  title: string;
+  status: number;
+  /** What went wrong in this occurrence */
+  detail: string;
+  /** Path of the request */
+  instance: string;
+  /** Stable, machine-readable code, e.g. POSITION_NOT_FOUND */
+  code: string;
+  /** ID of the request in the server logs, also sent in the X-Correlation-Id header */
+  correlationId: string;
+  /** Extension members of the problem type, e.g. details of VALIDATION_FAILED */
+  [extension: string]: unknown;
+}
@@ -0,0 +1,111 @@
+/**
+ * TypeScript interfaces for resume parsing and storage
+ */
+import { Readable } from 'stream';
+
+/**
+ * Unscanned: stored before scanning or with no scanner configured; Clean: passed verification and
+ * the malware scan; Quarantined: failed either, kept apart and never served
+ */
+export const RESUME_SCAN_STATUSES = ['Unscanned', 'Clean', 'Quarantined'] as const;
+export type ResumeScanStatus = (typeof RESUME_SCAN_STATUSES)[number];
+
+export interface SuggestedEducation {
+  institution: string;
+  title: string;
+  /** YYYY-MM-DD; the first day of the month (or year) the resume gives */
+  startDate: string;
+  endDate?: string;
+}
+
+export interface SuggestedWorkExperience {
+  company: string;
+  position: string;
+  description?: string;
+  startDate: string;
+  endDate?: string;
+}
+
+/**
+ * Candidate fields found in a resume, in the shape accepted by validateCandidateData.
+ * Fields that were not found, or whose guess fails validation, are omitted.
+ */
+export interface CandidateSuggestion {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  educations: SuggestedEducation[];
+  workExperiences: SuggestedWorkExperience[];
+}
+
+/**
+ * Confidence from 0 to 1 of each suggested field; 0 when the field was not found.
+ * List entries are scored one by one, in the order of the suggestion.
+ */
+export interface SuggestionConfidence {
+  firstName: number;
+  lastName: number;
+  email: number;
+  phone: number;
+  educations: number[];
+  workExperiences: number[];
+}
+
+export interface ResumeParseResult {
+  suggestion: CandidateSuggestion;
+  confidence: SuggestionConfidence;
+}
+
+/**
+ * A stored resume version as returned by the API
+ */
+export interface ResumeData {
+  id: number;
+  candidateId: number;
+  version: number;
+  isCurrent: boolean;
+  originalName: string | null;
+  fileType: string;
+  fileSize: number | null;
+  uploadDate: Date;
+  scanStatus: ResumeScanStatus;
+  /** Why the file was quarantined */
+  scanDetail: string | null;
+  scannedAt: Date | null;
+  /** Signed link to GET /resumes/:id/file, valid for a limited time; null for quarantined files */
+  downloadUrl: string | null;
+}
+
+/**
+ * A file accepted by the upload middleware and written to storage, to be attached to a candidate
+ */
+export interface UploadedResume {
+  /** Storage key of the file */
+  filePath: string;
+  fileType: string;
+  /** Sanitized name the client uploaded the file with */
+  originalName: string;
+  fileSize: number;
+  scanStatus: ResumeScanStatus;
+  scanDetail: string | null;
+  scannedAt: Date | null;
+}
+
+/**
+ * Query parameters of a signed resume download link
+ */
+export interface ResumeDownloadLink {
+  expires?: string;
+  signature?: string;
+}
+
+/**
+ * Content of a resume file and the name and type to send it back with
+ */
+export interface ResumeFile {
+  content: Readable;
+  fileType: string;
+  fileName: string;
+  fileSize: number | null;
+}
@@ -0,0 +1,31 @@
+/**
+ * TypeScript interfaces for upload verification and malware scanning
+ */
+
+export const SCANNER_DRIVERS = ['none', 'clamav'] as const;
+export type ScannerDriver = (typeof SCANNER_DRIVERS)[number];
+
+export type ScanResult = { status: 'clean' } | { status: 'infected'; signature: string };
+
+/**
+ * Checks file content for malware. Throws when the content could not be scanned.
+ */
+export interface MalwareScanner {
+  readonly driver: ScannerDriver;
+  scan(content: Buffer): Promise<ScanResult>;
+}
+
+export interface ClamAvConfig {
+  driver: 'clamav';
+  host: string;
+  port: number;
+  /** Time allowed for connecting, streaming and the verdict */
+  timeoutMs: number;
+}
+
+export type ScannerConfig = { driver: 'none' } | ClamAvConfig;
+
+/**
+ * Outcome of checking the content of a PDF or DOCX upload
+ */
+export type DocumentCheck = { valid: true; fileType: string } | { valid: false; reason: string };
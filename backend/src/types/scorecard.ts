@@ -0,0 +1,79 @@
+/**
+ * TypeScript interfaces for Scorecard endpoints
+ */
+
+import type { z } from 'zod';
+import type { submitScorecardBody, updateScorecardTemplateBody } from '../schemas/scorecard';
+import { InterviewData } from './interview';
+
+export const RECOMMENDATIONS = ['Strong Hire', 'Hire', 'No Hire', 'Strong No Hire'] as const;
+
+export type Recommendation = (typeof RECOMMENDATIONS)[number];
+
+export interface ScorecardCompetencyData {
+  id: number;
+  interviewTypeId: number;
+  name: string;
+  description: string | null;
+  weight: number;
+  orderIndex: number;
+}
+
+export interface ScorecardTemplateData {
+  interviewType: {
+    id: number;
+    name: string;
+    ratingScaleMin: number;
+    ratingScaleMax: number;
+  };
+  competencies: ScorecardCompetencyData[];
+}
+
+export type UpdateScorecardTemplateRequest = z.infer<typeof updateScorecardTemplateBody>;
+
+export type SubmitScorecardRequest = z.infer<typeof submitScorecardBody>;
+
+export interface InterviewRatingData {
+  id: number;
+  interviewId: number;
+  competencyId: number | null;
+  competencyName: string;
+  weight: number;
+  scaleMin: number;
+  scaleMax: number;
+  rating: number;
+  comment: string | null;
+}
+
+export interface InterviewScorecardData extends InterviewData {
+  ratings: InterviewRatingData[];
+}
+
+/**
+ * Aggregated ratings of one competency across an application's interviews, on a 0-100 scale
+ */
+export interface CompetencyScoreData {
+  competencyId: number | null;
+  competencyName: string;
+  weight: number;
+  ratingsCount: number;
+  averageScore: number;
+}
+
+export interface InterviewScoreSummary {
+  interviewId: number;
+  interviewStepId: number;
+  interviewStepName: string;
+  employeeId: number;
+  recommendation: string | null;
+  weightedScore: number | null;
+}
+
+export interface ApplicationScorecardResponse {
+  applicationId: number;
+  /** Weighted score over all completed interviews on a 0-100 scale, null when nothing is scored */
+  weightedScore: number | null;
+  competencies: CompetencyScoreData[];
+  interviews: InterviewScoreSummary[];
+  recommendations: Record<string, number>;
+}
@@ -0,0 +1,47 @@
+/**
+ * TypeScript interfaces for the request security pipeline
+ */
+import { Request } from 'express';
+
+export const SECURITY_GUARDS = [
+  'headers',
+  'rateLimit',
+  'payloadLimits',
+  'headerFlood',
+  'cookies',
+  'xss',
+  'sqlInjection',
+  'pathTraversal',
+  'redos',
+  'domClobbering',
+  'templateInjection',
+  'css',
+] as const;
+export type SecurityGuard = (typeof SECURITY_GUARDS)[number];
+
+export const SECURITY_ROUTE_GROUPS = ['auth', 'upload', 'api'] as const;
+export type SecurityRouteGroup = (typeof SECURITY_ROUTE_GROUPS)[number];
+
+/**
+ * The guards run for one route group
+ */
+export interface SecurityProfile {
+  guards: SecurityGuard[];
+  /** Log the requests the guards would block, and let them through */
+  reportOnly: boolean;
+}
+
+export type SecurityConfig = Record<SecurityRouteGroup, SecurityProfile>;
+
+/**
+ * Response a guard blocks a request with
+ */
+export interface SecurityViolation {
+  status: number;
+  body: { error: string; code: string; [detail: string]: unknown };
+}
+
+/**
+ * Inspects a request and returns the violation it would be blocked for, or null when it is clean
+ */
+export type SecurityCheck = (req: Request) => SecurityViolation | null;
@@ -0,0 +1,58 @@
+/**
+ * TypeScript interfaces for uploaded file storage
+ */
+import { Readable } from 'stream';
+
+export const STORAGE_DRIVERS = ['local', 's3'] as const;
+export type StorageDriver = (typeof STORAGE_DRIVERS)[number];
+
+/**
+ * A file written to storage. The key is derived from the content, so the same file uploaded
+ * twice is stored once under the same key.
+ */
+export interface StoredFile {
+  key: string;
+  size: number;
+}
+
+/**
+ * Backend that keeps uploaded files. Keys are relative, slash-separated and never start with a slash.
+ */
+export interface FileStorage {
+  readonly driver: StorageDriver;
+  /** Writes the file under its content key, inside the folder when one is given */
+  save(content: Buffer, originalName: string, contentType: string, folder?: string): Promise<StoredFile>;
+  /** Throws StoredFileNotFoundError when nothing is stored under the key */
+  read(key: string): Promise<Buffer>;
+  /** Throws StoredFileNotFoundError when nothing is stored under the key */
+  openReadStream(key: string): Promise<Readable>;
+  exists(key: string): Promise<boolean>;
+  /** Does nothing when nothing is stored under the key */
+  remove(key: string): Promise<void>;
+}
+
+export interface LocalStorageConfig {
+  driver: 'local';
+  /** Directory files are written to, resolved against the process working directory */
+  root: string;
+}
+
+export interface S3StorageConfig {
+  driver: 's3';
+  bucket: string;
+  region: string;
+  /** Custom endpoint of an S3-compatible service such as MinIO */
+  endpoint?: string;
+  /** Path-style URLs (http://host/bucket/key), needed by MinIO */
+  forcePathStyle: boolean;
+  /** Falls back to the default AWS credential chain when not set */
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  /** Prepended to every key, e.g. "resumes/" */
+  prefix: string;
+}
+
+export type StorageConfig = LocalStorageConfig | S3StorageConfig;
+
+// Folder of files that failed verification or the malware scan
+export const QUARANTINE_FOLDER = 'quarantine';
@@ -0,0 +1,24 @@
+/**
+ * TypeScript interfaces for request validation
+ */
+import { ZodTypeAny } from 'zod';
+
+/**
+ * Schemas of the parts of a request a route accepts
+ */
+export interface RequestSchema {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+/**
+ * One failing field of a request
+ */
+export interface ValidationIssue {
+  /** Where the field is, e.g. body.educations.0.startDate */
+  path: string;
+  /** Machine-readable reason, e.g. invalid_type or too_small */
+  code: string;
+  message: string;
+}
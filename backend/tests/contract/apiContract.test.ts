@@ -0,0 +1,823 @@
+import { Readable } from 'stream';
+import * as applicationService from '../../src/application/services/applicationService';
+import * as authService from '../../src/application/services/authService';
+import * as candidateSearchService from '../../src/application/services/candidateSearchService';
+import * as candidateService from '../../src/application/services/candidateService';
+import * as fileUploadService from '../../src/application/services/fileUploadService';
+import * as interviewFlowService from '../../src/application/services/interviewFlowService';
+import * as interviewService from '../../src/application/services/interviewService';
+import * as kanbanService from '../../src/application/services/kanbanService';
+import * as positionService from '../../src/application/services/positionService';
+import * as resumeService from '../../src/application/services/resumeService';
+import * as scorecardService from '../../src/application/services/scorecardService';
+import { Candidate } from '../../src/domain/models/Candidate';
+import { app } from '../../src/index';
+import { AuthenticationRequiredError, DependencyFailureError } from '../../src/types/errors';
+import request, { operationsWithout } from './openApiContract';
+
+// Every service behind the routes is mocked; the responses are checked against the OpenAPI document
+jest.mock('../../src/application/services/applicationService');
+jest.mock('../../src/application/services/authService');
+jest.mock('../../src/application/services/candidateSearchService');
+jest.mock('../../src/application/services/candidateService');
+jest.mock('../../src/application/services/fileUploadService');
+jest.mock('../../src/application/services/interviewFlowService');
+jest.mock('../../src/application/services/interviewService');
+jest.mock('../../src/application/services/kanbanService');
+jest.mock('../../src/application/services/positionService');
+jest.mock('../../src/application/services/resumeService');
+jest.mock('../../src/application/services/scorecardService');
+
+const mockApplicationService = applicationService as jest.Mocked<typeof applicationService>;
+const mockAuthService = authService as jest.Mocked<typeof authService>;
+const mockCandidateSearchService = candidateSearchService as jest.Mocked<typeof candidateSearchService>;
+const mockCandidateService = candidateService as jest.Mocked<typeof candidateService>;
+const mockFileUploadService = fileUploadService as jest.Mocked<typeof fileUploadService>;
+const mockInterviewFlowService = interviewFlowService as jest.Mocked<typeof interviewFlowService>;
+const mockInterviewService = interviewService as jest.Mocked<typeof interviewService>;
+const mockKanbanService = kanbanService as jest.Mocked<typeof kanbanService>;
+const mockPositionService = positionService as jest.Mocked<typeof positionService>;
+const mockResumeService = resumeService as jest.Mocked<typeof resumeService>;
+const mockScorecardService = scorecardService as jest.Mocked<typeof scorecardService>;
+
+const employee = { id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' as const };
+const date = new Date('2026-10-19T10:00:00.000Z');
+
+const tokens = {
+  accessToken: 'access-token',
+  accessTokenExpiresAt: date,
+  refreshToken: 'refresh-token',
+  refreshTokenExpiresAt: date,
+};
+
+const candidateRecord = {
+  id: 1,
+  companyId: 1,
+  firstName: 'John',
+  lastName: 'Doe',
+  email: 'john.doe@gmail.com',
+  phone: null,
+  address: null,
+};
+
+const education = {
+  id: 5,
+  candidateId: 1,
+  institution: 'UPM',
+  title: 'Master in AI',
+  startDate: new Date('2020-09-01'),
+  endDate: null,
+};
+
+const workExperience = {
+  id: 4,
+  candidateId: 1,
+  company: 'LTI',
+  position: 'Developer',
+  description: null,
+  startDate: new Date('2021-01-01'),
+  endDate: null,
+};
+
+const candidateProfile = {
+  id: 1,
+  firstName: 'John',
+  lastName: 'Doe',
+  email: 'john.doe@gmail.com',
+  phone: null,
+  address: null,
+  educations: [education],
+  workExperiences: [workExperience],
+};
+
+const resume = {
+  id: 7,
+  candidateId: 1,
+  version: 1,
+  isCurrent: true,
+  originalName: 'cv.pdf',
+  fileType: 'application/pdf',
+  fileSize: 2048,
+  uploadDate: date,
+  scanStatus: 'Clean' as const,
+  scanDetail: null,
+  scannedAt: date,
+  downloadUrl: '/resumes/7/file?expires=1792400000&signature=abc',
+};
+
+const position = {
+  id: 1,
+  companyId: 1,
+  interviewFlowId: 1,
+  title: 'Senior Developer',
+  description: 'Builds the platform',
+  status: 'Open' as const,
+  isVisible: true,
+  location: 'Madrid',
+  jobDescription: 'TypeScript and Node.js',
+  requirements: null,
+  responsibilities: null,
+  salaryMin: 50000,
+  salaryMax: null,
+  employmentType: 'Full-time',
+  benefits: null,
+  companyDescription: null,
+  applicationDeadline: null,
+  contactInfo: null,
+};
+
+const positionTransition = {
+  id: 3,
+  positionId: 1,
+  fromStatus: 'Draft' as const,
+  toStatus: 'Open' as const,
+  changedById: 1,
+  reason: null,
+  changedAt: date,
+};
+
+const interviewType = { id: 2, companyId: 1, name: 'Technical Interview', description: null };
+
+const interviewStep = {
+  id: 7,
+  interviewFlowId: 1,
+  interviewTypeId: 2,
+  name: 'Technical Interview',
+  orderIndex: 1,
+  interviewType: { id: 2, name: 'Technical Interview' },
+};
+
+const interviewFlow = {
+  id: 1,
+  companyId: 1,
+  description: 'Standard flow',
+  maxStepsForward: 1,
+  requireScoredInterview: false,
+  rejectionStepName: 'Rejected',
+  interviewSteps: [interviewStep],
+};
+
+const interview = {
+  id: 20,
+  applicationId: 10,
+  interviewStepId: 7,
+  employeeId: 1,
+  interviewDate: date,
+  status: 'Scheduled' as const,
+  result: null,
+  score: null,
+  notes: null,
+  cancellationReason: null,
+  recommendation: null,
+  weightedScore: null,
+  interviewStep: { id: 7, name: 'Technical Interview' },
+  employee: { id: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com' },
+};
+
+const card = {
+  id: 1,
+  fullName: 'John Doe',
+  currentInterviewStep: 'Technical Interview',
+  weightedScore: 80,
+  applicationId: 10,
+  positionId: 1,
+  interviewStepId: 7,
+};
+
+const scorecardTemplate = {
+  interviewType: { id: 2, name: 'Technical Interview', ratingScaleMin: 1, ratingScaleMax: 5 },
+  competencies: [{ id: 1, interviewTypeId: 2, name: 'Problem solving', description: null, weight: 2, orderIndex: 1 }],
+};
+
+interface ContractCase {
+  /** The documented operation, e.g. GET /positions/{id} */
+  operation: string;
+  url: string;
+  body?: object;
+  /** Makes the request succeed */
+  arrange: () => void;
+  /** Makes the request fail; the service behind the route rejects when left out */
+  fail?: () => void;
+  /** The mocked service function behind the route */
+  service?: { mockRejectedValue: (error: Error) => unknown };
+}
+
+const unavailable = new DependencyFailureError('The database', 'is unreachable');
+
+const cases: ContractCase[] = [
+  {
+    operation: 'GET /',
+    url: '/',
+    arrange: () => undefined,
+  },
+  {
+    operation: 'GET /openapi.json',
+    url: '/openapi.json',
+    arrange: () => undefined,
+  },
+  {
+    operation: 'POST /auth/login',
+    url: '/auth/login',
+    body: { email: 'alice.johnson@lti.com', password: 'correct horse battery staple' },
+    service: mockAuthService.login,
+    arrange: () => mockAuthService.login.mockResolvedValue({ employee, tokens }),
+  },
+  {
+    operation: 'POST /auth/refresh',
+    url: '/auth/refresh',
+    service: mockAuthService.refresh,
+    arrange: () => mockAuthService.refresh.mockResolvedValue({ employee, tokens }),
+  },
+  {
+    operation: 'POST /auth/logout',
+    url: '/auth/logout',
+    service: mockAuthService.logout,
+    arrange: () => mockAuthService.logout.mockResolvedValue(),
+  },
+  {
+    operation: 'GET /auth/me',
+    url: '/auth/me',
+    arrange: () => undefined,
+    fail: () => mockAuthService.authenticate.mockRejectedValue(new AuthenticationRequiredError()),
+  },
+  {
+    operation: 'POST /auth/password-reset',
+    url: '/auth/password-reset',
+    body: { email: 'alice.johnson@lti.com' },
+    service: mockAuthService.requestPasswordReset,
+    arrange: () => mockAuthService.requestPasswordReset.mockResolvedValue(),
+  },
+  {
+    operation: 'POST /auth/password-reset/confirm',
+    url: '/auth/password-reset/confirm',
+    body: { token: 'reset-token', password: 'correct horse battery staple' },
+    service: mockAuthService.resetPassword,
+    arrange: () => mockAuthService.resetPassword.mockResolvedValue(),
+  },
+  {
+    operation: 'POST /candidates',
+    url: '/candidates',
+    body: { firstName: 'John', lastName: 'Doe', email: 'john.doe@gmail.com' },
+    service: mockCandidateService.addCandidate,
+    arrange: () => mockCandidateService.addCandidate.mockResolvedValue(candidateRecord),
+  },
+  {
+    operation: 'GET /candidates',
+    url: '/candidates',
+    service: mockCandidateService.listCandidates,
+    arrange: () =>
+      mockCandidateService.listCandidates.mockResolvedValue({
+        candidates: [
+          {
+            id: 1,
+            fullName: 'John Doe',
+            email: 'john.doe@gmail.com',
+            phone: null,
+            currentInterviewStep: 'Technical Interview',
+            weightedScore: null,
+            applicationCount: 1,
+          },
+        ],
+        nextCursor: null,
+      }),
+  },
+  {
+    operation: 'GET /candidates/search',
+    url: '/candidates/search?q=typescript',
+    service: mockCandidateSearchService.searchCandidates,
+    arrange: () =>
+      mockCandidateSearchService.searchCandidates.mockResolvedValue({
+        query: 'typescript',
+        total: 1,
+        results: [{ candidateId: 1, fullName: 'John Doe', email: 'john.doe@gmail.com', rank: 0.6, snippet: '<mark>TypeScript</mark> developer' }],
+      }),
+  },
+  {
+    operation: 'GET /candidates/{id}',
+    url: '/candidates/1',
+    service: mockCandidateService.findCandidateById,
+    arrange: () =>
+      mockCandidateService.findCandidateById.mockResolvedValue(
+        new Candidate({ ...candidateRecord, education: [education], workExperience: [workExperience] }),
+      ),
+  },
+  {
+    operation: 'PUT /candidates/{id}',
+    url: '/candidates/1',
+    body: { firstName: 'John', lastName: 'Doe', email: 'john.doe@gmail.com' },
+    service: mockCandidateService.replaceCandidate,
+    arrange: () => mockCandidateService.replaceCandidate.mockResolvedValue(candidateProfile),
+  },
+  {
+    operation: 'PATCH /candidates/{id}',
+    url: '/candidates/1',
+    body: { phone: '612345678' },
+    service: mockCandidateService.updateCandidate,
+    arrange: () => mockCandidateService.updateCandidate.mockResolvedValue(candidateProfile),
+  },
+  {
+    operation: 'DELETE /candidates/{id}',
+    url: '/candidates/1',
+    service: mockCandidateService.deleteCandidate,
+    arrange: () =>
+      mockCandidateService.deleteCandidate.mockResolvedValue({
+        success: true,
+        candidateId: 1,
+        deleted: { applications: 1, interviews: 2, educations: 1, workExperiences: 1, resumes: 1 },
+      }),
+  },
+  {
+    operation: 'POST /candidates/{id}/educations',
+    url: '/candidates/1/educations',
+    body: { institution: 'UPM', title: 'Master in AI', startDate: '2020-09-01' },
+    service: mockCandidateService.addEducation,
+    arrange: () => mockCandidateService.addEducation.mockResolvedValue(education),
+  },
+  {
+    operation: 'PATCH /candidates/{id}/educations/{educationId}',
+    url: '/candidates/1/educations/5',
+    body: { title: 'PhD in AI' },
+    service: mockCandidateService.updateEducation,
+    arrange: () => mockCandidateService.updateEducation.mockResolvedValue(education),
+  },
+  {
+    operation: 'DELETE /candidates/{id}/educations/{educationId}',
+    url: '/candidates/1/educations/5',
+    service: mockCandidateService.removeEducation,
+    arrange: () => mockCandidateService.removeEducation.mockResolvedValue({ ...candidateProfile, educations: [] }),
+  },
+  {
+    operation: 'POST /candidates/{id}/work-experiences',
+    url: '/candidates/1/work-experiences',
+    body: { company: 'LTI', position: 'Developer', startDate: '2021-01-01' },
+    service: mockCandidateService.addWorkExperience,
+    arrange: () => mockCandidateService.addWorkExperience.mockResolvedValue(workExperience),
+  },
+  {
+    operation: 'PATCH /candidates/{id}/work-experiences/{workExperienceId}',
+    url: '/candidates/1/work-experiences/4',
+    body: { position: 'Lead' },
+    service: mockCandidateService.updateWorkExperience,
+    arrange: () => mockCandidateService.updateWorkExperience.mockResolvedValue(workExperience),
+  },
+  {
+    operation: 'DELETE /candidates/{id}/work-experiences/{workExperienceId}',
+    url: '/candidates/1/work-experiences/4',
+    service: mockCandidateService.removeWorkExperience,
+    arrange: () => mockCandidateService.removeWorkExperience.mockResolvedValue({ ...candidateProfile, workExperiences: [] }),
+  },
+  {
+    operation: 'POST /candidates/{id}/resumes',
+    url: '/candidates/1/resumes',
+    service: mockResumeService.addResume,
+    arrange: () => {
+      mockFileUploadService.receiveUpload.mockResolvedValue({
+        filePath: '3a/3a7bd3e2.pdf',
+        fileType: 'application/pdf',
+        originalName: 'cv.pdf',
+        fileSize: 2048,
+        scanStatus: 'Clean',
+        scanDetail: null,
+        scannedAt: date,
+      });
+      mockResumeService.addResume.mockResolvedValue(resume);
+    },
+  },
+  {
+    operation: 'GET /candidates/{id}/resumes',
+    url: '/candidates/1/resumes',
+    service: mockResumeService.listResumes,
+    arrange: () => mockResumeService.listResumes.mockResolvedValue([resume]),
+  },
+  {
+    operation: 'GET /resumes/{id}/file',
+    url: '/resumes/7/file?expires=1792400000&signature=abc',
+    service: mockResumeService.openResumeFile,
+    arrange: () =>
+      mockResumeService.openResumeFile.mockImplementation(async () => ({
+        content: Readable.from(['%PDF-1.4']),
+        fileType: 'application/pdf',
+        fileName: 'cv.pdf',
+        fileSize: 8,
+      })),
+  },
+  {
+    operation: 'POST /upload',
+    url: '/upload',
+    arrange: () =>
+      mockFileUploadService.uploadFile.mockImplementation(async (req, res) => {
+        res.status(200).json({
+          filePath: '3a/3a7bd3e2.pdf',
+          fileType: 'application/pdf',
+          originalName: 'cv.pdf',
+          fileSize: 2048,
+          suggestion: { firstName: 'John', lastName: 'Doe', educations: [], workExperiences: [] },
+          confidence: { firstName: 0.9, lastName: 0.9, email: 0, phone: 0, educations: [], workExperiences: [] },
+        });
+      }),
+    fail: () => mockFileUploadService.uploadFile.mockImplementation(async (req, res, next) => next(unavailable)),
+  },
+  {
+    operation: 'POST /positions',
+    url: '/positions',
+    body: {
+      companyId: 1,
+      interviewFlowId: 1,
+      title: 'Senior Developer',
+      description: 'Builds the platform',
+      location: 'Madrid',
+      jobDescription: 'TypeScript and Node.js',
+    },
+    service: mockPositionService.createPosition,
+    arrange: () => mockPositionService.createPosition.mockResolvedValue(position),
+  },
+  {
+    operation: 'GET /positions',
+    url: '/positions',
+    service: mockPositionService.listPositions,
+    arrange: () => mockPositionService.listPositions.mockResolvedValue({ positions: [position] }),
+  },
+  {
+    operation: 'GET /positions/{id}',
+    url: '/positions/1',
+    service: mockPositionService.getPositionById,
+    arrange: () => mockPositionService.getPositionById.mockResolvedValue(position),
+  },
+  {
+    operation: 'PATCH /positions/{id}',
+    url: '/positions/1',
+    body: { title: 'Lead Developer' },
+    service: mockPositionService.updatePosition,
+    arrange: () => mockPositionService.updatePosition.mockResolvedValue(position),
+  },
+  {
+    operation: 'DELETE /positions/{id}',
+    url: '/positions/1',
+    service: mockPositionService.deletePosition,
+    arrange: () => mockPositionService.deletePosition.mockResolvedValue({ success: true, positionId: 1 }),
+  },
+  {
+    operation: 'POST /positions/{id}/transitions',
+    url: '/positions/1/transitions',
+    body: { status: 'Open' },
+    service: mockPositionService.transitionPositionStatus,
+    arrange: () =>
+      mockPositionService.transitionPositionStatus.mockResolvedValue({ position, transition: positionTransition }),
+  },
+  {
+    operation: 'GET /positions/{id}/transitions',
+    url: '/positions/1/transitions',
+    service: mockPositionService.getPositionStatusHistory,
+    arrange: () => mockPositionService.getPositionStatusHistory.mockResolvedValue({ history: [positionTransition] }),
+  },
+  {
+    operation: 'POST /positions/{id}/applications',
+    url: '/positions/1/applications',
+    body: { candidateId: 1 },
+    service: mockApplicationService.submitApplication,
+    arrange: () =>
+      mockApplicationService.submitApplication.mockResolvedValue({
+        id: 10,
+        positionId: 1,
+        candidateId: 1,
+        applicationDate: date,
+        currentInterviewStep: 7,
+        notes: null,
+        candidate: { id: 1, firstName: 'John', lastName: 'Doe', email: 'john.doe@gmail.com' },
+        interviewStep: { id: 7, name: 'Technical Interview', orderIndex: 1 },
+      }),
+  },
+  {
+    operation: 'GET /applications/{id}/history',
+    url: '/applications/10/history',
+    service: mockApplicationService.getApplicationStageHistory,
+    arrange: () =>
+      mockApplicationService.getApplicationStageHistory.mockResolvedValue({
+        applicationId: 10,
+        currentStep: { id: 7, name: 'Technical Interview', enteredAt: date },
+        history: [
+          {
+            id: 1,
+            applicationId: 10,
+            fromStepId: null,
+            fromStepName: null,
+            toStepId: 7,
+            toStepName: 'Technical Interview',
+            changedById: 1,
+            reason: null,
+            changedAt: date,
+            leftAt: null,
+            durationSeconds: 3600,
+          },
+        ],
+      }),
+  },
+  {
+    operation: 'GET /positions/{id}/candidates',
+    url: '/positions/1/candidates',
+    service: mockKanbanService.getPositionCandidates,
+    arrange: () =>
+      mockKanbanService.getPositionCandidates.mockResolvedValue({
+        candidates: [{ id: 1, fullName: 'John Doe', currentInterviewStep: 'Technical Interview', weightedScore: null }],
+      }),
+  },
+  {
+    operation: 'GET /positions/{id}/board',
+    url: '/positions/1/board',
+    service: mockKanbanService.getPositionBoard,
+    arrange: () =>
+      mockKanbanService.getPositionBoard.mockResolvedValue({
+        positionId: 1,
+        interviewFlowId: 1,
+        columns: [
+          {
+            id: 7,
+            name: 'Technical Interview',
+            orderIndex: 1,
+            interviewType: { id: 2, name: 'Technical Interview' },
+            count: 1,
+            applicationIds: [10],
+            cards: [card],
+          },
+        ],
+        totalCount: 1,
+        unassigned: [],
+      }),
+  },
+  {
+    operation: 'PUT /candidates/{id}/stage',
+    url: '/candidates/1/stage',
+    body: { stage: 'Technical Interview' },
+    service: mockKanbanService.updateCandidateStage,
+    arrange: () =>
+      mockKanbanService.updateCandidateStage.mockResolvedValue({ success: true, candidateId: 1, newStage: 'Technical Interview' }),
+  },
+  {
+    operation: 'PUT /applications/{id}/stage',
+    url: '/applications/10/stage',
+    body: { stepId: 7 },
+    service: mockKanbanService.updateApplicationStage,
+    arrange: () => mockKanbanService.updateApplicationStage.mockResolvedValue({ success: true, card }),
+  },
+  {
+    operation: 'PUT /positions/{positionId}/candidates/{candidateId}/stage',
+    url: '/positions/1/candidates/1/stage',
+    body: { stage: 'Technical Interview' },
+    service: mockKanbanService.updatePositionCandidateStage,
+    arrange: () => mockKanbanService.updatePositionCandidateStage.mockResolvedValue({ success: true, card }),
+  },
+  {
+    operation: 'POST /interview-flows',
+    url: '/interview-flows',
+    body: { description: 'Standard flow' },
+    service: mockInterviewFlowService.createInterviewFlow,
+    arrange: () => mockInterviewFlowService.createInterviewFlow.mockResolvedValue(interviewFlow),
+  },
+  {
+    operation: 'GET /interview-flows',
+    url: '/interview-flows',
+    service: mockInterviewFlowService.listInterviewFlows,
+    arrange: () => mockInterviewFlowService.listInterviewFlows.mockResolvedValue({ interviewFlows: [interviewFlow] }),
+  },
+  {
+    operation: 'GET /interview-flows/{id}',
+    url: '/interview-flows/1',
+    service: mockInterviewFlowService.getInterviewFlow,
+    arrange: () => mockInterviewFlowService.getInterviewFlow.mockResolvedValue(interviewFlow),
+  },
+  {
+    operation: 'PATCH /interview-flows/{id}',
+    url: '/interview-flows/1',
+    body: { maxStepsForward: 2 },
+    service: mockInterviewFlowService.updateInterviewFlow,
+    arrange: () => mockInterviewFlowService.updateInterviewFlow.mockResolvedValue(interviewFlow),
+  },
+  {
+    operation: 'DELETE /interview-flows/{id}',
+    url: '/interview-flows/1',
+    service: mockInterviewFlowService.deleteInterviewFlow,
+    arrange: () => mockInterviewFlowService.deleteInterviewFlow.mockResolvedValue({ success: true, interviewFlowId: 1 }),
+  },
+  {
+    operation: 'POST /interview-flows/{id}/clone',
+    url: '/interview-flows/1/clone',
+    body: {},
+    service: mockInterviewFlowService.cloneInterviewFlow,
+    arrange: () => mockInterviewFlowService.cloneInterviewFlow.mockResolvedValue({ ...interviewFlow, id: 2 }),
+  },
+  {
+    operation: 'POST /interview-flows/{id}/steps',
+    url: '/interview-flows/1/steps',
+    body: { name: 'Technical Interview', interviewTypeId: 2 },
+    service: mockInterviewFlowService.addInterviewStep,
+    arrange: () => mockInterviewFlowService.addInterviewStep.mockResolvedValue(interviewStep),
+  },
+  {
+    operation: 'PUT /interview-flows/{id}/steps/order',
+    url: '/interview-flows/1/steps/order',
+    body: { stepIds: [7] },
+    service: mockInterviewFlowService.reorderInterviewSteps,
+    arrange: () => mockInterviewFlowService.reorderInterviewSteps.mockResolvedValue(interviewFlow),
+  },
+  {
+    operation: 'PATCH /interview-flows/{id}/steps/{stepId}',
+    url: '/interview-flows/1/steps/7',
+    body: { name: 'Coding Interview' },
+    service: mockInterviewFlowService.updateInterviewStep,
+    arrange: () => mockInterviewFlowService.updateInterviewStep.mockResolvedValue(interviewStep),
+  },
+  {
+    operation: 'DELETE /interview-flows/{id}/steps/{stepId}',
+    url: '/interview-flows/1/steps/7',
+    service: mockInterviewFlowService.removeInterviewStep,
+    arrange: () =>
+      mockInterviewFlowService.removeInterviewStep.mockResolvedValue({ success: true, stepId: 7, migratedApplications: 0 }),
+  },
+  {
+    operation: 'GET /interview-types',
+    url: '/interview-types',
+    service: mockInterviewFlowService.listInterviewTypes,
+    arrange: () => mockInterviewFlowService.listInterviewTypes.mockResolvedValue({ interviewTypes: [interviewType] }),
+  },
+  {
+    operation: 'POST /interview-types',
+    url: '/interview-types',
+    body: { name: 'Technical Interview' },
+    service: mockInterviewFlowService.createInterviewType,
+    arrange: () => mockInterviewFlowService.createInterviewType.mockResolvedValue(interviewType),
+  },
+  {
+    operation: 'POST /applications/{id}/interviews',
+    url: '/applications/10/interviews',
+    body: { interviewStepId: 7, employeeId: 1, interviewDate: '2026-11-02T10:00:00.000Z' },
+    service: mockInterviewService.scheduleInterview,
+    arrange: () => mockInterviewService.scheduleInterview.mockResolvedValue(interview),
+  },
+  {
+    operation: 'GET /applications/{id}/interviews',
+    url: '/applications/10/interviews',
+    service: mockInterviewService.listApplicationInterviews,
+    arrange: () => mockInterviewService.listApplicationInterviews.mockResolvedValue({ interviews: [interview] }),
+  },
+  {
+    operation: 'GET /interviews/{id}',
+    url: '/interviews/20',
+    service: mockInterviewService.getInterview,
+    arrange: () => mockInterviewService.getInterview.mockResolvedValue(interview),
+  },
+  {
+    operation: 'PATCH /interviews/{id}',
+    url: '/interviews/20',
+    body: { interviewDate: '2026-11-03T10:00:00.000Z' },
+    service: mockInterviewService.rescheduleInterview,
+    arrange: () => mockInterviewService.rescheduleInterview.mockResolvedValue(interview),
+  },
+  {
+    operation: 'POST /interviews/{id}/cancel',
+    url: '/interviews/20/cancel',
+    body: { reason: 'Candidate withdrew' },
+    service: mockInterviewService.cancelInterview,
+    arrange: () =>
+      mockInterviewService.cancelInterview.mockResolvedValue({
+        ...interview,
+        status: 'Cancelled',
+        cancellationReason: 'Candidate withdrew',
+      }),
+  },
+  {
+    operation: 'PUT /interviews/{id}/result',
+    url: '/interviews/20/result',
+    body: { result: 'Passed', score: 4 },
+    service: mockInterviewService.submitInterviewResult,
+    arrange: () =>
+      mockInterviewService.submitInterviewResult.mockResolvedValue({ ...interview, status: 'Completed', result: 'Passed', score: 4 }),
+  },
+  {
+    operation: 'GET /interview-types/{id}/scorecard',
+    url: '/interview-types/2/scorecard',
+    service: mockScorecardService.getScorecardTemplate,
+    arrange: () => mockScorecardService.getScorecardTemplate.mockResolvedValue(scorecardTemplate),
+  },
+  {
+    operation: 'PUT /interview-types/{id}/scorecard',
+    url: '/interview-types/2/scorecard',
+    body: { competencies: [{ name: 'Problem solving', weight: 2 }] },
+    service: mockScorecardService.updateScorecardTemplate,
+    arrange: () => mockScorecardService.updateScorecardTemplate.mockResolvedValue(scorecardTemplate),
+  },
+  {
+    operation: 'PUT /interviews/{id}/scorecard',
+    url: '/interviews/20/scorecard',
+    body: { ratings: [{ competencyId: 1, rating: 4 }], recommendation: 'Hire' },
+    service: mockScorecardService.submitScorecard,
+    arrange: () =>
+      mockScorecardService.submitScorecard.mockResolvedValue({
+        ...interview,
+        status: 'Completed',
+        recommendation: 'Hire',
+        weightedScore: 75,
+        ratings: [
+          {
+            id: 1,
+            interviewId: 20,
+            competencyId: 1,
+            competencyName: 'Problem solving',
+            weight: 2,
+            scaleMin: 1,
+            scaleMax: 5,
+            rating: 4,
+            comment: null,
+          },
+        ],
+      }),
+  },
+  {
+    operation: 'GET /applications/{id}/scorecard',
+    url: '/applications/10/scorecard',
+    service: mockScorecardService.getApplicationScorecard,
+    arrange: () =>
+      mockScorecardService.getApplicationScorecard.mockResolvedValue({
+        applicationId: 10,
+        weightedScore: 75,
+        competencies: [{ competencyId: 1, competencyName: 'Problem solving', weight: 2, ratingsCount: 1, averageScore: 75 }],
+        interviews: [
+          {
+            interviewId: 20,
+            interviewStepId: 7,
+            interviewStepName: 'Technical Interview',
+            employeeId: 1,
+            recommendation: 'Hire',
+            weightedScore: 75,
+          },
+        ],
+        recommendations: { Hire: 1 },
+      }),
+  },
+];
+
+// Sends the request of a case, e.g. GET /positions/{id} as GET /positions/1
+const send = ({ operation, url, body }: ContractCase, path = url) => {
+  const method = operation.split(' ')[0].toLowerCase() as 'get' | 'put' | 'post' | 'delete' | 'patch';
+  const test = request(app)[method](path);
+  return body ? test.send(body) : test;
+};
+
+// Operations that answer without calling anything that can fail
+const INFALLIBLE = ['GET /', 'GET /openapi.json'];
+
+describe('API Contract Tests', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockAuthService.authenticate.mockResolvedValue(employee);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test.each(cases)('should answer $operation as documented', async (contractCase) => {
+    // Arrange
+    contractCase.arrange();
+
+    // Act
+    const response = await send(contractCase);
+
+    // Assert
+    expect(response.status).toBeLessThan(300);
+  });
+
+  test.each(cases.filter(({ operation }) => !INFALLIBLE.includes(operation)))(
+    'should answer a failed $operation with a documented problem',
+    async (contractCase) => {
+      // Arrange
+      contractCase.arrange();
+      if (contractCase.fail) contractCase.fail();
+      else contractCase.service!.mockRejectedValue(unavailable);
+
+      // Act
+      const response = await send(contractCase);
+
+      // Assert
+      expect(response.status).toBeGreaterThanOrEqual(400);
+    },
+  );
+
+  test.each(cases.filter(({ url }) => /\/\d+(\/|$)/.test(url)))(
+    'should answer $operation with an invalid ID as documented',
+    async (contractCase) => {
+      // Act
+      const response = await send(contractCase, contractCase.url.replace(/\/\d+(?=\/|$)/, '/abc'));
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('VALIDATION_FAILED');
+    },
+  );
+
+  test('should have exercised every documented operation', () => {
+    // Assert
+    expect(operationsWithout(app, 'success')).toEqual([]);
+    expect(operationsWithout(app, 'error').filter((operation) => !INFALLIBLE.includes(operation))).toEqual([]);
+  });
+});
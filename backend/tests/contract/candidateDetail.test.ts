@@ -0,0 +1,104 @@
+import { PrismaClient } from '@prisma/client';
+import { app } from '../../src/index';
+import request from './openApiContract';
+
+// The candidate detail is read through the Candidate model, so only the database is mocked
+jest.mock('@prisma/client', () => {
+  const client = { $extends: () => client, $disconnect: jest.fn(), candidate: { findUnique: jest.fn() } };
+  return { ...jest.requireActual('@prisma/client'), PrismaClient: jest.fn(() => client) };
+});
+const mockPrisma = new PrismaClient() as unknown as { candidate: { findUnique: jest.Mock } };
+
+// Requests are made as a signed-in employee
+jest.mock('../../src/application/services/authService', () => ({
+  authenticate: jest.fn().mockResolvedValue({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' }),
+}));
+
+const date = new Date('2026-10-19T10:00:00.000Z');
+
+// A row as returned by Candidate.findOne's query
+const candidateRow = {
+  id: 1,
+  companyId: 1,
+  firstName: 'John',
+  lastName: 'Doe',
+  email: 'john.doe@gmail.com',
+  phone: '612345678',
+  address: null,
+  educations: [
+    { id: 5, candidateId: 1, institution: 'UPM', title: 'Master in AI', startDate: new Date('2020-09-01'), endDate: null },
+  ],
+  workExperiences: [
+    {
+      id: 4,
+      candidateId: 1,
+      company: 'LTI',
+      position: 'Developer',
+      description: 'Backend team',
+      startDate: new Date('2021-01-01'),
+      endDate: new Date('2023-06-30'),
+    },
+  ],
+  resumes: [
+    {
+      id: 7,
+      candidateId: 1,
+      filePath: '3a/3a7bd3e2.pdf',
+      fileType: 'application/pdf',
+      originalName: 'cv.pdf',
+      fileSize: 2048,
+      version: 1,
+      isCurrent: true,
+      uploadDate: date,
+      scanStatus: 'Clean',
+      scanDetail: null,
+      scannedAt: date,
+      textContent: 'John Doe, developer',
+    },
+  ],
+  applications: [
+    {
+      id: 10,
+      positionId: 1,
+      candidateId: 1,
+      applicationDate: date,
+      currentInterviewStep: 7,
+      notes: null,
+      rejectionReason: null,
+      position: { id: 1, title: 'Senior Developer' },
+      interviews: [{ interviewDate: date, interviewStep: { name: 'Technical Interview' }, notes: null, score: 4 }],
+    },
+  ],
+};
+
+describe('Candidate Detail Contract Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should answer GET /candidates/:id with the documented candidate detail', async () => {
+    // Arrange
+    mockPrisma.candidate.findUnique.mockResolvedValue(candidateRow);
+
+    // Act
+    const response = await request(app).get('/candidates/1');
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(response.body.education).toEqual([expect.objectContaining({ id: 5, institution: 'UPM' })]);
+    expect(response.body.workExperience).toEqual([expect.objectContaining({ id: 4, company: 'LTI' })]);
+    expect(response.body.applications).toEqual([expect.objectContaining({ id: 10, position: { id: 1, title: 'Senior Developer' } })]);
+  });
+
+  test('should answer an unknown candidate with a documented problem', async () => {
+    // Arrange
+    mockPrisma.candidate.findUnique.mockResolvedValue(null);
+
+    // Act
+    const response = await request(app).get('/candidates/404');
+
+    // Assert
+    expect(response.status).toBe(404);
+    expect(response.body.code).toBe('CANDIDATE_PROFILE_NOT_FOUND');
+  });
+});
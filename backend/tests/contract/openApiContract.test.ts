@@ -0,0 +1,93 @@
+import express from 'express';
+import supertest from 'supertest';
+import { expectToMatchContract } from './openApiContract';
+
+const position = {
+  id: 1,
+  companyId: 1,
+  interviewFlowId: 1,
+  title: 'Senior Developer',
+  description: 'Builds the platform',
+  status: 'Open',
+  isVisible: true,
+  location: 'Madrid',
+  jobDescription: 'TypeScript and Node.js',
+  requirements: null,
+  responsibilities: null,
+  salaryMin: null,
+  salaryMax: null,
+  employmentType: null,
+  benefits: null,
+  companyDescription: null,
+  applicationDeadline: '2026-12-31T00:00:00.000Z',
+  contactInfo: null,
+};
+
+// An app whose GET /positions/:id answers with whatever the test gives it
+const appAnswering = (status: number, body: unknown, type = 'application/json') =>
+  express().get('/positions/:id', (req, res) => {
+    res.status(status).type(type).send(JSON.stringify(body));
+  });
+
+const check = async (app: express.Express, path = '/positions/1') => {
+  const response = await supertest(app).get(path);
+  return () => expectToMatchContract(app, response);
+};
+
+describe('OpenAPI Contract', () => {
+  describe('expectToMatchContract', () => {
+    test('should accept a response that matches the document', async () => {
+      // Act
+      const run = await check(appAnswering(200, position));
+
+      // Assert
+      expect(run).not.toThrow();
+    });
+
+    test.each([
+      ['a missing field', (({ title, ...rest }) => rest)(position), "must have required property 'title'"],
+      ['an undocumented field', { ...position, internalNotes: 'secret' }, 'must NOT have additional properties'],
+      ['a field of the wrong type', { ...position, salaryMin: '50000' }, '/salaryMin must be number,null'],
+      ['a value outside its enum', { ...position, status: 'Archived' }, '/status must be equal to one of the allowed values'],
+      ['a malformed date', { ...position, applicationDeadline: '31/12/2026' }, '/applicationDeadline must match format "date-time"'],
+    ])('should reject a body with %s', async (_, body, message) => {
+      // Act
+      const run = await check(appAnswering(200, body));
+
+      // Assert
+      expect(run).toThrow(message);
+    });
+
+    test('should reject a success status the document does not list', async () => {
+      // Act
+      const run = await check(appAnswering(201, position));
+
+      // Assert
+      expect(run).toThrow('GET /positions/1 answered 201, a status the OpenAPI document does not list');
+    });
+
+    test('should reject a Content-Type the document does not list', async () => {
+      // Act
+      const run = await check(appAnswering(200, position, 'text/plain'));
+
+      // Assert
+      expect(run).toThrow('GET /positions/1 answered 200 with text/plain, not one of application/json');
+    });
+
+    test('should check errors against the problem document', async () => {
+      // Act
+      const run = await check(appAnswering(404, { error: 'Position not found' }, 'application/problem+json'));
+
+      // Assert
+      expect(run).toThrow("must have required property 'code'");
+    });
+
+    test('should check unknown routes against the problem document', async () => {
+      // Act
+      const run = await check(appAnswering(200, position), '/nowhere');
+
+      // Assert
+      expect(run).toThrow('GET /nowhere answered 404 with text/html, not one of application/problem+json');
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import Ajv2020, { ValidateFunction } from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { Application } from 'express';
+import supertest, { Response } from 'supertest';
+import { buildOpenApiDocument } from '../../src/openapi/document';
+import { JsonSchema, OPENAPI_METHODS, OpenApiDocument, OpenApiOperation } from '../../src/types/openapi';
+
+/**
+ * The OpenAPI document of an app, compiled for checking responses against it
+ */
+interface Contract {
+  document: OpenApiDocument;
+  ajv: Ajv2020;
+  validators: Map<string, ValidateFunction>;
+  // Literal paths first, so /candidates/search is not taken for /candidates/{id}
+  operations: { name: string; method: string; pattern: RegExp; operation: OpenApiOperation }[];
+  // The kinds of response each operation has answered with so far
+  answered: Map<string, Set<ResponseKind>>;
+}
+
+type ResponseKind = 'success' | 'error';
+
+// supertest leaves the request that was sent on the response
+type SentResponse = Response & { req: { method: string; path: string } };
+
+interface ResponseObject {
+  description: string;
+  content?: Record<string, { schema?: JsonSchema }>;
+}
+
+const contracts = new WeakMap<Application, Contract>();
+
+const COMPONENT_SCHEMAS = '#/components/schemas/';
+const JSON_CONTENT = /^application\/(.+\+)?json$/;
+
+/**
+ * Points component refs at the registered schema and, unless a schema says otherwise, rejects
+ * properties it does not list: a field added to a response must be documented too
+ */
+const toContractSchema = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(toContractSchema);
+  if (!value || typeof value !== 'object') return value;
+
+  const schema = Object.fromEntries(
+    Object.entries(value).map(([key, child]) => [
+      key,
+      key === '$ref' && typeof child === 'string'
+        ? child.replace(COMPONENT_SCHEMAS, 'openapi.json#/$defs/')
+        : key === 'properties'
+          ? Object.fromEntries(Object.entries(child as object).map(([name, field]) => [name, toContractSchema(field)]))
+          : toContractSchema(child),
+    ]),
+  );
+  if ('properties' in schema && !('additionalProperties' in schema)) schema.additionalProperties = false;
+  return schema;
+};
+
+const contractOf = (app: Application): Contract => {
+  let contract = contracts.get(app);
+  if (contract) return contract;
+
+  const document = buildOpenApiDocument(app);
+  const ajv = new Ajv2020({ allErrors: true });
+  addFormats(ajv);
+  ajv.addSchema({ $id: 'openapi.json', $defs: toContractSchema(document.components.schemas) });
+
+  const operations = Object.entries(document.paths)
+    .flatMap(([path, pathItem]) =>
+      OPENAPI_METHODS.filter((method) => pathItem[method]).map((method) => ({
+        name: `${method.toUpperCase()} ${path}`,
+        method,
+        templated: (path.match(/{/g) ?? []).length,
+        pattern: new RegExp(`^${path.replace(/{\w+}/g, '[^/]+')}/?$`),
+        operation: pathItem[method]!,
+      })),
+    )
+    .sort((a, b) => a.templated - b.templated)
+    .map(({ name, method, pattern, operation }) => ({ name, method, pattern, operation }));
+
+  contract = { document, ajv, validators: new Map(), operations, answered: new Map() };
+  contracts.set(app, contract);
+  return contract;
+};
+
+const resolveResponse = (document: OpenApiDocument, response: unknown): ResponseObject => {
+  const ref = (response as { $ref?: string }).$ref;
+  return (ref ? document.components.responses[ref.replace('#/components/responses/', '')] : response) as ResponseObject;
+};
+
+const describeErrors = (validate: ValidateFunction): string =>
+  (validate.errors ?? []).map((error) => `  ${error.instancePath || '(body)'} ${error.message}`).join('\n');
+
+/**
+ * Checks a response against the OpenAPI document of the app that sent it: its status must be
+ * documented (errors may fall back to the default response), its Content-Type listed for that
+ * status, and a JSON body must match the documented schema. Unknown routes must answer with a
+ * problem document.
+ */
+export const expectToMatchContract = (app: Application, response: Response): void => {
+  const contract = contractOf(app);
+  const { document, ajv, validators } = contract;
+  const { req } = response as SentResponse;
+  const method = req.method.toLowerCase();
+  const path = req.path.split('?')[0];
+  const label = `${req.method} ${path} answered ${response.status}`;
+
+  const matched = contract.operations.find((candidate) => candidate.method === method && candidate.pattern.test(path));
+  const responses = matched?.operation.responses ?? { default: { $ref: '#/components/responses/Problem' } };
+  const documented = responses[String(response.status)] ?? (response.status >= 400 ? responses.default : undefined);
+  if (!documented) {
+    throw new Error(`${label}, a status the OpenAPI document does not list`);
+  }
+
+  const record = () => {
+    if (!matched) return;
+    const kinds = contract.answered.get(matched.name) ?? new Set<ResponseKind>();
+    kinds.add(response.status >= 400 ? 'error' : 'success');
+    contract.answered.set(matched.name, kinds);
+  };
+
+  const { content } = resolveResponse(document, documented);
+  const contentType = (response.headers['content-type'] ?? '').split(';')[0].trim();
+  if (!content) {
+    if (response.text) throw new Error(`${label} with a body, but the OpenAPI document lists none`);
+    record();
+    return;
+  }
+  const media = content[contentType];
+  if (!media) {
+    throw new Error(`${label} with ${contentType || 'no Content-Type'}, not one of ${Object.keys(content).join(', ')}`);
+  }
+  if (!JSON_CONTENT.test(contentType) || !media.schema) {
+    record();
+    return;
+  }
+
+  const key = `${matched?.method} ${matched?.pattern.source} ${response.status} ${contentType}`;
+  let validate = validators.get(key);
+  if (!validate) {
+    validate = ajv.compile(toContractSchema(media.schema) as JsonSchema);
+    validators.set(key, validate);
+  }
+  if (!validate(response.body)) {
+    throw new Error(`${label} with a body that does not match the OpenAPI document:\n${describeErrors(validate)}`);
+  }
+  record();
+};
+
+/**
+ * Lists the operations, e.g. GET /positions/{id}, that no checked response of the app has
+ * answered with a success (2xx) or an error (4xx or 5xx)
+ */
+export const operationsWithout = (app: Application, kind: ResponseKind): string[] => {
+  const { operations, answered } = contractOf(app);
+  return operations.map(({ name }) => name).filter((name) => !answered.get(name)?.has(kind));
+};
+
+/**
+ * A drop-in for supertest's request(app) that also checks every response against the OpenAPI
+ * document, after the test's own expectations
+ */
+export const request = (app: Application): ReturnType<typeof supertest> => {
+  const agent = supertest(app);
+  for (const method of OPENAPI_METHODS) {
+    const send = agent[method].bind(agent);
+    agent[method] = ((url: string) => {
+      const test = send(url);
+      const end = test.end.bind(test);
+      test.end = (callback) => {
+        test.expect((response) => expectToMatchContract(app, response));
+        return end(callback);
+      };
+      return test;
+    }) as typeof send;
+  }
+  return agent;
+};
+
+export default request;
@@ -0,0 +1,180 @@
+import * as applicationService from '../../src/application/services/applicationService';
+import { app } from '../../src/index';
+import {
+  ApplicationNotFoundError,
+  DuplicateApplicationError,
+  InvalidCandidateDataError,
+  PositionNotOpenError
+} from '../../src/types/errors';
+import request from '../contract/openApiContract';
+
+// Requests are made as a signed-in employee
+jest.mock('../../src/application/services/authService', () => ({
+  authenticate: jest.fn().mockResolvedValue({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' }),
+}));
+
+// Mock the application service
+jest.mock('../../src/application/services/applicationService');
+const mockApplicationService = applicationService as jest.Mocked<typeof applicationService>;
+
+describe('Application Controllers Integration Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /positions/:id/applications', () => {
+    test('should submit an application', async () => {
+      // Arrange
+      const applicationDate = new Date('2026-10-19T09:00:00.000Z');
+      mockApplicationService.submitApplication.mockResolvedValue({
+        id: 100,
+        positionId: 1,
+        candidateId: 3,
+        applicationDate,
+        currentInterviewStep: 21,
+        notes: null,
+        candidate: { id: 3, firstName: 'John', lastName: 'Doe', email: 'john.doe@gmail.com' },
+        interviewStep: { id: 21, name: 'Initial Screening', orderIndex: 1 },
+      });
+
+      // Act
+      const response = await request(app).post('/positions/1/applications').send({ candidateId: 3 }).expect(201);
+
+      // Assert
+      expect(response.body.interviewStep.name).toBe('Initial Screening');
+      expect(mockApplicationService.submitApplication).toHaveBeenCalledWith(1, {
+        candidateId: 3,
+        candidate: undefined,
+        notes: undefined,
+      });
+    });
+
+    test('should return 400 for invalid position ID', async () => {
+      // Act
+      const response = await request(app).post('/positions/abc/applications').send({ candidateId: 3 }).expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([{ path: 'params.id', code: 'invalid_string', message: 'must be a positive integer' }]);
+      expect(mockApplicationService.submitApplication).not.toHaveBeenCalled();
+    });
+
+    test('should return 400 listing every invalid candidate field', async () => {
+      // Act
+      const response = await request(app)
+        .post('/positions/1/applications')
+        .send({ candidate: { email: 'x' } })
+        .expect(400);
+
+      // Assert
+      expect(response.body.code).toBe('VALIDATION_FAILED');
+      expect(response.body.details).toEqual([
+        { path: 'body.candidate.firstName', code: 'invalid_type', message: 'Required' },
+        { path: 'body.candidate.lastName', code: 'invalid_type', message: 'Required' },
+        { path: 'body.candidate.email', code: 'invalid_string', message: 'must be an email address' },
+      ]);
+      expect(mockApplicationService.submitApplication).not.toHaveBeenCalled();
+    });
+
+    test('should return 400 when both candidateId and candidate are given', async () => {
+      // Act
+      const response = await request(app)
+        .post('/positions/1/applications')
+        .send({ candidateId: 3, candidate: { firstName: 'John', lastName: 'Doe', email: 'john.doe@gmail.com' } })
+        .expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([
+        { path: 'body.candidate', code: 'custom', message: expect.any(String) },
+      ]);
+    });
+
+    test('should return 400 when the service rejects the candidate', async () => {
+      // Arrange
+      mockApplicationService.submitApplication.mockRejectedValue(new InvalidCandidateDataError('Invalid date'));
+
+      // Act
+      const response = await request(app)
+        .post('/positions/1/applications')
+        .send({ candidate: { firstName: 'John', lastName: 'Doe', email: 'john.doe@gmail.com' } })
+        .expect(400);
+
+      // Assert
+      expect(response.body.detail).toBe('Invalid candidate data: Invalid date');
+    });
+
+    test('should return 409 for duplicate applications', async () => {
+      // Arrange
+      mockApplicationService.submitApplication.mockRejectedValue(new DuplicateApplicationError(3, 1));
+
+      // Act
+      const response = await request(app).post('/positions/1/applications').send({ candidateId: 3 }).expect(409);
+
+      // Assert
+      expect(response.body.detail).toBe('Candidate 3 has already applied to position 1');
+    });
+
+    test('should return 409 when the position is not Open', async () => {
+      // Arrange
+      mockApplicationService.submitApplication.mockRejectedValue(new PositionNotOpenError(1, 'Closed'));
+
+      // Act
+      const response = await request(app).post('/positions/1/applications').send({ candidateId: 3 }).expect(409);
+
+      // Assert
+      expect(response.body.detail).toBe('Position 1 is not accepting applications (status: Closed)');
+    });
+  });
+
+  describe('GET /applications/:id/history', () => {
+    test('should return the stage history', async () => {
+      // Arrange
+      const changedAt = new Date('2026-10-19T09:00:00.000Z');
+      mockApplicationService.getApplicationStageHistory.mockResolvedValue({
+        applicationId: 10,
+        currentStep: { id: 21, name: 'Initial Screening', enteredAt: changedAt },
+        history: [
+          {
+            id: 1,
+            applicationId: 10,
+            fromStepId: null,
+            fromStepName: null,
+            toStepId: 21,
+            toStepName: 'Initial Screening',
+            changedById: null,
+            reason: null,
+            changedAt,
+            leftAt: null,
+            durationSeconds: 3600,
+          },
+        ],
+      });
+
+      // Act
+      const response = await request(app).get('/applications/10/history').expect(200);
+
+      // Assert
+      expect(response.body.currentStep.enteredAt).toBe(changedAt.toISOString());
+      expect(response.body.history).toHaveLength(1);
+      expect(mockApplicationService.getApplicationStageHistory).toHaveBeenCalledWith(10);
+    });
+
+    test('should return 400 for invalid application ID', async () => {
+      // Act
+      const response = await request(app).get('/applications/abc/history').expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([{ path: 'params.id', code: 'invalid_string', message: 'must be a positive integer' }]);
+    });
+
+    test('should return 404 when the application does not exist', async () => {
+      // Arrange
+      mockApplicationService.getApplicationStageHistory.mockRejectedValue(new ApplicationNotFoundError(404));
+
+      // Act
+      const response = await request(app).get('/applications/404/history').expect(404);
+
+      // Assert
+      expect(response.body.detail).toBe('Application not found: 404');
+    });
+  });
+});
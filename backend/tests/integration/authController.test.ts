@@ -0,0 +1,214 @@
+import { Response } from 'supertest';
+import * as authService from '../../src/application/services/authService';
+import { app } from '../../src/index';
+import {
+  AuthenticationRequiredError,
+  InvalidCredentialsError,
+  InvalidPasswordResetTokenError,
+  InvalidSessionError,
+  WeakPasswordError
+} from '../../src/types/errors';
+import request from '../contract/openApiContract';
+
+// Mock the auth service
+jest.mock('../../src/application/services/authService');
+const mockAuthService = authService as jest.Mocked<typeof authService>;
+
+const employee = { id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Interviewer' };
+
+const session = {
+  employee,
+  tokens: {
+    accessToken: 'access-token',
+    accessTokenExpiresAt: new Date(Date.now() + 15 * 60 * 1000),
+    refreshToken: 'refresh-token',
+    refreshTokenExpiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+  },
+};
+
+const cookieNamed = (response: Response, name: string): string | undefined =>
+  ([] as string[]).concat(response.headers['set-cookie'] ?? []).find((cookie) => cookie.startsWith(`${name}=`));
+
+describe('Auth Controllers Integration Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /auth/login', () => {
+    test('should set the session cookies and return the access token', async () => {
+      // Arrange
+      mockAuthService.login.mockResolvedValue(session);
+
+      // Act
+      const response = await request(app)
+        .post('/auth/login')
+        .send({ email: 'alice.johnson@lti.com', password: 'correct horse battery' });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockAuthService.login).toHaveBeenCalledWith('alice.johnson@lti.com', 'correct horse battery');
+      expect(response.body).toMatchObject({ employee, accessToken: 'access-token' });
+      expect(response.body).not.toHaveProperty('refreshToken');
+      expect(cookieNamed(response, 'access_token')).toMatch(/access-token; Path=\/; Expires=.*HttpOnly; SameSite=Strict/);
+      expect(cookieNamed(response, 'refresh_token')).toMatch(/refresh-token; Path=\/auth; Expires=.*HttpOnly; SameSite=Strict/);
+    });
+
+    test('should return 401 for invalid credentials', async () => {
+      // Arrange
+      mockAuthService.login.mockRejectedValue(new InvalidCredentialsError());
+
+      // Act
+      const response = await request(app).post('/auth/login').send({ email: 'alice.johnson@lti.com', password: 'nope' });
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(response.body).toMatchObject({ detail: 'Invalid email or password' });
+      expect(response.headers['set-cookie']).toBeUndefined();
+    });
+  });
+
+  describe('POST /auth/refresh', () => {
+    test('should rotate the session with the refresh token cookie', async () => {
+      // Arrange
+      mockAuthService.refresh.mockResolvedValue({ ...session, tokens: { ...session.tokens, refreshToken: 'next-token' } });
+
+      // Act
+      const response = await request(app).post('/auth/refresh').set('Cookie', 'refresh_token=refresh-token');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockAuthService.refresh).toHaveBeenCalledWith('refresh-token');
+      expect(cookieNamed(response, 'refresh_token')).toMatch(/^refresh_token=next-token;/);
+    });
+
+    test('should return 401 and clear the cookies when the session has ended', async () => {
+      // Arrange
+      mockAuthService.refresh.mockRejectedValue(new InvalidSessionError('refresh token is invalid or has expired'));
+
+      // Act
+      const response = await request(app).post('/auth/refresh').set('Cookie', 'refresh_token=stale');
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(cookieNamed(response, 'refresh_token')).toMatch(/^refresh_token=;.*Expires=Thu, 01 Jan 1970/);
+    });
+  });
+
+  describe('POST /auth/logout', () => {
+    test('should end the session and clear the cookies', async () => {
+      // Arrange
+      mockAuthService.logout.mockResolvedValue();
+
+      // Act
+      const response = await request(app).post('/auth/logout').set('Cookie', 'refresh_token=refresh-token');
+
+      // Assert
+      expect(response.status).toBe(204);
+      expect(mockAuthService.logout).toHaveBeenCalledWith('refresh-token');
+      expect(cookieNamed(response, 'access_token')).toMatch(/^access_token=;/);
+    });
+  });
+
+  describe('GET /auth/me', () => {
+    test('should return the employee of a Bearer token with their permissions', async () => {
+      // Arrange
+      mockAuthService.authenticate.mockResolvedValue(employee);
+
+      // Act
+      const response = await request(app).get('/auth/me').set('Authorization', 'Bearer access-token');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockAuthService.authenticate).toHaveBeenCalledWith('access-token');
+      expect(response.body).toEqual({
+        ...employee,
+        permissions: ['applications:read', 'interviews:read', 'interviews:evaluate', 'flows:read'],
+      });
+    });
+
+    test('should fall back to the access token cookie', async () => {
+      // Arrange
+      mockAuthService.authenticate.mockResolvedValue(employee);
+
+      // Act
+      const response = await request(app).get('/auth/me').set('Cookie', 'access_token=cookie-token');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockAuthService.authenticate).toHaveBeenCalledWith('cookie-token');
+    });
+  });
+
+  describe('protected routes', () => {
+    test('should return 401 without a session', async () => {
+      // Arrange
+      mockAuthService.authenticate.mockRejectedValue(new AuthenticationRequiredError());
+
+      // Act
+      const response = await request(app).get('/candidates');
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(response.headers['www-authenticate']).toBe('Bearer');
+      expect(response.body).toMatchObject({ detail: 'Authentication required' });
+    });
+
+    test('should return 401 for an ended session', async () => {
+      // Arrange
+      mockAuthService.authenticate.mockRejectedValue(new InvalidSessionError('session has ended'));
+
+      // Act
+      const response = await request(app).get('/positions/1/candidates').set('Authorization', 'Bearer revoked');
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(response.body).toMatchObject({ detail: 'Invalid session: session has ended' });
+    });
+  });
+
+  describe('POST /auth/password-reset', () => {
+    test('should answer 202 whether or not the email exists', async () => {
+      // Arrange
+      mockAuthService.requestPasswordReset.mockResolvedValue();
+
+      // Act
+      const response = await request(app).post('/auth/password-reset').send({ email: 'nobody@lti.com' });
+
+      // Assert
+      expect(response.status).toBe(202);
+      expect(mockAuthService.requestPasswordReset).toHaveBeenCalledWith('nobody@lti.com');
+    });
+  });
+
+  describe('POST /auth/password-reset/confirm', () => {
+    test('should set the new password', async () => {
+      // Arrange
+      mockAuthService.resetPassword.mockResolvedValue();
+
+      // Act
+      const response = await request(app)
+        .post('/auth/password-reset/confirm')
+        .send({ token: 'reset-token', password: 'a brand new password' });
+
+      // Assert
+      expect(response.status).toBe(204);
+      expect(mockAuthService.resetPassword).toHaveBeenCalledWith('reset-token', 'a brand new password');
+    });
+
+    test('should return 400 for a weak password or an invalid token', async () => {
+      // Arrange
+      mockAuthService.resetPassword
+        .mockRejectedValueOnce(new WeakPasswordError('must be at least 12 characters long'))
+        .mockRejectedValueOnce(new InvalidPasswordResetTokenError());
+
+      // Act
+      const weak = await request(app).post('/auth/password-reset/confirm').send({ token: 't', password: 'short' });
+      const invalid = await request(app).post('/auth/password-reset/confirm').send({ token: 't', password: 'a brand new password' });
+
+      // Assert
+      expect(weak.status).toBe(400);
+      expect(weak.body).toMatchObject({ detail: 'Password must be at least 12 characters long' });
+      expect(invalid.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import * as accessControlService from '../../src/application/services/accessControlService';
+import * as authService from '../../src/application/services/authService';
+import * as candidateService from '../../src/application/services/candidateService';
+import * as interviewService from '../../src/application/services/interviewService';
+import * as kanbanService from '../../src/application/services/kanbanService';
+import * as positionService from '../../src/application/services/positionService';
+import { currentCompanyId } from '../../src/application/tenancy';
+import { app } from '../../src/index';
+import request from '../contract/openApiContract';
+
+// Mock the services behind authentication, scoping and the routes under test
+jest.mock('../../src/application/services/authService');
+const mockAuthService = authService as jest.Mocked<typeof authService>;
+
+jest.mock('../../src/application/services/accessControlService');
+const mockAccessControlService = accessControlService as jest.Mocked<typeof accessControlService>;
+
+jest.mock('../../src/application/services/candidateService');
+const mockCandidateService = candidateService as jest.Mocked<typeof candidateService>;
+
+jest.mock('../../src/application/services/interviewService');
+const mockInterviewService = interviewService as jest.Mocked<typeof interviewService>;
+
+jest.mock('../../src/application/services/kanbanService');
+const mockKanbanService = kanbanService as jest.Mocked<typeof kanbanService>;
+
+jest.mock('../../src/application/services/positionService');
+const mockPositionService = positionService as jest.Mocked<typeof positionService>;
+
+const signInAs = (role: string) => {
+  const employee = { id: 7, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role };
+  mockAuthService.authenticate.mockResolvedValue(employee);
+  return employee;
+};
+
+describe('Authorization Integration Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockAccessControlService.canAccess.mockResolvedValue(true);
+  });
+
+  describe('permissions', () => {
+    test('should not let interviewers move kanban cards', async () => {
+      // Arrange
+      signInAs('Interviewer');
+
+      // Act
+      const response = await request(app).put('/applications/10/stage').send({ stage: 'Technical Interview' });
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(response.headers['content-type']).toMatch(/^application\/problem\+json/);
+      expect(response.body).toEqual({
+        type: 'urn:lti:problem:access-denied',
+        title: 'Access denied',
+        status: 403,
+        detail: 'Access denied: role Interviewer lacks the applications:move permission',
+        instance: '/applications/10/stage',
+        code: 'ACCESS_DENIED',
+        correlationId: response.headers['x-correlation-id'],
+      });
+      expect(mockKanbanService.updateApplicationStage).not.toHaveBeenCalled();
+    });
+
+    test('should not let hiring managers create candidates', async () => {
+      // Arrange
+      signInAs('Hiring Manager');
+
+      // Act
+      const response = await request(app)
+        .post('/candidates')
+        .send({ firstName: 'John', lastName: 'Doe', email: 'john.doe@gmail.com' });
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(response.body.code).toBe('ACCESS_DENIED');
+      expect(mockCandidateService.addCandidate).not.toHaveBeenCalled();
+    });
+
+    test('should let recruiters move kanban cards', async () => {
+      // Arrange
+      signInAs('Recruiter');
+      mockKanbanService.updateApplicationStage.mockResolvedValue({
+        success: true,
+        card: {
+          id: 1,
+          fullName: 'John Doe',
+          currentInterviewStep: 'Technical Interview',
+          weightedScore: null,
+          applicationId: 10,
+          positionId: 1,
+          interviewStepId: 7,
+        },
+      });
+
+      // Act
+      const response = await request(app).put('/applications/10/stage').send({ stage: 'Technical Interview' });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockKanbanService.updateApplicationStage).toHaveBeenCalled();
+    });
+
+    test('should deny everything to an unknown role', async () => {
+      // Arrange
+      signInAs('Owner');
+
+      // Act
+      const response = await request(app).get('/interview-flows');
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ detail: 'Access denied: role Owner lacks the flows:read permission', code: 'ACCESS_DENIED' });
+    });
+  });
+
+  describe('scopes', () => {
+    test('should deny interviewers the applications they do not interview', async () => {
+      // Arrange
+      const employee = signInAs('Interviewer');
+      mockAccessControlService.canAccess.mockResolvedValue(false);
+
+      // Act
+      const response = await request(app).get('/applications/3/interviews');
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ detail: 'Access denied: application 3 is outside your scope', code: 'ACCESS_DENIED' });
+      expect(mockAccessControlService.canAccess).toHaveBeenCalledWith(employee, 'application', 3);
+      expect(mockInterviewService.listApplicationInterviews).not.toHaveBeenCalled();
+    });
+
+    test('should let interviewers see the applications they interview', async () => {
+      // Arrange
+      signInAs('Interviewer');
+      mockInterviewService.listApplicationInterviews.mockResolvedValue({ interviews: [] });
+
+      // Act
+      const response = await request(app).get('/applications/3/interviews');
+
+      // Assert
+      expect(response.status).toBe(200);
+    });
+
+    test('should only list the positions of a hiring manager company', async () => {
+      // Arrange
+      signInAs('Hiring Manager');
+      mockPositionService.listPositions.mockResolvedValue({ positions: [] });
+
+      // Act
+      const response = await request(app).get('/positions?companyId=2');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockPositionService.listPositions).toHaveBeenCalledWith(expect.objectContaining({ companyId: 1 }));
+    });
+
+    test('should not let hiring managers open positions for another company', async () => {
+      // Arrange
+      const employee = signInAs('Hiring Manager');
+      mockAccessControlService.canAccess.mockResolvedValue(false);
+
+      // Act
+      const response = await request(app).post('/positions').send({ companyId: 2, title: 'Engineer' });
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(response.body.detail).toBe('Access denied: company 2 is outside your scope');
+      expect(mockAccessControlService.canAccess).toHaveBeenCalledWith(employee, 'company', 2);
+      expect(mockPositionService.createPosition).not.toHaveBeenCalled();
+    });
+
+    test('should leave malformed IDs to the route', async () => {
+      // Arrange
+      signInAs('Interviewer');
+
+      // Act
+      const response = await request(app).get('/interviews/abc');
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(mockAccessControlService.canAccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tenancy', () => {
+    test('should run the route scoped to the company of the employee', async () => {
+      // Arrange
+      signInAs('Admin');
+      let companyId: number | undefined;
+      mockCandidateService.findCandidateById.mockImplementation(async () => {
+        companyId = currentCompanyId();
+        return null;
+      });
+
+      // Act
+      const response = await request(app).get('/candidates/5');
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect(companyId).toBe(1);
+      expect(currentCompanyId()).toBeUndefined();
+    });
+  });
+});
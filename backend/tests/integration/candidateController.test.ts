@@ -0,0 +1,305 @@
+import * as candidateSearchService from '../../src/application/services/candidateSearchService';
+import * as candidateService from '../../src/application/services/candidateService';
+import { app } from '../../src/index';
+import {
+  CandidateEmailExistsError,
+  CandidateProfileNotFoundError,
+  CandidateRecordNotFoundError,
+  InvalidCandidateDataError,
+  InvalidCandidateFilterError
+} from '../../src/types/errors';
+import request from '../contract/openApiContract';
+
+// Requests are made as a signed-in employee
+jest.mock('../../src/application/services/authService', () => ({
+  authenticate: jest.fn().mockResolvedValue({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' }),
+}));
+
+// Mock the candidate service
+jest.mock('../../src/application/services/candidateService');
+const mockCandidateService = candidateService as jest.Mocked<typeof candidateService>;
+
+// Mock the candidate search service
+jest.mock('../../src/application/services/candidateSearchService');
+const mockCandidateSearchService = candidateSearchService as jest.Mocked<typeof candidateSearchService>;
+
+const profile = {
+  id: 1,
+  firstName: 'John',
+  lastName: 'Doe',
+  email: 'john.doe@gmail.com',
+  phone: null,
+  address: null,
+  educations: [],
+  workExperiences: [],
+};
+
+describe('Candidate Edit Controllers Integration Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /candidates', () => {
+    test('should parse query filters', async () => {
+      // Arrange
+      mockCandidateService.listCandidates.mockResolvedValue({ candidates: [], nextCursor: null });
+
+      // Act
+      const response = await request(app)
+        .get('/candidates?name=John&positionId=1&interviewStep=Offer&minScore=60.5&cursor=10&limit=5&sortBy=lastName')
+        .expect(200);
+
+      // Assert
+      expect(response.body).toEqual({ candidates: [], nextCursor: null });
+      expect(mockCandidateService.listCandidates).toHaveBeenCalledWith({
+        name: 'John',
+        email: undefined,
+        phone: undefined,
+        positionId: 1,
+        interviewStep: 'Offer',
+        minScore: 60.5,
+        maxScore: undefined,
+        institution: undefined,
+        company: undefined,
+        cursor: 10,
+        limit: 5,
+        sortBy: 'lastName',
+        sortOrder: undefined,
+      });
+    });
+
+    test('should return 400 for a malformed filter', async () => {
+      // Act
+      const response = await request(app).get('/candidates?cursor=abc&sortBy=address').expect(400);
+
+      // Assert
+      expect(response.body.code).toBe('VALIDATION_FAILED');
+      expect(response.body.details).toEqual([
+        { path: 'query.cursor', code: 'invalid_string', message: 'must be a positive integer' },
+        { path: 'query.sortBy', code: 'invalid_enum_value', message: expect.stringContaining("received 'address'") },
+      ]);
+      expect(mockCandidateService.listCandidates).not.toHaveBeenCalled();
+    });
+
+    test('should return 400 when the service rejects a filter', async () => {
+      // Arrange
+      mockCandidateService.listCandidates.mockRejectedValue(new InvalidCandidateFilterError('minScore'));
+
+      // Act
+      const response = await request(app).get('/candidates?minScore=80&maxScore=20').expect(400);
+
+      // Assert
+      expect(response.body.detail).toBe('Invalid candidate filter: minScore');
+    });
+  });
+
+  describe('GET /candidates/search', () => {
+    test('should search with the query and page', async () => {
+      // Arrange
+      const result = {
+        query: 'kubernetes madrid',
+        total: 1,
+        results: [
+          {
+            candidateId: 1,
+            fullName: 'John Doe',
+            email: 'john.doe@gmail.com',
+            rank: 0.35,
+            snippet: 'Ran <mark>Kubernetes</mark> clusters',
+          },
+        ],
+      };
+      mockCandidateSearchService.searchCandidates.mockResolvedValue(result);
+
+      // Act
+      const response = await request(app).get('/candidates/search?q=kubernetes%20madrid&limit=10&offset=20').expect(200);
+
+      // Assert
+      expect(response.body).toEqual(result);
+      expect(mockCandidateSearchService.searchCandidates).toHaveBeenCalledWith({
+        q: 'kubernetes madrid',
+        limit: 10,
+        offset: 20,
+      });
+      expect(mockCandidateService.findCandidateById).not.toHaveBeenCalled();
+    });
+
+    test('should return 400 when the query is missing', async () => {
+      // Act
+      const response = await request(app).get('/candidates/search').expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([{ path: 'query.q', code: 'invalid_type', message: 'Required' }]);
+      expect(mockCandidateSearchService.searchCandidates).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /candidates/:id', () => {
+    test('should replace the candidate profile', async () => {
+      // Arrange
+      const body = { firstName: 'John', lastName: 'Doe', email: 'john.doe@gmail.com' };
+      mockCandidateService.replaceCandidate.mockResolvedValue(profile);
+
+      // Act
+      const response = await request(app).put('/candidates/1').send(body);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(profile);
+      expect(mockCandidateService.replaceCandidate).toHaveBeenCalledWith(1, body);
+    });
+
+    test('should return 400 listing every invalid field', async () => {
+      // Act
+      const response = await request(app)
+        .put('/candidates/1')
+        .send({ firstName: 'John', email: 'john.doe', educations: [{ institution: 'UC3M', title: 'CS', startDate: '2015' }] });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({
+        status: 400,
+        detail: 'Request validation failed',
+        code: 'VALIDATION_FAILED',
+        details: [
+          { path: 'body.lastName', code: 'invalid_type', message: 'Required' },
+          { path: 'body.email', code: 'invalid_string', message: 'must be an email address' },
+          { path: 'body.educations.0.startDate', code: 'invalid_string', message: 'must be a YYYY-MM-DD date' },
+        ],
+      });
+      expect(mockCandidateService.replaceCandidate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /candidates/:id', () => {
+    test('should update the supplied fields', async () => {
+      // Arrange
+      mockCandidateService.updateCandidate.mockResolvedValue({ ...profile, phone: '612345678' });
+
+      // Act
+      const response = await request(app).patch('/candidates/1').send({ phone: '612345678' });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockCandidateService.updateCandidate).toHaveBeenCalledWith(1, { phone: '612345678' });
+    });
+
+    test('should return 409 when the email belongs to another candidate', async () => {
+      // Arrange
+      mockCandidateService.updateCandidate.mockRejectedValue(new CandidateEmailExistsError('jane.smith@gmail.com'));
+
+      // Act
+      const response = await request(app).patch('/candidates/1').send({ email: 'jane.smith@gmail.com' });
+
+      // Assert
+      expect(response.status).toBe(409);
+    });
+
+    test('should return 400 for a malformed candidate id', async () => {
+      // Act
+      const response = await request(app).patch('/candidates/abc').send({ phone: '612345678' });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([{ path: 'params.id', code: 'invalid_string', message: 'must be a positive integer' }]);
+      expect(mockCandidateService.updateCandidate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /candidates/:id', () => {
+    test('should delete the candidate and report removed rows', async () => {
+      // Arrange
+      const deleted = {
+        success: true,
+        candidateId: 1,
+        deleted: { applications: 1, interviews: 2, educations: 0, workExperiences: 0, resumes: 1 },
+      };
+      mockCandidateService.deleteCandidate.mockResolvedValue(deleted);
+
+      // Act
+      const response = await request(app).delete('/candidates/1');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(deleted);
+    });
+
+    test('should return 404 for an unknown candidate', async () => {
+      // Arrange
+      mockCandidateService.deleteCandidate.mockRejectedValue(new CandidateProfileNotFoundError(99));
+
+      // Act
+      const response = await request(app).delete('/candidates/99');
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({ detail: 'Candidate not found: 99' });
+    });
+  });
+
+  describe('educations and work experiences', () => {
+    test('should add an education', async () => {
+      // Arrange
+      const body = { institution: 'UPM', title: 'Master in AI', startDate: '2020-09-01' };
+      mockCandidateService.addEducation.mockResolvedValue({
+        id: 5,
+        candidateId: 1,
+        institution: 'UPM',
+        title: 'Master in AI',
+        startDate: new Date('2020-09-01'),
+        endDate: null,
+      });
+
+      // Act
+      const response = await request(app).post('/candidates/1/educations').send(body);
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(mockCandidateService.addEducation).toHaveBeenCalledWith(1, body);
+    });
+
+    test('should update a work experience', async () => {
+      // Arrange
+      mockCandidateService.updateWorkExperience.mockResolvedValue({
+        id: 4,
+        candidateId: 1,
+        company: 'LTI',
+        position: 'Lead',
+        description: null,
+        startDate: new Date('2021-01-01'),
+        endDate: null,
+      });
+
+      // Act
+      const response = await request(app).patch('/candidates/1/work-experiences/4').send({ position: 'Lead' });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockCandidateService.updateWorkExperience).toHaveBeenCalledWith(1, 4, { position: 'Lead' });
+    });
+
+    test('should return 404 when removing another candidate\'s education', async () => {
+      // Arrange
+      mockCandidateService.removeEducation.mockRejectedValue(new CandidateRecordNotFoundError('education', 30, 1));
+
+      // Act
+      const response = await request(app).delete('/candidates/1/educations/30');
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({ detail: 'Candidate 1 has no education with ID 30' });
+    });
+
+    test('should return 400 for a malformed work experience id', async () => {
+      // Act
+      const response = await request(app).delete('/candidates/1/work-experiences/x');
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([
+        { path: 'params.workExperienceId', code: 'invalid_string', message: 'must be a positive integer' },
+      ]);
+      expect(mockCandidateService.removeWorkExperience).not.toHaveBeenCalled();
+    });
+  });
+});
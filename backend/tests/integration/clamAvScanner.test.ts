@@ -0,0 +1,28 @@
+import { createClamAvScanner } from '../../src/application/scanning/clamAvScanner';
+
+/**
+ * Runs against a real ClamAV daemon, e.g. the clamav service of docker-compose:
+ * CLAMAV_TEST_HOST=localhost npx jest tests/integration/clamAvScanner.test.ts
+ */
+const host = process.env.CLAMAV_TEST_HOST;
+const describeWithDaemon = host ? describe : describe.skip;
+
+// The EICAR test file, detected by every antivirus and harmless
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+describeWithDaemon('ClamAV Scanner against a live daemon', () => {
+  const scanner = createClamAvScanner({
+    driver: 'clamav',
+    host: host ?? 'localhost',
+    port: Number(process.env.CLAMAV_TEST_PORT || 3310),
+    timeoutMs: 30000,
+  });
+
+  test('should pass a clean document', async () => {
+    await expect(scanner.scan(Buffer.from('%PDF-1.7\ntrailer << >>\n%%EOF'))).resolves.toEqual({ status: 'clean' });
+  });
+
+  test('should detect the EICAR test file', async () => {
+    await expect(scanner.scan(Buffer.from(EICAR))).resolves.toMatchObject({ status: 'infected' });
+  });
+});
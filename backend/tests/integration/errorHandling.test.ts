@@ -0,0 +1,111 @@
+import * as candidateService from '../../src/application/services/candidateService';
+import { app } from '../../src/index';
+import { DependencyFailureError, InvalidStorageConfigError } from '../../src/types/errors';
+import request from '../contract/openApiContract';
+
+// Requests are made as a signed-in employee
+jest.mock('../../src/application/services/authService', () => ({
+  authenticate: jest.fn().mockResolvedValue({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' }),
+}));
+
+// Mock the service behind the routes under test
+jest.mock('../../src/application/services/candidateService');
+const mockCandidateService = candidateService as jest.Mocked<typeof candidateService>;
+
+describe('Error Handling Integration Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('problem details', () => {
+    test('should answer an unknown route with ROUTE_NOT_FOUND', async () => {
+      // Act
+      const response = await request(app).get('/nowhere').expect(404);
+
+      // Assert
+      expect(response.headers['content-type']).toMatch(/^application\/problem\+json/);
+      expect(response.body).toEqual({
+        type: 'urn:lti:problem:route-not-found',
+        title: 'Route not found',
+        status: 404,
+        detail: 'No route for GET /nowhere',
+        instance: '/nowhere',
+        code: 'ROUTE_NOT_FOUND',
+        correlationId: response.headers['x-correlation-id'],
+      });
+    });
+
+    test('should answer a body that is not JSON with MALFORMED_JSON', async () => {
+      // Act
+      const response = await request(app)
+        .post('/candidates')
+        .set('Content-Type', 'application/json')
+        .send('{"firstName": ')
+        .expect(400);
+
+      // Assert
+      expect(response.body).toMatchObject({ status: 400, code: 'MALFORMED_JSON' });
+      expect(mockCandidateService.addCandidate).not.toHaveBeenCalled();
+    });
+
+    test('should answer a failing dependency with 503', async () => {
+      // Arrange
+      mockCandidateService.findCandidateById.mockRejectedValue(new DependencyFailureError('The database', 'is unreachable'));
+
+      // Act
+      const response = await request(app).get('/candidates/1').expect(503);
+
+      // Assert
+      expect(response.body).toMatchObject({ status: 503, detail: 'The database is unreachable', code: 'DEPENDENCY_FAILURE' });
+    });
+
+    test.each([
+      ['an unexpected error', new Error('connect ECONNREFUSED 10.0.0.5:5432')],
+      ['an internal error', new InvalidStorageConfigError('FILE_STORAGE_DIR', 'is not set')],
+    ])('should hide the detail of %s', async (_, error) => {
+      // Arrange
+      mockCandidateService.findCandidateById.mockRejectedValue(error);
+
+      // Act
+      const response = await request(app).get('/candidates/1').expect(500);
+
+      // Assert
+      expect(response.body).toMatchObject({ status: 500, detail: 'Internal server error', code: 'INTERNAL_ERROR' });
+      expect(JSON.stringify(response.body)).not.toContain(error.message);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining(response.body.correlationId), error);
+    });
+  });
+
+  describe('correlation ID', () => {
+    test('should reuse a well-formed correlation ID sent by the client', async () => {
+      // Act
+      const response = await request(app).get('/nowhere').set('X-Correlation-Id', 'req-42.retry:1').expect(404);
+
+      // Assert
+      expect(response.headers['x-correlation-id']).toBe('req-42.retry:1');
+      expect(response.body.correlationId).toBe('req-42.retry:1');
+    });
+
+    test('should replace a correlation ID that could forge log lines', async () => {
+      // Act
+      const response = await request(app).get('/nowhere').set('X-Correlation-Id', 'a b\tINFO forged').expect(404);
+
+      // Assert
+      expect(response.headers['x-correlation-id']).not.toBe('a b\tINFO forged');
+      expect(response.headers['x-correlation-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    test('should send a correlation ID with successful responses', async () => {
+      // Act
+      const response = await request(app).get('/').expect(200);
+
+      // Assert
+      expect(response.headers['x-correlation-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import * as interviewService from '../../src/application/services/interviewService';
+import { app } from '../../src/index';
+import {
+  InterviewerNotEligibleError,
+  InterviewNotFoundError,
+  InvalidInterviewStateError,
+  StepNotInFlowError
+} from '../../src/types/errors';
+import request from '../contract/openApiContract';
+
+// Requests are made as a signed-in employee
+jest.mock('../../src/application/services/authService', () => ({
+  authenticate: jest.fn().mockResolvedValue({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' }),
+}));
+
+// Mock the interview service
+jest.mock('../../src/application/services/interviewService');
+const mockInterviewService = interviewService as jest.Mocked<typeof interviewService>;
+
+const interviewDate = new Date('2026-11-02T10:00:00.000Z');
+
+const interview = {
+  id: 20,
+  applicationId: 10,
+  interviewStepId: 7,
+  employeeId: 5,
+  interviewDate,
+  status: 'Scheduled',
+  result: null,
+  score: null,
+  notes: null,
+  cancellationReason: null,
+  recommendation: null,
+  weightedScore: null,
+  interviewStep: { id: 7, name: 'Technical Interview' },
+  employee: { id: 5, name: 'Alice Johnson', email: 'alice.johnson@lti.com' },
+};
+
+describe('Interview Controllers Integration Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /applications/:id/interviews', () => {
+    test('should schedule an interview', async () => {
+      // Arrange
+      mockInterviewService.scheduleInterview.mockResolvedValue(interview);
+      const body = { interviewStepId: 7, employeeId: 5, interviewDate: interviewDate.toISOString() };
+
+      // Act
+      const response = await request(app).post('/applications/10/interviews').send(body).expect(201);
+
+      // Assert
+      expect(response.body.interviewDate).toBe(interviewDate.toISOString());
+      expect(mockInterviewService.scheduleInterview).toHaveBeenCalledWith(10, body);
+    });
+
+    test('should return 400 for a step outside the application flow', async () => {
+      // Arrange
+      mockInterviewService.scheduleInterview.mockRejectedValue(new StepNotInFlowError(99, 3));
+
+      // Act
+      const response = await request(app)
+        .post('/applications/10/interviews')
+        .send({ interviewStepId: 99, employeeId: 5, interviewDate: interviewDate.toISOString() })
+        .expect(400);
+
+      // Assert
+      expect(response.body.detail).toBe('Interview step 99 does not belong to interview flow 3');
+    });
+
+    test('should return 400 for an ineligible interviewer', async () => {
+      // Arrange
+      mockInterviewService.scheduleInterview.mockRejectedValue(
+        new InterviewerNotEligibleError(5, 'employee is inactive'),
+      );
+
+      // Act
+      const response = await request(app)
+        .post('/applications/10/interviews')
+        .send({ interviewStepId: 7, employeeId: 5, interviewDate: interviewDate.toISOString() })
+        .expect(400);
+
+      // Assert
+      expect(response.body.detail).toBe('Employee 5 cannot conduct this interview: employee is inactive');
+    });
+
+    test('should return 400 for invalid application ID', async () => {
+      // Act
+      const response = await request(app).post('/applications/abc/interviews').send({}).expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual(
+        expect.arrayContaining([{ path: 'params.id', code: 'invalid_string', message: 'must be a positive integer' }]),
+      );
+      expect(mockInterviewService.scheduleInterview).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /interviews/:id', () => {
+    test('should return 404 when the interview does not exist', async () => {
+      // Arrange
+      mockInterviewService.getInterview.mockRejectedValue(new InterviewNotFoundError(404));
+
+      // Act
+      const response = await request(app).get('/interviews/404').expect(404);
+
+      // Assert
+      expect(response.body.detail).toBe('Interview not found: 404');
+    });
+  });
+
+  describe('POST /interviews/:id/cancel', () => {
+    test('should return 409 for an interview that is no longer scheduled', async () => {
+      // Arrange
+      mockInterviewService.cancelInterview.mockRejectedValue(new InvalidInterviewStateError(20, 'Completed', 'cancel'));
+
+      // Act
+      const response = await request(app).post('/interviews/20/cancel').send({}).expect(409);
+
+      // Assert
+      expect(response.body.detail).toBe('Cannot cancel interview 20 while it is Completed');
+    });
+  });
+
+  describe('PUT /interviews/:id/result', () => {
+    test('should submit the result', async () => {
+      // Arrange
+      mockInterviewService.submitInterviewResult.mockResolvedValue({
+        ...interview,
+        status: 'Completed',
+        result: 'Passed',
+        score: 4,
+      });
+
+      // Act
+      const response = await request(app)
+        .put('/interviews/20/result')
+        .send({ result: 'Passed', score: 4 })
+        .expect(200);
+
+      // Assert
+      expect(response.body.status).toBe('Completed');
+      expect(mockInterviewService.submitInterviewResult).toHaveBeenCalledWith(20, { result: 'Passed', score: 4 });
+    });
+  });
+});
@@ -0,0 +1,231 @@
+import * as interviewFlowService from '../../src/application/services/interviewFlowService';
+import { app } from '../../src/index';
+import {
+  DuplicateStepNameError,
+  InterviewFlowInUseError,
+  InterviewFlowNotFoundError,
+  InvalidInterviewFlowDataError,
+  StepHasApplicationsError
+} from '../../src/types/errors';
+import request from '../contract/openApiContract';
+
+// Requests are made as a signed-in employee
+jest.mock('../../src/application/services/authService', () => ({
+  authenticate: jest.fn().mockResolvedValue({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' }),
+}));
+
+// Mock the interview flow service
+jest.mock('../../src/application/services/interviewFlowService');
+const mockInterviewFlowService = interviewFlowService as jest.Mocked<typeof interviewFlowService>;
+
+const interviewStep = {
+  id: 1,
+  interviewFlowId: 1,
+  interviewTypeId: 1,
+  name: 'Initial Screening',
+  orderIndex: 1,
+  interviewType: { id: 1, name: 'HR Interview' },
+};
+
+const interviewFlow = {
+  id: 1,
+  companyId: 1,
+  description: 'Standard development process',
+  maxStepsForward: 1,
+  requireScoredInterview: true,
+  rejectionStepName: 'Rejected',
+  interviewSteps: [interviewStep],
+};
+
+describe('Interview Flow Controllers Integration Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /interview-flows', () => {
+    test('should create an interview flow', async () => {
+      // Arrange
+      mockInterviewFlowService.createInterviewFlow.mockResolvedValue(interviewFlow);
+      const body = { description: 'Standard development process', steps: [{ name: 'Initial Screening', interviewTypeId: 1 }] };
+
+      // Act
+      const response = await request(app).post('/interview-flows').send(body).expect(201);
+
+      // Assert
+      expect(response.body).toEqual(interviewFlow);
+      expect(mockInterviewFlowService.createInterviewFlow).toHaveBeenCalledWith(body);
+    });
+
+    test('should return 400 when validation fails', async () => {
+      // Act
+      const response = await request(app)
+        .post('/interview-flows')
+        .send({ maxStepsForward: 0, steps: [{ name: ' ' }] })
+        .expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([
+        { path: 'body.maxStepsForward', code: 'too_small', message: 'must be a positive integer' },
+        { path: 'body.steps.0.name', code: 'custom', message: 'must not be empty' },
+        { path: 'body.steps.0.interviewTypeId', code: 'invalid_type', message: 'Required' },
+      ]);
+      expect(mockInterviewFlowService.createInterviewFlow).not.toHaveBeenCalled();
+    });
+
+    test('should return 400 when the service rejects the flow', async () => {
+      // Arrange
+      mockInterviewFlowService.createInterviewFlow.mockRejectedValue(
+        new InvalidInterviewFlowDataError('steps', 'contains the step name HR more than once'),
+      );
+
+      // Act
+      const response = await request(app).post('/interview-flows').send({ steps: [{ name: 'HR', interviewTypeId: 1 }, { name: 'HR', interviewTypeId: 1 }] }).expect(400);
+
+      // Assert
+      expect(response.body.detail).toBe('Invalid interview flow data: steps contains the step name HR more than once');
+    });
+  });
+
+  describe('GET /interview-flows/:id', () => {
+    test('should return 400 for invalid interview flow ID', async () => {
+      // Act
+      const response = await request(app).get('/interview-flows/invalid').expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([{ path: 'params.id', code: 'invalid_string', message: 'must be a positive integer' }]);
+    });
+
+    test('should return 404 when the flow does not exist', async () => {
+      // Arrange
+      mockInterviewFlowService.getInterviewFlow.mockRejectedValue(new InterviewFlowNotFoundError(999));
+
+      // Act
+      const response = await request(app).get('/interview-flows/999').expect(404);
+
+      // Assert
+      expect(response.body.detail).toBe('Interview flow not found: 999');
+    });
+  });
+
+  describe('DELETE /interview-flows/:id', () => {
+    test('should return 409 when positions use the flow', async () => {
+      // Arrange
+      mockInterviewFlowService.deleteInterviewFlow.mockRejectedValue(
+        new InterviewFlowInUseError('Interview flow 1 is used by 2 position(s)'),
+      );
+
+      // Act
+      const response = await request(app).delete('/interview-flows/1').expect(409);
+
+      // Assert
+      expect(response.body.detail).toBe('Interview flow 1 is used by 2 position(s)');
+    });
+  });
+
+  describe('POST /interview-flows/:id/clone', () => {
+    test('should clone a flow', async () => {
+      // Arrange
+      mockInterviewFlowService.cloneInterviewFlow.mockResolvedValue({ ...interviewFlow, id: 2 });
+
+      // Act
+      const response = await request(app).post('/interview-flows/1/clone').send({}).expect(201);
+
+      // Assert
+      expect(response.body.id).toBe(2);
+      expect(mockInterviewFlowService.cloneInterviewFlow).toHaveBeenCalledWith(1, {});
+    });
+  });
+
+  describe('POST /interview-flows/:id/steps', () => {
+    test('should return 409 for a duplicate step name', async () => {
+      // Arrange
+      mockInterviewFlowService.addInterviewStep.mockRejectedValue(new DuplicateStepNameError('Initial Screening', 1));
+
+      // Act
+      const response = await request(app)
+        .post('/interview-flows/1/steps')
+        .send({ name: 'Initial Screening', interviewTypeId: 1 })
+        .expect(409);
+
+      // Assert
+      expect(response.body.detail).toBe('Interview flow 1 already has a step named Initial Screening');
+    });
+  });
+
+  describe('PUT /interview-flows/:id/steps/order', () => {
+    test('should reorder the steps', async () => {
+      // Arrange
+      mockInterviewFlowService.reorderInterviewSteps.mockResolvedValue(interviewFlow);
+
+      // Act
+      await request(app).put('/interview-flows/1/steps/order').send({ stepIds: [3, 1, 2] }).expect(200);
+
+      // Assert
+      expect(mockInterviewFlowService.reorderInterviewSteps).toHaveBeenCalledWith(1, [3, 1, 2]);
+    });
+
+    test('should return 400 when stepIds is missing', async () => {
+      // Act
+      const response = await request(app).put('/interview-flows/1/steps/order').send({}).expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([{ path: 'body.stepIds', code: 'invalid_type', message: 'Required' }]);
+    });
+  });
+
+  describe('DELETE /interview-flows/:id/steps/:stepId', () => {
+    test('should pass the migration target to the service', async () => {
+      // Arrange
+      mockInterviewFlowService.removeInterviewStep.mockResolvedValue({
+        success: true,
+        stepId: 2,
+        migratedApplications: 3,
+      });
+
+      // Act
+      const response = await request(app).delete('/interview-flows/1/steps/2?migrateToStepId=3').expect(200);
+
+      // Assert
+      expect(response.body.migratedApplications).toBe(3);
+      expect(mockInterviewFlowService.removeInterviewStep).toHaveBeenCalledWith(1, 2, 3, 1);
+    });
+
+    test('should return 409 when the step has applications and no target', async () => {
+      // Arrange
+      mockInterviewFlowService.removeInterviewStep.mockRejectedValue(new StepHasApplicationsError(2, 3));
+
+      // Act
+      const response = await request(app).delete('/interview-flows/1/steps/2').expect(409);
+
+      // Assert
+      expect(response.body.detail).toContain('Interview step 2 has 3 application(s)');
+      expect(mockInterviewFlowService.removeInterviewStep).toHaveBeenCalledWith(1, 2, undefined, 1);
+    });
+
+    test('should return 400 for a malformed migration target', async () => {
+      // Act
+      const response = await request(app).delete('/interview-flows/1/steps/2?migrateToStepId=abc').expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([
+        { path: 'query.migrateToStepId', code: 'invalid_string', message: 'must be a positive integer' },
+      ]);
+      expect(mockInterviewFlowService.removeInterviewStep).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /interview-types', () => {
+    test('should list interview types', async () => {
+      // Arrange
+      mockInterviewFlowService.listInterviewTypes.mockResolvedValue({
+        interviewTypes: [{ id: 1, companyId: null, name: 'HR Interview', description: null }],
+      });
+
+      // Act
+      const response = await request(app).get('/interview-types').expect(200);
+
+      // Assert
+      expect(response.body.interviewTypes).toHaveLength(1);
+    });
+  });
+});
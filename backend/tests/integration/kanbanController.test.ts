@@ -1,12 +1,33 @@
-import request from 'supertest';
 import * as kanbanService from '../../src/application/services/kanbanService';
 import { app } from '../../src/index';
-import { CandidateNotFoundError, InvalidStageNameError, PositionNotFoundError } from '../../src/types/errors';
+import {
+  ApplicationNotFoundError,
+  CandidateNotFoundError,
+  InvalidStageNameError,
+  PositionNotFoundError,
+  RejectionReasonRequiredError,
+  ScoredInterviewRequiredError,
+  StageSkipNotAllowedError,
+  StepNotInFlowError
+} from '../../src/types/errors';
+import request from '../contract/openApiContract';
+
+// Requests are made as a signed-in employee
+jest.mock('../../src/application/services/authService', () => ({
+  authenticate: jest.fn().mockResolvedValue({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' }),
+}));
 
 // Mock the kanban service
 jest.mock('../../src/application/services/kanbanService');
 const mockKanbanService = kanbanService as jest.Mocked<typeof kanbanService>;
 
+const noReasons = {
+  overrideReason: undefined,
+  rejectionReason: undefined,
+  reason: undefined,
+  changedById: 1,
+};
+
 describe('Kanban Controllers Integration Tests', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -22,13 +43,13 @@ describe('Kanban Controllers Integration Tests', () => {
             id: 1,
             fullName: 'John Doe',
             currentInterviewStep: 'Technical Interview',
-            averageScore: 85.5,
+            weightedScore: 85.5,
           },
           {
             id: 2,
             fullName: 'Jane Smith',
             currentInterviewStep: 'HR Interview',
-            averageScore: 92.0,
+            weightedScore: 92.0,
           },
         ],
       };
@@ -52,8 +73,8 @@ describe('Kanban Controllers Integration Tests', () => {
         .expect(400);
 
       // Assert
-      expect(response.body).toHaveProperty('error');
-      expect(response.body.error).toBe('Invalid position ID format');
+      expect(response.body.code).toBe('VALIDATION_FAILED');
+      expect(response.body.details).toEqual([{ path: 'params.id', code: 'invalid_string', message: 'must be a positive integer' }]);
     });
 
     test('should return 404 when service throws error', async () => {
@@ -67,8 +88,8 @@ describe('Kanban Controllers Integration Tests', () => {
         .expect(404);
 
       // Assert
-      expect(response.body).toHaveProperty('error');
-      expect(response.body.error).toBe('Position not found: 999');
+      expect(response.body.code).toBe('POSITION_NOT_FOUND');
+      expect(response.body.detail).toBe('Position not found: 999');
     });
 
     test('should return empty candidates array for position with no applications', async () => {
@@ -98,8 +119,59 @@ describe('Kanban Controllers Integration Tests', () => {
         .expect(500);
 
       // Assert
-      expect(response.body).toHaveProperty('error');
-      expect(response.body.error).toBe('Internal server error');
+      expect(response.body.code).toBe('INTERNAL_ERROR');
+      expect(response.body.detail).toBe('Internal server error');
+    });
+  });
+
+  describe('GET /positions/:id/board', () => {
+    test('should return the board columns', async () => {
+      // Arrange
+      const board = {
+        positionId: 1,
+        interviewFlowId: 1,
+        columns: [
+          {
+            id: 1,
+            name: 'Initial Screening',
+            orderIndex: 1,
+            interviewType: { id: 1, name: 'HR Interview' },
+            count: 0,
+            applicationIds: [],
+            cards: [],
+          },
+        ],
+        totalCount: 0,
+        unassigned: [],
+      };
+      mockKanbanService.getPositionBoard.mockResolvedValue(board);
+
+      // Act
+      const response = await request(app).get('/positions/1/board').expect(200);
+
+      // Assert
+      expect(response.body).toEqual(board);
+      expect(mockKanbanService.getPositionBoard).toHaveBeenCalledWith(1);
+    });
+
+    test('should return 400 for invalid position ID', async () => {
+      // Act
+      const response = await request(app).get('/positions/abc/board').expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([{ path: 'params.id', code: 'invalid_string', message: 'must be a positive integer' }]);
+      expect(mockKanbanService.getPositionBoard).not.toHaveBeenCalled();
+    });
+
+    test('should return 404 when position does not exist', async () => {
+      // Arrange
+      mockKanbanService.getPositionBoard.mockRejectedValue(new PositionNotFoundError(999));
+
+      // Act
+      const response = await request(app).get('/positions/999/board').expect(404);
+
+      // Assert
+      expect(response.body.detail).toBe('Position not found: 999');
     });
   });
 
@@ -124,7 +196,7 @@ describe('Kanban Controllers Integration Tests', () => {
 
       // Assert
       expect(response.body).toEqual(mockResponse);
-      expect(mockKanbanService.updateCandidateStage).toHaveBeenCalledWith(candidateId, 'Technical Interview');
+      expect(mockKanbanService.updateCandidateStage).toHaveBeenCalledWith(candidateId, 'Technical Interview', noReasons);
     });
 
     test('should return 400 for invalid candidate ID', async () => {
@@ -135,8 +207,7 @@ describe('Kanban Controllers Integration Tests', () => {
         .expect(400);
 
       // Assert
-      expect(response.body).toHaveProperty('error');
-      expect(response.body.error).toBe('Invalid candidate ID format');
+      expect(response.body.details).toEqual([{ path: 'params.id', code: 'invalid_string', message: 'must be a positive integer' }]);
     });
 
     test('should return 400 for missing stage in request body', async () => {
@@ -147,8 +218,7 @@ describe('Kanban Controllers Integration Tests', () => {
         .expect(400);
 
       // Assert
-      expect(response.body).toHaveProperty('error');
-      expect(response.body.error).toBe('Stage is required');
+      expect(response.body.details).toEqual([{ path: 'body.stage', code: 'invalid_type', message: 'Required' }]);
     });
 
     test('should return 400 for empty stage string', async () => {
@@ -159,8 +229,7 @@ describe('Kanban Controllers Integration Tests', () => {
         .expect(400);
 
       // Assert
-      expect(response.body).toHaveProperty('error');
-      expect(response.body.error).toBe('Stage cannot be empty');
+      expect(response.body.details).toEqual([{ path: 'body.stage', code: 'custom', message: 'must not be empty' }]);
     });
 
     test('should return 400 for non-string stage value', async () => {
@@ -171,8 +240,7 @@ describe('Kanban Controllers Integration Tests', () => {
         .expect(400);
 
       // Assert
-      expect(response.body).toHaveProperty('error');
-      expect(response.body.error).toBe('Stage must be a string');
+      expect(response.body.details).toEqual([{ path: 'body.stage', code: 'invalid_type', message: 'Expected string, received number' }]);
     });
 
     test('should return 404 when service throws candidate not found error', async () => {
@@ -188,8 +256,8 @@ describe('Kanban Controllers Integration Tests', () => {
         .expect(404);
 
       // Assert
-      expect(response.body).toHaveProperty('error');
-      expect(response.body.error).toBe('Candidate application not found: 999');
+      expect(response.body.code).toBe('CANDIDATE_NOT_FOUND');
+      expect(response.body.detail).toBe('Candidate application not found: 999');
     });
 
     test('should return 400 when service throws invalid stage error', async () => {
@@ -205,8 +273,8 @@ describe('Kanban Controllers Integration Tests', () => {
         .expect(400);
 
       // Assert
-      expect(response.body).toHaveProperty('error');
-      expect(response.body.error).toBe('Invalid stage name: Invalid Stage');
+      expect(response.body.code).toBe('INVALID_STAGE_NAME');
+      expect(response.body.detail).toBe('Invalid stage name: Invalid Stage');
     });
 
     test('should return 500 for unexpected service errors', async () => {
@@ -223,8 +291,202 @@ describe('Kanban Controllers Integration Tests', () => {
         .expect(500);
 
       // Assert
-      expect(response.body).toHaveProperty('error');
-      expect(response.body.error).toBe('Internal server error');
+      expect(response.body.code).toBe('INTERNAL_ERROR');
+      expect(response.body.detail).toBe('Internal server error');
+    });
+  });
+
+  describe('PUT /applications/:id/stage', () => {
+    const mockResponse = {
+      success: true,
+      card: {
+        id: 1,
+        fullName: 'John Doe',
+        currentInterviewStep: 'Technical Interview',
+        weightedScore: 90,
+        applicationId: 10,
+        positionId: 1,
+        interviewStepId: 7,
+      },
+    };
+
+    test('should move an application by stage name', async () => {
+      // Arrange
+      mockKanbanService.updateApplicationStage.mockResolvedValue(mockResponse);
+
+      // Act
+      const response = await request(app)
+        .put('/applications/10/stage')
+        .send({ stage: 'Technical Interview' })
+        .expect(200);
+
+      // Assert
+      expect(response.body).toEqual(mockResponse);
+      expect(mockKanbanService.updateApplicationStage).toHaveBeenCalledWith(10, 'Technical Interview', noReasons);
+    });
+
+    test('should move an application by step id', async () => {
+      // Arrange
+      mockKanbanService.updateApplicationStage.mockResolvedValue(mockResponse);
+
+      // Act
+      await request(app).put('/applications/10/stage').send({ stepId: 7 }).expect(200);
+
+      // Assert
+      expect(mockKanbanService.updateApplicationStage).toHaveBeenCalledWith(10, 7, noReasons);
+    });
+
+    test('should return 400 when both stage and stepId are sent', async () => {
+      // Act
+      const response = await request(app)
+        .put('/applications/10/stage')
+        .send({ stage: 'Technical Interview', stepId: 7 })
+        .expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([{ path: 'body.stepId', code: 'custom', message: 'Provide either stage or stepId, not both' }]);
+    });
+
+    test('should return 400 for a step outside the flow', async () => {
+      // Arrange
+      mockKanbanService.updateApplicationStage.mockRejectedValue(new StepNotInFlowError(99, 3));
+
+      // Act
+      const response = await request(app).put('/applications/10/stage').send({ stepId: 99 }).expect(400);
+
+      // Assert
+      expect(response.body.detail).toBe('Interview step 99 does not belong to interview flow 3');
+    });
+
+    test('should pass override and rejection reasons to the service', async () => {
+      // Arrange
+      mockKanbanService.updateApplicationStage.mockResolvedValue(mockResponse);
+
+      // Act
+      await request(app)
+        .put('/applications/10/stage')
+        .send({ stepId: 9, overrideReason: 'Strong referral' })
+        .expect(200);
+
+      // Assert
+      expect(mockKanbanService.updateApplicationStage).toHaveBeenCalledWith(10, 9, {
+        ...noReasons,
+        overrideReason: 'Strong referral',
+      });
+    });
+
+    test('should return 400 when the override reason is not a string', async () => {
+      // Act
+      const response = await request(app)
+        .put('/applications/10/stage')
+        .send({ stepId: 9, overrideReason: 42 })
+        .expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([{ path: 'body.overrideReason', code: 'invalid_type', message: 'Expected string, received number' }]);
+      expect(mockKanbanService.updateApplicationStage).not.toHaveBeenCalled();
+    });
+
+    test('should record the signed-in employee rather than a changedById in the body', async () => {
+      // Arrange
+      mockKanbanService.updateApplicationStage.mockResolvedValue(mockResponse);
+
+      // Act
+      await request(app).put('/applications/10/stage').send({ stepId: 9, changedById: 99 }).expect(200);
+
+      // Assert
+      expect(mockKanbanService.updateApplicationStage).toHaveBeenCalledWith(10, 9, noReasons);
+    });
+
+    test('should return 409 when skipping steps without an override reason', async () => {
+      // Arrange
+      mockKanbanService.updateApplicationStage.mockRejectedValue(
+        new StageSkipNotAllowedError('Initial Screening', 'Manager Interview', 1),
+      );
+
+      // Act
+      const response = await request(app).put('/applications/10/stage').send({ stepId: 9 }).expect(409);
+
+      // Assert
+      expect(response.body.detail).toBe(
+        'Cannot move from Initial Screening to Manager Interview: at most 1 step(s) forward without an override reason',
+      );
+    });
+
+    test('should return 409 when the current step has no scored interview', async () => {
+      // Arrange
+      mockKanbanService.updateApplicationStage.mockRejectedValue(
+        new ScoredInterviewRequiredError(10, 'Initial Screening'),
+      );
+
+      // Act
+      const response = await request(app).put('/applications/10/stage').send({ stepId: 8 }).expect(409);
+
+      // Assert
+      expect(response.body.detail).toBe(
+        'Application 10 needs at least one scored interview at Initial Screening before moving forward',
+      );
+    });
+
+    test('should return 400 when rejecting without a reason', async () => {
+      // Arrange
+      mockKanbanService.updateApplicationStage.mockRejectedValue(new RejectionReasonRequiredError('Rejected'));
+
+      // Act
+      const response = await request(app).put('/applications/10/stage').send({ stage: 'Rejected' }).expect(400);
+
+      // Assert
+      expect(response.body.detail).toBe('A rejection reason is required to move an application to Rejected');
+    });
+
+    test('should return 404 when the application does not exist', async () => {
+      // Arrange
+      mockKanbanService.updateApplicationStage.mockRejectedValue(new ApplicationNotFoundError(404));
+
+      // Act
+      const response = await request(app).put('/applications/404/stage').send({ stepId: 7 }).expect(404);
+
+      // Assert
+      expect(response.body.detail).toBe('Application not found: 404');
+    });
+  });
+
+  describe('PUT /positions/:positionId/candidates/:candidateId/stage', () => {
+    test('should move the candidate on one position only', async () => {
+      // Arrange
+      mockKanbanService.updatePositionCandidateStage.mockResolvedValue({
+        success: true,
+        card: {
+          id: 5,
+          fullName: 'Jane Smith',
+          currentInterviewStep: 'HR Interview',
+          weightedScore: null,
+          applicationId: 11,
+          positionId: 2,
+          interviewStepId: 8,
+        },
+      });
+
+      // Act
+      const response = await request(app)
+        .put('/positions/2/candidates/5/stage')
+        .send({ stage: 'HR Interview' })
+        .expect(200);
+
+      // Assert
+      expect(response.body.card.positionId).toBe(2);
+      expect(mockKanbanService.updatePositionCandidateStage).toHaveBeenCalledWith(2, 5, 'HR Interview', noReasons);
+    });
+
+    test('should return 400 for invalid candidate ID', async () => {
+      // Act
+      const response = await request(app)
+        .put('/positions/2/candidates/abc/stage')
+        .send({ stage: 'HR Interview' })
+        .expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([{ path: 'params.candidateId', code: 'invalid_string', message: 'must be a positive integer' }]);
     });
   });
 });
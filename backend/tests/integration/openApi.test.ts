@@ -0,0 +1,118 @@
+import request from 'supertest';
+import { app } from '../../src/index';
+import { buildOpenApiDocument, listRoutes } from '../../src/openapi/document';
+import { OPENAPI_METHODS } from '../../src/types/openapi';
+
+const document = buildOpenApiDocument(app);
+
+// Every $ref in a part of the document, e.g. #/components/schemas/PositionData
+const refsIn = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.flatMap(refsIn);
+  if (!value || typeof value !== 'object') return [];
+  return Object.entries(value).flatMap(([key, child]) => (key === '$ref' ? [child as string] : refsIn(child)));
+};
+
+const resolve = (ref: string): unknown =>
+  ref
+    .replace(/^#\//, '')
+    .split('/')
+    .reduce<unknown>((node, key) => (node as Record<string, unknown> | undefined)?.[key], document);
+
+const operations = Object.entries(document.paths).flatMap(([path, pathItem]) =>
+  OPENAPI_METHODS.filter((method) => pathItem[method]).map((method) => ({ method, path, operation: pathItem[method]! })),
+);
+
+describe('OpenAPI Integration Tests', () => {
+  describe('document', () => {
+    test.each(listRoutes(app).map((route) => [route.method.toUpperCase(), route.path]))(
+      'should document the registered route %s %s',
+      (method, path) => {
+        // Assert
+        expect(document.paths[path]?.[method.toLowerCase() as (typeof OPENAPI_METHODS)[number]]).toBeDefined();
+      },
+    );
+
+    test('should only document registered routes', () => {
+      // Arrange
+      const registered = listRoutes(app).map((route) => `${route.method} ${route.path}`);
+
+      // Act
+      const documented = operations.map(({ method, path }) => `${method} ${path}`);
+
+      // Assert
+      expect(documented.filter((operation) => !registered.includes(operation))).toEqual([]);
+    });
+
+    test('should resolve every $ref', () => {
+      // Act
+      const unresolved = refsIn(document).filter((ref) => resolve(ref) === undefined);
+
+      // Assert
+      expect(unresolved).toEqual([]);
+    });
+
+    test('should give every operation a tag, a summary and a success response', () => {
+      // Act
+      const incomplete = operations
+        .filter(({ operation }) =>
+          !operation.tags?.length ||
+          !operation.summary ||
+          !Object.keys(operation.responses ?? {}).some((status) => /^2\d\d$/.test(status)))
+        .map(({ method, path }) => `${method} ${path}`);
+
+      // Assert
+      expect(incomplete).toEqual([]);
+    });
+
+    test('should generate parameters and the request body from the route schema', () => {
+      // Act
+      const operation = document.paths['/positions/{id}/transitions']?.post;
+
+      // Assert
+      expect(operation?.parameters).toEqual([
+        expect.objectContaining({ name: 'id', in: 'path', required: true, schema: expect.objectContaining({ type: 'string' }) }),
+      ]);
+      expect(operation?.requestBody).toEqual({
+        required: true,
+        content: { 'application/json': { schema: expect.objectContaining({ type: 'object', required: ['status'] }) } },
+      });
+      expect(operation?.responses).toMatchObject({
+        '400': { $ref: '#/components/responses/BadRequest' },
+        '401': { $ref: '#/components/responses/AuthenticationRequired' },
+        default: { $ref: '#/components/responses/Problem' },
+      });
+    });
+
+    test('should not ask public routes for a session', () => {
+      // Act
+      const login = document.paths['/auth/login']?.post;
+
+      // Assert
+      expect(login?.security).toEqual([]);
+      expect(login?.responses).not.toHaveProperty('401');
+    });
+  });
+
+  describe('GET /openapi.json', () => {
+    test('should serve the document without a session', async () => {
+      // Act
+      const response = await request(app).get('/openapi.json').expect(200);
+
+      // Assert
+      expect(response.headers['content-type']).toMatch(/^application\/json/);
+      expect(response.body.openapi).toBe('3.1.0');
+      expect(Object.keys(response.body.paths)).toEqual(Object.keys(document.paths));
+    });
+  });
+
+  describe('GET /docs', () => {
+    test('should serve Swagger UI without a session', async () => {
+      // Act
+      const response = await request(app).get('/docs/').expect(200);
+
+      // Assert
+      expect(response.headers['content-type']).toMatch(/^text\/html/);
+      expect(response.text).toContain('swagger-ui');
+    });
+  });
+});
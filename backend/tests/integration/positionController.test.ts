@@ -0,0 +1,260 @@
+import * as positionService from '../../src/application/services/positionService';
+import { app } from '../../src/index';
+import {
+  InvalidPositionDataError,
+  InvalidStatusTransitionError,
+  PositionHasApplicationsError,
+  PositionNotFoundError
+} from '../../src/types/errors';
+import request from '../contract/openApiContract';
+
+// Requests are made as a signed-in employee
+jest.mock('../../src/application/services/authService', () => ({
+  authenticate: jest.fn().mockResolvedValue({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' }),
+}));
+
+// Mock the position service
+jest.mock('../../src/application/services/positionService');
+const mockPositionService = positionService as jest.Mocked<typeof positionService>;
+
+const newPosition = {
+  companyId: 1,
+  interviewFlowId: 1,
+  title: 'Software Engineer',
+  description: 'Develop and maintain software applications.',
+  location: 'Remote',
+  jobDescription: 'Full-stack development',
+};
+
+const position = {
+  id: 1,
+  companyId: 1,
+  interviewFlowId: 1,
+  title: 'Software Engineer',
+  description: 'Develop and maintain software applications.',
+  status: 'Draft',
+  isVisible: false,
+  location: 'Remote',
+  jobDescription: 'Full-stack development',
+  requirements: null,
+  responsibilities: null,
+  salaryMin: 50000,
+  salaryMax: 80000,
+  employmentType: 'Full-time',
+  benefits: null,
+  companyDescription: null,
+  applicationDeadline: null,
+  contactInfo: null,
+};
+
+describe('Position Controllers Integration Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /positions', () => {
+    test('should create a position', async () => {
+      // Arrange
+      mockPositionService.createPosition.mockResolvedValue(position);
+
+      // Act
+      const response = await request(app).post('/positions').send(newPosition).expect(201);
+
+      // Assert
+      expect(response.body).toEqual(position);
+      expect(mockPositionService.createPosition).toHaveBeenCalledWith(newPosition);
+    });
+
+    test('should return 400 listing every missing field', async () => {
+      // Act
+      const response = await request(app).post('/positions').send({ title: 'Software Engineer', salaryMin: '50000' }).expect(400);
+
+      // Assert
+      expect(response.body.code).toBe('VALIDATION_FAILED');
+      expect(response.body.details.map((detail: { path: string }) => detail.path)).toEqual([
+        'body.companyId',
+        'body.interviewFlowId',
+        'body.description',
+        'body.location',
+        'body.jobDescription',
+        'body.salaryMin',
+      ]);
+      expect(response.body.details[5]).toEqual({
+        path: 'body.salaryMin',
+        code: 'invalid_type',
+        message: 'Expected number, received string',
+      });
+      expect(mockPositionService.createPosition).not.toHaveBeenCalled();
+    });
+
+    test('should return 400 when the service rejects the position', async () => {
+      // Arrange
+      mockPositionService.createPosition.mockRejectedValue(new InvalidPositionDataError('applicationDeadline', 'must be in the future'));
+
+      // Act
+      const response = await request(app)
+        .post('/positions')
+        .send({ ...newPosition, applicationDeadline: '2020-01-01' })
+        .expect(400);
+
+      // Assert
+      expect(response.body.detail).toBe('Invalid position data: applicationDeadline must be in the future');
+    });
+  });
+
+  describe('GET /positions', () => {
+    test('should parse query filters', async () => {
+      // Arrange
+      mockPositionService.listPositions.mockResolvedValue({ positions: [position] });
+
+      // Act
+      const response = await request(app)
+        .get('/positions?companyId=1&status=Open&isVisible=true&location=Remote&salaryMin=40000&salaryMax=90000')
+        .expect(200);
+
+      // Assert
+      expect(response.body.positions).toHaveLength(1);
+      expect(mockPositionService.listPositions).toHaveBeenCalledWith({
+        companyId: 1,
+        status: 'Open',
+        isVisible: true,
+        location: 'Remote',
+        employmentType: undefined,
+        salaryMin: 40000,
+        salaryMax: 90000,
+      });
+    });
+
+    test('should return 400 for a malformed filter', async () => {
+      // Act
+      const response = await request(app).get('/positions?isVisible=maybe').expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([
+        { path: 'query.isVisible', code: 'invalid_enum_value', message: expect.any(String) },
+      ]);
+      expect(mockPositionService.listPositions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /positions/:id', () => {
+    test('should return 400 for invalid position ID', async () => {
+      // Act
+      const response = await request(app).get('/positions/invalid').expect(400);
+
+      // Assert
+      expect(response.body).toMatchObject({
+        status: 400,
+        detail: 'Request validation failed',
+        code: 'VALIDATION_FAILED',
+        details: [{ path: 'params.id', code: 'invalid_string', message: 'must be a positive integer' }],
+      });
+    });
+
+    test('should return 404 when position does not exist', async () => {
+      // Arrange
+      mockPositionService.getPositionById.mockRejectedValue(new PositionNotFoundError(999));
+
+      // Act
+      const response = await request(app).get('/positions/999').expect(404);
+
+      // Assert
+      expect(response.body.detail).toBe('Position not found: 999');
+    });
+  });
+
+  describe('PATCH /positions/:id', () => {
+    test('should update a position', async () => {
+      // Arrange
+      mockPositionService.updatePosition.mockResolvedValue({ ...position, title: 'Staff Engineer' });
+
+      // Act
+      const response = await request(app).patch('/positions/1').send({ title: 'Staff Engineer' }).expect(200);
+
+      // Assert
+      expect(response.body.title).toBe('Staff Engineer');
+      expect(mockPositionService.updatePosition).toHaveBeenCalledWith(1, { title: 'Staff Engineer' });
+    });
+  });
+
+  describe('DELETE /positions/:id', () => {
+    test('should return 409 when the position has applications', async () => {
+      // Arrange
+      mockPositionService.deletePosition.mockRejectedValue(new PositionHasApplicationsError(1));
+
+      // Act
+      const response = await request(app).delete('/positions/1').expect(409);
+
+      // Assert
+      expect(response.body.detail).toBe('Position 1 has applications and cannot be deleted');
+    });
+
+    test('should return 500 for unexpected service errors', async () => {
+      // Arrange
+      mockPositionService.deletePosition.mockRejectedValue('Unexpected error');
+
+      // Act
+      const response = await request(app).delete('/positions/1').expect(500);
+
+      // Assert
+      expect(response.body.detail).toBe('Internal server error');
+    });
+  });
+
+  describe('POST /positions/:id/transitions', () => {
+    test('should transition a position', async () => {
+      // Arrange
+      const changedAt = new Date('2026-01-01T00:00:00.000Z');
+      mockPositionService.transitionPositionStatus.mockResolvedValue({
+        position: { ...position, status: 'Open', isVisible: true },
+        transition: {
+          id: 1,
+          positionId: 1,
+          fromStatus: 'Draft',
+          toStatus: 'Open',
+          changedById: 1,
+          reason: null,
+          changedAt,
+        },
+      });
+
+      // Act
+      const response = await request(app)
+        .post('/positions/1/transitions')
+        .send({ status: 'Open', changedById: 5 })
+        .expect(200);
+
+      // Assert
+      expect(response.body.position.status).toBe('Open');
+      expect(response.body.transition.changedAt).toBe(changedAt.toISOString());
+      // The actor is the signed-in employee, never the body
+      expect(mockPositionService.transitionPositionStatus).toHaveBeenCalledWith(1, {
+        status: 'Open',
+        changedById: 1,
+        reason: undefined,
+      });
+    });
+
+    test('should return 400 when status is missing', async () => {
+      // Act
+      const response = await request(app).post('/positions/1/transitions').send({}).expect(400);
+
+      // Assert
+      expect(response.body.details).toEqual([{ path: 'body.status', code: 'invalid_type', message: 'Required' }]);
+      expect(mockPositionService.transitionPositionStatus).not.toHaveBeenCalled();
+    });
+
+    test('should return 409 for a disallowed transition', async () => {
+      // Arrange
+      mockPositionService.transitionPositionStatus.mockRejectedValue(
+        new InvalidStatusTransitionError('Draft', 'Closed'),
+      );
+
+      // Act
+      const response = await request(app).post('/positions/1/transitions').send({ status: 'Closed' }).expect(409);
+
+      // Assert
+      expect(response.body.detail).toBe('Cannot transition position from Draft to Closed');
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { Readable } from 'stream';
+import * as authService from '../../src/application/services/authService';
+import * as fileUploadService from '../../src/application/services/fileUploadService';
+import * as resumeService from '../../src/application/services/resumeService';
+import { app } from '../../src/index';
+import {
+  AuthenticationRequiredError,
+  CandidateProfileNotFoundError,
+  InvalidDownloadLinkError,
+  InvalidUploadError,
+  ResumeFileMissingError,
+  ResumeQuarantinedError
+} from '../../src/types/errors';
+import request from '../contract/openApiContract';
+
+// Requests are made as a signed-in employee
+jest.mock('../../src/application/services/authService', () => ({
+  authenticate: jest.fn().mockResolvedValue({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' }),
+}));
+
+const mockAuthService = authService as jest.Mocked<typeof authService>;
+
+// Mock the resume service
+jest.mock('../../src/application/services/resumeService');
+const mockResumeService = resumeService as jest.Mocked<typeof resumeService>;
+
+// Mock the upload middleware so no file is written
+jest.mock('../../src/application/services/fileUploadService');
+const mockFileUploadService = fileUploadService as jest.Mocked<typeof fileUploadService>;
+
+const uploadedFile = {
+  filePath: '3a/3a7bd3e2.pdf',
+  fileType: 'application/pdf',
+  originalName: 'cv.pdf',
+  fileSize: 2048,
+  scanStatus: 'Clean' as const,
+  scanDetail: null,
+  scannedAt: new Date('2026-10-19T10:00:00Z'),
+};
+
+const resume = {
+  id: 7,
+  candidateId: 1,
+  version: 2,
+  isCurrent: true,
+  originalName: 'cv.pdf',
+  fileType: 'application/pdf',
+  fileSize: 2048,
+  uploadDate: new Date('2026-10-19T10:00:00Z'),
+  scanStatus: 'Clean' as const,
+  scanDetail: null,
+  scannedAt: new Date('2026-10-19T10:00:00Z'),
+  downloadUrl: '/resumes/7/file?expires=1792400000&signature=abc',
+};
+
+describe('Resume Controllers Integration Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFileUploadService.receiveUpload.mockResolvedValue(uploadedFile);
+    mockResumeService.discardUpload.mockResolvedValue();
+  });
+
+  describe('POST /candidates/:id/resumes', () => {
+    test('should attach the uploaded file as a new version', async () => {
+      // Arrange
+      mockResumeService.addResume.mockResolvedValue(resume);
+
+      // Act
+      const response = await request(app).post('/candidates/1/resumes');
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({
+        ...resume,
+        uploadDate: '2026-10-19T10:00:00.000Z',
+        scannedAt: '2026-10-19T10:00:00.000Z',
+      });
+      expect(mockResumeService.addResume).toHaveBeenCalledWith(1, uploadedFile);
+    });
+
+    test('should return 422 with the recorded resume when the file is quarantined', async () => {
+      // Arrange
+      mockResumeService.addResume.mockResolvedValue({
+        ...resume,
+        isCurrent: false,
+        scanStatus: 'Quarantined',
+        scanDetail: 'malware detected: Eicar-Signature',
+        downloadUrl: null,
+      });
+
+      // Act
+      const response = await request(app).post('/candidates/1/resumes');
+
+      // Assert
+      expect(response.status).toBe(422);
+      expect(response.body.code).toBe('UPLOAD_REJECTED');
+      expect(response.body.detail).toBe('File rejected: malware detected: Eicar-Signature');
+      expect(response.body.resume).toMatchObject({ id: 7, scanStatus: 'Quarantined', downloadUrl: null });
+      expect(mockResumeService.discardUpload).not.toHaveBeenCalled();
+    });
+
+    test('should not attach anything when the upload is rejected', async () => {
+      // Arrange
+      mockFileUploadService.receiveUpload.mockRejectedValue(new InvalidUploadError('only PDF and DOCX files are allowed'));
+
+      // Act
+      const response = await request(app).post('/candidates/1/resumes');
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ code: 'INVALID_UPLOAD', detail: 'Invalid upload: only PDF and DOCX files are allowed' });
+      expect(mockResumeService.addResume).not.toHaveBeenCalled();
+    });
+
+    test('should return 404 and discard the upload for an unknown candidate', async () => {
+      // Arrange
+      mockResumeService.addResume.mockRejectedValue(new CandidateProfileNotFoundError(99));
+
+      // Act
+      const response = await request(app).post('/candidates/99/resumes');
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect(response.body).toMatchObject({ detail: 'Candidate not found: 99' });
+      expect(mockResumeService.discardUpload).toHaveBeenCalledWith('3a/3a7bd3e2.pdf');
+    });
+
+    test('should return 400 for an invalid candidate ID', async () => {
+      // Act
+      const response = await request(app).post('/candidates/abc/resumes');
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(mockFileUploadService.receiveUpload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /candidates/:id/resumes', () => {
+    test('should list the resume versions', async () => {
+      // Arrange
+      mockResumeService.listResumes.mockResolvedValue([resume]);
+
+      // Act
+      const response = await request(app).get('/candidates/1/resumes');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(mockResumeService.listResumes).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('GET /resumes/:id/file', () => {
+    test('should stream the file with its content type and name', async () => {
+      // Arrange
+      mockResumeService.openResumeFile.mockResolvedValue({
+        content: Readable.from([Buffer.from('%PDF-1.4 resume')]),
+        fileType: 'application/pdf',
+        fileName: 'cv.pdf',
+        fileSize: 15,
+      });
+
+      // Act
+      const response = await request(app).get('/resumes/7/file?expires=1792400000&signature=abc');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/pdf');
+      expect(response.headers['content-disposition']).toBe('attachment; filename="cv.pdf"');
+      expect(response.headers['cache-control']).toBe('private, no-store');
+      expect(response.body.toString()).toBe('%PDF-1.4 resume');
+      expect(mockResumeService.openResumeFile).toHaveBeenCalledWith(7, { expires: '1792400000', signature: 'abc' });
+    });
+
+    test('should require a session besides the signed link', async () => {
+      // Arrange
+      mockAuthService.authenticate.mockRejectedValueOnce(new AuthenticationRequiredError());
+
+      // Act
+      const response = await request(app).get('/resumes/7/file?expires=1792400000&signature=abc');
+
+      // Assert
+      expect(response.status).toBe(401);
+      expect(mockResumeService.openResumeFile).not.toHaveBeenCalled();
+    });
+
+    test('should return 403 for a role without candidates:read', async () => {
+      // Arrange
+      mockAuthService.authenticate.mockResolvedValueOnce({
+        id: 4,
+        companyId: 1,
+        name: 'Dan Brown',
+        email: 'dan.brown@lti.com',
+        role: 'Interviewer',
+      });
+
+      // Act
+      const response = await request(app).get('/resumes/7/file?expires=1792400000&signature=abc');
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ code: 'ACCESS_DENIED' });
+      expect(mockResumeService.openResumeFile).not.toHaveBeenCalled();
+    });
+
+    test('should return 403 for an invalid link', async () => {
+      // Arrange
+      mockResumeService.openResumeFile.mockRejectedValue(new InvalidDownloadLinkError('link has expired'));
+
+      // Act
+      const response = await request(app).get('/resumes/7/file');
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ detail: 'Invalid download link: link has expired' });
+    });
+
+    test('should return 403 for a quarantined resume', async () => {
+      // Arrange
+      mockResumeService.openResumeFile.mockRejectedValue(new ResumeQuarantinedError(7));
+
+      // Act
+      const response = await request(app).get('/resumes/7/file?expires=1&signature=abc');
+
+      // Assert
+      expect(response.status).toBe(403);
+      expect(response.body).toMatchObject({ detail: 'Resume 7 is quarantined and cannot be downloaded' });
+    });
+
+    test('should return 410 when the file is gone', async () => {
+      // Arrange
+      mockResumeService.openResumeFile.mockRejectedValue(new ResumeFileMissingError(7));
+
+      // Act
+      const response = await request(app).get('/resumes/7/file?expires=1&signature=abc');
+
+      // Assert
+      expect(response.status).toBe(410);
+    });
+  });
+});
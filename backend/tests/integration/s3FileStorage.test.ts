@@ -0,0 +1,56 @@
+import { CreateBucketCommand, HeadBucketCommand } from '@aws-sdk/client-s3';
+import { loadStorageConfig } from '../../src/application/storage/fileStorage';
+import { createS3Client, createS3FileStorage } from '../../src/application/storage/s3FileStorage';
+import { StoredFileNotFoundError } from '../../src/types/errors';
+import { S3StorageConfig } from '../../src/types/storage';
+
+/**
+ * Runs against a real S3-compatible server, e.g. the MinIO service of docker-compose:
+ * S3_TEST_ENDPOINT=http://localhost:9000 npx jest tests/integration/s3FileStorage.test.ts
+ */
+const endpoint = process.env.S3_TEST_ENDPOINT;
+const describeWithServer = endpoint ? describe : describe.skip;
+
+describeWithServer('S3 File Storage against a live server', () => {
+  const config = loadStorageConfig({
+    STORAGE_DRIVER: 's3',
+    S3_ENDPOINT: endpoint,
+    S3_BUCKET: process.env.S3_TEST_BUCKET || 'lti-storage-test',
+    S3_ACCESS_KEY_ID: process.env.S3_TEST_ACCESS_KEY_ID || 'minioadmin',
+    S3_SECRET_ACCESS_KEY: process.env.S3_TEST_SECRET_ACCESS_KEY || 'minioadmin',
+    S3_PREFIX: `test-${Date.now()}`,
+  }) as S3StorageConfig;
+  const client = createS3Client(config);
+  const storage = createS3FileStorage(config, client);
+
+  beforeAll(async () => {
+    try {
+      await client.send(new HeadBucketCommand({ Bucket: config.bucket }));
+    } catch {
+      await client.send(new CreateBucketCommand({ Bucket: config.bucket }));
+    }
+  });
+
+  afterAll(() => {
+    client.destroy();
+  });
+
+  test('should save, read, stream and remove a file', async () => {
+    // Arrange
+    const content = Buffer.from(`%PDF-1.4 ${Date.now()}`);
+
+    // Act
+    const { key } = await storage.save(content, 'cv.pdf', 'application/pdf');
+
+    // Assert
+    expect(await storage.exists(key)).toBe(true);
+    expect((await storage.read(key)).equals(content)).toBe(true);
+    const chunks: Buffer[] = [];
+    for await (const chunk of await storage.openReadStream(key)) chunks.push(Buffer.from(chunk));
+    expect(Buffer.concat(chunks).equals(content)).toBe(true);
+
+    await storage.remove(key);
+    expect(await storage.exists(key)).toBe(false);
+    await expect(storage.read(key)).rejects.toThrow(StoredFileNotFoundError);
+  });
+});
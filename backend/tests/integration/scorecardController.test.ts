@@ -0,0 +1,215 @@
+import * as scorecardService from '../../src/application/services/scorecardService';
+import { app } from '../../src/index';
+import {
+  InterviewTypeNotFoundError,
+  InvalidInterviewStateError,
+  InvalidScorecardDataError,
+  ScorecardTemplateMissingError
+} from '../../src/types/errors';
+import request from '../contract/openApiContract';
+
+// Requests are made as a signed-in employee
+jest.mock('../../src/application/services/authService', () => ({
+  authenticate: jest.fn().mockResolvedValue({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' }),
+}));
+
+// Mock the scorecard service
+jest.mock('../../src/application/services/scorecardService');
+const mockScorecardService = scorecardService as jest.Mocked<typeof scorecardService>;
+
+const template = {
+  interviewType: { id: 2, name: 'Technical Interview', ratingScaleMin: 1, ratingScaleMax: 5 },
+  competencies: [
+    { id: 1, interviewTypeId: 2, name: 'Problem solving', description: null, weight: 2, orderIndex: 1 },
+  ],
+};
+
+const scorecardRequest = {
+  ratings: [{ competencyId: 1, rating: 4 }],
+  recommendation: 'Hire',
+};
+
+describe('Scorecard Controllers Integration Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /interview-types/:id/scorecard', () => {
+    test('should return the scorecard template', async () => {
+      // Arrange
+      mockScorecardService.getScorecardTemplate.mockResolvedValue(template);
+
+      // Act
+      const response = await request(app).get('/interview-types/2/scorecard');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(template);
+      expect(mockScorecardService.getScorecardTemplate).toHaveBeenCalledWith(2);
+    });
+
+    test('should return 404 for an unknown interview type', async () => {
+      // Arrange
+      mockScorecardService.getScorecardTemplate.mockRejectedValue(new InterviewTypeNotFoundError(404));
+
+      // Act
+      const response = await request(app).get('/interview-types/404/scorecard');
+
+      // Assert
+      expect(response.status).toBe(404);
+    });
+
+    test('should return 400 for a malformed interview type id', async () => {
+      // Act
+      const response = await request(app).get('/interview-types/abc/scorecard');
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([{ path: 'params.id', code: 'invalid_string', message: 'must be a positive integer' }]);
+      expect(mockScorecardService.getScorecardTemplate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /interview-types/:id/scorecard', () => {
+    test('should replace the template', async () => {
+      // Arrange
+      const body = { competencies: [{ name: 'Problem solving', weight: 2 }] };
+      mockScorecardService.updateScorecardTemplate.mockResolvedValue(template);
+
+      // Act
+      const response = await request(app).put('/interview-types/2/scorecard').send(body);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockScorecardService.updateScorecardTemplate).toHaveBeenCalledWith(2, body);
+    });
+
+    test('should return 400 for an invalid template', async () => {
+      // Act
+      const response = await request(app).put('/interview-types/2/scorecard').send({ competencies: [] });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual([{ path: 'body.competencies', code: 'too_small', message: 'must not be empty' }]);
+      expect(mockScorecardService.updateScorecardTemplate).not.toHaveBeenCalled();
+    });
+
+    test('should return 400 when the service rejects the template', async () => {
+      // Arrange
+      mockScorecardService.updateScorecardTemplate.mockRejectedValue(
+        new InvalidScorecardDataError('competencies[1].name', 'duplicates "Coding"'),
+      );
+
+      // Act
+      const response = await request(app)
+        .put('/interview-types/2/scorecard')
+        .send({ competencies: [{ name: 'Coding', weight: 1 }, { name: 'Coding', weight: 2 }] });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ detail: 'Invalid scorecard data: competencies[1].name duplicates "Coding"' });
+    });
+  });
+
+  describe('PUT /interviews/:id/scorecard', () => {
+    test('should submit the scorecard', async () => {
+      // Arrange
+      const scorecard = {
+        id: 20,
+        applicationId: 10,
+        interviewStepId: 7,
+        employeeId: 5,
+        interviewDate: new Date('2026-11-02T10:00:00.000Z'),
+        status: 'Completed' as const,
+        result: null,
+        score: null,
+        notes: null,
+        cancellationReason: null,
+        recommendation: 'Hire' as const,
+        weightedScore: 75,
+        interviewStep: { id: 7, name: 'Technical Interview' },
+        employee: { id: 5, name: 'Alice Johnson', email: 'alice.johnson@lti.com' },
+        ratings: [
+          {
+            id: 1,
+            interviewId: 20,
+            competencyId: 1,
+            competencyName: 'Problem solving',
+            weight: 2,
+            scaleMin: 1,
+            scaleMax: 5,
+            rating: 4,
+            comment: null,
+          },
+        ],
+      };
+      mockScorecardService.submitScorecard.mockResolvedValue(scorecard);
+
+      // Act
+      const response = await request(app).put('/interviews/20/scorecard').send(scorecardRequest);
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ id: 20, weightedScore: 75, recommendation: 'Hire' });
+      expect(mockScorecardService.submitScorecard).toHaveBeenCalledWith(20, scorecardRequest);
+    });
+
+    test('should return 409 when the interview type has no template', async () => {
+      // Arrange
+      mockScorecardService.submitScorecard.mockRejectedValue(new ScorecardTemplateMissingError(2));
+
+      // Act
+      const response = await request(app).put('/interviews/20/scorecard').send(scorecardRequest);
+
+      // Assert
+      expect(response.status).toBe(409);
+      expect(response.body).toMatchObject({ detail: 'Interview type 2 has no scorecard template' });
+    });
+
+    test('should return 409 for a cancelled interview', async () => {
+      // Arrange
+      mockScorecardService.submitScorecard.mockRejectedValue(
+        new InvalidInterviewStateError(20, 'Cancelled', 'submit a scorecard for'),
+      );
+
+      // Act
+      const response = await request(app).put('/interviews/20/scorecard').send(scorecardRequest);
+
+      // Assert
+      expect(response.status).toBe(409);
+    });
+  });
+
+  describe('GET /applications/:id/scorecard', () => {
+    test('should return the aggregated scorecard', async () => {
+      // Arrange
+      const scorecard = {
+        applicationId: 10,
+        weightedScore: 75,
+        competencies: [],
+        interviews: [],
+        recommendations: { Hire: 1 },
+      };
+      mockScorecardService.getApplicationScorecard.mockResolvedValue(scorecard);
+
+      // Act
+      const response = await request(app).get('/applications/10/scorecard');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(scorecard);
+    });
+
+    test('should return 500 for unexpected errors', async () => {
+      // Arrange
+      mockScorecardService.getApplicationScorecard.mockRejectedValue(new Error('Database connection failed'));
+
+      // Act
+      const response = await request(app).get('/applications/10/scorecard');
+
+      // Assert
+      expect(response.status).toBe(500);
+      expect(response.body).toMatchObject({ detail: 'Internal server error' });
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { Express } from 'express';
+import request from 'supertest';
+import * as candidateService from '../../src/application/services/candidateService';
+import * as fileUploadService from '../../src/application/services/fileUploadService';
+import { app } from '../../src/index';
+
+// Requests are made as a signed-in employee
+jest.mock('../../src/application/services/authService', () => ({
+  authenticate: jest.fn().mockResolvedValue({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' }),
+}));
+
+// Mock the services behind the routes under test
+jest.mock('../../src/application/services/candidateService');
+const mockCandidateService = candidateService as jest.Mocked<typeof candidateService>;
+
+jest.mock('../../src/application/services/fileUploadService');
+const mockFileUploadService = fileUploadService as jest.Mocked<typeof fileUploadService>;
+
+const candidate = { firstName: 'John', lastName: 'Doe', email: 'john.doe@gmail.com' };
+const sqlInjection = { ...candidate, address: "1' OR 1=1; DROP TABLE Candidate; --" };
+
+/**
+ * Imports a fresh app configured by the given environment, with its own service mocks
+ */
+const loadApp = (env: Record<string, string>) => {
+  const saved = { ...process.env };
+  Object.assign(process.env, env);
+  let loaded: { app: Express; candidateService: jest.Mocked<typeof candidateService> } | undefined;
+  try {
+    jest.isolateModules(() => {
+      loaded = {
+        app: require('../../src/index').app,
+        candidateService: require('../../src/application/services/candidateService'),
+      };
+    });
+  } finally {
+    process.env = saved;
+  }
+  return loaded!;
+};
+
+describe('Security Pipeline Integration Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCandidateService.addCandidate.mockResolvedValue({ id: 1, ...candidate } as any);
+  });
+
+  describe('default configuration', () => {
+    test('should set the security headers', async () => {
+      // Act
+      const response = await request(app).get('/');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(response.headers['x-content-type-options']).toBe('nosniff');
+      expect(response.headers['content-security-policy']).toContain("default-src 'self'");
+    });
+
+    test('should let clean input through every API guard', async () => {
+      // Act
+      const response = await request(app).post('/candidates').send(candidate);
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(mockCandidateService.addCandidate).toHaveBeenCalledWith(candidate);
+    });
+
+    test('should block SQL injection on the API', async () => {
+      // Act
+      const response = await request(app).post('/candidates').send(sqlInjection);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('SUSPICIOUS_INPUT');
+      expect(mockCandidateService.addCandidate).not.toHaveBeenCalled();
+    });
+
+    test('should block ReDoS patterns on the API', async () => {
+      // Act
+      const response = await request(app).get(`/candidates?name=${'a'.repeat(60)}`);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('REDOS_PATTERN');
+      expect(mockCandidateService.listCandidates).not.toHaveBeenCalled();
+    });
+
+    test('should check sign-in strictly but leave free text on the API alone', async () => {
+      // Act
+      const login = await request(app).post('/auth/login').send({ email: '{{7*7}}@lti.com', password: 'correct horse battery' });
+      const created = await request(app).post('/candidates').send({ ...candidate, address: 'Calle {{Mayor}} 1' });
+
+      // Assert
+      expect(login.status).toBe(400);
+      expect(login.body.code).toBe('TEMPLATE_INJECTION');
+      expect(created.status).toBe(201);
+    });
+
+    test('should only run the relaxed checks on uploads', async () => {
+      // Arrange
+      mockFileUploadService.uploadFile.mockImplementation(async (req, res) => {
+        res.status(200).json({ filePath: 'a/b.pdf' });
+      });
+
+      // Act
+      const response = await request(app).post("/upload?note=1' OR 1=1");
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(mockFileUploadService.uploadFile).toHaveBeenCalled();
+    });
+  });
+
+  describe('configured by the environment', () => {
+    test('should log would-be blocks and let them through in report-only mode', async () => {
+      // Arrange
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const reporting = loadApp({ SECURITY_REPORT_ONLY: 'true' });
+      reporting.candidateService.addCandidate.mockResolvedValue({ id: 1, ...sqlInjection } as any);
+
+      // Act
+      const response = await request(reporting.app).post('/candidates').send(sqlInjection);
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(reporting.candidateService.addCandidate).toHaveBeenCalledWith(sqlInjection);
+      expect(warn).toHaveBeenCalledWith(
+        'Security report-only (api): sqlInjection would block POST /candidates with 400 SUSPICIOUS_INPUT',
+      );
+      warn.mockRestore();
+    });
+
+    test('should turn individual guards off', async () => {
+      // Arrange
+      const relaxed = loadApp({ SECURITY_DISABLED_GUARDS: 'sqlInjection,headers' });
+      relaxed.candidateService.addCandidate.mockResolvedValue({ id: 1, ...sqlInjection } as any);
+
+      // Act
+      const response = await request(relaxed.app).post('/candidates').send(sqlInjection);
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(response.headers['content-security-policy']).toBeUndefined();
+    });
+
+    test('should replace the guards of a route group', async () => {
+      // Arrange
+      const strict = loadApp({ SECURITY_API_GUARDS: 'templateInjection' });
+
+      // Act
+      const response = await request(strict.app).post('/candidates').send({ ...candidate, address: 'Calle {{Mayor}} 1' });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.code).toBe('TEMPLATE_INJECTION');
+      expect(strict.candidateService.addCandidate).not.toHaveBeenCalled();
+    });
+  });
+});
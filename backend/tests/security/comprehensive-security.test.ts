@@ -547,7 +547,7 @@ describe('🛡️ COMPREHENSIVE SECURITY VALIDATION SUITE', () => {
         .set('Content-Type', 'application/json')
         .expect(400);
 
-      expect(response.body.error).toBeDefined();
+      expect(response.body).toMatchObject({ code: expect.any(String), title: expect.any(String), status: 400 });
     });
 
     it('should provide proper error responses', async () => {
@@ -558,11 +558,8 @@ describe('🛡️ COMPREHENSIVE SECURITY VALIDATION SUITE', () => {
         .send(maliciousPayload)
         .expect(400);
 
-      // Should have proper error structure
-      expect(response.body).toHaveProperty('error');
-      expect(response.body).toHaveProperty('code');
-      expect(typeof response.body.error).toBe('string');
-      expect(typeof response.body.code).toBe('string');
+      // Should be answered as problem details
+      expect(response.body).toMatchObject({ code: expect.any(String), title: expect.any(String), status: 400 });
     });
 
     it('should handle concurrent malicious requests', async () => {
@@ -136,8 +136,8 @@ describe('🏆 FINAL COMPREHENSIVE SECURITY VALIDATION', () => {
 
         if (response.status === 400) {
           blockedCount++;
-          expect(response.body.code).toBeDefined();
-          expect(response.body.error).toBeDefined();
+          // Blocked requests are answered as problem details
+          expect(response.body).toMatchObject({ code: expect.any(String), title: expect.any(String), status: 400 });
         } else if (response.status === 200) {
           // Check if XSS was sanitized
           const receivedContent = JSON.stringify(response.body.received);
@@ -514,10 +514,7 @@ describe('🛡️ COMPREHENSIVE SECURITY VALIDATION SUITE - REALISTIC', () => {
       expect([200, 400]).toContain(response.status);
 
       if (response.status === 400) {
-        expect(response.body).toHaveProperty('error');
-        expect(response.body).toHaveProperty('code');
-        expect(typeof response.body.error).toBe('string');
-        expect(typeof response.body.code).toBe('string');
+        expect(response.body).toMatchObject({ code: expect.any(String), title: expect.any(String), status: 400 });
       }
     });
   });
@@ -0,0 +1,5 @@
+// Services and models share one Prisma client; closing it after each suite lets jest exit
+afterAll(async () => {
+  const { unscopedPrisma } = await import('../src/application/database');
+  await unscopedPrisma.$disconnect();
+});
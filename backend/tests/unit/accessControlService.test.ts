@@ -0,0 +1,129 @@
+import { hasPermission, permissionsOf } from '../../src/application/permissions';
+import { createAccessControlService } from '../../src/application/services/accessControlService';
+
+// Mock Prisma client
+const mockPrisma = {
+  position: {
+    findUnique: jest.fn(),
+  },
+  application: {
+    findUnique: jest.fn(),
+  },
+  interview: {
+    findUnique: jest.fn(),
+    count: jest.fn(),
+  },
+} as any;
+
+const { canAccess } = createAccessControlService(mockPrisma);
+
+const employee = (role: string) => ({ id: 7, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role });
+
+describe('AccessControlService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('permissions', () => {
+    test('should only let recruiters and admins move cards and create candidates', () => {
+      // Act & Assert
+      expect(hasPermission(employee('Admin'), 'applications:move')).toBe(true);
+      expect(hasPermission(employee('Recruiter'), 'candidates:write')).toBe(true);
+      expect(hasPermission(employee('Hiring Manager'), 'applications:move')).toBe(false);
+      expect(hasPermission(employee('Interviewer'), 'candidates:write')).toBe(false);
+    });
+
+    test('should keep deletions to admins', () => {
+      // Act & Assert
+      expect(hasPermission(employee('Admin'), 'candidates:delete')).toBe(true);
+      expect(hasPermission(employee('Recruiter'), 'candidates:delete')).toBe(false);
+      expect(hasPermission(employee('Recruiter'), 'positions:delete')).toBe(false);
+    });
+
+    test('should grant nothing to an unknown role', () => {
+      // Act & Assert
+      expect(permissionsOf('interviewer')).toEqual([]);
+      expect(hasPermission(employee('Owner'), 'flows:read')).toBe(false);
+    });
+  });
+
+  describe('canAccess', () => {
+    test('should let admins and recruiters reach every row without a lookup', async () => {
+      // Act & Assert
+      await expect(canAccess(employee('Admin'), 'position', 5)).resolves.toBe(true);
+      await expect(canAccess(employee('Recruiter'), 'interview', 5)).resolves.toBe(true);
+      expect(mockPrisma.position.findUnique).not.toHaveBeenCalled();
+      expect(mockPrisma.interview.findUnique).not.toHaveBeenCalled();
+    });
+
+    test('should keep every role to their own company', async () => {
+      // Act & Assert
+      await expect(canAccess(employee('Admin'), 'company', 1)).resolves.toBe(true);
+      await expect(canAccess(employee('Admin'), 'company', 2)).resolves.toBe(false);
+      await expect(canAccess(employee('Recruiter'), 'company', 2)).resolves.toBe(false);
+    });
+
+    test('should limit hiring managers to the positions of their company', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValueOnce({ companyId: 1 }).mockResolvedValueOnce({ companyId: 2 });
+
+      // Act & Assert
+      await expect(canAccess(employee('Hiring Manager'), 'position', 5)).resolves.toBe(true);
+      await expect(canAccess(employee('Hiring Manager'), 'position', 6)).resolves.toBe(false);
+      await expect(canAccess(employee('Hiring Manager'), 'company', 2)).resolves.toBe(false);
+      expect(mockPrisma.position.findUnique).toHaveBeenCalledWith({ where: { id: 5 }, select: { companyId: true } });
+    });
+
+    test('should limit hiring managers to the applications and interviews of their company', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue({ position: { companyId: 2 }, interviews: [] });
+      mockPrisma.interview.findUnique.mockResolvedValue({ employeeId: 9, application: { position: { companyId: 1 } } });
+
+      // Act & Assert
+      await expect(canAccess(employee('Hiring Manager'), 'application', 3)).resolves.toBe(false);
+      await expect(canAccess(employee('Hiring Manager'), 'interview', 4)).resolves.toBe(true);
+    });
+
+    test('should limit interviewers to the applications they interview', async () => {
+      // Arrange
+      mockPrisma.application.findUnique
+        .mockResolvedValueOnce({ position: { companyId: 1 }, interviews: [{ id: 4 }] })
+        .mockResolvedValueOnce({ position: { companyId: 1 }, interviews: [] });
+
+      // Act & Assert
+      await expect(canAccess(employee('Interviewer'), 'application', 3)).resolves.toBe(true);
+      await expect(canAccess(employee('Interviewer'), 'application', 8)).resolves.toBe(false);
+      expect(mockPrisma.application.findUnique).toHaveBeenCalledWith({
+        where: { id: 3 },
+        select: {
+          position: { select: { companyId: true } },
+          interviews: { where: { employeeId: 7 }, select: { id: true } },
+        },
+      });
+    });
+
+    test('should limit interviewers to the interviews assigned to them', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique
+        .mockResolvedValueOnce({ employeeId: 7, application: { position: { companyId: 1 } } })
+        .mockResolvedValueOnce({ employeeId: 9, application: { position: { companyId: 1 } } });
+
+      // Act & Assert
+      await expect(canAccess(employee('Interviewer'), 'interview', 4)).resolves.toBe(true);
+      await expect(canAccess(employee('Interviewer'), 'interview', 5)).resolves.toBe(false);
+    });
+
+    test('should leave missing rows to the route', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(canAccess(employee('Interviewer'), 'application', 404)).resolves.toBe(true);
+    });
+
+    test('should deny every row to an unknown role', async () => {
+      // Act & Assert
+      await expect(canAccess(employee('Owner'), 'company', 1)).resolves.toBe(false);
+    });
+  });
+});
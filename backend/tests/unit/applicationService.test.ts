@@ -0,0 +1,309 @@
+import { Prisma } from '@prisma/client';
+import { createApplicationService } from '../../src/application/services/applicationService';
+
+// Mock Prisma client
+const mockPrisma = {
+  position: {
+    findUnique: jest.fn(),
+  },
+  interviewStep: {
+    findFirst: jest.fn(),
+  },
+  candidate: {
+    findUnique: jest.fn(),
+    create: jest.fn(),
+  },
+  application: {
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+  },
+  applicationStageHistory: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+  },
+  resume: {
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+  upload: {
+    findFirst: jest.fn(),
+  },
+  $executeRaw: jest.fn(),
+  $transaction: jest.fn((callback: (tx: unknown) => Promise<unknown>) => callback(mockPrisma)),
+} as any;
+
+const applicationService = createApplicationService(mockPrisma);
+const { submitApplication, getApplicationStageHistory } = applicationService;
+
+const openPosition = { id: 1, companyId: 4, interviewFlowId: 7, status: 'Open' };
+const firstStep = { id: 21, name: 'Initial Screening', orderIndex: 1, interviewFlowId: 7 };
+
+const newCandidate = {
+  firstName: 'Albert',
+  lastName: 'Saelices',
+  email: 'albert.saelices@gmail.com',
+  phone: '656874937',
+  educations: [{ institution: 'UC3M', title: 'Computer Science', startDate: '2006-12-31', endDate: '2010-12-26' }],
+};
+
+describe('ApplicationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.position.findUnique.mockResolvedValue(openPosition);
+    mockPrisma.interviewStep.findFirst.mockResolvedValue(firstStep);
+    mockPrisma.application.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 100, ...data }));
+  });
+
+  describe('submitApplication', () => {
+    test('should place an existing candidate on the first step of the flow', async () => {
+      // Arrange
+      mockPrisma.candidate.findUnique.mockResolvedValue({ id: 3 });
+      mockPrisma.application.findFirst.mockResolvedValue(null);
+
+      // Act
+      const result = await submitApplication(1, { candidateId: 3, notes: 'Referred' });
+
+      // Assert
+      expect(result.id).toBe(100);
+      expect(mockPrisma.interviewStep.findFirst).toHaveBeenCalledWith({
+        where: { interviewFlowId: 7 },
+        orderBy: { orderIndex: 'asc' },
+      });
+      expect(mockPrisma.application.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            positionId: 1,
+            candidateId: 3,
+            currentInterviewStep: 21,
+            notes: 'Referred',
+          }),
+        }),
+      );
+      expect(mockPrisma.candidate.create).not.toHaveBeenCalled();
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+      expect(mockPrisma.applicationStageHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          applicationId: 100,
+          toStepId: 21,
+          toStepName: 'Initial Screening',
+        }),
+      });
+    });
+
+    test('should create a new candidate for the company of the position', async () => {
+      // Arrange
+      mockPrisma.candidate.create.mockResolvedValue({ id: 9 });
+      mockPrisma.candidate.findUnique.mockResolvedValue({
+        ...newCandidate,
+        id: 9,
+        address: null,
+        workExperiences: [],
+        resumes: [],
+      });
+      mockPrisma.resume.findMany.mockResolvedValue([]);
+
+      // Act
+      await submitApplication(1, { candidate: newCandidate });
+
+      // Assert
+      expect(mockPrisma.candidate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          companyId: 4,
+          email: 'albert.saelices@gmail.com',
+          educations: { create: [expect.objectContaining({ institution: 'UC3M', startDate: expect.any(Date) })] },
+        }),
+      });
+      expect(mockPrisma.application.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ candidateId: 9 }) }),
+      );
+      // The new candidate is indexed for full-text search
+      expect(mockPrisma.resume.findMany).toHaveBeenCalledWith({
+        where: { candidateId: 9, textContent: null, scanStatus: { not: 'Quarantined' } },
+      });
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reject an invalid candidate payload', async () => {
+      // Act & Assert
+      await expect(submitApplication(1, { candidate: { ...newCandidate, email: 'not-an-email' } })).rejects.toThrow(
+        'Invalid candidate data: Invalid email',
+      );
+      expect(mockPrisma.position.findUnique).not.toHaveBeenCalled();
+    });
+
+    test('should not attach a quarantined upload, however its key is written', async () => {
+      // Act & Assert
+      for (const filePath of ['quarantine/c0/c0ffee00.pdf', './quarantine/c0/c0ffee00.pdf', 'c0/../quarantine/c0/c0ffee00.pdf']) {
+        await expect(
+          submitApplication(1, { candidate: { ...newCandidate, cv: { filePath, fileType: 'application/pdf' } } }),
+        ).rejects.toThrow('Invalid candidate data: Invalid CV data');
+      }
+      expect(mockPrisma.position.findUnique).not.toHaveBeenCalled();
+    });
+
+    test('should attach the upload the cv names with the type detected on upload', async () => {
+      // Arrange
+      mockPrisma.upload.findFirst.mockResolvedValue({
+        key: 'c0/c0ffee00.pdf',
+        fileType: 'application/pdf',
+        originalName: 'albert-cv.pdf',
+        fileSize: 48213,
+        scanStatus: 'Clean',
+        scanDetail: null,
+        scannedAt: new Date('2026-10-19T10:00:00.000Z'),
+      });
+      mockPrisma.candidate.create.mockResolvedValue({ id: 9 });
+      mockPrisma.candidate.findUnique.mockResolvedValue(null);
+
+      // Act
+      await submitApplication(1, { candidate: { ...newCandidate, cv: { filePath: 'c0/c0ffee00.pdf', fileType: 'text/html' } } });
+
+      // Assert
+      expect(mockPrisma.upload.findFirst).toHaveBeenCalledWith({ where: { key: 'c0/c0ffee00.pdf' } });
+      expect(mockPrisma.candidate.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          resumes: {
+            create: [
+              expect.objectContaining({
+                filePath: 'c0/c0ffee00.pdf',
+                fileType: 'application/pdf',
+                originalName: 'albert-cv.pdf',
+                isCurrent: true,
+                scanStatus: 'Clean',
+              }),
+            ],
+          },
+        }),
+      });
+    });
+
+    test('should not attach a file that was not accepted by /upload', async () => {
+      // Arrange
+      mockPrisma.upload.findFirst.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        submitApplication(1, { candidate: { ...newCandidate, cv: { filePath: 'c0/c0ffee00.pdf', fileType: 'application/pdf' } } }),
+      ).rejects.toThrow('Upload c0/c0ffee00.pdf not found; upload the file to /upload first');
+      expect(mockPrisma.candidate.create).not.toHaveBeenCalled();
+    });
+
+    test('should require exactly one of candidateId and candidate', async () => {
+      // Act & Assert
+      await expect(submitApplication(1, { candidateId: 3, candidate: newCandidate })).rejects.toThrow(
+        'provide either candidateId or candidate',
+      );
+      await expect(submitApplication(1, {})).rejects.toThrow('provide either candidateId or candidate');
+    });
+
+    test('should reject duplicate applications', async () => {
+      // Arrange
+      mockPrisma.candidate.findUnique.mockResolvedValue({ id: 3 });
+      mockPrisma.application.findFirst.mockResolvedValue({ id: 50 });
+
+      // Act & Assert
+      await expect(submitApplication(1, { candidateId: 3 })).rejects.toThrow(
+        'Candidate 3 has already applied to position 1',
+      );
+      expect(mockPrisma.application.create).not.toHaveBeenCalled();
+    });
+
+    test('should reject applications to positions that are not Open', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue({ ...openPosition, status: 'Draft' });
+
+      // Act & Assert
+      await expect(submitApplication(1, { candidateId: 3 })).rejects.toThrow(
+        'Position 1 is not accepting applications (status: Draft)',
+      );
+    });
+
+    test('should throw when the candidate does not exist', async () => {
+      // Arrange
+      mockPrisma.candidate.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(submitApplication(1, { candidateId: 404 })).rejects.toThrow('Candidate not found: 404');
+    });
+
+    test('should throw when the interview flow has no steps', async () => {
+      // Arrange
+      mockPrisma.interviewStep.findFirst.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(submitApplication(1, { candidateId: 3 })).rejects.toThrow('Interview flow 7 has no steps');
+    });
+
+    test('should map an email unique violation to CandidateEmailExistsError', async () => {
+      // Arrange
+      mockPrisma.candidate.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: 'test',
+          meta: { target: ['email'] },
+        }),
+      );
+
+      // Act & Assert
+      await expect(submitApplication(1, { candidate: newCandidate })).rejects.toThrow(
+        'A candidate with email albert.saelices@gmail.com already exists',
+      );
+    });
+  });
+
+  describe('getApplicationStageHistory', () => {
+    test('should compute how long the application stayed in each stage', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue({
+        id: 10,
+        interviewStep: { id: 22, name: 'Technical Interview' },
+      });
+      mockPrisma.applicationStageHistory.findMany.mockResolvedValue([
+        {
+          id: 1,
+          applicationId: 10,
+          fromStepId: null,
+          fromStepName: null,
+          toStepId: 21,
+          toStepName: 'Initial Screening',
+          changedById: null,
+          reason: null,
+          changedAt: new Date('2026-01-01T00:00:00.000Z'),
+        },
+        {
+          id: 2,
+          applicationId: 10,
+          fromStepId: 21,
+          fromStepName: 'Initial Screening',
+          toStepId: 22,
+          toStepName: 'Technical Interview',
+          changedById: 5,
+          reason: null,
+          changedAt: new Date('2026-01-03T00:00:00.000Z'),
+        },
+      ]);
+
+      // Act
+      const result = await getApplicationStageHistory(10);
+
+      // Assert
+      expect(result.history[0].leftAt).toEqual(new Date('2026-01-03T00:00:00.000Z'));
+      expect(result.history[0].durationSeconds).toBe(2 * 24 * 60 * 60);
+      expect(result.history[1].leftAt).toBeNull();
+      expect(result.currentStep).toEqual({
+        id: 22,
+        name: 'Technical Interview',
+        enteredAt: new Date('2026-01-03T00:00:00.000Z'),
+      });
+    });
+
+    test('should throw ApplicationNotFoundError when the application does not exist', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(getApplicationStageHistory(404)).rejects.toThrow('Application not found: 404');
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import jwt from 'jsonwebtoken';
+import { createAuthService, resolveTokenSecret } from '../../src/application/services/authService';
+import { assertPasswordPolicy, hashPassword, verifyPassword } from '../../src/application/passwords';
+import {
+  AuthenticationRequiredError,
+  InvalidCredentialsError,
+  InvalidPasswordResetTokenError,
+  InvalidSessionError,
+  MissingSecretError,
+  WeakPasswordError
+} from '../../src/types/errors';
+
+// Mock Prisma client
+const mockPrisma = {
+  $transaction: jest.fn(),
+  employee: {
+    findFirst: jest.fn(),
+    update: jest.fn(),
+  },
+  employeeSession: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  passwordResetToken: {
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+} as any;
+
+const SECRET = 'test-secret';
+const mockNotifier = jest.fn();
+const { login, refresh, logout, authenticate, requestPasswordReset, resetPassword } = createAuthService(
+  mockPrisma,
+  SECRET,
+  mockNotifier,
+);
+
+const PASSWORD = 'correct horse battery';
+let passwordHash: string;
+
+const employee = () => ({
+  id: 1,
+  companyId: 1,
+  name: 'Alice Johnson',
+  email: 'alice.johnson@lti.com',
+  role: 'Interviewer',
+  isActive: true,
+  passwordHash,
+});
+
+const inAWeek = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+const session = (overrides = {}) => ({
+  id: 10,
+  employeeId: 1,
+  tokenHash: 'stored-hash',
+  expiresAt: inAWeek(),
+  revokedAt: null,
+  employee: employee(),
+  ...overrides,
+});
+
+describe('AuthService', () => {
+  beforeAll(async () => {
+    passwordHash = await hashPassword(PASSWORD);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma));
+  });
+
+  describe('passwords', () => {
+    test('should verify only the password that was hashed', async () => {
+      // Act & Assert
+      expect(passwordHash).toMatch(/^scrypt\$16384\$8\$1\$/);
+      await expect(verifyPassword(PASSWORD, passwordHash)).resolves.toBe(true);
+      await expect(verifyPassword('wrong password!', passwordHash)).resolves.toBe(false);
+      await expect(verifyPassword(PASSWORD, 'not-a-hash')).resolves.toBe(false);
+    });
+
+    test('should enforce the password length limits', () => {
+      // Act & Assert
+      expect(() => assertPasswordPolicy('short')).toThrow('Password must be at least 12 characters long');
+      expect(() => assertPasswordPolicy('x'.repeat(129))).toThrow(WeakPasswordError);
+      expect(() => assertPasswordPolicy(12345678901234)).toThrow(WeakPasswordError);
+      expect(() => assertPasswordPolicy(PASSWORD)).not.toThrow();
+    });
+  });
+
+  describe('login', () => {
+    test('should start a session and issue tokens for the right password', async () => {
+      // Arrange
+      mockPrisma.employee.findFirst.mockResolvedValue(employee());
+      mockPrisma.employeeSession.create.mockResolvedValue({ id: 10 });
+
+      // Act
+      const result = await login(' Alice.Johnson@LTI.com ', PASSWORD);
+
+      // Assert
+      expect(mockPrisma.employee.findFirst).toHaveBeenCalledWith({
+        where: { email: { equals: 'alice.johnson@lti.com', mode: 'insensitive' } },
+        orderBy: { id: 'asc' },
+      });
+      const { data } = mockPrisma.employeeSession.create.mock.calls[0][0];
+      expect(data.employeeId).toBe(1);
+      expect(data.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(data.tokenHash).not.toBe(result.tokens.refreshToken);
+      expect(result.employee).toEqual({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Interviewer' });
+      expect(jwt.verify(result.tokens.accessToken, SECRET)).toMatchObject({ sub: '1', sid: 10 });
+    });
+
+    test('should reject a wrong password', async () => {
+      // Arrange
+      mockPrisma.employee.findFirst.mockResolvedValue(employee());
+
+      // Act & Assert
+      await expect(login('alice.johnson@lti.com', 'wrong password!')).rejects.toThrow(InvalidCredentialsError);
+      expect(mockPrisma.employeeSession.create).not.toHaveBeenCalled();
+    });
+
+    test('should reject unknown, inactive and passwordless employees alike', async () => {
+      // Arrange
+      mockPrisma.employee.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ...employee(), isActive: false })
+        .mockResolvedValueOnce({ ...employee(), passwordHash: null });
+
+      // Act & Assert
+      await expect(login('nobody@lti.com', PASSWORD)).rejects.toThrow('Invalid email or password');
+      await expect(login('alice.johnson@lti.com', PASSWORD)).rejects.toThrow('Invalid email or password');
+      await expect(login('alice.johnson@lti.com', PASSWORD)).rejects.toThrow('Invalid email or password');
+    });
+  });
+
+  describe('refresh', () => {
+    test('should rotate the refresh token and extend the session', async () => {
+      // Arrange
+      mockPrisma.employeeSession.findUnique.mockResolvedValue(session());
+      mockPrisma.employeeSession.updateMany.mockResolvedValue({ count: 1 });
+
+      // Act
+      const result = await refresh('old-token');
+
+      // Assert
+      const { where, data } = mockPrisma.employeeSession.updateMany.mock.calls[0][0];
+      expect(where).toEqual({ id: 10, tokenHash: 'stored-hash', revokedAt: null });
+      expect(data.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+      expect(result.tokens.refreshToken).not.toBe('old-token');
+      expect(jwt.verify(result.tokens.accessToken, SECRET)).toMatchObject({ sub: '1', sid: 10 });
+    });
+
+    test('should reject a token already used by a concurrent refresh', async () => {
+      // Arrange
+      mockPrisma.employeeSession.findUnique.mockResolvedValue(session());
+      mockPrisma.employeeSession.updateMany.mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(refresh('old-token')).rejects.toThrow('Invalid session: refresh token has already been used');
+    });
+
+    test('should reject revoked, expired and unknown sessions', async () => {
+      // Arrange
+      mockPrisma.employeeSession.findUnique
+        .mockResolvedValueOnce(session({ revokedAt: new Date() }))
+        .mockResolvedValueOnce(session({ expiresAt: new Date(Date.now() - 1000) }))
+        .mockResolvedValueOnce(null);
+
+      // Act & Assert
+      await expect(refresh('token')).rejects.toThrow(InvalidSessionError);
+      await expect(refresh('token')).rejects.toThrow(InvalidSessionError);
+      await expect(refresh('token')).rejects.toThrow(InvalidSessionError);
+      await expect(refresh(undefined)).rejects.toThrow('Invalid session: refresh token is missing');
+      expect(mockPrisma.employeeSession.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    test('should revoke the session of the refresh token', async () => {
+      // Act
+      await logout('token');
+      await logout(undefined);
+
+      // Assert
+      expect(mockPrisma.employeeSession.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.employeeSession.updateMany).toHaveBeenCalledWith({
+        where: { tokenHash: expect.stringMatching(/^[0-9a-f]{64}$/), revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('authenticate', () => {
+    const accessToken = (claims: object, secret = SECRET, expiresIn = 900) =>
+      jwt.sign(claims, secret, { subject: '1', expiresIn });
+
+    test('should resolve the employee of a live session', async () => {
+      // Arrange
+      mockPrisma.employeeSession.findUnique.mockResolvedValue(session());
+
+      // Act
+      const result = await authenticate(accessToken({ sid: 10 }));
+
+      // Assert
+      expect(mockPrisma.employeeSession.findUnique).toHaveBeenCalledWith({ where: { id: 10 }, include: { employee: true } });
+      expect(result).toEqual({ id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Interviewer' });
+    });
+
+    test('should require a token', async () => {
+      // Act & Assert
+      await expect(authenticate(undefined)).rejects.toThrow(AuthenticationRequiredError);
+    });
+
+    test('should reject forged, expired and unsigned tokens', async () => {
+      // Act & Assert
+      await expect(authenticate(accessToken({ sid: 10 }, 'other-secret'))).rejects.toThrow(InvalidSessionError);
+      await expect(authenticate(accessToken({ sid: 10 }, SECRET, -10))).rejects.toThrow(InvalidSessionError);
+      await expect(authenticate(jwt.sign({ sid: 10, sub: '1' }, '', { algorithm: 'none' }))).rejects.toThrow(InvalidSessionError);
+      await expect(authenticate(accessToken({}))).rejects.toThrow(InvalidSessionError);
+      expect(mockPrisma.employeeSession.findUnique).not.toHaveBeenCalled();
+    });
+
+    test('should reject tokens of ended sessions and deactivated employees', async () => {
+      // Arrange
+      mockPrisma.employeeSession.findUnique
+        .mockResolvedValueOnce(session({ revokedAt: new Date() }))
+        .mockResolvedValueOnce(session({ employee: { ...employee(), isActive: false } }))
+        .mockResolvedValueOnce(session({ employeeId: 2 }));
+
+      // Act & Assert
+      await expect(authenticate(accessToken({ sid: 10 }))).rejects.toThrow('Invalid session: session has ended');
+      await expect(authenticate(accessToken({ sid: 10 }))).rejects.toThrow('Invalid session: session has ended');
+      await expect(authenticate(accessToken({ sid: 10 }))).rejects.toThrow('Invalid session: session has ended');
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    test('should store a hashed token and send the plain one', async () => {
+      // Arrange
+      mockPrisma.employee.findFirst.mockResolvedValue(employee());
+
+      // Act
+      await requestPasswordReset('alice.johnson@lti.com');
+
+      // Assert
+      const { data } = mockPrisma.passwordResetToken.create.mock.calls[0][0];
+      const [notified, token, expiresAt] = mockNotifier.mock.calls[0];
+      expect(notified.email).toBe('alice.johnson@lti.com');
+      expect(token).not.toBe(data.tokenHash);
+      expect(expiresAt).toEqual(data.expiresAt);
+    });
+
+    test('should do nothing for an unknown email', async () => {
+      // Arrange
+      mockPrisma.employee.findFirst.mockResolvedValue(null);
+
+      // Act
+      await requestPasswordReset('nobody@lti.com');
+
+      // Assert
+      expect(mockPrisma.passwordResetToken.create).not.toHaveBeenCalled();
+      expect(mockNotifier).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    const resetToken = (overrides = {}) => ({
+      id: 5,
+      employeeId: 1,
+      expiresAt: new Date(Date.now() + 60_000),
+      usedAt: null,
+      ...overrides,
+    });
+
+    test('should set the new password and end every session', async () => {
+      // Arrange
+      mockPrisma.passwordResetToken.findUnique.mockResolvedValue(resetToken());
+      mockPrisma.passwordResetToken.updateMany.mockResolvedValue({ count: 1 });
+
+      // Act
+      await resetPassword('reset-token', 'a brand new password');
+
+      // Assert
+      const { data } = mockPrisma.employee.update.mock.calls[0][0];
+      await expect(verifyPassword('a brand new password', data.passwordHash)).resolves.toBe(true);
+      expect(mockPrisma.employeeSession.updateMany).toHaveBeenCalledWith({
+        where: { employeeId: 1, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+
+    test('should reject used, expired and unknown tokens', async () => {
+      // Arrange
+      mockPrisma.passwordResetToken.findUnique
+        .mockResolvedValueOnce(resetToken({ usedAt: new Date() }))
+        .mockResolvedValueOnce(resetToken({ expiresAt: new Date(Date.now() - 1000) }))
+        .mockResolvedValueOnce(null);
+
+      // Act & Assert
+      await expect(resetPassword('reset-token', 'a brand new password')).rejects.toThrow(InvalidPasswordResetTokenError);
+      await expect(resetPassword('reset-token', 'a brand new password')).rejects.toThrow(InvalidPasswordResetTokenError);
+      await expect(resetPassword('reset-token', 'a brand new password')).rejects.toThrow(InvalidPasswordResetTokenError);
+      expect(mockPrisma.employee.update).not.toHaveBeenCalled();
+    });
+
+    test('should reject a weak password before looking up the token', async () => {
+      // Act & Assert
+      await expect(resetPassword('reset-token', 'short')).rejects.toThrow(WeakPasswordError);
+      expect(mockPrisma.passwordResetToken.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveTokenSecret', () => {
+    test('should use JWT_SECRET when set', () => {
+      expect(resolveTokenSecret({ NODE_ENV: 'production', JWT_SECRET: 'shared-secret' })).toBe('shared-secret');
+    });
+
+    test('should refuse to start in production without JWT_SECRET', () => {
+      expect(() => resolveTokenSecret({ NODE_ENV: 'production' })).toThrow(MissingSecretError);
+    });
+
+    test('should make up a secret outside production', () => {
+      expect(resolveTokenSecret({ NODE_ENV: 'test' })).toHaveLength(64);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { buildSearchDocument, createCandidateSearchService } from '../../src/application/services/candidateSearchService';
+import { extractResumeText } from '../../src/application/resumeText';
+import { runWithTenant } from '../../src/application/tenancy';
+import { CandidateProfileNotFoundError, InvalidCandidateFilterError } from '../../src/types/errors';
+
+jest.mock('../../src/application/resumeText');
+const mockExtractResumeText = extractResumeText as jest.MockedFunction<typeof extractResumeText>;
+
+// Mock Prisma client
+const mockPrisma = {
+  $executeRaw: jest.fn(),
+  $queryRaw: jest.fn(),
+  candidate: {
+    findUnique: jest.fn(),
+  },
+  resume: {
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+} as any;
+
+const mockStorage = {
+  driver: 'local',
+  read: jest.fn(),
+} as any;
+
+const { refreshSearchDocument, indexCandidate, searchCandidates } = createCandidateSearchService(mockPrisma, mockStorage);
+
+const candidate = {
+  id: 1,
+  firstName: 'John',
+  lastName: 'Doe',
+  email: 'john.doe@gmail.com',
+  address: 'Calle Mayor 1, Madrid',
+  educations: [{ institution: 'UC3M', title: 'Computer Science' }],
+  workExperiences: [{ company: 'Eventbrite', position: 'Developer', description: 'Ran Kubernetes clusters' }],
+  resumes: [{ textContent: 'Go, Terraform and Kubernetes' }],
+};
+
+describe('CandidateSearchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.candidate.findUnique.mockResolvedValue(candidate);
+  });
+
+  describe('buildSearchDocument', () => {
+    test('should group candidate text by ranking weight', () => {
+      // Act
+      const document = buildSearchDocument(candidate);
+
+      // Assert
+      expect(document).toEqual({
+        profile: 'John Doe\njohn.doe@gmail.com',
+        titles: 'Computer Science, UC3M\nDeveloper, Eventbrite',
+        details: 'Ran Kubernetes clusters\nCalle Mayor 1, Madrid',
+        resumes: 'Go, Terraform and Kubernetes',
+        content: [
+          'John Doe\njohn.doe@gmail.com',
+          'Computer Science, UC3M\nDeveloper, Eventbrite',
+          'Ran Kubernetes clusters\nCalle Mayor 1, Madrid',
+          'Go, Terraform and Kubernetes',
+        ].join('\n'),
+      });
+    });
+
+    test('should skip missing descriptions, address and resume text', () => {
+      // Act
+      const document = buildSearchDocument({
+        ...candidate,
+        address: null,
+        workExperiences: [{ company: 'Eventbrite', position: 'Developer', description: null }],
+        resumes: [],
+      });
+
+      // Assert
+      expect(document.details).toBe('');
+      expect(document.resumes).toBe('');
+    });
+  });
+
+  describe('refreshSearchDocument', () => {
+    test('should upsert the weighted document of the candidate', async () => {
+      // Act
+      await refreshSearchDocument(1);
+
+      // Assert
+      const [sql, ...values] = mockPrisma.$executeRaw.mock.calls[0];
+      expect(sql.join('?')).toContain('ON CONFLICT ("candidateId") DO UPDATE');
+      expect(values).toEqual([
+        1,
+        buildSearchDocument(candidate).content,
+        'John Doe\njohn.doe@gmail.com',
+        'Computer Science, UC3M\nDeveloper, Eventbrite',
+        'Ran Kubernetes clusters\nCalle Mayor 1, Madrid',
+        'Go, Terraform and Kubernetes',
+      ]);
+    });
+
+    test('should throw when the candidate does not exist', async () => {
+      // Arrange
+      mockPrisma.candidate.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(refreshSearchDocument(99)).rejects.toThrow(CandidateProfileNotFoundError);
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('indexCandidate', () => {
+    test('should store extracted resume text before refreshing the document', async () => {
+      // Arrange
+      mockPrisma.resume.findMany.mockResolvedValue([
+        { id: 5, filePath: '3a/3a7bd3e2.pdf', fileType: 'application/pdf' },
+        { id: 6, filePath: 'c0/c0ffee00.pdf', fileType: 'application/pdf' },
+      ]);
+      mockStorage.read.mockResolvedValue(Buffer.from('%PDF-1.4'));
+      mockExtractResumeText.mockResolvedValueOnce('Kubernetes').mockRejectedValueOnce(new Error('bad XRef entry'));
+
+      // Act
+      await indexCandidate(1);
+
+      // Assert
+      expect(mockPrisma.resume.findMany).toHaveBeenCalledWith({
+        where: { candidateId: 1, textContent: null, scanStatus: { not: 'Quarantined' } },
+      });
+      expect(mockStorage.read).toHaveBeenCalledWith('3a/3a7bd3e2.pdf');
+      expect(mockPrisma.resume.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.resume.update).toHaveBeenCalledWith({ where: { id: 5 }, data: { textContent: 'Kubernetes' } });
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('searchCandidates', () => {
+    test('should return ranked results with snippets', async () => {
+      // Arrange
+      mockPrisma.$queryRaw.mockResolvedValueOnce([{ total: BigInt(1) }]).mockResolvedValueOnce([
+        {
+          candidateId: 1,
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'john.doe@gmail.com',
+          rank: 0.35,
+          snippet: 'Ran <mark>Kubernetes</mark> clusters … Calle Mayor 1, <mark>Madrid</mark>',
+        },
+      ]);
+
+      // Act
+      const result = await searchCandidates({ q: '  kubernetes madrid ', limit: 10, offset: 0 });
+
+      // Assert
+      expect(result).toEqual({
+        query: 'kubernetes madrid',
+        total: 1,
+        results: [
+          {
+            candidateId: 1,
+            fullName: 'John Doe',
+            email: 'john.doe@gmail.com',
+            rank: 0.35,
+            snippet: 'Ran <mark>Kubernetes</mark> clusters … Calle Mayor 1, <mark>Madrid</mark>',
+          },
+        ],
+      });
+      const [, query, companyId, , limit, offset] = mockPrisma.$queryRaw.mock.calls[1];
+      expect([query, companyId, limit, offset]).toEqual(['kubernetes madrid', null, 10, 0]);
+    });
+
+    test('should only search the candidates of the current company', async () => {
+      // Arrange
+      mockPrisma.$queryRaw.mockResolvedValueOnce([{ total: BigInt(0) }]);
+
+      // Act
+      await runWithTenant(2, () => searchCandidates({ q: 'kubernetes' }));
+
+      // Assert
+      const [sql, , companyId] = mockPrisma.$queryRaw.mock.calls[0];
+      expect(sql.join('?')).toContain('c."companyId" = ?');
+      expect(companyId).toBe(2);
+    });
+
+    test('should skip the page query when nothing matches', async () => {
+      // Arrange
+      mockPrisma.$queryRaw.mockResolvedValueOnce([{ total: BigInt(0) }]);
+
+      // Act
+      const result = await searchCandidates({ q: 'cobol' });
+
+      // Assert
+      expect(result).toEqual({ query: 'cobol', total: 0, results: [] });
+      expect(mockPrisma.$queryRaw).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reject an empty query', async () => {
+      // Act & Assert
+      await expect(searchCandidates({ q: '   ' })).rejects.toThrow(InvalidCandidateFilterError);
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    test('should reject a page size above the maximum', async () => {
+      // Act & Assert
+      await expect(searchCandidates({ q: 'kubernetes', limit: 500 })).rejects.toThrow(
+        'Invalid candidate filter: limit',
+      );
+    });
+  });
+});
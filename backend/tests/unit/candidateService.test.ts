@@ -0,0 +1,522 @@
+import { createCandidateService } from '../../src/application/services/candidateService';
+import {
+  CandidateEmailExistsError,
+  CandidateProfileNotFoundError,
+  CandidateRecordNotFoundError,
+  InvalidCandidateDataError,
+  InvalidCandidateFilterError
+} from '../../src/types/errors';
+import { Prisma } from '@prisma/client';
+
+// Mock Prisma client
+const mockPrisma = {
+  $executeRaw: jest.fn(),
+  $queryRaw: jest.fn(),
+  $transaction: jest.fn(),
+  application: {
+    deleteMany: jest.fn(),
+  },
+  applicationStageHistory: {
+    deleteMany: jest.fn(),
+  },
+  candidate: {
+    delete: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  education: {
+    create: jest.fn(),
+    delete: jest.fn(),
+    deleteMany: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+  },
+  interview: {
+    deleteMany: jest.fn(),
+    findMany: jest.fn(),
+  },
+  resume: {
+    deleteMany: jest.fn(),
+    findMany: jest.fn(),
+  },
+  upload: {
+    deleteMany: jest.fn(),
+  },
+  workExperience: {
+    create: jest.fn(),
+    delete: jest.fn(),
+    deleteMany: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+  },
+} as any;
+
+// Mock file storage
+const mockStorage = {
+  driver: 'local',
+  save: jest.fn(),
+  read: jest.fn(),
+  openReadStream: jest.fn(),
+  exists: jest.fn(),
+  remove: jest.fn(),
+} as any;
+
+const candidateService = createCandidateService(mockPrisma, mockStorage);
+const {
+  listCandidates,
+  replaceCandidate,
+  updateCandidate,
+  deleteCandidate,
+  addEducation,
+  updateEducation,
+  removeEducation,
+  updateWorkExperience
+} = candidateService;
+
+const profile = {
+  id: 1,
+  firstName: 'John',
+  lastName: 'Doe',
+  email: 'john.doe@gmail.com',
+  phone: null,
+  address: null,
+  educations: [{ id: 3, institution: 'UC3M', title: 'Computer Science', candidateId: 1 }],
+  workExperiences: [{ id: 4, company: 'Eventbrite', position: 'Developer', candidateId: 1 }],
+  resumes: [],
+};
+
+describe('CandidateService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.candidate.findUnique.mockResolvedValue(profile);
+  });
+
+  describe('listCandidates', () => {
+    const listedCandidate = (id: number, step: string | null = 'Technical Interview') => ({
+      id,
+      firstName: 'John',
+      lastName: 'Doe',
+      email: `candidate${id}@gmail.com`,
+      phone: null,
+      applications: step ? [{ interviewStep: { name: step } }] : [],
+      _count: { applications: step ? 1 : 0 },
+    });
+
+    beforeEach(() => {
+      mockPrisma.interview.findMany.mockResolvedValue([]);
+    });
+
+    test('should return summaries with the weighted score of completed interviews', async () => {
+      // Arrange
+      mockPrisma.candidate.findMany.mockResolvedValue([listedCandidate(1), listedCandidate(2, null)]);
+      mockPrisma.interview.findMany.mockResolvedValue([
+        {
+          score: null,
+          application: { candidateId: 1 },
+          ratings: [
+            { rating: 5, weight: 3, scaleMin: 1, scaleMax: 5 },
+            { rating: 3, weight: 1, scaleMin: 1, scaleMax: 5 },
+          ],
+        },
+      ]);
+
+      // Act
+      const result = await listCandidates();
+
+      // Assert
+      expect(result).toEqual({
+        candidates: [
+          {
+            id: 1,
+            fullName: 'John Doe',
+            email: 'candidate1@gmail.com',
+            phone: null,
+            currentInterviewStep: 'Technical Interview',
+            weightedScore: 87.5,
+            applicationCount: 1,
+          },
+          {
+            id: 2,
+            fullName: 'John Doe',
+            email: 'candidate2@gmail.com',
+            phone: null,
+            currentInterviewStep: null,
+            weightedScore: null,
+            applicationCount: 0,
+          },
+        ],
+        nextCursor: null,
+      });
+      expect(mockPrisma.candidate.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: {}, orderBy: { id: 'asc' }, take: 21 }),
+      );
+    });
+
+    test('should return a cursor when there are more rows than the limit', async () => {
+      // Arrange
+      mockPrisma.candidate.findMany.mockResolvedValue([listedCandidate(5), listedCandidate(3), listedCandidate(2)]);
+
+      // Act
+      const result = await listCandidates({ limit: 2, cursor: 7, sortBy: 'lastName', sortOrder: 'desc' });
+
+      // Assert
+      expect(result.candidates.map(({ id }) => id)).toEqual([5, 3]);
+      expect(result.nextCursor).toBe(3);
+      expect(mockPrisma.candidate.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ lastName: 'desc' }, { id: 'desc' }],
+          cursor: { id: 7 },
+          skip: 1,
+          take: 3,
+        }),
+      );
+    });
+
+    test('should build the where clause from the filters', async () => {
+      // Arrange
+      mockPrisma.candidate.findMany.mockResolvedValue([]);
+
+      // Act
+      await listCandidates({ name: 'john doe', positionId: 2, interviewStep: 'Offer', company: 'Eventbrite' });
+
+      // Assert
+      const { where, select } = mockPrisma.candidate.findMany.mock.calls[0][0];
+      expect(where).toEqual({
+        AND: [
+          {
+            OR: [
+              { firstName: { contains: 'john', mode: 'insensitive' } },
+              { lastName: { contains: 'john', mode: 'insensitive' } },
+            ],
+          },
+          {
+            OR: [
+              { firstName: { contains: 'doe', mode: 'insensitive' } },
+              { lastName: { contains: 'doe', mode: 'insensitive' } },
+            ],
+          },
+        ],
+        applications: {
+          some: { positionId: 2, interviewStep: { name: { equals: 'Offer', mode: 'insensitive' } } },
+        },
+        workExperiences: { some: { company: { contains: 'Eventbrite', mode: 'insensitive' } } },
+      });
+      expect(select.applications.where).toEqual({ positionId: 2 });
+      expect(mockPrisma.interview.findMany).not.toHaveBeenCalled();
+    });
+
+    test('should restrict the listing to candidates inside the score range', async () => {
+      // Arrange
+      mockPrisma.interview.findMany.mockResolvedValueOnce([
+        { score: 5, ratings: [], application: { candidateId: 1 } },
+        { score: 2, ratings: [], application: { candidateId: 2 } },
+      ]);
+      mockPrisma.candidate.findMany.mockResolvedValue([]);
+
+      // Act
+      await listCandidates({ minScore: 50 });
+
+      // Assert
+      expect(mockPrisma.interview.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: 'Completed', application: { candidate: {} } } }),
+      );
+      expect(mockPrisma.candidate.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: { in: [1] } } }),
+      );
+    });
+
+    test('should reject an inverted score range', async () => {
+      // Act & Assert
+      await expect(listCandidates({ minScore: 80, maxScore: 20 })).rejects.toThrow(InvalidCandidateFilterError);
+      expect(mockPrisma.candidate.findMany).not.toHaveBeenCalled();
+    });
+
+    test('should reject an unknown sort field', async () => {
+      // Act & Assert
+      await expect(listCandidates({ sortBy: 'address' as any })).rejects.toThrow('Invalid candidate filter: sortBy');
+    });
+  });
+
+  describe('updateCandidate', () => {
+    test('should update only the supplied fields', async () => {
+      // Arrange
+      mockPrisma.candidate.update.mockResolvedValue({ ...profile, phone: '612345678' });
+
+      // Act
+      await updateCandidate(1, { phone: '612345678' });
+
+      // Assert
+      expect(mockPrisma.candidate.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 1 }, data: { phone: '612345678' } }),
+      );
+    });
+
+    test('should refresh the search document of the candidate', async () => {
+      // Arrange
+      mockPrisma.candidate.update.mockResolvedValue({ ...profile, lastName: 'Smith' });
+
+      // Act
+      await updateCandidate(1, { lastName: 'Smith' });
+
+      // Assert
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+    });
+
+    test('should keep the update when refreshing the search document fails', async () => {
+      // Arrange
+      mockPrisma.candidate.update.mockResolvedValue({ ...profile, lastName: 'Smith' });
+      mockPrisma.$executeRaw.mockRejectedValueOnce(new Error('connection lost'));
+
+      // Act
+      const result = await updateCandidate(1, { lastName: 'Smith' });
+
+      // Assert
+      expect(result.lastName).toBe('Smith');
+    });
+
+    test('should validate supplied fields instead of skipping validation', async () => {
+      // Act & Assert
+      await expect(updateCandidate(1, { email: 'not-an-email' })).rejects.toThrow(
+        'Invalid candidate data: Invalid email',
+      );
+      expect(mockPrisma.candidate.update).not.toHaveBeenCalled();
+    });
+
+    test('should clear optional fields set to null', async () => {
+      // Act
+      await updateCandidate(1, { address: null });
+
+      // Assert
+      expect(mockPrisma.candidate.update).toHaveBeenCalledWith(expect.objectContaining({ data: { address: null } }));
+    });
+
+    test('should reject a body without profile fields', async () => {
+      // Act & Assert
+      await expect(updateCandidate(1, {})).rejects.toThrow(InvalidCandidateDataError);
+    });
+
+    test('should reject nested lists, which have their own endpoints', async () => {
+      // Act & Assert
+      await expect(updateCandidate(1, { educations: [] } as any)).rejects.toThrow(InvalidCandidateDataError);
+    });
+
+    test('should report an email used by another candidate', async () => {
+      // Arrange
+      mockPrisma.candidate.update.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '5.14.0',
+          meta: { target: ['email'] },
+        }),
+      );
+
+      // Act & Assert
+      await expect(updateCandidate(1, { email: 'jane.smith@gmail.com' })).rejects.toThrow(CandidateEmailExistsError);
+    });
+
+    test('should throw when the candidate does not exist', async () => {
+      // Arrange
+      mockPrisma.candidate.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(updateCandidate(99, { firstName: 'Jane' })).rejects.toThrow(CandidateProfileNotFoundError);
+    });
+  });
+
+  describe('replaceCandidate', () => {
+    beforeEach(() => {
+      mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma));
+      mockPrisma.candidate.update.mockResolvedValue(profile);
+    });
+
+    test('should synchronize educations by id', async () => {
+      // Act
+      await replaceCandidate(1, {
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john.doe@gmail.com',
+        educations: [
+          { id: 3, institution: 'UC3M', title: 'Software Engineering', startDate: '2015-09-01' },
+          { institution: 'UPM', title: 'Master in AI', startDate: '2020-09-01', endDate: '2021-06-30' },
+        ],
+      });
+
+      // Assert
+      expect(mockPrisma.candidate.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { firstName: 'John', lastName: 'Doe', email: 'john.doe@gmail.com', phone: null, address: null },
+      });
+      expect(mockPrisma.education.deleteMany).toHaveBeenCalledWith({ where: { candidateId: 1, id: { notIn: [3] } } });
+      expect(mockPrisma.education.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: {
+          institution: 'UC3M',
+          title: 'Software Engineering',
+          startDate: new Date('2015-09-01'),
+          endDate: null,
+        },
+      });
+      expect(mockPrisma.education.create).toHaveBeenCalledWith({
+        data: {
+          candidateId: 1,
+          institution: 'UPM',
+          title: 'Master in AI',
+          startDate: new Date('2020-09-01'),
+          endDate: new Date('2021-06-30'),
+        },
+      });
+      expect(mockPrisma.workExperience.deleteMany).not.toHaveBeenCalled();
+    });
+
+    test('should require the mandatory fields', async () => {
+      // Act & Assert
+      await expect(replaceCandidate(1, { firstName: 'John', lastName: 'Doe' } as any)).rejects.toThrow(
+        'Invalid candidate data: Invalid email',
+      );
+    });
+
+    test('should reject list entries that belong to another candidate', async () => {
+      // Act & Assert
+      await expect(
+        replaceCandidate(1, {
+          firstName: 'John',
+          lastName: 'Doe',
+          email: 'john.doe@gmail.com',
+          workExperiences: [{ id: 40, company: 'Acme', position: 'Developer', startDate: '2019-01-01' }],
+        }),
+      ).rejects.toThrow(CandidateRecordNotFoundError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteCandidate', () => {
+    test('should delete the candidate with all related rows', async () => {
+      // Arrange
+      mockPrisma.$transaction.mockImplementation((operations: any) => Promise.all(operations));
+      mockPrisma.interview.deleteMany.mockResolvedValue({ count: 2 });
+      mockPrisma.applicationStageHistory.deleteMany.mockResolvedValue({ count: 3 });
+      mockPrisma.application.deleteMany.mockResolvedValue({ count: 1 });
+      mockPrisma.resume.deleteMany.mockResolvedValue({ count: 1 });
+      mockPrisma.education.deleteMany.mockResolvedValue({ count: 1 });
+      mockPrisma.workExperience.deleteMany.mockResolvedValue({ count: 1 });
+      mockPrisma.resume.findMany.mockResolvedValue([]);
+
+      // Act
+      const result = await deleteCandidate(1);
+
+      // Assert
+      expect(mockPrisma.interview.deleteMany).toHaveBeenCalledWith({ where: { application: { candidateId: 1 } } });
+      expect(mockPrisma.candidate.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+      expect(result).toEqual({
+        success: true,
+        candidateId: 1,
+        deleted: { applications: 1, interviews: 2, educations: 1, workExperiences: 1, resumes: 1 },
+      });
+    });
+
+    test('should remove the stored files of every resume version that nothing else refers to', async () => {
+      // Arrange
+      mockPrisma.$transaction.mockImplementation((operations: any) => Promise.all(operations));
+      mockPrisma.resume.findMany.mockResolvedValue([
+        { filePath: 'ab/ab12.pdf' },
+        { filePath: 'quarantine/cd/cd34.pdf' },
+        { filePath: 'ef/ef56.pdf' },
+      ]);
+      mockPrisma.resume.deleteMany.mockResolvedValue({ count: 3 });
+      // ef56.pdf has the same content as a resume of another candidate
+      mockPrisma.$queryRaw
+        .mockResolvedValueOnce([{ references: BigInt(0) }])
+        .mockResolvedValueOnce([{ references: BigInt(0) }])
+        .mockResolvedValueOnce([{ references: BigInt(1) }]);
+
+      // Act
+      await deleteCandidate(1);
+
+      // Assert
+      expect(mockPrisma.upload.deleteMany).toHaveBeenCalledWith({
+        where: { key: { in: ['ab/ab12.pdf', 'quarantine/cd/cd34.pdf', 'ef/ef56.pdf'] } },
+      });
+      expect(mockStorage.remove.mock.calls).toEqual([['ab/ab12.pdf'], ['quarantine/cd/cd34.pdf']]);
+    });
+
+    test('should still delete the candidate when a file cannot be removed', async () => {
+      // Arrange
+      mockPrisma.$transaction.mockImplementation((operations: any) => Promise.all(operations));
+      mockPrisma.resume.findMany.mockResolvedValue([{ filePath: 'ab/ab12.pdf' }]);
+      mockPrisma.$queryRaw.mockResolvedValue([{ references: BigInt(0) }]);
+      mockStorage.remove.mockRejectedValue(new Error('bucket unreachable'));
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      // Act
+      const result = await deleteCandidate(1);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(consoleError).toHaveBeenCalledWith(
+        'Error removing stored file ab/ab12.pdf of a deleted candidate:',
+        expect.any(Error),
+      );
+      consoleError.mockRestore();
+    });
+
+    test('should throw when the candidate does not exist', async () => {
+      // Arrange
+      mockPrisma.candidate.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(deleteCandidate(99)).rejects.toThrow(CandidateProfileNotFoundError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('educations and work experiences', () => {
+    test('should add a validated education', async () => {
+      // Act
+      await addEducation(1, { institution: 'UPM', title: 'Master in AI', startDate: '2020-09-01' });
+
+      // Assert
+      expect(mockPrisma.education.create).toHaveBeenCalledWith({
+        data: { candidateId: 1, institution: 'UPM', title: 'Master in AI', startDate: new Date('2020-09-01'), endDate: null },
+      });
+    });
+
+    test('should reject an education without a start date', async () => {
+      // Act & Assert
+      await expect(addEducation(1, { institution: 'UPM', title: 'Master in AI' })).rejects.toThrow(
+        'Invalid candidate data: Invalid date',
+      );
+    });
+
+    test('should update only the supplied education fields', async () => {
+      // Arrange
+      mockPrisma.education.findFirst.mockResolvedValue(profile.educations[0]);
+
+      // Act
+      await updateEducation(1, 3, { endDate: '2019-06-30' });
+
+      // Assert
+      expect(mockPrisma.education.findFirst).toHaveBeenCalledWith({ where: { id: 3, candidateId: 1 } });
+      expect(mockPrisma.education.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: { endDate: new Date('2019-06-30') },
+      });
+    });
+
+    test('should validate supplied work experience fields', async () => {
+      // Act & Assert
+      await expect(updateWorkExperience(1, 4, { description: 'x'.repeat(201) })).rejects.toThrow(
+        'Invalid candidate data: Invalid description',
+      );
+    });
+
+    test('should not remove an education of another candidate', async () => {
+      // Arrange
+      mockPrisma.education.findFirst.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(removeEducation(1, 30)).rejects.toThrow('Candidate 1 has no education with ID 30');
+      expect(mockPrisma.education.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { verifyDocument } from '../../src/application/documentVerification';
+import { DOCX_MIME_TYPE, PDF_MIME_TYPE } from '../../src/application/resumeText';
+
+/**
+ * Minimal ZIP archive with stored (uncompressed) entries; flags apply to every entry
+ */
+const buildZip = (names: string[], flags = 0): Buffer => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const name of names) {
+    const nameBytes = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(flags, 6);
+    locals.push(local, nameBytes);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(names.length, 8);
+  end.writeUInt16LE(names.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+};
+
+const DOCX_PARTS = ['[Content_Types].xml', '_rels/.rels', 'word/document.xml'];
+const PDF = Buffer.from('%PDF-1.7\n1 0 obj << /Type /Catalog >> endobj\ntrailer << /Root 1 0 R >>\n%%EOF');
+
+describe('DocumentVerification', () => {
+  describe('verifyDocument', () => {
+    test('should accept a PDF and a DOCX declared as such', () => {
+      expect(verifyDocument(PDF, PDF_MIME_TYPE)).toEqual({ valid: true, fileType: PDF_MIME_TYPE });
+      expect(verifyDocument(buildZip(DOCX_PARTS), DOCX_MIME_TYPE)).toEqual({ valid: true, fileType: DOCX_MIME_TYPE });
+    });
+
+    test('should reject an executable labelled as a PDF', () => {
+      // Arrange
+      const executable = Buffer.concat([Buffer.from('MZ'), Buffer.alloc(64)]);
+
+      // Act & Assert
+      expect(verifyDocument(executable, PDF_MIME_TYPE)).toEqual({
+        valid: false,
+        reason: 'content is not a PDF or DOCX document',
+      });
+    });
+
+    test('should reject content that does not match the declared type', () => {
+      expect(verifyDocument(PDF, DOCX_MIME_TYPE)).toEqual({ valid: false, reason: 'content does not match the declared type' });
+      expect(verifyDocument(buildZip(DOCX_PARTS), PDF_MIME_TYPE).valid).toBe(false);
+    });
+
+    test('should reject an encrypted PDF', () => {
+      // Arrange
+      const encrypted = Buffer.from('%PDF-1.7\ntrailer << /Root 1 0 R /Encrypt 5 0 R >>\n%%EOF');
+
+      // Act & Assert
+      expect(verifyDocument(encrypted, PDF_MIME_TYPE)).toEqual({ valid: false, reason: 'PDF is encrypted' });
+    });
+
+    test('should reject macro-enabled and encrypted documents', () => {
+      expect(verifyDocument(buildZip([...DOCX_PARTS, 'word/vbaProject.bin']), DOCX_MIME_TYPE)).toEqual({
+        valid: false,
+        reason: 'DOCX contains macros',
+      });
+      expect(verifyDocument(buildZip(DOCX_PARTS, 0x1), DOCX_MIME_TYPE)).toEqual({ valid: false, reason: 'DOCX is encrypted' });
+
+      // Password-protected Office files are wrapped in a Compound File container
+      const protectedDocx = Buffer.concat([
+        Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+        Buffer.alloc(32),
+        Buffer.from('EncryptionInfo', 'utf16le'),
+      ]);
+      expect(verifyDocument(protectedDocx, DOCX_MIME_TYPE)).toEqual({ valid: false, reason: 'DOCX is encrypted' });
+    });
+
+    test('should reject ZIP archives that are not Word documents', () => {
+      expect(verifyDocument(buildZip(['payload.exe']), DOCX_MIME_TYPE)).toEqual({
+        valid: false,
+        reason: 'content is not a Word document',
+      });
+      expect(verifyDocument(buildZip(DOCX_PARTS).subarray(0, 40), DOCX_MIME_TYPE)).toEqual({
+        valid: false,
+        reason: 'DOCX archive is malformed',
+      });
+    });
+  });
+});
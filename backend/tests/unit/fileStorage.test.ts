@@ -0,0 +1,226 @@
+import { DeleteObjectCommand, GetObjectCommand, HeadObjectCommand, PutObjectCommand } from '@aws-sdk/client-s3';
+import { existsSync, mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { createFileStorage, loadStorageConfig } from '../../src/application/storage/fileStorage';
+import { createLocalFileStorage } from '../../src/application/storage/localFileStorage';
+import { createS3FileStorage } from '../../src/application/storage/s3FileStorage';
+import { contentKey, sanitizeFileName } from '../../src/application/storage/storageKeys';
+import { InvalidStorageConfigError, InvalidStorageKeyError, StoredFileNotFoundError } from '../../src/types/errors';
+import { S3StorageConfig } from '../../src/types/storage';
+
+const PDF = Buffer.from('%PDF-1.4 resume of John Doe');
+const PDF_KEY = contentKey(PDF, 'cv.pdf');
+
+const readAll = async (stream: Readable): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString();
+};
+
+describe('FileStorage', () => {
+  describe('sanitizeFileName', () => {
+    test('should keep only safe characters of the base name', () => {
+      expect(sanitizeFileName('../../etc/Currículum José (final).PDF')).toBe('Curriculum-Jose-final.PDF');
+      expect(sanitizeFileName('C:\\Users\\john\\cv.docx')).toBe('cv.docx');
+      expect(sanitizeFileName('...')).toBe('file');
+    });
+
+    test('should shorten long names without losing the extension', () => {
+      // Act
+      const name = sanitizeFileName(`${'a'.repeat(300)}.pdf`);
+
+      // Assert
+      expect(name).toHaveLength(100);
+      expect(name.endsWith('.pdf')).toBe(true);
+    });
+  });
+
+  describe('contentKey', () => {
+    test('should derive the key from the content and the extension', () => {
+      expect(PDF_KEY).toMatch(/^([0-9a-f]{2})\/\1[0-9a-f]{62}\.pdf$/);
+      expect(contentKey(PDF, 'other name.PDF')).toBe(PDF_KEY);
+      expect(contentKey(Buffer.from('another file'), 'cv.pdf')).not.toBe(PDF_KEY);
+      expect(contentKey(PDF, 'no-extension')).toBe(PDF_KEY.replace('.pdf', ''));
+    });
+  });
+
+  describe('loadStorageConfig', () => {
+    test('should default to the local driver', () => {
+      expect(loadStorageConfig({})).toEqual({ driver: 'local', root: '../uploads' });
+      expect(loadStorageConfig({ STORAGE_LOCAL_ROOT: '/var/lib/lti' })).toEqual({ driver: 'local', root: '/var/lib/lti' });
+    });
+
+    test('should read the s3 settings with path-style URLs for custom endpoints', () => {
+      // Act
+      const config = loadStorageConfig({
+        STORAGE_DRIVER: 's3',
+        S3_BUCKET: 'resumes',
+        S3_ENDPOINT: 'http://localhost:9000',
+        S3_ACCESS_KEY_ID: 'minioadmin',
+        S3_SECRET_ACCESS_KEY: 'minioadmin',
+        S3_PREFIX: 'lti',
+      });
+
+      // Assert
+      expect(config).toEqual({
+        driver: 's3',
+        bucket: 'resumes',
+        region: 'us-east-1',
+        endpoint: 'http://localhost:9000',
+        forcePathStyle: true,
+        accessKeyId: 'minioadmin',
+        secretAccessKey: 'minioadmin',
+        prefix: 'lti/',
+      });
+    });
+
+    test('should reject unknown drivers and incomplete s3 settings', () => {
+      expect(() => loadStorageConfig({ STORAGE_DRIVER: 'ftp' })).toThrow(InvalidStorageConfigError);
+      expect(() => loadStorageConfig({ STORAGE_DRIVER: 's3' })).toThrow('S3_BUCKET is required by the s3 driver');
+      expect(() => loadStorageConfig({ STORAGE_DRIVER: 's3', S3_BUCKET: 'resumes', S3_ACCESS_KEY_ID: 'key' })).toThrow(
+        InvalidStorageConfigError,
+      );
+    });
+
+    test('should build the selected driver', () => {
+      expect(createFileStorage({ driver: 'local', root: tmpdir() }).driver).toBe('local');
+      expect(createFileStorage(loadStorageConfig({ STORAGE_DRIVER: 's3', S3_BUCKET: 'resumes' })).driver).toBe('s3');
+    });
+  });
+
+  describe('createLocalFileStorage', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = mkdtempSync(path.join(tmpdir(), 'storage-'));
+    });
+
+    afterEach(() => {
+      rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should save, read and remove a file by its content key', async () => {
+      // Arrange
+      const storage = createLocalFileStorage(root);
+
+      // Act
+      const stored = await storage.save(PDF, 'cv.pdf', 'application/pdf');
+
+      // Assert
+      expect(stored).toEqual({ key: PDF_KEY, size: PDF.length });
+      expect(existsSync(path.join(root, PDF_KEY))).toBe(true);
+      expect((await storage.read(PDF_KEY)).equals(PDF)).toBe(true);
+      expect(await readAll(await storage.openReadStream(PDF_KEY))).toBe(PDF.toString());
+
+      await storage.remove(PDF_KEY);
+      expect(await storage.exists(PDF_KEY)).toBe(false);
+      await expect(storage.remove(PDF_KEY)).resolves.toBeUndefined();
+    });
+
+    test('should store the same content once', async () => {
+      // Arrange
+      const storage = createLocalFileStorage(root);
+
+      // Act
+      const first = await storage.save(PDF, 'cv.pdf', 'application/pdf');
+      const second = await storage.save(PDF, 'cv (1).pdf', 'application/pdf');
+
+      // Assert
+      expect(second.key).toBe(first.key);
+      expect(readdirSync(path.join(root, PDF_KEY.slice(0, 2)))).toEqual([path.basename(PDF_KEY)]);
+    });
+
+    test('should report missing files', async () => {
+      // Arrange
+      const storage = createLocalFileStorage(root);
+
+      // Act & Assert
+      await expect(storage.read('ab/missing.pdf')).rejects.toThrow(StoredFileNotFoundError);
+      await expect(storage.openReadStream('ab/missing.pdf')).rejects.toThrow(StoredFileNotFoundError);
+    });
+
+    test('should reject keys outside the root', async () => {
+      // Arrange
+      const storage = createLocalFileStorage(root);
+
+      // Act & Assert
+      await expect(storage.read('../secrets.txt')).rejects.toThrow(InvalidStorageKeyError);
+      await expect(storage.read('/etc/passwd')).rejects.toThrow(InvalidStorageKeyError);
+      await expect(storage.exists('')).rejects.toThrow(InvalidStorageKeyError);
+      await expect(storage.read('./quarantine/ab/abc.pdf')).rejects.toThrow(InvalidStorageKeyError);
+      await expect(storage.read('ab//abc.pdf')).rejects.toThrow(InvalidStorageKeyError);
+    });
+  });
+
+  describe('createS3FileStorage', () => {
+    const config: S3StorageConfig = {
+      driver: 's3',
+      bucket: 'resumes',
+      region: 'us-east-1',
+      forcePathStyle: true,
+      prefix: 'lti/',
+    };
+    const notFound = Object.assign(new Error('NotFound'), { name: 'NotFound', $metadata: { httpStatusCode: 404 } });
+
+    const mockClient = { send: jest.fn() };
+    const storage = createS3FileStorage(config, mockClient as any);
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    test('should upload new content under the prefixed key', async () => {
+      // Arrange
+      mockClient.send.mockRejectedValueOnce(notFound).mockResolvedValueOnce({});
+
+      // Act
+      const stored = await storage.save(PDF, 'cv.pdf', 'application/pdf');
+
+      // Assert
+      expect(stored).toEqual({ key: PDF_KEY, size: PDF.length });
+      const [head, put] = mockClient.send.mock.calls.map(([command]) => command);
+      expect(head).toBeInstanceOf(HeadObjectCommand);
+      expect(put).toBeInstanceOf(PutObjectCommand);
+      expect(put.input).toEqual({ Bucket: 'resumes', Key: `lti/${PDF_KEY}`, Body: PDF, ContentType: 'application/pdf' });
+    });
+
+    test('should skip the upload when the content is already stored', async () => {
+      // Arrange
+      mockClient.send.mockResolvedValueOnce({});
+
+      // Act
+      await storage.save(PDF, 'cv.pdf', 'application/pdf');
+
+      // Assert
+      expect(mockClient.send).toHaveBeenCalledTimes(1);
+    });
+
+    test('should read objects and report missing ones', async () => {
+      // Arrange
+      mockClient.send
+        .mockResolvedValueOnce({ Body: { transformToByteArray: async () => new Uint8Array(PDF) } })
+        .mockRejectedValueOnce(Object.assign(new Error('NoSuchKey'), { name: 'NoSuchKey' }));
+
+      // Act & Assert
+      expect((await storage.read(PDF_KEY)).equals(PDF)).toBe(true);
+      expect(mockClient.send.mock.calls[0][0]).toBeInstanceOf(GetObjectCommand);
+      await expect(storage.read(PDF_KEY)).rejects.toThrow(StoredFileNotFoundError);
+    });
+
+    test('should delete objects and reject invalid keys without a request', async () => {
+      // Arrange
+      mockClient.send.mockResolvedValue({});
+
+      // Act
+      await storage.remove(PDF_KEY);
+
+      // Assert
+      expect(mockClient.send.mock.calls[0][0]).toBeInstanceOf(DeleteObjectCommand);
+      expect(mockClient.send.mock.calls[0][0].input).toEqual({ Bucket: 'resumes', Key: `lti/${PDF_KEY}` });
+      await expect(storage.exists('../other-bucket/key')).rejects.toThrow(InvalidStorageKeyError);
+      expect(mockClient.send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
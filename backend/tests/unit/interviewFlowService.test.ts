@@ -0,0 +1,413 @@
+import { createInterviewFlowService } from '../../src/application/services/interviewFlowService';
+import {
+  DuplicateStepNameError,
+  InterviewFlowInUseError,
+  InterviewFlowNotFoundError,
+  InterviewStepNotFoundError,
+  InterviewTypeNotFoundError,
+  InvalidInterviewFlowDataError,
+  SharedTemplateError,
+  StepHasApplicationsError
+} from '../../src/types/errors';
+
+// Mock Prisma client
+const mockPrisma = {
+  interviewFlow: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+  interviewStep: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    delete: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  interviewType: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+  },
+  interview: {
+    count: jest.fn(),
+  },
+  application: {
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  applicationStageHistory: {
+    createMany: jest.fn(),
+  },
+  position: {
+    count: jest.fn(),
+  },
+  $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+} as any;
+
+const interviewFlowService = createInterviewFlowService(mockPrisma);
+const {
+  createInterviewFlow,
+  deleteInterviewFlow,
+  cloneInterviewFlow,
+  addInterviewStep,
+  updateInterviewStep,
+  removeInterviewStep,
+  reorderInterviewSteps,
+} = interviewFlowService;
+
+const step = (id: number, name: string, orderIndex: number) => ({
+  id,
+  interviewFlowId: 1,
+  interviewTypeId: 1,
+  name,
+  orderIndex,
+  interviewType: { id: 1, name: 'Technical' },
+});
+
+const flow = {
+  id: 1,
+  companyId: 1,
+  description: 'Standard development process',
+  interviewSteps: [step(1, 'Initial Screening', 1), step(2, 'Technical Interview', 2), step(3, 'Manager Interview', 3)],
+};
+
+describe('InterviewFlowService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createInterviewFlow', () => {
+    test('should create a flow with ordered steps', async () => {
+      // Arrange
+      mockPrisma.interviewType.findMany.mockResolvedValue([{ id: 1 }, { id: 2 }]);
+      mockPrisma.interviewFlow.create.mockResolvedValue(flow);
+
+      // Act
+      await createInterviewFlow({
+        description: ' Standard development process ',
+        steps: [
+          { name: 'Screening', interviewTypeId: 1 },
+          { name: 'Technical', interviewTypeId: 2 },
+        ],
+      });
+
+      // Assert
+      expect(mockPrisma.interviewFlow.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            description: 'Standard development process',
+            interviewSteps: {
+              create: [
+                { name: 'Screening', interviewTypeId: 1, orderIndex: 1 },
+                { name: 'Technical', interviewTypeId: 2, orderIndex: 2 },
+              ],
+            },
+          },
+        }),
+      );
+    });
+
+    test('should reject duplicate step names regardless of case', async () => {
+      // Act & Assert
+      await expect(
+        createInterviewFlow({
+          steps: [
+            { name: 'Screening', interviewTypeId: 1 },
+            { name: 'screening', interviewTypeId: 1 },
+          ],
+        }),
+      ).rejects.toThrow(InvalidInterviewFlowDataError);
+      expect(mockPrisma.interviewFlow.create).not.toHaveBeenCalled();
+    });
+
+    test('should store the transition rules of the flow', async () => {
+      // Arrange
+      mockPrisma.interviewType.findMany.mockResolvedValue([]);
+      mockPrisma.interviewFlow.create.mockResolvedValue(flow);
+
+      // Act
+      await createInterviewFlow({ maxStepsForward: 2, requireScoredInterview: false, rejectionStepName: null });
+
+      // Assert
+      expect(mockPrisma.interviewFlow.create.mock.calls[0][0].data).toMatchObject({
+        maxStepsForward: 2,
+        requireScoredInterview: false,
+        rejectionStepName: null,
+      });
+    });
+
+    test('should reject a non-positive maxStepsForward', async () => {
+      // Act & Assert
+      await expect(createInterviewFlow({ maxStepsForward: 0 })).rejects.toThrow(
+        'Invalid interview flow data: maxStepsForward must be a positive integer',
+      );
+    });
+
+    test('should throw InterviewTypeNotFoundError for unknown interview types', async () => {
+      // Arrange
+      mockPrisma.interviewType.findMany.mockResolvedValue([{ id: 1 }]);
+
+      // Act & Assert
+      await expect(
+        createInterviewFlow({ steps: [{ name: 'Screening', interviewTypeId: 99 }] }),
+      ).rejects.toThrow(InterviewTypeNotFoundError);
+    });
+  });
+
+  describe('deleteInterviewFlow', () => {
+    test('should refuse to delete a flow used by positions', async () => {
+      // Arrange
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(flow);
+      mockPrisma.position.count.mockResolvedValue(2);
+
+      // Act & Assert
+      await expect(deleteInterviewFlow(1)).rejects.toThrow(InterviewFlowInUseError);
+      expect(mockPrisma.interviewFlow.delete).not.toHaveBeenCalled();
+    });
+
+    test('should delete an unused flow with its steps', async () => {
+      // Arrange
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(flow);
+      mockPrisma.position.count.mockResolvedValue(0);
+
+      // Act
+      const result = await deleteInterviewFlow(1);
+
+      // Assert
+      expect(result).toEqual({ success: true, interviewFlowId: 1 });
+      expect(mockPrisma.interviewStep.deleteMany).toHaveBeenCalledWith({ where: { interviewFlowId: 1 } });
+      expect(mockPrisma.interviewFlow.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+    });
+  });
+
+  describe('shared templates', () => {
+    const template = { ...flow, companyId: null };
+
+    test('should refuse to change a flow shared by every company', async () => {
+      // Arrange
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(template);
+
+      // Act & Assert
+      await expect(deleteInterviewFlow(1)).rejects.toThrow(SharedTemplateError);
+      await expect(addInterviewStep(1, { name: 'Culture Fit', interviewTypeId: 1 })).rejects.toThrow(
+        'Interview flow 1 is shared by every company and cannot be changed',
+      );
+      await expect(updateInterviewStep(1, 2, { name: 'Renamed' })).rejects.toThrow(SharedTemplateError);
+      await expect(removeInterviewStep(1, 2)).rejects.toThrow(SharedTemplateError);
+      await expect(reorderInterviewSteps(1, [3, 2, 1])).rejects.toThrow(SharedTemplateError);
+      expect(mockPrisma.position.count).not.toHaveBeenCalled();
+      expect(mockPrisma.interviewStep.create).not.toHaveBeenCalled();
+      expect(mockPrisma.interviewStep.update).not.toHaveBeenCalled();
+      expect(mockPrisma.interviewStep.delete).not.toHaveBeenCalled();
+    });
+
+    test('should clone a flow shared by every company', async () => {
+      // Arrange
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(template);
+      mockPrisma.interviewFlow.create.mockResolvedValue({ ...flow, id: 2 });
+
+      // Act
+      const result = await cloneInterviewFlow(1);
+
+      // Assert
+      expect(result.id).toBe(2);
+    });
+  });
+
+  describe('cloneInterviewFlow', () => {
+    test('should copy the steps and suffix the description', async () => {
+      // Arrange
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(flow);
+      mockPrisma.interviewFlow.create.mockResolvedValue({ ...flow, id: 2 });
+
+      // Act
+      await cloneInterviewFlow(1);
+
+      // Assert
+      const { data } = mockPrisma.interviewFlow.create.mock.calls[0][0];
+      expect(data.description).toBe('Standard development process (copy)');
+      expect(data.interviewSteps.create).toEqual([
+        { name: 'Initial Screening', interviewTypeId: 1, orderIndex: 1 },
+        { name: 'Technical Interview', interviewTypeId: 1, orderIndex: 2 },
+        { name: 'Manager Interview', interviewTypeId: 1, orderIndex: 3 },
+      ]);
+    });
+
+    test('should throw InterviewFlowNotFoundError when the source does not exist', async () => {
+      // Arrange
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(cloneInterviewFlow(999)).rejects.toThrow(InterviewFlowNotFoundError);
+    });
+  });
+
+  describe('addInterviewStep', () => {
+    beforeEach(() => {
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(flow);
+      mockPrisma.interviewType.findMany.mockResolvedValue([{ id: 1 }]);
+    });
+
+    test('should append the step when no orderIndex is given', async () => {
+      // Arrange
+      mockPrisma.interviewStep.findFirst.mockResolvedValue(null);
+      mockPrisma.interviewStep.create.mockResolvedValue(step(4, 'Offer', 4));
+
+      // Act
+      await addInterviewStep(1, { name: 'Offer', interviewTypeId: 1 });
+
+      // Assert
+      expect(mockPrisma.interviewStep.updateMany).toHaveBeenCalledWith({
+        where: { interviewFlowId: 1, orderIndex: { gte: 4 } },
+        data: { orderIndex: { increment: 1 } },
+      });
+      expect(mockPrisma.interviewStep.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { interviewFlowId: 1, interviewTypeId: 1, name: 'Offer', orderIndex: 4 } }),
+      );
+    });
+
+    test('should shift later steps when inserting at an orderIndex', async () => {
+      // Arrange
+      mockPrisma.interviewStep.findFirst.mockResolvedValue(null);
+      mockPrisma.interviewStep.create.mockResolvedValue(step(4, 'Take-home', 2));
+
+      // Act
+      await addInterviewStep(1, { name: 'Take-home', interviewTypeId: 1, orderIndex: 2 });
+
+      // Assert
+      expect(mockPrisma.interviewStep.updateMany).toHaveBeenCalledWith({
+        where: { interviewFlowId: 1, orderIndex: { gte: 2 } },
+        data: { orderIndex: { increment: 1 } },
+      });
+      expect(mockPrisma.interviewStep.create.mock.calls[0][0].data.orderIndex).toBe(2);
+    });
+
+    test('should throw DuplicateStepNameError when the name is taken', async () => {
+      // Arrange
+      mockPrisma.interviewStep.findFirst.mockResolvedValue(step(1, 'Initial Screening', 1));
+
+      // Act & Assert
+      await expect(addInterviewStep(1, { name: 'initial screening', interviewTypeId: 1 })).rejects.toThrow(
+        DuplicateStepNameError,
+      );
+      expect(mockPrisma.interviewStep.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateInterviewStep', () => {
+    test('should reject an empty update', async () => {
+      // Act & Assert
+      await expect(updateInterviewStep(1, 1, {})).rejects.toThrow(InvalidInterviewFlowDataError);
+    });
+
+    test('should throw InterviewStepNotFoundError for a step of another flow', async () => {
+      // Arrange
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(flow);
+      mockPrisma.interviewStep.findFirst.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(updateInterviewStep(1, 99, { name: 'Renamed' })).rejects.toThrow(InterviewStepNotFoundError);
+    });
+  });
+
+  describe('removeInterviewStep', () => {
+    beforeEach(() => {
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(flow);
+      mockPrisma.interviewStep.findFirst.mockImplementation(({ where }: any) =>
+        Promise.resolve(flow.interviewSteps.find((s) => s.id === where.id) ?? null),
+      );
+      mockPrisma.interview.count.mockResolvedValue(0);
+    });
+
+    test('should require a migration target when the step has applications', async () => {
+      // Arrange
+      mockPrisma.application.findMany.mockResolvedValue([{ id: 10 }, { id: 11 }, { id: 12 }]);
+
+      // Act & Assert
+      await expect(removeInterviewStep(1, 2)).rejects.toThrow(StepHasApplicationsError);
+      expect(mockPrisma.interviewStep.delete).not.toHaveBeenCalled();
+    });
+
+    test('should migrate applications and delete the step', async () => {
+      // Arrange
+      mockPrisma.application.findMany.mockResolvedValue([{ id: 10 }, { id: 11 }, { id: 12 }]);
+
+      // Act
+      const result = await removeInterviewStep(1, 2, 3, 5);
+
+      // Assert
+      expect(result).toEqual({ success: true, stepId: 2, migratedApplications: 3 });
+      expect(mockPrisma.application.updateMany).toHaveBeenCalledWith({
+        where: { currentInterviewStep: 2 },
+        data: { currentInterviewStep: 3 },
+      });
+      expect(mockPrisma.applicationStageHistory.createMany.mock.calls[0][0].data[0]).toEqual({
+        applicationId: 10,
+        fromStepId: 2,
+        fromStepName: 'Technical Interview',
+        toStepId: 3,
+        toStepName: 'Manager Interview',
+        changedById: 5,
+        reason: 'Interview step Technical Interview was removed',
+      });
+      expect(mockPrisma.interviewStep.delete).toHaveBeenCalledWith({ where: { id: 2 } });
+    });
+
+    test('should refuse to remove a step with recorded interviews', async () => {
+      // Arrange
+      mockPrisma.interview.count.mockResolvedValue(1);
+
+      // Act & Assert
+      await expect(removeInterviewStep(1, 2, 3)).rejects.toThrow(InterviewFlowInUseError);
+    });
+
+    test('should refuse to remove the last step of a flow used by open positions', async () => {
+      // Arrange
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue({ ...flow, interviewSteps: [flow.interviewSteps[0]] });
+      mockPrisma.position.count.mockResolvedValue(1);
+
+      // Act & Assert
+      await expect(removeInterviewStep(1, 1)).rejects.toThrow(InterviewFlowInUseError);
+    });
+
+    test('should reject migrating to the step being removed', async () => {
+      // Act & Assert
+      await expect(removeInterviewStep(1, 2, 2)).rejects.toThrow(InvalidInterviewFlowDataError);
+    });
+  });
+
+  describe('reorderInterviewSteps', () => {
+    test('should rewrite orderIndex for every step', async () => {
+      // Arrange
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(flow);
+
+      // Act
+      await reorderInterviewSteps(1, [3, 1, 2]);
+
+      // Assert
+      expect(mockPrisma.$transaction).toHaveBeenCalled();
+      expect(mockPrisma.interviewStep.update.mock.calls.map(([args]: any[]) => args)).toEqual([
+        { where: { id: 3 }, data: { orderIndex: 1 } },
+        { where: { id: 1 }, data: { orderIndex: 2 } },
+        { where: { id: 2 }, data: { orderIndex: 3 } },
+      ]);
+    });
+
+    test('should reject a partial list of steps', async () => {
+      // Arrange
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(flow);
+
+      // Act & Assert
+      await expect(reorderInterviewSteps(1, [3, 1])).rejects.toThrow(InvalidInterviewFlowDataError);
+      expect(mockPrisma.interviewStep.update).not.toHaveBeenCalled();
+    });
+
+    test('should reject duplicate step ids', async () => {
+      // Act & Assert
+      await expect(reorderInterviewSteps(1, [1, 1, 2])).rejects.toThrow(InvalidInterviewFlowDataError);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import { createInterviewService } from '../../src/application/services/interviewService';
+import {
+  EmployeeNotFoundError,
+  InterviewerNotEligibleError,
+  InterviewNotFoundError,
+  InvalidInterviewDataError,
+  InvalidInterviewStateError,
+  ScorecardRequiredError,
+  StepNotInFlowError
+} from '../../src/types/errors';
+
+// Mock Prisma client
+const mockPrisma = {
+  application: {
+    findUnique: jest.fn(),
+  },
+  interviewStep: {
+    findFirst: jest.fn(),
+  },
+  employee: {
+    findUnique: jest.fn(),
+  },
+  interview: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  scorecardCompetency: {
+    count: jest.fn(),
+  },
+} as any;
+
+const interviewService = createInterviewService(mockPrisma);
+const { scheduleInterview, rescheduleInterview, cancelInterview, submitInterviewResult } = interviewService;
+
+const futureDate = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+const pastDate = () => new Date(Date.now() - 60 * 60 * 1000);
+
+const application = { id: 10, position: { companyId: 1, interviewFlowId: 3 } };
+const activeEmployee = { id: 5, companyId: 1, isActive: true };
+
+const scheduledInterview = (overrides: Record<string, unknown> = {}) => ({
+  id: 20,
+  applicationId: 10,
+  interviewStepId: 7,
+  employeeId: 5,
+  interviewDate: pastDate(),
+  status: 'Scheduled',
+  ...overrides,
+});
+
+describe('InterviewService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('scheduleInterview', () => {
+    beforeEach(() => {
+      mockPrisma.application.findUnique.mockResolvedValue(application);
+      mockPrisma.interviewStep.findFirst.mockResolvedValue({ id: 7, interviewFlowId: 3 });
+      mockPrisma.employee.findUnique.mockResolvedValue(activeEmployee);
+      mockPrisma.interview.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 20, ...data }));
+    });
+
+    test('should schedule an interview at a step of the application flow', async () => {
+      // Arrange
+      const interviewDate = futureDate();
+
+      // Act
+      await scheduleInterview(10, { interviewStepId: 7, employeeId: 5, interviewDate, notes: ' Bring laptop ' });
+
+      // Assert
+      expect(mockPrisma.interviewStep.findFirst).toHaveBeenCalledWith({ where: { id: 7, interviewFlowId: 3 } });
+      expect(mockPrisma.interview.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            applicationId: 10,
+            interviewStepId: 7,
+            employeeId: 5,
+            interviewDate: new Date(interviewDate),
+            status: 'Scheduled',
+            notes: 'Bring laptop',
+          },
+        }),
+      );
+    });
+
+    test('should reject a step from another flow', async () => {
+      // Arrange
+      mockPrisma.interviewStep.findFirst.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        scheduleInterview(10, { interviewStepId: 99, employeeId: 5, interviewDate: futureDate() }),
+      ).rejects.toThrow(StepNotInFlowError);
+      expect(mockPrisma.interview.create).not.toHaveBeenCalled();
+    });
+
+    test('should reject an inactive interviewer', async () => {
+      // Arrange
+      mockPrisma.employee.findUnique.mockResolvedValue({ ...activeEmployee, isActive: false });
+
+      // Act & Assert
+      await expect(
+        scheduleInterview(10, { interviewStepId: 7, employeeId: 5, interviewDate: futureDate() }),
+      ).rejects.toThrow(InterviewerNotEligibleError);
+    });
+
+    test("should reject an interviewer from another company than the position's", async () => {
+      // Arrange
+      mockPrisma.employee.findUnique.mockResolvedValue({ ...activeEmployee, companyId: 2 });
+
+      // Act & Assert
+      await expect(
+        scheduleInterview(10, { interviewStepId: 7, employeeId: 5, interviewDate: futureDate() }),
+      ).rejects.toThrow("Employee 5 cannot conduct this interview: employee does not belong to the position's company");
+    });
+
+    test('should throw EmployeeNotFoundError for an unknown interviewer', async () => {
+      // Arrange
+      mockPrisma.employee.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        scheduleInterview(10, { interviewStepId: 7, employeeId: 99, interviewDate: futureDate() }),
+      ).rejects.toThrow(EmployeeNotFoundError);
+    });
+
+    test('should reject a date in the past', async () => {
+      // Act & Assert
+      await expect(
+        scheduleInterview(10, { interviewStepId: 7, employeeId: 5, interviewDate: pastDate().toISOString() }),
+      ).rejects.toThrow('Invalid interview data: interviewDate must be in the future');
+    });
+  });
+
+  describe('rescheduleInterview', () => {
+    test('should only reschedule scheduled interviews', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(scheduledInterview({ status: 'Completed' }));
+
+      // Act & Assert
+      await expect(rescheduleInterview(20, { interviewDate: futureDate() })).rejects.toThrow(
+        InvalidInterviewStateError,
+      );
+      expect(mockPrisma.interview.update).not.toHaveBeenCalled();
+    });
+
+    test('should check the new interviewer against the position company', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(scheduledInterview());
+      mockPrisma.application.findUnique.mockResolvedValue(application);
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 6, companyId: 1, isActive: true });
+
+      // Act
+      await rescheduleInterview(20, { employeeId: 6 });
+
+      // Assert
+      expect(mockPrisma.interview.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 20 }, data: { employeeId: 6 } }),
+      );
+    });
+
+    test('should reject an empty update', async () => {
+      // Act & Assert
+      await expect(rescheduleInterview(20, {})).rejects.toThrow(InvalidInterviewDataError);
+    });
+  });
+
+  describe('cancelInterview', () => {
+    test('should cancel a scheduled interview with a reason', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(scheduledInterview());
+
+      // Act
+      await cancelInterview(20, { reason: 'Candidate unavailable' });
+
+      // Assert
+      expect(mockPrisma.interview.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: 'Cancelled', cancellationReason: 'Candidate unavailable' },
+        }),
+      );
+    });
+
+    test('should throw InterviewNotFoundError when the interview does not exist', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(cancelInterview(404)).rejects.toThrow(InterviewNotFoundError);
+    });
+  });
+
+  describe('submitInterviewResult', () => {
+    beforeEach(() => {
+      mockPrisma.scorecardCompetency.count.mockResolvedValue(0);
+    });
+
+    test('should complete a held interview with its score', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(scheduledInterview());
+
+      // Act
+      await submitInterviewResult(20, { result: 'Passed', score: 4, notes: 'Solid fundamentals' });
+
+      // Assert
+      expect(mockPrisma.interview.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { status: 'Completed', result: 'Passed', score: 4, notes: 'Solid fundamentals' },
+        }),
+      );
+    });
+
+    test('should reject a score outside the scale', async () => {
+      // Act & Assert
+      await expect(submitInterviewResult(20, { result: 'Passed', score: 9 })).rejects.toThrow(
+        'Invalid interview data: score must be an integer between 0 and 5',
+      );
+    });
+
+    test('should reject results for interviews that have not happened yet', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(
+        scheduledInterview({ interviewDate: new Date(Date.now() + 60 * 60 * 1000) }),
+      );
+
+      // Act & Assert
+      await expect(submitInterviewResult(20, { result: 'Passed', score: 4 })).rejects.toThrow(
+        InvalidInterviewStateError,
+      );
+    });
+
+    test('should reject results for cancelled interviews', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(scheduledInterview({ status: 'Cancelled' }));
+
+      // Act & Assert
+      await expect(submitInterviewResult(20, { result: 'Failed', score: 1 })).rejects.toThrow(
+        'Cannot submit a result for interview 20 while it is Cancelled',
+      );
+    });
+
+    test('should require a scorecard when the interview type defines competencies', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(scheduledInterview());
+      mockPrisma.scorecardCompetency.count.mockResolvedValue(3);
+
+      // Act & Assert
+      await expect(submitInterviewResult(20, { result: 'Passed', score: 4 })).rejects.toThrow(ScorecardRequiredError);
+      expect(mockPrisma.interview.update).not.toHaveBeenCalled();
+    });
+  });
+});
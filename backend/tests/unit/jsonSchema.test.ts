@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { toJsonSchema } from '../../src/openapi/jsonSchema';
+import { integer } from '../../src/schemas/common';
+
+describe('JSON Schema', () => {
+  describe('toJsonSchema', () => {
+    test('should describe an object with its required fields and checks', () => {
+      // Arrange
+      const schema = z
+        .object({
+          name: z.string().min(1).max(100).describe('Full name'),
+          age: integer.min(0).optional(),
+          role: z.enum(['Admin', 'Recruiter']),
+        })
+        .strict();
+
+      // Act
+      const json = toJsonSchema(schema);
+
+      // Assert
+      expect(json).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1, maxLength: 100, description: 'Full name' },
+          age: { type: 'integer', minimum: 0 },
+          role: { type: 'string', enum: ['Admin', 'Recruiter'] },
+        },
+        required: ['name', 'role'],
+        additionalProperties: false,
+      });
+    });
+
+    test('should describe nullable values, dates and arrays', () => {
+      // Arrange
+      const schema = z.object({
+        phone: z.string().nullable(),
+        deadline: z.date().nullable(),
+        status: z.enum(['Open', 'Closed']).nullable(),
+        tags: z.array(z.string()).min(1),
+      });
+
+      // Act
+      const json = toJsonSchema(schema);
+
+      // Assert
+      expect(json.properties).toEqual({
+        phone: { type: ['string', 'null'] },
+        deadline: { type: ['string', 'null'], format: 'date-time' },
+        status: { anyOf: [{ type: 'string', enum: ['Open', 'Closed'] }, { type: 'null' }] },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+      });
+    });
+
+    test('should describe the input of transforms and defaults', () => {
+      // Arrange
+      const schema = z.object({ limit: z.string().regex(/^\d+$/).transform(Number).default('20') });
+
+      // Act
+      const json = toJsonSchema(schema);
+
+      // Assert
+      expect(json).toEqual({
+        type: 'object',
+        properties: { limit: { type: 'string', pattern: '^\\d+$', default: '20' } },
+      });
+    });
+
+    test('should reject a schema it cannot describe', () => {
+      // Act & Assert
+      expect(() => toJsonSchema(z.bigint())).toThrow('ZodBigInt cannot be described in the OpenAPI document');
+    });
+  });
+});
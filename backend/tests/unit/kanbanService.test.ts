@@ -1,15 +1,26 @@
 import { createKanbanService } from '../../src/application/services/kanbanService';
+import {
+  EmployeeNotFoundError,
+  RejectionReasonRequiredError,
+  ReopenStepNotAllowedError,
+  ScoredInterviewRequiredError,
+  StageSkipNotAllowedError
+} from '../../src/types/errors';
 
 // Mock Prisma client
 const mockPrisma = {
   application: {
     findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
     updateMany: jest.fn(),
   },
   interview: {
-    aggregate: jest.fn(),
+    count: jest.fn(),
     findMany: jest.fn(),
-    groupBy: jest.fn(),
+  },
+  interviewFlow: {
+    findUnique: jest.fn(),
   },
   interviewStep: {
     findFirst: jest.fn(),
@@ -17,10 +28,25 @@ const mockPrisma = {
   position: {
     findUnique: jest.fn(),
   },
+  applicationStageHistory: {
+    create: jest.fn(),
+    createMany: jest.fn(),
+    findFirst: jest.fn(),
+  },
+  employee: {
+    findUnique: jest.fn(),
+  },
+  $transaction: jest.fn((callback: (tx: unknown) => Promise<unknown>) => callback(mockPrisma)),
 } as any;
 
 const kanbanService = createKanbanService(mockPrisma);
-const { getPositionCandidates, updateCandidateStage } = kanbanService;
+const {
+  getPositionCandidates,
+  getPositionBoard,
+  updateCandidateStage,
+  updateApplicationStage,
+  updatePositionCandidateStage,
+} = kanbanService;
 
 describe('KanbanService', () => {
   beforeEach(() => {
@@ -58,13 +84,29 @@ describe('KanbanService', () => {
         },
       ];
 
-      const mockScoreAggregates = [
-        { applicationId: 1, _avg: { score: 85.5 } },
-        { applicationId: 2, _avg: { score: 92.0 } },
+      const mockScoredInterviews = [
+        {
+          applicationId: 1,
+          score: null,
+          ratings: [
+            { rating: 4, weight: 2, scaleMin: 1, scaleMax: 5 },
+            { rating: 2, weight: 1, scaleMin: 1, scaleMax: 5 },
+          ],
+        },
+        // Scored before scorecards: counts as a single rating on the 0-5 scale
+        { applicationId: 2, score: 4, ratings: [] },
+        {
+          applicationId: 2,
+          score: null,
+          ratings: [
+            { rating: 5, weight: 1, scaleMin: 1, scaleMax: 5 },
+            { rating: 1, weight: 1, scaleMin: 1, scaleMax: 5 },
+          ],
+        },
       ];
 
       mockPrisma.application.findMany.mockResolvedValue(mockApplications);
-      mockPrisma.interview.groupBy.mockResolvedValue(mockScoreAggregates);
+      mockPrisma.interview.findMany.mockResolvedValue(mockScoredInterviews);
 
       // Act
       const result = await getPositionCandidates(positionId);
@@ -75,21 +117,25 @@ describe('KanbanService', () => {
         id: 1,
         fullName: 'John Doe',
         currentInterviewStep: 'Technical Interview',
-        averageScore: 85.5,
+        weightedScore: 58.33,
       });
       expect(result.candidates[1]).toEqual({
         id: 2,
         fullName: 'Jane Smith',
         currentInterviewStep: 'HR Interview',
-        averageScore: 92.0,
+        // Each interview counts once: (80 + 50) / 2, not (80 + 100 + 0) / 3
+        weightedScore: 65,
       });
+      expect(mockPrisma.interview.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { application: { positionId }, status: 'Completed' } }),
+      );
     });
 
     test('should return empty array for position with no applications', async () => {
       // Arrange
       const positionId = 999;
       mockPrisma.application.findMany.mockResolvedValue([]);
-      mockPrisma.interview.groupBy.mockResolvedValue([]);
+      mockPrisma.interview.findMany.mockResolvedValue([]);
       mockPrisma.position.findUnique.mockResolvedValue({
         id: positionId,
         title: 'Test Position',
@@ -107,7 +153,7 @@ describe('KanbanService', () => {
       // Arrange
       const positionId = 999;
       mockPrisma.application.findMany.mockResolvedValue([]);
-      mockPrisma.interview.groupBy.mockResolvedValue([]);
+      mockPrisma.interview.findMany.mockResolvedValue([]);
       mockPrisma.position.findUnique.mockResolvedValue(null); // Position not found
 
       // Act & Assert
@@ -133,13 +179,13 @@ describe('KanbanService', () => {
       ];
 
       mockPrisma.application.findMany.mockResolvedValue(mockApplications);
-      mockPrisma.interview.groupBy.mockResolvedValue([]); // No interview scores
+      mockPrisma.interview.findMany.mockResolvedValue([]); // No interview scores
 
       // Act
       const result = await getPositionCandidates(positionId);
 
       // Assert
-      expect(result.candidates[0].averageScore).toBe(0);
+      expect(result.candidates[0].weightedScore).toBeNull();
     });
 
     test('should throw error for invalid position ID', async () => {
@@ -151,6 +197,90 @@ describe('KanbanService', () => {
     });
   });
 
+  describe('getPositionBoard', () => {
+    const boardPosition = {
+      id: 1,
+      interviewFlowId: 1,
+      interviewFlow: {
+        interviewSteps: [
+          { id: 1, name: 'Initial Screening', orderIndex: 1, interviewType: { id: 1, name: 'HR Interview' } },
+          { id: 2, name: 'Technical Interview', orderIndex: 2, interviewType: { id: 2, name: 'Technical Interview' } },
+          { id: 3, name: 'Manager Interview', orderIndex: 3, interviewType: { id: 3, name: 'Manager Interview' } },
+        ],
+      },
+    };
+
+    const application = (id: number, candidateId: number, step: number, stepName: string) => ({
+      id,
+      positionId: 1,
+      candidateId,
+      currentInterviewStep: step,
+      candidate: { id: candidateId, firstName: 'Candidate', lastName: String(candidateId) },
+      interviewStep: { name: stepName },
+    });
+
+    test('should return every flow step as a column, including empty ones', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue(boardPosition);
+      mockPrisma.application.findMany.mockResolvedValue([
+        application(10, 1, 2, 'Technical Interview'),
+        application(11, 2, 1, 'Initial Screening'),
+        application(12, 3, 2, 'Technical Interview'),
+      ]);
+      mockPrisma.interview.findMany.mockResolvedValue([
+        { applicationId: 10, score: null, ratings: [{ rating: 3, weight: 1, scaleMin: 1, scaleMax: 5 }] },
+      ]);
+
+      // Act
+      const result = await getPositionBoard(1);
+
+      // Assert
+      expect(result.columns.map((column) => column.name)).toEqual([
+        'Initial Screening',
+        'Technical Interview',
+        'Manager Interview',
+      ]);
+      expect(result.columns.map((column) => column.count)).toEqual([1, 2, 0]);
+      expect(result.columns[1].applicationIds).toEqual([10, 12]);
+      expect(result.columns[1].cards[0]).toEqual({
+        id: 1,
+        fullName: 'Candidate 1',
+        currentInterviewStep: 'Technical Interview',
+        weightedScore: 50,
+        applicationId: 10,
+        positionId: 1,
+        interviewStepId: 2,
+      });
+      expect(result.columns[2].cards).toEqual([]);
+      expect(result.totalCount).toBe(3);
+      expect(result.unassigned).toEqual([]);
+    });
+
+    test('should report applications on a step outside the flow as unassigned', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue(boardPosition);
+      mockPrisma.application.findMany.mockResolvedValue([application(10, 1, 99, 'Legacy Step')]);
+      mockPrisma.interview.findMany.mockResolvedValue([]);
+
+      // Act
+      const result = await getPositionBoard(1);
+
+      // Assert
+      expect(result.columns.every((column) => column.count === 0)).toBe(true);
+      expect(result.unassigned).toHaveLength(1);
+      expect(result.unassigned[0].interviewStepId).toBe(99);
+    });
+
+    test('should throw PositionNotFoundError when position does not exist', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(getPositionBoard(999)).rejects.toThrow('Position not found: 999');
+      expect(mockPrisma.application.findMany).not.toHaveBeenCalled();
+    });
+  });
+
   describe('updateCandidateStage', () => {
     test('should update candidate stage successfully', async () => {
       // Arrange
@@ -158,11 +288,15 @@ describe('KanbanService', () => {
       const newStage = 'Technical Interview';
       const mockInterviewStep = {
         id: 2,
+        interviewFlowId: 1,
         name: 'Technical Interview',
       };
 
       mockPrisma.interviewStep.findFirst.mockResolvedValue(mockInterviewStep);
-      mockPrisma.application.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.application.findMany.mockResolvedValue([
+        { id: 10, currentInterviewStep: 1, interviewStep: { name: 'HR Interview' }, position: { interviewFlowId: 1 } },
+      ]);
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue({ ...guardedFlow, interviewSteps: [] });
 
       // Act
       const result = await updateCandidateStage(candidateId, newStage);
@@ -171,6 +305,28 @@ describe('KanbanService', () => {
       expect(result.success).toBe(true);
       expect(result.candidateId).toBe(candidateId);
       expect(result.newStage).toBe(newStage);
+      expect(mockPrisma.interviewStep.findFirst).toHaveBeenCalledWith({
+        where: { name: 'Technical Interview', interviewFlowId: { in: [1] } },
+      });
+    });
+
+    test('should leave applications on other flows untouched', async () => {
+      // Arrange
+      mockPrisma.interviewStep.findFirst.mockResolvedValue({ id: 7, interviewFlowId: 3, name: 'Technical Interview' });
+      mockPrisma.application.findMany.mockResolvedValue([
+        { id: 10, currentInterviewStep: 6, interviewStep: { name: 'Initial Screening' }, position: { interviewFlowId: 3 } },
+        { id: 11, currentInterviewStep: 2, interviewStep: { name: 'HR Interview' }, position: { interviewFlowId: 1 } },
+      ]);
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(guardedFlow);
+      mockPrisma.interview.count.mockResolvedValue(1);
+
+      // Act
+      await updateCandidateStage(1, 'Technical Interview');
+
+      // Assert
+      expect(mockPrisma.application.update).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.application.update).toHaveBeenCalledWith({ where: { id: 10 }, data: { currentInterviewStep: 7 } });
+      expect(mockPrisma.application.updateMany).not.toHaveBeenCalled();
     });
 
     test('should throw error for invalid candidate ID', async () => {
@@ -187,6 +343,9 @@ describe('KanbanService', () => {
       const candidateId = 1;
       const invalidStage = 'NonExistent Stage';
 
+      mockPrisma.application.findMany.mockResolvedValue([
+        { id: 10, currentInterviewStep: 1, interviewStep: { name: 'HR Interview' }, position: { interviewFlowId: 1 } },
+      ]);
       mockPrisma.interviewStep.findFirst.mockResolvedValue(null);
 
       // Act & Assert
@@ -199,14 +358,393 @@ describe('KanbanService', () => {
       const newStage = 'Technical Interview';
       const mockInterviewStep = {
         id: 2,
+        interviewFlowId: 1,
         name: 'Technical Interview',
       };
 
       mockPrisma.interviewStep.findFirst.mockResolvedValue(mockInterviewStep);
-      mockPrisma.application.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.application.findMany.mockResolvedValue([]);
 
       // Act & Assert
       await expect(updateCandidateStage(candidateId, newStage)).rejects.toThrow('Candidate application not found');
     });
   });
+
+  const guardedFlow = {
+    maxStepsForward: 1,
+    requireScoredInterview: true,
+    rejectionStepName: 'Rejected',
+    interviewSteps: [
+      { id: 6, name: 'Initial Screening' },
+      { id: 7, name: 'Technical Interview' },
+      { id: 8, name: 'Manager Interview' },
+      { id: 9, name: 'Rejected' },
+    ],
+  };
+
+  describe('updateApplicationStage', () => {
+    const application = {
+      id: 10,
+      positionId: 1,
+      candidateId: 1,
+      currentInterviewStep: 6,
+      interviewStep: { name: 'Initial Screening' },
+      position: { interviewFlowId: 3 },
+    };
+
+    beforeEach(() => {
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(guardedFlow);
+      mockPrisma.interview.count.mockResolvedValue(1);
+      mockPrisma.application.update.mockResolvedValue({
+        id: 10,
+        positionId: 1,
+        candidate: { id: 1, firstName: 'John', lastName: 'Doe' },
+      });
+      mockPrisma.interview.findMany.mockResolvedValue([{ applicationId: 10, score: 4, ratings: [] }]);
+    });
+
+    test('should move only the given application within its own flow', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue(application);
+      mockPrisma.interviewStep.findFirst.mockResolvedValue({ id: 7, name: 'Technical Interview' });
+
+      // Act
+      const result = await updateApplicationStage(10, 'Technical Interview');
+
+      // Assert
+      expect(mockPrisma.interviewStep.findFirst).toHaveBeenCalledWith({
+        where: { name: 'Technical Interview', interviewFlowId: 3 },
+      });
+      expect(mockPrisma.application.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 10 }, data: { currentInterviewStep: 7 } }),
+      );
+      expect(mockPrisma.application.updateMany).not.toHaveBeenCalled();
+      expect(result.card).toEqual({
+        id: 1,
+        fullName: 'John Doe',
+        currentInterviewStep: 'Technical Interview',
+        weightedScore: 80,
+        applicationId: 10,
+        positionId: 1,
+        interviewStepId: 7,
+      });
+    });
+
+    test('should resolve a step by id within the flow', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue(application);
+      mockPrisma.interviewStep.findFirst.mockResolvedValue({ id: 7, name: 'Technical Interview' });
+
+      // Act
+      await updateApplicationStage(10, 7);
+
+      // Assert
+      expect(mockPrisma.interviewStep.findFirst).toHaveBeenCalledWith({ where: { id: 7, interviewFlowId: 3 } });
+    });
+
+    test('should reject a step from a different flow', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue(application);
+      mockPrisma.interviewStep.findFirst.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(updateApplicationStage(10, 99)).rejects.toThrow(
+        'Interview step 99 does not belong to interview flow 3',
+      );
+      expect(mockPrisma.application.update).not.toHaveBeenCalled();
+    });
+
+    test('should throw when the application does not exist', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(updateApplicationStage(404, 'Technical Interview')).rejects.toThrow('Application not found: 404');
+    });
+  });
+
+  describe('stage transition rules', () => {
+    const application = {
+      id: 10,
+      currentInterviewStep: 6,
+      interviewStep: { name: 'Initial Screening' },
+      position: { interviewFlowId: 3 },
+    };
+    const stepsById: Record<number, { id: number; name: string }> = Object.fromEntries(
+      guardedFlow.interviewSteps.map((step) => [step.id, step]),
+    );
+
+    beforeEach(() => {
+      mockPrisma.application.findUnique.mockResolvedValue(application);
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(guardedFlow);
+      mockPrisma.interviewStep.findFirst.mockImplementation(({ where }: any) =>
+        Promise.resolve(stepsById[where.id] ?? null),
+      );
+      mockPrisma.application.update.mockResolvedValue({
+        id: 10,
+        positionId: 1,
+        candidate: { id: 1, firstName: 'John', lastName: 'Doe' },
+      });
+      mockPrisma.interview.findMany.mockResolvedValue([]);
+      mockPrisma.interview.count.mockResolvedValue(1);
+    });
+
+    test('should reject skipping steps without an override reason', async () => {
+      // Act & Assert
+      await expect(updateApplicationStage(10, 8)).rejects.toThrow(StageSkipNotAllowedError);
+      expect(mockPrisma.application.update).not.toHaveBeenCalled();
+    });
+
+    test('should allow skipping steps with an override reason', async () => {
+      // Act
+      await updateApplicationStage(10, 8, { overrideReason: 'Strong referral' });
+
+      // Assert
+      expect(mockPrisma.application.update).toHaveBeenCalled();
+    });
+
+    test('should require a scored interview at the current step to move forward', async () => {
+      // Arrange
+      mockPrisma.interview.count.mockResolvedValue(0);
+
+      // Act & Assert
+      await expect(updateApplicationStage(10, 7)).rejects.toThrow(ScoredInterviewRequiredError);
+      expect(mockPrisma.interview.count).toHaveBeenCalledWith({
+        where: { applicationId: 10, interviewStepId: 6, score: { not: null } },
+      });
+    });
+
+    test('should not require a scored interview when the flow disables the rule', async () => {
+      // Arrange
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue({ ...guardedFlow, requireScoredInterview: false });
+
+      // Act
+      await updateApplicationStage(10, 7);
+
+      // Assert
+      expect(mockPrisma.interview.count).not.toHaveBeenCalled();
+      expect(mockPrisma.application.update).toHaveBeenCalled();
+    });
+
+    test('should always allow moving backward', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue({ ...application, currentInterviewStep: 8 });
+
+      // Act
+      await updateApplicationStage(10, 6);
+
+      // Assert
+      expect(mockPrisma.interview.count).not.toHaveBeenCalled();
+      expect(mockPrisma.application.update).toHaveBeenCalled();
+    });
+
+    test('should require a rejection reason to move to the rejection step', async () => {
+      // Act & Assert
+      await expect(updateApplicationStage(10, 9)).rejects.toThrow(RejectionReasonRequiredError);
+    });
+
+    test('should store the rejection reason and skip the forward rules', async () => {
+      // Arrange
+      mockPrisma.interview.count.mockResolvedValue(0);
+
+      // Act
+      await updateApplicationStage(10, 9, { rejectionReason: ' Not enough experience ' });
+
+      // Assert
+      expect(mockPrisma.application.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { currentInterviewStep: 9, rejectionReason: 'Not enough experience' },
+        }),
+      );
+    });
+
+    test('should reopen a rejected application at the step it was rejected from', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue({ ...application, currentInterviewStep: 9 });
+      mockPrisma.applicationStageHistory.findFirst.mockResolvedValue({ fromStepId: 7 });
+      mockPrisma.interview.count.mockResolvedValue(0);
+
+      // Act
+      await updateApplicationStage(10, 7);
+
+      // Assert
+      expect(mockPrisma.applicationStageHistory.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { applicationId: 10, toStepId: 9 } }),
+      );
+      expect(mockPrisma.application.update).toHaveBeenCalled();
+    });
+
+    test('should not move a rejected application to any other step', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue({ ...application, currentInterviewStep: 9 });
+      mockPrisma.applicationStageHistory.findFirst.mockResolvedValue({ fromStepId: 7 });
+
+      // Act & Assert
+      await expect(updateApplicationStage(10, 8)).rejects.toThrow(ReopenStepNotAllowedError);
+      await expect(updateApplicationStage(10, 6)).rejects.toThrow(
+        'Application 10 was rejected from Technical Interview and can only be reopened there',
+      );
+      expect(mockPrisma.application.update).not.toHaveBeenCalled();
+    });
+
+    test('should reopen an application rejected on arrival at the first step', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue({ ...application, currentInterviewStep: 9 });
+      mockPrisma.applicationStageHistory.findFirst.mockResolvedValue({ fromStepId: null });
+
+      // Act & Assert
+      await expect(updateApplicationStage(10, 7)).rejects.toThrow(ReopenStepNotAllowedError);
+      await updateApplicationStage(10, 6);
+      expect(mockPrisma.application.update).toHaveBeenCalledTimes(1);
+    });
+
+    test('should guard the legacy candidate endpoint per application', async () => {
+      // Arrange
+      mockPrisma.interviewStep.findFirst.mockResolvedValue({ id: 8, interviewFlowId: 3, name: 'Manager Interview' });
+      mockPrisma.application.findMany.mockResolvedValue([application]);
+
+      // Act & Assert
+      await expect(updateCandidateStage(1, 'Manager Interview')).rejects.toThrow(StageSkipNotAllowedError);
+      expect(mockPrisma.application.update).not.toHaveBeenCalled();
+    });
+
+    test('should store the rejection reason on each application rejected by the legacy endpoint', async () => {
+      // Arrange
+      mockPrisma.interviewStep.findFirst.mockResolvedValue({ id: 9, interviewFlowId: 3, name: 'Rejected' });
+      mockPrisma.application.findMany.mockResolvedValue([application, { ...application, id: 11, currentInterviewStep: 7 }]);
+
+      // Act
+      await updateCandidateStage(1, 'Rejected', { rejectionReason: 'Position filled' });
+
+      // Assert
+      expect(mockPrisma.application.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: { currentInterviewStep: 9, rejectionReason: 'Position filled' },
+      });
+      expect(mockPrisma.application.update).toHaveBeenCalledWith({
+        where: { id: 11 },
+        data: { currentInterviewStep: 9, rejectionReason: 'Position filled' },
+      });
+    });
+  });
+
+  describe('stage history', () => {
+    const application = {
+      id: 10,
+      currentInterviewStep: 6,
+      interviewStep: { name: 'Initial Screening' },
+      position: { interviewFlowId: 3 },
+    };
+
+    beforeEach(() => {
+      mockPrisma.application.findUnique.mockResolvedValue(application);
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(guardedFlow);
+      mockPrisma.interviewStep.findFirst.mockResolvedValue({ id: 7, name: 'Technical Interview' });
+      mockPrisma.interview.count.mockResolvedValue(1);
+      mockPrisma.application.update.mockResolvedValue({
+        id: 10,
+        positionId: 1,
+        candidate: { id: 1, firstName: 'John', lastName: 'Doe' },
+      });
+      mockPrisma.interview.findMany.mockResolvedValue([]);
+    });
+
+    test('should record the move with actor and reason', async () => {
+      // Arrange
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 5 });
+
+      // Act
+      await updateApplicationStage(10, 7, { changedById: 5, reason: 'Passed screening' });
+
+      // Assert
+      expect(mockPrisma.applicationStageHistory.create).toHaveBeenCalledWith({
+        data: {
+          applicationId: 10,
+          fromStepId: 6,
+          fromStepName: 'Initial Screening',
+          toStepId: 7,
+          toStepName: 'Technical Interview',
+          changedById: 5,
+          reason: 'Passed screening',
+        },
+      });
+    });
+
+    test('should not record a move to the current step', async () => {
+      // Arrange
+      mockPrisma.interviewStep.findFirst.mockResolvedValue({ id: 6, name: 'Initial Screening' });
+
+      // Act
+      await updateApplicationStage(10, 6);
+
+      // Assert
+      expect(mockPrisma.applicationStageHistory.create).not.toHaveBeenCalled();
+    });
+
+    test('should throw EmployeeNotFoundError for an unknown actor', async () => {
+      // Arrange
+      mockPrisma.employee.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(updateApplicationStage(10, 7, { changedById: 99 })).rejects.toThrow(EmployeeNotFoundError);
+      expect(mockPrisma.application.update).not.toHaveBeenCalled();
+    });
+
+    test('should record every application moved by the legacy endpoint', async () => {
+      // Arrange
+      mockPrisma.interviewStep.findFirst.mockResolvedValue({ id: 7, interviewFlowId: 3, name: 'Technical Interview' });
+      mockPrisma.application.findMany.mockResolvedValue([
+        application,
+        { id: 11, currentInterviewStep: 7, interviewStep: { name: 'Technical Interview' }, position: { interviewFlowId: 3 } },
+      ]);
+
+      // Act
+      await updateCandidateStage(1, 'Technical Interview');
+
+      // Assert
+      expect(mockPrisma.applicationStageHistory.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ applicationId: 10, fromStepId: 6, toStepId: 7 })],
+      });
+    });
+  });
+
+  describe('updatePositionCandidateStage', () => {
+    test('should look the application up by position and candidate', async () => {
+      // Arrange
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue(guardedFlow);
+      mockPrisma.interview.count.mockResolvedValue(1);
+      mockPrisma.application.findUnique.mockResolvedValue({
+        id: 10,
+        currentInterviewStep: 6,
+        interviewStep: { name: 'Initial Screening' },
+        position: { interviewFlowId: 3 },
+      });
+      mockPrisma.interviewStep.findFirst.mockResolvedValue({ id: 7, name: 'Technical Interview' });
+      mockPrisma.application.update.mockResolvedValue({
+        id: 10,
+        positionId: 2,
+        candidate: { id: 5, firstName: 'Jane', lastName: 'Smith' },
+      });
+      mockPrisma.interview.findMany.mockResolvedValue([]);
+
+      // Act
+      const result = await updatePositionCandidateStage(2, 5, 'Technical Interview');
+
+      // Assert
+      expect(mockPrisma.application.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { positionId_candidateId: { positionId: 2, candidateId: 5 } } }),
+      );
+      expect(result.card.weightedScore).toBeNull();
+    });
+
+    test('should throw when the candidate has not applied to the position', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(updatePositionCandidateStage(2, 5, 'Technical Interview')).rejects.toThrow(
+        'Candidate application not found: 5',
+      );
+    });
+  });
 });
@@ -0,0 +1,167 @@
+import net from 'net';
+import { createClamAvScanner, parseClamAvReply } from '../../src/application/scanning/clamAvScanner';
+import { createMalwareScanner, loadScannerConfig } from '../../src/application/scanning/malwareScanner';
+import { DOCX_MIME_TYPE, PDF_MIME_TYPE } from '../../src/application/resumeText';
+import { inspectUpload } from '../../src/application/uploadInspection';
+import { InvalidScannerConfigError } from '../../src/types/errors';
+
+const PDF = Buffer.from('%PDF-1.7\ntrailer << /Root 1 0 R >>\n%%EOF');
+
+/**
+ * Fake clamd that decodes an INSTREAM request and answers with the given reply
+ */
+const startFakeClamd = async (reply: (content: Buffer) => string) => {
+  const received: { command: string; content: Buffer }[] = [];
+  const server = net.createServer((socket) => {
+    let data = Buffer.alloc(0);
+    socket.on('data', (chunk) => {
+      data = Buffer.concat([data, chunk]);
+      const commandEnd = data.indexOf(0);
+      if (commandEnd === -1) return;
+
+      const chunks: Buffer[] = [];
+      let offset = commandEnd + 1;
+      while (offset + 4 <= data.length) {
+        const length = data.readUInt32BE(offset);
+        if (length === 0) {
+          const content = Buffer.concat(chunks);
+          received.push({ command: data.toString('utf8', 0, commandEnd), content });
+          socket.end(`${reply(content)}\0`);
+          return;
+        }
+        if (offset + 4 + length > data.length) return;
+        chunks.push(data.subarray(offset + 4, offset + 4 + length));
+        offset += 4 + length;
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as net.AddressInfo;
+  return { port, received, close: () => new Promise((resolve) => server.close(resolve)) };
+};
+
+describe('MalwareScanner', () => {
+  describe('loadScannerConfig', () => {
+    test('should default to no scanner', () => {
+      expect(loadScannerConfig({})).toEqual({ driver: 'none' });
+      expect(createMalwareScanner({ driver: 'none' }).driver).toBe('none');
+    });
+
+    test('should read the ClamAV settings', () => {
+      expect(loadScannerConfig({ SCANNER_DRIVER: 'clamav', CLAMAV_HOST: 'clamav', CLAMAV_PORT: '3311' })).toEqual({
+        driver: 'clamav',
+        host: 'clamav',
+        port: 3311,
+        timeoutMs: 30000,
+      });
+    });
+
+    test('should reject unknown drivers and invalid numbers', () => {
+      expect(() => loadScannerConfig({ SCANNER_DRIVER: 'virustotal' })).toThrow(InvalidScannerConfigError);
+      expect(() => loadScannerConfig({ SCANNER_DRIVER: 'clamav', CLAMAV_PORT: 'abc' })).toThrow(
+        'Invalid scanner configuration: CLAMAV_PORT must be a positive integer',
+      );
+    });
+  });
+
+  describe('parseClamAvReply', () => {
+    test('should read clean, infected and error replies', () => {
+      expect(parseClamAvReply('stream: OK\0')).toEqual({ status: 'clean' });
+      expect(parseClamAvReply('stream: Win.Test.EICAR_HDB-1 FOUND\0')).toEqual({
+        status: 'infected',
+        signature: 'Win.Test.EICAR_HDB-1',
+      });
+      expect(() => parseClamAvReply('INSTREAM size limit exceeded. ERROR\0')).toThrow(
+        'ClamAV could not scan the file: INSTREAM size limit exceeded. ERROR',
+      );
+    });
+  });
+
+  describe('createClamAvScanner', () => {
+    test('should stream the content to clamd in chunks', async () => {
+      // Arrange
+      const clamd = await startFakeClamd((content) => (content.includes('EICAR') ? 'stream: Eicar-Signature FOUND' : 'stream: OK'));
+      const scanner = createClamAvScanner({ driver: 'clamav', host: '127.0.0.1', port: clamd.port, timeoutMs: 5000 });
+      const large = Buffer.alloc(150 * 1024, 'a');
+
+      try {
+        // Act
+        const clean = await scanner.scan(large);
+        const infected = await scanner.scan(Buffer.from('X5O!P%@AP EICAR-STANDARD-ANTIVIRUS-TEST-FILE'));
+
+        // Assert
+        expect(clean).toEqual({ status: 'clean' });
+        expect(infected).toEqual({ status: 'infected', signature: 'Eicar-Signature' });
+        expect(clamd.received[0].command).toBe('zINSTREAM');
+        expect(clamd.received[0].content.equals(large)).toBe(true);
+      } finally {
+        await clamd.close();
+      }
+    });
+
+    test('should fail when the daemon cannot be reached', async () => {
+      // Arrange
+      const clamd = await startFakeClamd(() => 'stream: OK');
+      await clamd.close();
+      const scanner = createClamAvScanner({ driver: 'clamav', host: '127.0.0.1', port: clamd.port, timeoutMs: 5000 });
+
+      // Act & Assert
+      await expect(scanner.scan(PDF)).rejects.toThrow();
+    });
+  });
+
+  describe('inspectUpload', () => {
+    const cleanScanner = { driver: 'clamav' as const, scan: jest.fn() };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    test('should mark verified files as clean once scanned', async () => {
+      // Arrange
+      cleanScanner.scan.mockResolvedValue({ status: 'clean' });
+
+      // Act
+      const result = await inspectUpload(PDF, PDF_MIME_TYPE, cleanScanner);
+
+      // Assert
+      expect(result).toEqual({ fileType: PDF_MIME_TYPE, scanStatus: 'Clean', scanDetail: null, scannedAt: expect.any(Date) });
+    });
+
+    test('should leave verified files unscanned without a scanner', async () => {
+      // Act
+      const result = await inspectUpload(PDF, PDF_MIME_TYPE, createMalwareScanner({ driver: 'none' }));
+
+      // Assert
+      expect(result).toEqual({ fileType: PDF_MIME_TYPE, scanStatus: 'Unscanned', scanDetail: null, scannedAt: null });
+    });
+
+    test('should quarantine files that fail verification without scanning them', async () => {
+      // Act
+      const result = await inspectUpload(PDF, DOCX_MIME_TYPE, cleanScanner);
+
+      // Assert
+      expect(result).toMatchObject({ scanStatus: 'Quarantined', scanDetail: 'content does not match the declared type' });
+      expect(cleanScanner.scan).not.toHaveBeenCalled();
+    });
+
+    test('should quarantine infected files and files the scanner could not check', async () => {
+      // Arrange
+      cleanScanner.scan
+        .mockResolvedValueOnce({ status: 'infected', signature: 'Eicar-Signature' })
+        .mockRejectedValueOnce(new Error('connect ECONNREFUSED 127.0.0.1:3310'));
+
+      // Act
+      const infected = await inspectUpload(PDF, PDF_MIME_TYPE, cleanScanner);
+      const unchecked = await inspectUpload(PDF, PDF_MIME_TYPE, cleanScanner);
+
+      // Assert
+      expect(infected).toMatchObject({ scanStatus: 'Quarantined', scanDetail: 'malware detected: Eicar-Signature' });
+      expect(unchecked).toMatchObject({
+        scanStatus: 'Quarantined',
+        scanDetail: 'scan failed: connect ECONNREFUSED 127.0.0.1:3310',
+      });
+    });
+  });
+});
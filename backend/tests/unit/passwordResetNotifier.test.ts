@@ -0,0 +1,130 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  createPasswordResetNotifier,
+  createWebhookNotifier,
+  loadNotifierConfig
+} from '../../src/application/notifications/passwordResetNotifier';
+import { DependencyFailureError, InvalidNotifierConfigError } from '../../src/types/errors';
+
+const employee = { id: 1, companyId: 1, name: 'Alice Johnson', email: 'alice.johnson@lti.com', role: 'Admin' };
+const expiresAt = new Date('2026-10-19T11:00:00.000Z');
+
+/**
+ * Fake webhook that records each request and answers with the given status
+ */
+const startWebhook = async (status: number) => {
+  const received: { headers: http.IncomingHttpHeaders; body: unknown }[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body: JSON.parse(body) });
+      res.statusCode = status;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/password-resets`, received, close: () => new Promise((resolve) => server.close(resolve)) };
+};
+
+describe('PasswordResetNotifier', () => {
+  describe('loadNotifierConfig', () => {
+    test('should allow no notifier in development', () => {
+      expect(loadNotifierConfig({})).toEqual({ driver: 'none' });
+      expect(loadNotifierConfig({ NODE_ENV: 'development' })).toEqual({ driver: 'none' });
+    });
+
+    test('should refuse to start without a notifier outside development', () => {
+      expect(() => loadNotifierConfig({ NODE_ENV: 'production' })).toThrow(InvalidNotifierConfigError);
+      expect(() => loadNotifierConfig({ NODE_ENV: 'staging', PASSWORD_RESET_NOTIFIER: 'none' })).toThrow(
+        'Invalid password reset notifier configuration: PASSWORD_RESET_NOTIFIER must be set when NODE_ENV is staging',
+      );
+    });
+
+    test('should read the webhook settings', () => {
+      expect(
+        loadNotifierConfig({
+          NODE_ENV: 'production',
+          PASSWORD_RESET_NOTIFIER: 'webhook',
+          PASSWORD_RESET_WEBHOOK_URL: 'https://mail.lti.com/password-resets',
+          PASSWORD_RESET_WEBHOOK_TOKEN: 'secret',
+        }),
+      ).toEqual({ driver: 'webhook', url: 'https://mail.lti.com/password-resets', authToken: 'secret', timeoutMs: 10000 });
+    });
+
+    test('should reject unknown drivers and invalid webhook settings', () => {
+      expect(() => loadNotifierConfig({ PASSWORD_RESET_NOTIFIER: 'log' })).toThrow(InvalidNotifierConfigError);
+      expect(() => loadNotifierConfig({ PASSWORD_RESET_NOTIFIER: 'webhook' })).toThrow('PASSWORD_RESET_WEBHOOK_URL is required');
+      expect(() =>
+        loadNotifierConfig({ PASSWORD_RESET_NOTIFIER: 'webhook', PASSWORD_RESET_WEBHOOK_URL: 'ftp://mail.lti.com' }),
+      ).toThrow('PASSWORD_RESET_WEBHOOK_URL must be an http or https URL');
+      expect(() =>
+        loadNotifierConfig({
+          PASSWORD_RESET_NOTIFIER: 'webhook',
+          PASSWORD_RESET_WEBHOOK_URL: 'https://mail.lti.com',
+          PASSWORD_RESET_WEBHOOK_TIMEOUT_MS: '0',
+        }),
+      ).toThrow(InvalidNotifierConfigError);
+    });
+  });
+
+  describe('createWebhookNotifier', () => {
+    test('should post the reset to the webhook', async () => {
+      // Arrange
+      const webhook = await startWebhook(202);
+      const notify = createWebhookNotifier({ driver: 'webhook', url: webhook.url, authToken: 'secret', timeoutMs: 1000 });
+
+      try {
+        // Act
+        await notify(employee, 'reset-token', expiresAt);
+
+        // Assert
+        expect(webhook.received).toEqual([
+          {
+            headers: expect.objectContaining({ authorization: 'Bearer secret', 'content-type': 'application/json' }),
+            body: { email: 'alice.johnson@lti.com', name: 'Alice Johnson', token: 'reset-token', expiresAt: '2026-10-19T11:00:00.000Z' },
+          },
+        ]);
+      } finally {
+        await webhook.close();
+      }
+    });
+
+    test('should fail when the webhook does not accept the reset', async () => {
+      // Arrange
+      const webhook = await startWebhook(500);
+      const notify = createWebhookNotifier({ driver: 'webhook', url: webhook.url, timeoutMs: 1000 });
+
+      try {
+        // Act & Assert
+        await expect(notify(employee, 'reset-token', expiresAt)).rejects.toThrow(DependencyFailureError);
+      } finally {
+        await webhook.close();
+      }
+    });
+  });
+
+  test('should never write the token to the log', async () => {
+    // Arrange
+    const env = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'development';
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const info = jest.spyOn(console, 'info').mockImplementation(() => undefined);
+
+    try {
+      // Act
+      await createPasswordResetNotifier({ driver: 'none' })(employee, 'reset-token', expiresAt);
+
+      // Assert
+      const logged = [...warn.mock.calls, ...info.mock.calls].flat().join(' ');
+      expect(logged).toContain('alice.johnson@lti.com');
+      expect(logged).not.toContain('reset-token');
+    } finally {
+      process.env.NODE_ENV = env;
+      warn.mockRestore();
+      info.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,361 @@
+import { createPositionService } from '../../src/application/services/positionService';
+import { PositionStatusChangedError } from '../../src/types/errors';
+
+// Mock Prisma client
+const mockPrisma = {
+  position: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+    delete: jest.fn(),
+  },
+  company: {
+    findUnique: jest.fn(),
+  },
+  interviewFlow: {
+    findUnique: jest.fn(),
+  },
+  application: {
+    count: jest.fn(),
+  },
+  employee: {
+    findUnique: jest.fn(),
+  },
+  positionStatusHistory: {
+    create: jest.fn(),
+    findMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  $transaction: jest.fn((operations: any) =>
+    typeof operations === 'function' ? operations(mockPrisma) : Promise.all(operations),
+  ),
+} as any;
+
+const positionService = createPositionService(mockPrisma);
+const {
+  createPosition,
+  listPositions,
+  getPositionById,
+  updatePosition,
+  deletePosition,
+  transitionPositionStatus,
+  assertPositionAcceptsApplications,
+} = positionService;
+
+const futureDate = () => new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString();
+
+const validPosition = () => ({
+  companyId: 1,
+  interviewFlowId: 1,
+  title: 'Software Engineer',
+  description: 'Develop and maintain software applications.',
+  location: 'Remote',
+  jobDescription: 'Full-stack development',
+  salaryMin: 50000,
+  salaryMax: 80000,
+  employmentType: 'Full-time',
+  applicationDeadline: futureDate(),
+});
+
+const existingPosition = {
+  id: 1,
+  ...validPosition(),
+  status: 'Draft',
+  isVisible: false,
+  applicationDeadline: null,
+};
+
+describe('PositionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createPosition', () => {
+    test('should create a position with valid data', async () => {
+      // Arrange
+      mockPrisma.company.findUnique.mockResolvedValue({ id: 1 });
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue({ id: 1 });
+      mockPrisma.position.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 10, ...data }));
+
+      // Act
+      const result = await createPosition(validPosition());
+
+      // Assert
+      expect(result.id).toBe(10);
+      expect(mockPrisma.position.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          title: 'Software Engineer',
+          status: 'Draft',
+          applicationDeadline: expect.any(Date),
+        }),
+      });
+    });
+
+    test('should reject missing required fields', async () => {
+      // Arrange
+      const { title, ...withoutTitle } = validPosition();
+
+      // Act & Assert
+      await expect(createPosition(withoutTitle as any)).rejects.toThrow('Invalid position data: title is required');
+      expect(mockPrisma.position.create).not.toHaveBeenCalled();
+    });
+
+    test('should reject creating a position outside of Draft', async () => {
+      // Act & Assert
+      await expect(createPosition({ ...validPosition(), status: 'Open' })).rejects.toThrow(
+        'status must be Draft when creating a position',
+      );
+    });
+
+    test('should reject salaryMin greater than salaryMax', async () => {
+      // Act & Assert
+      await expect(createPosition({ ...validPosition(), salaryMin: 90000, salaryMax: 80000 })).rejects.toThrow(
+        'salaryMin must be less than or equal to salaryMax',
+      );
+    });
+
+    test('should reject an application deadline in the past', async () => {
+      // Act & Assert
+      await expect(
+        createPosition({ ...validPosition(), applicationDeadline: '2020-01-01' }),
+      ).rejects.toThrow('applicationDeadline must be in the future');
+    });
+
+    test('should throw CompanyNotFoundError when company does not exist', async () => {
+      // Arrange
+      mockPrisma.company.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(createPosition(validPosition())).rejects.toThrow('Company not found: 1');
+    });
+  });
+
+  describe('listPositions', () => {
+    test('should translate filters into a Prisma where clause', async () => {
+      // Arrange
+      mockPrisma.position.findMany.mockResolvedValue([existingPosition]);
+
+      // Act
+      const result = await listPositions({
+        companyId: 1,
+        status: 'Open',
+        isVisible: true,
+        location: 'remote',
+        employmentType: 'full-time',
+        salaryMin: 40000,
+        salaryMax: 70000,
+      });
+
+      // Assert
+      expect(result.positions).toHaveLength(1);
+      expect(mockPrisma.position.findMany).toHaveBeenCalledWith({
+        where: {
+          companyId: 1,
+          status: 'Open',
+          isVisible: true,
+          location: { contains: 'remote', mode: 'insensitive' },
+          employmentType: { equals: 'full-time', mode: 'insensitive' },
+          salaryMax: { gte: 40000 },
+          salaryMin: { lte: 70000 },
+        },
+        orderBy: { id: 'asc' },
+      });
+    });
+
+    test('should reject an inverted salary range filter', async () => {
+      // Act & Assert
+      await expect(listPositions({ salaryMin: 90000, salaryMax: 10000 })).rejects.toThrow(
+        'Invalid position filter: salaryMin',
+      );
+    });
+  });
+
+  describe('getPositionById', () => {
+    test('should throw PositionNotFoundError when position does not exist', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(getPositionById(999)).rejects.toThrow('Position not found: 999');
+    });
+
+    test('should throw error for invalid position ID', async () => {
+      // Act & Assert
+      await expect(getPositionById(-1)).rejects.toThrow('Invalid position ID');
+    });
+  });
+
+  describe('updatePosition', () => {
+    test('should validate salary against the stored range', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue(existingPosition);
+
+      // Act & Assert
+      await expect(updatePosition(1, { salaryMin: 100000 })).rejects.toThrow(
+        'salaryMin must be less than or equal to salaryMax',
+      );
+      expect(mockPrisma.position.update).not.toHaveBeenCalled();
+    });
+
+    test('should refuse status changes outside of the transitions endpoint', async () => {
+      // Act & Assert
+      await expect(updatePosition(1, { status: 'Closed' })).rejects.toThrow(
+        'status must be changed through POST /positions/:id/transitions',
+      );
+    });
+
+    test('should only update supplied fields', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue(existingPosition);
+      mockPrisma.position.update.mockResolvedValue({ ...existingPosition, title: 'Staff Engineer' });
+
+      // Act
+      const result = await updatePosition(1, { title: 'Staff Engineer' });
+
+      // Assert
+      expect(result.title).toBe('Staff Engineer');
+      expect(mockPrisma.position.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { title: 'Staff Engineer' },
+      });
+    });
+
+    test('should refuse to change the interview flow once there are applications', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue(existingPosition);
+      mockPrisma.interviewFlow.findUnique.mockResolvedValue({ id: 2 });
+      mockPrisma.application.count.mockResolvedValue(3);
+
+      // Act & Assert
+      await expect(updatePosition(1, { interviewFlowId: 2 })).rejects.toThrow(
+        'interviewFlowId cannot change while the position has applications',
+      );
+    });
+  });
+
+  describe('deletePosition', () => {
+    test('should delete a position without applications', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue(existingPosition);
+      mockPrisma.application.count.mockResolvedValue(0);
+      mockPrisma.position.delete.mockResolvedValue(existingPosition);
+
+      // Act
+      const result = await deletePosition(1);
+
+      // Assert
+      expect(result).toEqual({ success: true, positionId: 1 });
+    });
+
+    test('should refuse to delete a position with applications', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue(existingPosition);
+      mockPrisma.application.count.mockResolvedValue(2);
+
+      // Act & Assert
+      await expect(deletePosition(1)).rejects.toThrow('Position 1 has applications and cannot be deleted');
+      expect(mockPrisma.position.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transitionPositionStatus', () => {
+    test('should publish a Draft position and record the change', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue(existingPosition);
+      mockPrisma.employee.findUnique.mockResolvedValue({ id: 5 });
+      mockPrisma.position.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.position.findUniqueOrThrow.mockResolvedValue({ ...existingPosition, status: 'Open', isVisible: true });
+      mockPrisma.positionStatusHistory.create.mockImplementation(({ data }: any) =>
+        Promise.resolve({ id: 1, changedAt: new Date(), ...data }),
+      );
+
+      // Act
+      const result = await transitionPositionStatus(1, { status: 'Open', changedById: 5, reason: 'Budget approved' });
+
+      // Assert
+      expect(result.position.isVisible).toBe(true);
+      expect(mockPrisma.position.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, status: 'Draft' },
+        data: { status: 'Open', isVisible: true },
+      });
+      expect(result.transition).toEqual(
+        expect.objectContaining({
+          fromStatus: 'Draft',
+          toStatus: 'Open',
+          changedById: 5,
+          reason: 'Budget approved',
+        }),
+      );
+    });
+
+    test('should hide a position when it is closed', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue({ ...existingPosition, status: 'Open', isVisible: true });
+      mockPrisma.position.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.position.findUniqueOrThrow.mockResolvedValue({ ...existingPosition, status: 'Closed', isVisible: false });
+      mockPrisma.positionStatusHistory.create.mockResolvedValue({});
+
+      // Act
+      await transitionPositionStatus(1, { status: 'Closed' });
+
+      // Assert
+      expect(mockPrisma.position.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, status: 'Open' },
+        data: { status: 'Closed', isVisible: false },
+      });
+    });
+
+    test('should reject a transition when another request changed the status first', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue(existingPosition);
+      mockPrisma.position.updateMany.mockResolvedValue({ count: 0 });
+
+      // Act & Assert
+      await expect(transitionPositionStatus(1, { status: 'Open' })).rejects.toThrow(PositionStatusChangedError);
+      expect(mockPrisma.positionStatusHistory.create).not.toHaveBeenCalled();
+    });
+
+    test('should reject skipping from Draft to Closed', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue(existingPosition);
+
+      // Act & Assert
+      await expect(transitionPositionStatus(1, { status: 'Closed' })).rejects.toThrow(
+        'Cannot transition position from Draft to Closed',
+      );
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    test('should reject transitions out of a terminal status', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue({ ...existingPosition, status: 'Filled' });
+
+      // Act & Assert
+      await expect(transitionPositionStatus(1, { status: 'Open' })).rejects.toThrow(
+        'Cannot transition position from Filled to Open',
+      );
+    });
+
+    test('should reject unknown statuses', async () => {
+      // Act & Assert
+      await expect(transitionPositionStatus(1, { status: 'Archived' } as any)).rejects.toThrow(
+        'Invalid position status: Archived',
+      );
+    });
+  });
+
+  describe('assertPositionAcceptsApplications', () => {
+    test('should reject positions that are not Open', async () => {
+      // Arrange
+      mockPrisma.position.findUnique.mockResolvedValue({ ...existingPosition, status: 'On Hold' });
+
+      // Act & Assert
+      await expect(assertPositionAcceptsApplications(1)).rejects.toThrow(
+        'Position 1 is not accepting applications (status: On Hold)',
+      );
+    });
+  });
+});
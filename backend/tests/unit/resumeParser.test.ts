@@ -0,0 +1,149 @@
+import { parseResume, parseResumeText } from '../../src/application/resumeParser';
+import { extractResumeText } from '../../src/application/resumeText';
+import { validateCandidateData } from '../../src/application/validator';
+
+jest.mock('../../src/application/resumeText');
+const mockExtractResumeText = extractResumeText as jest.MockedFunction<typeof extractResumeText>;
+
+const englishResume = `
+JOHN DOE
+Madrid, Spain | john.doe@gmail.com | Phone: +34 612 345 678
+
+SUMMARY
+Backend developer focused on distributed systems.
+
+EXPERIENCE
+Senior Developer at Eventbrite
+Jan 2019 - Present
+- Ran Kubernetes clusters for the ticketing platform
+- Mentored three developers
+
+Acme Corp | Backend Developer    03/2016 - 12/2018
+Built billing APIs in Node.js
+
+EDUCATION
+Computer Science
+Universidad Carlos III de Madrid
+2010 - 2014
+
+SKILLS
+Node.js, Kubernetes, PostgreSQL
+`;
+
+const spanishResume = `
+Curriculum Vitae
+María José García
+Teléfono 912 345 678
+maria.garcia@gmail.com
+
+Experiencia laboral
+Desarrolladora en Grupo Santander (Sept. 2020 – actualidad)
+
+Formación académica
+Grado en Ingeniería Informática - Universidad Politécnica de Madrid, 2014 - 2018
+`;
+
+describe('ResumeParser', () => {
+  describe('parseResumeText', () => {
+    test('should suggest contact details, work experiences and educations', () => {
+      // Act
+      const { suggestion, confidence } = parseResumeText(englishResume);
+
+      // Assert
+      expect(suggestion).toEqual({
+        firstName: 'John',
+        lastName: 'Doe',
+        email: 'john.doe@gmail.com',
+        phone: '612345678',
+        workExperiences: [
+          {
+            company: 'Eventbrite',
+            position: 'Senior Developer',
+            description: 'Ran Kubernetes clusters for the ticketing platform Mentored three developers',
+            startDate: '2019-01-01',
+          },
+          {
+            company: 'Acme Corp',
+            position: 'Backend Developer',
+            description: 'Built billing APIs in Node.js',
+            startDate: '2016-03-01',
+            endDate: '2018-12-01',
+          },
+        ],
+        educations: [
+          {
+            institution: 'Universidad Carlos III de Madrid',
+            title: 'Computer Science',
+            startDate: '2010-01-01',
+            endDate: '2014-01-01',
+          },
+        ],
+      });
+      expect(confidence).toEqual({
+        firstName: 0.9,
+        lastName: 0.9,
+        email: 0.95,
+        phone: 0.9,
+        workExperiences: [0.85, 0.85],
+        educations: [0.75],
+      });
+    });
+
+    test('should read Spanish headings, dates and name layouts', () => {
+      // Act
+      const { suggestion, confidence } = parseResumeText(spanishResume);
+
+      // Assert
+      expect(suggestion).toEqual({
+        firstName: 'María',
+        lastName: 'José García',
+        email: 'maria.garcia@gmail.com',
+        phone: '912345678',
+        workExperiences: [{ company: 'Grupo Santander', position: 'Desarrolladora', startDate: '2020-09-01' }],
+        educations: [
+          {
+            institution: 'Universidad Politécnica de Madrid',
+            title: 'Grado en Ingeniería Informática',
+            startDate: '2014-01-01',
+            endDate: '2018-01-01',
+          },
+        ],
+      });
+      expect(confidence.firstName).toBe(0.7);
+    });
+
+    test('should produce a suggestion accepted by the candidate validator', () => {
+      // Act
+      const { suggestion } = parseResumeText(englishResume);
+
+      // Assert
+      expect(() => validateCandidateData(suggestion)).not.toThrow();
+    });
+
+    test('should leave out entries it cannot complete', () => {
+      // Act
+      const { suggestion, confidence } = parseResumeText('Experience\nFreelancing\n2015 - 2016\n');
+
+      // Assert
+      expect(suggestion.workExperiences).toEqual([]);
+      expect(confidence).toEqual({
+        firstName: 0,
+        lastName: 0,
+        email: 0,
+        phone: 0,
+        educations: [],
+        workExperiences: [],
+      });
+    });
+  });
+
+  describe('parseResume', () => {
+    test('should return null when the file type has no text extraction', async () => {
+      // Arrange
+      mockExtractResumeText.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(parseResume(Buffer.from('PNG'), 'image/png')).resolves.toBeNull();
+    });
+  });
+});
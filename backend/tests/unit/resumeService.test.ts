@@ -0,0 +1,329 @@
+import { Prisma } from '@prisma/client';
+import { Readable } from 'stream';
+import { createResumeService, resolveDownloadSecret, signResumeDownload } from '../../src/application/services/resumeService';
+import { extractResumeText } from '../../src/application/resumeText';
+import {
+  CandidateProfileNotFoundError,
+  ConcurrentResumeUploadError,
+  InvalidDownloadLinkError,
+  MissingSecretError,
+  ResumeFileMissingError,
+  ResumeNotFoundError,
+  ResumeQuarantinedError,
+  StoredFileNotFoundError
+} from '../../src/types/errors';
+
+jest.mock('../../src/application/resumeText');
+const mockExtractResumeText = extractResumeText as jest.MockedFunction<typeof extractResumeText>;
+
+// Mock Prisma client
+const mockPrisma = {
+  $transaction: jest.fn(),
+  $executeRaw: jest.fn(),
+  $queryRaw: jest.fn(),
+  candidate: {
+    findUnique: jest.fn(),
+  },
+  resume: {
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    count: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+} as any;
+
+const mockStorage = {
+  driver: 'local',
+  read: jest.fn(),
+  openReadStream: jest.fn(),
+  remove: jest.fn(),
+} as any;
+
+const SECRET = 'test-secret';
+const { addResume, listResumes, openResumeFile, discardUpload } = createResumeService(mockPrisma, mockStorage, SECRET);
+
+const storedResume = {
+  id: 7,
+  candidateId: 1,
+  filePath: '3a/3a7bd3e2.pdf',
+  fileType: 'application/pdf',
+  originalName: 'cv.pdf',
+  fileSize: 2048,
+  version: 2,
+  isCurrent: true,
+  uploadDate: new Date('2026-10-19T10:00:00Z'),
+  scanStatus: 'Clean',
+  scanDetail: null,
+  scannedAt: new Date('2026-10-19T10:00:00Z'),
+  textContent: null,
+};
+
+const upload = {
+  filePath: '3a/3a7bd3e2.pdf',
+  fileType: 'application/pdf',
+  originalName: 'cv.pdf',
+  fileSize: 2048,
+  scanStatus: 'Clean' as const,
+  scanDetail: null,
+  scannedAt: new Date('2026-10-19T10:00:00Z'),
+};
+
+const signedLink = (resumeId: number, expires: number) => ({
+  expires: String(expires),
+  signature: signResumeDownload(resumeId, expires, SECRET),
+});
+
+const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe('ResumeService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(mockPrisma));
+    mockPrisma.candidate.findUnique.mockResolvedValue({ id: 1 });
+  });
+
+  describe('addResume', () => {
+    test('should store the upload as the next current version', async () => {
+      // Arrange
+      mockPrisma.resume.findFirst.mockResolvedValue({ version: 1 });
+      mockPrisma.resume.create.mockResolvedValue(storedResume);
+      mockPrisma.resume.findMany.mockResolvedValue([]);
+      mockPrisma.candidate.findUnique
+        .mockResolvedValueOnce({ id: 1 })
+        .mockResolvedValueOnce({ id: 1, firstName: 'John', lastName: 'Doe', email: 'john.doe@gmail.com', address: null, educations: [], workExperiences: [], resumes: [] });
+
+      // Act
+      const result = await addResume(1, upload);
+
+      // Assert
+      expect(mockPrisma.resume.updateMany).toHaveBeenCalledWith({
+        where: { candidateId: 1, isCurrent: true },
+        data: { isCurrent: false },
+      });
+      expect(mockPrisma.resume.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ candidateId: 1, version: 2, isCurrent: true, originalName: 'cv.pdf', scanStatus: 'Clean' }),
+      });
+      expect(result).toMatchObject({ id: 7, version: 2, isCurrent: true, fileSize: 2048 });
+      expect(result.downloadUrl).toMatch(/^\/resumes\/7\/file\?expires=\d+&signature=[0-9a-f]{64}$/);
+      expect(mockPrisma.$executeRaw).toHaveBeenCalledTimes(1);
+    });
+
+    test('should start at version 1 and keep the resume when indexing fails', async () => {
+      // Arrange
+      mockPrisma.resume.findFirst.mockResolvedValue(null);
+      mockPrisma.resume.create.mockResolvedValue({ ...storedResume, version: 1 });
+      mockPrisma.resume.findMany.mockRejectedValue(new Error('connection lost'));
+
+      // Act
+      const result = await addResume(1, upload);
+
+      // Assert
+      expect(mockPrisma.resume.create.mock.calls[0][0].data.version).toBe(1);
+      expect(result.version).toBe(1);
+      expect(mockExtractResumeText).not.toHaveBeenCalled();
+    });
+
+    test('should record a quarantined upload without making it current', async () => {
+      // Arrange
+      const quarantined = { ...upload, filePath: 'quarantine/c0/c0ffee00.pdf', scanStatus: 'Quarantined' as const, scanDetail: 'DOCX contains macros' };
+      mockPrisma.resume.findFirst.mockResolvedValue({ version: 2 });
+      mockPrisma.resume.create.mockResolvedValue({ ...storedResume, ...quarantined, id: 8, version: 3, isCurrent: false });
+
+      // Act
+      const result = await addResume(1, quarantined);
+
+      // Assert
+      expect(mockPrisma.resume.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.resume.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ version: 3, isCurrent: false, scanStatus: 'Quarantined', scanDetail: 'DOCX contains macros' }),
+      });
+      expect(result).toMatchObject({ id: 8, scanStatus: 'Quarantined', downloadUrl: null });
+      expect(mockPrisma.resume.findMany).not.toHaveBeenCalled();
+    });
+
+    test('should reject a second current resume stored at the same time', async () => {
+      // Arrange
+      mockPrisma.resume.findFirst.mockResolvedValue({ version: 2 });
+      mockPrisma.resume.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed on the fields: (`candidateId`)', {
+          code: 'P2002',
+          clientVersion: '5.0.0',
+          meta: { target: 'Resume_candidateId_current_key' },
+        }),
+      );
+
+      // Act & Assert
+      await expect(addResume(1, upload)).rejects.toThrow(ConcurrentResumeUploadError);
+      expect(mockPrisma.$executeRaw).not.toHaveBeenCalled();
+    });
+
+    test('should throw when the candidate does not exist', async () => {
+      // Arrange
+      mockPrisma.candidate.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        addResume(99, upload),
+      ).rejects.toThrow(CandidateProfileNotFoundError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listResumes', () => {
+    test('should list versions newest first with download links', async () => {
+      // Arrange
+      mockPrisma.resume.findMany.mockResolvedValue([storedResume, { ...storedResume, id: 6, version: 1, isCurrent: false }]);
+
+      // Act
+      const result = await listResumes(1);
+
+      // Assert
+      expect(mockPrisma.resume.findMany).toHaveBeenCalledWith({ where: { candidateId: 1 }, orderBy: { version: 'desc' } });
+      expect(result.map((resume) => [resume.id, resume.isCurrent])).toEqual([
+        [7, true],
+        [6, false],
+      ]);
+      expect(result[1].downloadUrl).toContain('/resumes/6/file?');
+      expect(result[0]).not.toHaveProperty('filePath');
+    });
+  });
+
+  describe('openResumeFile', () => {
+    test('should open the stored file for a valid link', async () => {
+      // Arrange
+      const content = Readable.from(['%PDF-1.4']);
+      mockPrisma.resume.findUnique.mockResolvedValue(storedResume);
+      mockStorage.openReadStream.mockResolvedValue(content);
+
+      // Act
+      const result = await openResumeFile(7, signedLink(7, inAnHour()));
+
+      // Assert
+      expect(mockStorage.openReadStream).toHaveBeenCalledWith('3a/3a7bd3e2.pdf');
+      expect(result).toEqual({ content, fileType: 'application/pdf', fileName: 'cv.pdf', fileSize: 2048 });
+    });
+
+    test('should fall back to the key for resumes without an original name', async () => {
+      // Arrange
+      mockPrisma.resume.findUnique.mockResolvedValue({ ...storedResume, originalName: null, filePath: '1715760936750-cv.pdf' });
+      mockStorage.openReadStream.mockResolvedValue(Readable.from([]));
+
+      // Act
+      const result = await openResumeFile(7, signedLink(7, inAnHour()));
+
+      // Assert
+      expect(result.fileName).toBe('1715760936750-cv.pdf');
+    });
+
+    test('should reject a link signed for another resume', async () => {
+      // Act & Assert
+      await expect(openResumeFile(7, signedLink(6, inAnHour()))).rejects.toThrow(
+        'Invalid download link: signature does not match',
+      );
+      expect(mockPrisma.resume.findUnique).not.toHaveBeenCalled();
+    });
+
+    test('should reject an expired or unsigned link', async () => {
+      // Act & Assert
+      await expect(openResumeFile(7, signedLink(7, 1000))).rejects.toThrow('Invalid download link: link has expired');
+      await expect(openResumeFile(7, {})).rejects.toThrow(InvalidDownloadLinkError);
+    });
+
+    test('should throw when the resume does not exist', async () => {
+      // Arrange
+      mockPrisma.resume.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(openResumeFile(7, signedLink(7, inAnHour()))).rejects.toThrow(ResumeNotFoundError);
+    });
+
+    test('should refuse to serve a quarantined file', async () => {
+      // Arrange
+      mockPrisma.resume.findUnique.mockResolvedValue({ ...storedResume, scanStatus: 'Quarantined' });
+
+      // Act & Assert
+      await expect(openResumeFile(7, signedLink(7, inAnHour()))).rejects.toThrow(ResumeQuarantinedError);
+      expect(mockStorage.openReadStream).not.toHaveBeenCalled();
+    });
+
+    test('should throw when the file is gone from storage', async () => {
+      // Arrange
+      mockPrisma.resume.findUnique.mockResolvedValue(storedResume);
+      mockStorage.openReadStream.mockRejectedValue(new StoredFileNotFoundError('3a/3a7bd3e2.pdf'));
+
+      // Act & Assert
+      await expect(openResumeFile(7, signedLink(7, inAnHour()))).rejects.toThrow(ResumeFileMissingError);
+    });
+  });
+
+  describe('discardUpload', () => {
+    // The SQL of the reference count, with the key in place of its parameters
+    const referenceQuery = () => mockPrisma.$queryRaw.mock.calls[0][0].join('?');
+
+    test('should remove a file no resume or upload refers to', async () => {
+      // Arrange
+      mockPrisma.$queryRaw.mockResolvedValue([{ references: BigInt(0) }]);
+
+      // Act
+      await discardUpload('3a/3a7bd3e2.pdf');
+
+      // Assert
+      expect(mockPrisma.$queryRaw.mock.calls[0].slice(1)).toEqual(['3a/3a7bd3e2.pdf', '3a/3a7bd3e2.pdf']);
+      expect(mockStorage.remove).toHaveBeenCalledWith('3a/3a7bd3e2.pdf');
+    });
+
+    test('should keep a file another resume stores the same content in', async () => {
+      // Arrange
+      mockPrisma.$queryRaw.mockResolvedValue([{ references: BigInt(1) }]);
+
+      // Act
+      await discardUpload('3a/3a7bd3e2.pdf');
+
+      // Assert
+      expect(mockStorage.remove).not.toHaveBeenCalled();
+    });
+
+    test('should keep a file only recorded by POST /upload', async () => {
+      // Arrange
+      mockPrisma.$queryRaw.mockResolvedValue([{ references: BigInt(1) }]);
+
+      // Act
+      await discardUpload('3a/3a7bd3e2.pdf');
+
+      // Assert
+      expect(referenceQuery()).toContain('FROM "Upload" WHERE "key" = ?');
+      expect(mockStorage.remove).not.toHaveBeenCalled();
+    });
+
+    test('should keep a file only a resume of another company refers to', async () => {
+      // Arrange
+      mockPrisma.$queryRaw.mockResolvedValue([{ references: BigInt(1) }]);
+
+      // Act
+      await discardUpload('3a/3a7bd3e2.pdf');
+
+      // Assert
+      // Counted with a raw query, which the tenant scope does not narrow to the current company
+      expect(referenceQuery()).toContain('FROM "Resume" WHERE "filePath" = ?');
+      expect(mockPrisma.resume.count).not.toHaveBeenCalled();
+      expect(mockStorage.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveDownloadSecret', () => {
+    test('should use RESUME_DOWNLOAD_SECRET when set', () => {
+      expect(resolveDownloadSecret({ NODE_ENV: 'production', RESUME_DOWNLOAD_SECRET: 'shared-secret' })).toBe('shared-secret');
+    });
+
+    test('should refuse to start in production without RESUME_DOWNLOAD_SECRET', () => {
+      expect(() => resolveDownloadSecret({ NODE_ENV: 'production' })).toThrow(MissingSecretError);
+    });
+
+    test('should make up a secret outside production', () => {
+      expect(resolveDownloadSecret({ NODE_ENV: 'test' })).toHaveLength(64);
+    });
+  });
+});
@@ -0,0 +1,349 @@
+import { createScorecardService } from '../../src/application/services/scorecardService';
+import {
+  ApplicationNotFoundError,
+  InterviewTypeNotFoundError,
+  InvalidInterviewStateError,
+  InvalidScorecardDataError,
+  ScorecardTemplateMissingError,
+  SharedTemplateError
+} from '../../src/types/errors';
+
+// Mock Prisma client
+const mockPrisma = {
+  $transaction: jest.fn((operations) => Promise.all(operations)),
+  application: {
+    findUnique: jest.fn(),
+  },
+  interview: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  interviewRating: {
+    createMany: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  interviewType: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  scorecardCompetency: {
+    deleteMany: jest.fn(),
+    upsert: jest.fn(),
+  },
+} as any;
+
+const scorecardService = createScorecardService(mockPrisma);
+const { getScorecardTemplate, updateScorecardTemplate, submitScorecard, getApplicationScorecard } = scorecardService;
+
+const competencies = [
+  { id: 1, interviewTypeId: 2, name: 'Problem solving', description: null, weight: 2, orderIndex: 1 },
+  { id: 2, interviewTypeId: 2, name: 'Communication', description: null, weight: 1, orderIndex: 2 },
+];
+
+const technicalType = {
+  id: 2,
+  name: 'Technical Interview',
+  ratingScaleMin: 1,
+  ratingScaleMax: 5,
+  competencies,
+};
+
+const heldInterview = (overrides: Record<string, unknown> = {}) => ({
+  id: 20,
+  applicationId: 10,
+  interviewStepId: 7,
+  interviewDate: new Date(Date.now() - 60 * 60 * 1000),
+  status: 'Scheduled',
+  interviewStep: { interviewType: technicalType },
+  ...overrides,
+});
+
+describe('ScorecardService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getScorecardTemplate', () => {
+    test('should return the scale and ordered competencies of an interview type', async () => {
+      // Arrange
+      mockPrisma.interviewType.findUnique.mockResolvedValue(technicalType);
+
+      // Act
+      const result = await getScorecardTemplate(2);
+
+      // Assert
+      expect(result).toEqual({
+        interviewType: { id: 2, name: 'Technical Interview', ratingScaleMin: 1, ratingScaleMax: 5 },
+        competencies,
+      });
+    });
+
+    test('should throw when the interview type does not exist', async () => {
+      // Arrange
+      mockPrisma.interviewType.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(getScorecardTemplate(404)).rejects.toThrow(InterviewTypeNotFoundError);
+    });
+  });
+
+  describe('updateScorecardTemplate', () => {
+    beforeEach(() => {
+      mockPrisma.interviewType.findUnique.mockResolvedValue({ ...technicalType, companyId: 1 });
+    });
+
+    test('should refuse to change the template of an interview type shared by every company', async () => {
+      // Arrange
+      mockPrisma.interviewType.findUnique.mockResolvedValue({ ...technicalType, companyId: null });
+
+      // Act & Assert
+      await expect(
+        updateScorecardTemplate(2, { competencies: [{ name: 'Communication', weight: 1 }] }),
+      ).rejects.toThrow(SharedTemplateError);
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    test('should upsert competencies by name and drop the ones left out', async () => {
+      // Act
+      await updateScorecardTemplate(2, {
+        ratingScaleMax: 4,
+        competencies: [{ name: ' System design ', weight: 1.5 }, { name: 'Communication', weight: 1 }],
+      });
+
+      // Assert
+      expect(mockPrisma.interviewType.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { ratingScaleMin: 1, ratingScaleMax: 4 },
+      });
+      expect(mockPrisma.scorecardCompetency.deleteMany).toHaveBeenCalledWith({
+        where: { interviewTypeId: 2, name: { notIn: ['System design', 'Communication'] } },
+      });
+      expect(mockPrisma.scorecardCompetency.upsert).toHaveBeenCalledWith({
+        where: { interviewTypeId_name: { interviewTypeId: 2, name: 'System design' } },
+        create: { interviewTypeId: 2, name: 'System design', description: null, weight: 1.5, orderIndex: 1 },
+        update: { name: 'System design', description: null, weight: 1.5, orderIndex: 1 },
+      });
+    });
+
+    test('should reject non-positive weights', async () => {
+      // Act & Assert
+      await expect(
+        updateScorecardTemplate(2, { competencies: [{ name: 'Communication', weight: 0 }] }),
+      ).rejects.toThrow('Invalid scorecard data: competencies[0].weight must be a positive number');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    test('should reject duplicate competency names regardless of case', async () => {
+      // Act & Assert
+      await expect(
+        updateScorecardTemplate(2, {
+          competencies: [
+            { name: 'Communication', weight: 1 },
+            { name: 'communication', weight: 2 },
+          ],
+        }),
+      ).rejects.toThrow(InvalidScorecardDataError);
+    });
+
+    test('should reject a scale whose maximum does not exceed its minimum', async () => {
+      // Act & Assert
+      await expect(
+        updateScorecardTemplate(2, { ratingScaleMin: 3, ratingScaleMax: 3, competencies: [{ name: 'Communication', weight: 1 }] }),
+      ).rejects.toThrow('Invalid scorecard data: ratingScaleMax must be an integer greater than ratingScaleMin');
+    });
+  });
+
+  describe('submitScorecard', () => {
+    test('should store rating snapshots and complete the interview with a weighted score', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(heldInterview());
+
+      // Act
+      await submitScorecard(20, {
+        ratings: [
+          { competencyId: 1, rating: 4, comment: 'Clean approach' },
+          { competencyId: 2, rating: 2 },
+        ],
+        recommendation: 'Hire',
+      });
+
+      // Assert
+      expect(mockPrisma.interviewRating.deleteMany).toHaveBeenCalledWith({ where: { interviewId: 20 } });
+      expect(mockPrisma.interviewRating.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            interviewId: 20,
+            competencyId: 1,
+            competencyName: 'Problem solving',
+            weight: 2,
+            scaleMin: 1,
+            scaleMax: 5,
+            rating: 4,
+            comment: 'Clean approach',
+          },
+          {
+            interviewId: 20,
+            competencyId: 2,
+            competencyName: 'Communication',
+            weight: 1,
+            scaleMin: 1,
+            scaleMax: 5,
+            rating: 2,
+            comment: null,
+          },
+        ],
+      });
+      // (2 * 75 + 1 * 25) / 3 = 58.33 on the 0-100 scale, 3 on the 0-5 interview scale
+      expect(mockPrisma.interview.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 20 },
+          data: { status: 'Completed', recommendation: 'Hire', weightedScore: 58.33, score: 3, result: 'Passed' },
+        }),
+      );
+    });
+
+    test('should derive a failed result from a no-hire recommendation', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(heldInterview());
+
+      // Act
+      await submitScorecard(20, {
+        ratings: [
+          { competencyId: 1, rating: 1 },
+          { competencyId: 2, rating: 1 },
+        ],
+        recommendation: 'Strong No Hire',
+      });
+
+      // Assert
+      expect(mockPrisma.interview.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ weightedScore: 0, score: 0, result: 'Failed' }),
+        }),
+      );
+    });
+
+    test('should require every competency to be rated', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(heldInterview());
+
+      // Act & Assert
+      await expect(
+        submitScorecard(20, { ratings: [{ competencyId: 1, rating: 4 }], recommendation: 'Hire' }),
+      ).rejects.toThrow('Invalid scorecard data: ratings are missing for Communication');
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    test('should reject ratings outside the scale of the interview type', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(heldInterview());
+
+      // Act & Assert
+      await expect(
+        submitScorecard(20, {
+          ratings: [
+            { competencyId: 1, rating: 6 },
+            { competencyId: 2, rating: 3 },
+          ],
+          recommendation: 'Hire',
+        }),
+      ).rejects.toThrow('Invalid scorecard data: ratings[0].rating must be an integer between 1 and 5');
+    });
+
+    test('should reject unknown recommendations before loading the interview', async () => {
+      // Act & Assert
+      await expect(
+        submitScorecard(20, { ratings: [{ competencyId: 1, rating: 4 }], recommendation: 'Maybe' } as any),
+      ).rejects.toThrow(InvalidScorecardDataError);
+      expect(mockPrisma.interview.findUnique).not.toHaveBeenCalled();
+    });
+
+    test('should reject scorecards for cancelled interviews', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(heldInterview({ status: 'Cancelled' }));
+
+      // Act & Assert
+      await expect(
+        submitScorecard(20, { ratings: [{ competencyId: 1, rating: 4 }], recommendation: 'Hire' }),
+      ).rejects.toThrow(InvalidInterviewStateError);
+    });
+
+    test('should throw when the interview type has no scorecard template', async () => {
+      // Arrange
+      mockPrisma.interview.findUnique.mockResolvedValue(
+        heldInterview({ interviewStep: { interviewType: { ...technicalType, competencies: [] } } }),
+      );
+
+      // Act & Assert
+      await expect(
+        submitScorecard(20, { ratings: [{ competencyId: 1, rating: 4 }], recommendation: 'Hire' }),
+      ).rejects.toThrow(ScorecardTemplateMissingError);
+    });
+  });
+
+  describe('getApplicationScorecard', () => {
+    test('should aggregate competencies, legacy scores and recommendations', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue({ id: 10 });
+      mockPrisma.interview.findMany.mockResolvedValue([
+        {
+          id: 20,
+          interviewStepId: 7,
+          employeeId: 5,
+          score: 3,
+          recommendation: 'Hire',
+          weightedScore: 50,
+          interviewStep: { name: 'Technical Interview' },
+          ratings: [
+            { competencyId: 1, competencyName: 'Problem solving', weight: 1, scaleMin: 1, scaleMax: 5, rating: 4 },
+            { competencyId: 2, competencyName: 'Communication', weight: 1, scaleMin: 1, scaleMax: 5, rating: 2 },
+          ],
+        },
+        {
+          id: 21,
+          interviewStepId: 8,
+          employeeId: 6,
+          score: 5,
+          recommendation: null,
+          weightedScore: null,
+          interviewStep: { name: 'Manager Interview' },
+          ratings: [],
+        },
+      ]);
+
+      // Act
+      const result = await getApplicationScorecard(10);
+
+      // Assert
+      // Each interview counts once: (50 + 100) / 2, not (75 + 25 + 100) / 3
+      expect(result.weightedScore).toBe(75);
+      expect(result.competencies).toEqual([
+        { competencyId: 1, competencyName: 'Problem solving', weight: 1, ratingsCount: 1, averageScore: 75 },
+        { competencyId: 2, competencyName: 'Communication', weight: 1, ratingsCount: 1, averageScore: 25 },
+      ]);
+      expect(result.interviews.map((interview) => interview.weightedScore)).toEqual([50, 100]);
+      expect(result.recommendations).toEqual({ Hire: 1 });
+    });
+
+    test('should report a null score when nothing has been scored', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue({ id: 10 });
+      mockPrisma.interview.findMany.mockResolvedValue([]);
+
+      // Act
+      const result = await getApplicationScorecard(10);
+
+      // Assert
+      expect(result).toEqual({ applicationId: 10, weightedScore: null, competencies: [], interviews: [], recommendations: {} });
+    });
+
+    test('should throw when the application does not exist', async () => {
+      // Arrange
+      mockPrisma.application.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(getApplicationScorecard(404)).rejects.toThrow(ApplicationNotFoundError);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { loadSecurityConfig } from '../../src/middleware/securityPipeline';
+import { InvalidSecurityConfigError } from '../../src/types/errors';
+
+describe('SecurityPipeline', () => {
+  describe('loadSecurityConfig', () => {
+    test('should check sign-in strictly and uploads loosely by default', () => {
+      // Act
+      const config = loadSecurityConfig({});
+
+      // Assert
+      expect(config.auth).toEqual({
+        guards: expect.arrayContaining(['sqlInjection', 'templateInjection', 'css']),
+        reportOnly: false,
+      });
+      expect(config.upload.guards).toEqual(['headers', 'rateLimit', 'headerFlood', 'cookies', 'pathTraversal']);
+      expect(config.api.guards).toContain('sqlInjection');
+      expect(config.api.guards).not.toContain('xss');
+    });
+
+    test('should turn guards off in every group', () => {
+      // Act
+      const config = loadSecurityConfig({ SECURITY_DISABLED_GUARDS: 'rateLimit, pathTraversal' });
+
+      // Assert
+      expect(config.upload.guards).toEqual(['headers', 'headerFlood', 'cookies']);
+      expect(config.auth.guards).not.toContain('rateLimit');
+      expect(config.api.guards).not.toContain('rateLimit');
+    });
+
+    test('should read the guards and mode of each group', () => {
+      // Act
+      const config = loadSecurityConfig({
+        SECURITY_REPORT_ONLY: 'true',
+        SECURITY_AUTH_REPORT_ONLY: 'false',
+        SECURITY_API_GUARDS: 'xss,redos',
+        SECURITY_UPLOAD_GUARDS: '',
+      });
+
+      // Assert
+      expect(config).toEqual({
+        auth: { guards: expect.any(Array), reportOnly: false },
+        upload: { guards: [], reportOnly: true },
+        api: { guards: ['xss', 'redos'], reportOnly: true },
+      });
+    });
+
+    test('should reject unknown guards and modes', () => {
+      // Act & Assert
+      expect(() => loadSecurityConfig({ SECURITY_API_GUARDS: 'xss,firewall' })).toThrow(InvalidSecurityConfigError);
+      expect(() => loadSecurityConfig({ SECURITY_API_GUARDS: 'xss,firewall' })).toThrow(
+        'Invalid security configuration: SECURITY_API_GUARDS names the unknown guard "firewall"',
+      );
+      expect(() => loadSecurityConfig({ SECURITY_REPORT_ONLY: 'yes' })).toThrow('SECURITY_REPORT_ONLY must be true or false');
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { currentCompanyId, runWithTenant, scopeTenantArgs, withTenantScope } from '../../src/application/tenancy';
+import { CrossTenantWriteError } from '../../src/types/errors';
+
+// In-memory candidates of two companies, queried through the tenant scope extension
+let candidates: any[];
+
+const matches = (row: any, where: any): boolean =>
+  Object.entries(where ?? {}).every(([key, value]) =>
+    key === 'AND' ? (value as any[]).every((clause) => matches(row, clause)) : row[key] === value,
+  );
+
+const runQuery = (operation: string, args: any) => {
+  const found = candidates.filter((row) => matches(row, args?.where));
+  switch (operation) {
+    case 'findUnique':
+      return found[0] ?? null;
+    case 'findMany':
+      return found;
+    case 'update':
+      if (found.length === 0) throw new Error('Record to update not found');
+      return Object.assign(found[0], args.data);
+    case 'create': {
+      const row = { id: candidates.length + 1, ...args.data };
+      candidates.push(row);
+      return row;
+    }
+  }
+};
+
+const fakeClient = {
+  $extends: (extension: any) => ({
+    candidate: new Proxy(
+      {},
+      {
+        get: (_target, operation: string) => (args?: any) =>
+          extension.query.$allModels.$allOperations({
+            model: 'Candidate',
+            operation,
+            args,
+            query: async (scoped: any) => runQuery(operation, scoped),
+          }),
+      },
+    ),
+  }),
+} as any;
+
+const prisma = withTenantScope(fakeClient) as any;
+
+describe('Tenancy', () => {
+  beforeEach(() => {
+    candidates = [
+      { id: 1, companyId: 1, firstName: 'John', email: 'john.doe@gmail.com' },
+      { id: 2, companyId: 2, firstName: 'Jane', email: 'jane.smith@gmail.com' },
+    ];
+  });
+
+  describe('scopeTenantArgs', () => {
+    test('should keep unique fields at the top level of the filter', () => {
+      // Act
+      const args = scopeTenantArgs('Candidate', 'findUnique', { where: { id: 2 } }, 1);
+
+      // Assert
+      expect(args).toEqual({ where: { id: 2, AND: [{ companyId: 1 }] } });
+    });
+
+    test('should reach the company through the parent rows', () => {
+      // Act & Assert
+      expect(scopeTenantArgs('Resume', 'findMany', { where: { candidateId: 3 } }, 1)).toEqual({
+        where: { candidateId: 3, AND: [{ candidate: { companyId: 1 } }] },
+      });
+      expect(scopeTenantArgs('Interview', 'count', undefined, 1)).toEqual({
+        where: { application: { position: { companyId: 1 } } },
+      });
+    });
+
+    test('should keep the existing AND clauses', () => {
+      // Act
+      const args = scopeTenantArgs('Application', 'updateMany', { where: { AND: { positionId: 3 } }, data: {} }, 1);
+
+      // Assert
+      expect(args).toEqual({ where: { AND: [{ positionId: 3 }, { position: { companyId: 1 } }] }, data: {} });
+    });
+
+    test('should leave models outside any company alone', () => {
+      // Act & Assert
+      expect(scopeTenantArgs('EmployeeSession', 'findMany', { where: { id: 1 } }, 1)).toEqual({ where: { id: 1 } });
+    });
+
+    test('should read shared templates but only change the company own rows', () => {
+      // Act & Assert
+      expect(scopeTenantArgs('InterviewFlow', 'findMany', { where: { id: 1 } }, 1)).toEqual({
+        where: { id: 1, AND: [{ OR: [{ companyId: 1 }, { companyId: null }] }] },
+      });
+      expect(scopeTenantArgs('InterviewStep', 'updateMany', { where: { interviewFlowId: 1 }, data: {} }, 1)).toEqual({
+        where: { interviewFlowId: 1, AND: [{ interviewFlow: { companyId: 1 } }] },
+        data: {},
+      });
+      expect(scopeTenantArgs('InterviewType', 'create', { data: { name: 'Culture fit' } }, 1)).toEqual({
+        data: { name: 'Culture fit', companyId: 1 },
+      });
+    });
+
+    test('should stamp new company owned rows with the company', () => {
+      // Act & Assert
+      expect(scopeTenantArgs('Position', 'create', { data: { title: 'Engineer' } }, 1)).toEqual({
+        data: { title: 'Engineer', companyId: 1 },
+      });
+      expect(scopeTenantArgs('Candidate', 'createMany', { data: [{ email: 'a@b.com' }] }, 1)).toEqual({
+        data: [{ email: 'a@b.com', companyId: 1 }],
+      });
+    });
+
+    test('should refuse to create or move rows into another company', () => {
+      // Act & Assert
+      expect(() => scopeTenantArgs('Position', 'create', { data: { companyId: 2 } }, 1)).toThrow(CrossTenantWriteError);
+      expect(() => scopeTenantArgs('Position', 'update', { where: { id: 1 }, data: { companyId: 2 } }, 1)).toThrow(
+        'Cannot write Position rows for company 2',
+      );
+    });
+  });
+
+  describe('withTenantScope', () => {
+    test('should not read the candidates of another company', async () => {
+      // Act
+      const [own, other, listed] = await runWithTenant(1, () =>
+        Promise.all([
+          prisma.candidate.findUnique({ where: { id: 1 } }),
+          prisma.candidate.findUnique({ where: { id: 2 } }),
+          prisma.candidate.findMany(),
+        ]),
+      );
+
+      // Assert
+      expect(own.firstName).toBe('John');
+      expect(other).toBeNull();
+      expect(listed.map((candidate: any) => candidate.id)).toEqual([1]);
+    });
+
+    test('should not update the candidates of another company', async () => {
+      // Act & Assert
+      await expect(
+        runWithTenant(1, () => prisma.candidate.update({ where: { id: 2 }, data: { firstName: 'Mallory' } })),
+      ).rejects.toThrow('Record to update not found');
+      expect(candidates[1].firstName).toBe('Jane');
+    });
+
+    test('should not create candidates for another company', async () => {
+      // Act & Assert
+      await expect(
+        runWithTenant(1, () => prisma.candidate.create({ data: { companyId: 2, email: 'eve@gmail.com' } })),
+      ).rejects.toThrow(CrossTenantWriteError);
+      expect(candidates).toHaveLength(2);
+
+      const created = await runWithTenant(1, () => prisma.candidate.create({ data: { email: 'eve@gmail.com' } }));
+      expect(created.companyId).toBe(1);
+    });
+
+    test('should not scope queries made outside a request', async () => {
+      // Act
+      const listed = await prisma.candidate.findMany();
+
+      // Assert
+      expect(currentCompanyId()).toBeUndefined();
+      expect(listed).toHaveLength(2);
+    });
+  });
+});
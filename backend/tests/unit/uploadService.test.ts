@@ -0,0 +1,73 @@
+import { createUploadService } from '../../src/application/services/uploadService';
+import { UnknownUploadError } from '../../src/types/errors';
+
+// Mock Prisma client
+const mockPrisma = {
+  upload: {
+    upsert: jest.fn(),
+    findFirst: jest.fn(),
+  },
+} as any;
+
+const { recordUpload, findUpload } = createUploadService(mockPrisma);
+
+const employee = { id: 2, companyId: 1, name: 'Carol Davis', email: 'carol.davis@lti.com', role: 'Recruiter' };
+const scannedAt = new Date('2026-10-19T10:00:00.000Z');
+const uploaded = {
+  filePath: 'c0/c0ffee00.pdf',
+  fileType: 'application/pdf',
+  originalName: 'john-doe-cv.pdf',
+  fileSize: 48213,
+  scanStatus: 'Clean' as const,
+  scanDetail: null,
+  scannedAt,
+};
+
+describe('UploadService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordUpload', () => {
+    test('should record the file for the company of the employee, once per key', async () => {
+      // Act
+      await recordUpload(uploaded, employee);
+
+      // Assert
+      expect(mockPrisma.upload.upsert).toHaveBeenCalledWith({
+        where: { companyId_key: { companyId: 1, key: 'c0/c0ffee00.pdf' } },
+        create: expect.objectContaining({
+          companyId: 1,
+          key: 'c0/c0ffee00.pdf',
+          fileType: 'application/pdf',
+          scanStatus: 'Clean',
+          uploadedById: 2,
+        }),
+        update: {},
+      });
+    });
+  });
+
+  describe('findUpload', () => {
+    test('should answer the file as recorded on upload', async () => {
+      // Arrange
+      mockPrisma.upload.findFirst.mockResolvedValue({ id: 5, companyId: 1, key: 'c0/c0ffee00.pdf', ...uploaded });
+
+      // Act
+      const file = await findUpload('c0/c0ffee00.pdf');
+
+      // Assert
+      expect(file).toEqual(uploaded);
+    });
+
+    test('should reject keys that were never uploaded or were quarantined', async () => {
+      // Arrange
+      mockPrisma.upload.findFirst.mockResolvedValueOnce(null);
+      mockPrisma.upload.findFirst.mockResolvedValueOnce({ ...uploaded, key: 'c0/c0ffee00.pdf', scanStatus: 'Quarantined' });
+
+      // Act & Assert
+      await expect(findUpload('c0/c0ffee00.pdf')).rejects.toThrow(UnknownUploadError);
+      await expect(findUpload('c0/c0ffee00.pdf')).rejects.toThrow(UnknownUploadError);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { validateRequest } from '../../src/middleware/validation';
+import { idParams, idString } from '../../src/schemas/common';
+import { RequestValidationError } from '../../src/types/errors';
+
+const mockResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+describe('Validation', () => {
+  describe('validateRequest', () => {
+    const schema = {
+      params: idParams,
+      query: z.object({ limit: idString.optional() }),
+      body: z.object({ name: z.string(), tags: z.array(z.string()).optional() }),
+    };
+
+    test('should replace params, query and body with the parsed values', () => {
+      // Arrange
+      const req = { params: { id: '7' }, query: { limit: '20' }, body: { name: 'Ada' } } as unknown as Request;
+      const res = mockResponse();
+      const next = jest.fn();
+
+      // Act
+      validateRequest(schema)(req, res as unknown as Response, next);
+
+      // Assert
+      expect(next).toHaveBeenCalledWith();
+      expect(req.params).toEqual({ id: 7 });
+      expect(req.query).toEqual({ limit: 20 });
+      expect(req.body).toEqual({ name: 'Ada' });
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    test('should list every failing field of every part', () => {
+      // Arrange
+      const req = { params: { id: 'abc' }, query: { limit: '0' }, body: { name: 1, tags: ['a', 2] } } as unknown as Request;
+      const res = mockResponse();
+      const next = jest.fn();
+
+      // Act
+      validateRequest(schema)(req, res as unknown as Response, next);
+
+      // Assert
+      const error = next.mock.calls[0][0];
+      expect(error).toBeInstanceOf(RequestValidationError);
+      expect(error.details).toEqual([
+        { path: 'params.id', code: 'invalid_string', message: 'must be a positive integer' },
+        { path: 'query.limit', code: 'too_small', message: 'must be a positive integer' },
+        { path: 'body.name', code: 'invalid_type', message: 'Expected string, received number' },
+        { path: 'body.tags.1', code: 'invalid_type', message: 'Expected string, received number' },
+      ]);
+      expect(req.params).toEqual({ id: 'abc' });
+      expect(res.status).not.toHaveBeenCalled();
+    });
+
+    test('should check a missing body as an empty object', () => {
+      // Arrange
+      const req = { params: { id: '7' }, query: {} } as unknown as Request;
+      const next = jest.fn();
+
+      // Act
+      validateRequest(schema)(req, mockResponse() as unknown as Response, next);
+
+      // Assert
+      expect(next.mock.calls[0][0].details).toEqual([{ path: 'body.name', code: 'invalid_type', message: 'Required' }]);
+    });
+  });
+});
@@ -3,13 +3,16 @@ import 'bootstrap/dist/css/bootstrap.min.css';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import RecruiterDashboard from './components/RecruiterDashboard';
 import AddCandidate from './components/AddCandidateForm'; // Asegúrate de tener este componente
+import LoginForm from './components/LoginForm';
+import RequireAuth from './components/RequireAuth';
 
 const App = () => {
   return (
     <BrowserRouter>
       <Routes>
-        <Route path="/" element={<RecruiterDashboard />} />
-        <Route path="/add-candidate" element={<AddCandidate />} /> {/* Agrega esta línea */}
+        <Route path="/login" element={<LoginForm />} />
+        <Route path="/" element={<RequireAuth><RecruiterDashboard /></RequireAuth>} />
+        <Route path="/add-candidate" element={<RequireAuth><AddCandidate /></RequireAuth>} /> {/* Agrega esta línea */}
       </Routes>
     </BrowserRouter>
   );
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Form, Button, Alert, InputGroup, FormControl, Card, Container, Row, Col } from 'react-bootstrap';
 import { Trash } from 'react-bootstrap-icons';
 import FileUploader from './FileUploader';
+import { apiFetch } from '../services/authService';
 import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
 
@@ -18,6 +19,7 @@ const AddCandidateForm = () => {
     });
     const [error, setError] = useState('');
     const [successMessage, setSuccessMessage] = useState('');
+    const [prefilled, setPrefilled] = useState(false);
 
     const handleInputChange = (e, index, section) => {
         const updatedSection = [...candidate[section]];
@@ -46,8 +48,37 @@ const AddCandidateForm = () => {
         setCandidate({ ...candidate, [section]: updatedSection });
     };
 
+    // Suggested dates are YYYY-MM-DD strings; the date pickers work with Date objects
+    const toPickerDate = (value) => (value ? new Date(value) : '');
+
     const handleCVUpload = (fileData) => {
-        setCandidate({ ...candidate, cv: fileData });
+        const suggestion = fileData && fileData.suggestion;
+        if (!suggestion) {
+            setCandidate({ ...candidate, cv: fileData });
+            return;
+        }
+
+        // Pre-fill only what the recruiter has not typed yet
+        setCandidate({
+            ...candidate,
+            cv: fileData,
+            firstName: candidate.firstName || suggestion.firstName || '',
+            lastName: candidate.lastName || suggestion.lastName || '',
+            email: candidate.email || suggestion.email || '',
+            phone: candidate.phone || suggestion.phone || '',
+            educations: candidate.educations.length > 0 ? candidate.educations : suggestion.educations.map(education => ({
+                ...education,
+                startDate: toPickerDate(education.startDate),
+                endDate: toPickerDate(education.endDate)
+            })),
+            workExperiences: candidate.workExperiences.length > 0 ? candidate.workExperiences : suggestion.workExperiences.map(experience => ({
+                description: '',
+                ...experience,
+                startDate: toPickerDate(experience.startDate),
+                endDate: toPickerDate(experience.endDate)
+            }))
+        });
+        setPrefilled(true);
     };
 
     const handleSubmit = async (e) => {
@@ -73,7 +104,7 @@ const AddCandidateForm = () => {
                 endDate: experience.endDate ? experience.endDate.toISOString().slice(0, 10) : ''
             }));
 
-            const res = await fetch('http://localhost:3010/candidates', {
+            const res = await apiFetch('/candidates', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json'
@@ -84,6 +115,8 @@ const AddCandidateForm = () => {
             if (res.status === 201) {
                 setSuccessMessage('Candidato añadido con éxito');
                 setError('');
+            } else if (res.status === 401) {
+                throw new Error('La sesión ha caducado, vuelve a iniciar sesión');
             } else if (res.status === 400) {
                 const errorData = await res.json();
                 throw new Error('Datos inválidos: ' + errorData.message);
@@ -103,6 +136,7 @@ const AddCandidateForm = () => {
             <h1 className="mb-4">Agregar Candidato</h1>
             <Card className="shadow p-4">
                 <Form onSubmit={handleSubmit}>
+                    {prefilled && <Alert variant="info">Datos sugeridos a partir del CV. Revísalos antes de enviar.</Alert>}
                     <Row>
                         <Col md={6}>
                             <Form.Group controlId="firstName">
@@ -110,6 +144,7 @@ const AddCandidateForm = () => {
                                 <Form.Control
                                     type="text"
                                     name="firstName"
+                                    value={candidate.firstName}
                                     required
                                     onChange={(e) => setCandidate({ ...candidate, firstName: e.target.value })}
                                     className="form-control shadow-sm"
@@ -120,6 +155,7 @@ const AddCandidateForm = () => {
                                 <Form.Control
                                     type="text"
                                     name="lastName"
+                                    value={candidate.lastName}
                                     required
                                     onChange={(e) => setCandidate({ ...candidate, lastName: e.target.value })}
                                     className="form-control shadow-sm"
@@ -130,6 +166,7 @@ const AddCandidateForm = () => {
                                 <Form.Control
                                     type="email"
                                     name="email"
+                                    value={candidate.email}
                                     required
                                     onChange={(e) => setCandidate({ ...candidate, email: e.target.value })}
                                     className="form-control shadow-sm"
@@ -140,6 +177,7 @@ const AddCandidateForm = () => {
                                 <Form.Control
                                     type="tel"
                                     name="phone"
+                                    value={candidate.phone}
                                     onChange={(e) => setCandidate({ ...candidate, phone: e.target.value })}
                                     className="form-control shadow-sm"
                                 />
@@ -149,6 +187,7 @@ const AddCandidateForm = () => {
                                 <Form.Control
                                     type="text"
                                     name="address"
+                                    value={candidate.address}
                                     onChange={(e) => setCandidate({ ...candidate, address: e.target.value })}
                                     className="form-control shadow-sm"
                                 />
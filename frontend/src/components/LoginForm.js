@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Form, Button, Alert, Card, Container } from 'react-bootstrap';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { login } from '../services/authService';
+import logo from '../assets/lti-logo.png';
+
+const LoginForm = () => {
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [loading, setLoading] = useState(false);
+    const navigate = useNavigate();
+    const location = useLocation();
+
+    const handleSubmit = async (e) => {
+        e.preventDefault();
+        setLoading(true);
+        try {
+            await login(email, password);
+            // Back to the page that asked for the session
+            navigate(location.state?.from || '/', { replace: true });
+        } catch (error) {
+            setError(error.message);
+            setLoading(false);
+        }
+    };
+
+    return (
+        <Container className="mt-5" style={{ maxWidth: '420px' }}>
+            <div className="text-center">
+                <img src={logo} alt="LTI Logo" style={{ width: '150px' }} />
+            </div>
+            <h1 className="mb-4 text-center">Iniciar Sesión</h1>
+            <Card className="shadow p-4">
+                <Form onSubmit={handleSubmit}>
+                    <Form.Group controlId="email">
+                        <Form.Label>Correo Electrónico</Form.Label>
+                        <Form.Control
+                            type="email"
+                            value={email}
+                            required
+                            autoComplete="username"
+                            onChange={(e) => setEmail(e.target.value)}
+                            className="form-control shadow-sm"
+                        />
+                    </Form.Group>
+                    <Form.Group controlId="password" className="mt-3">
+                        <Form.Label>Contraseña</Form.Label>
+                        <Form.Control
+                            type="password"
+                            value={password}
+                            required
+                            autoComplete="current-password"
+                            onChange={(e) => setPassword(e.target.value)}
+                            className="form-control shadow-sm"
+                        />
+                    </Form.Group>
+                    <Button type="submit" disabled={loading} className="btn btn-primary btn-block shadow-sm mt-4">Entrar</Button>
+                    {error && <Alert variant="danger" className="mt-3">{error}</Alert>}
+                </Form>
+            </Card>
+        </Container>
+    );
+};
+
+export default LoginForm;
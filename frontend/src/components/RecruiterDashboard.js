@@ -1,14 +1,25 @@
 import React from 'react';
 import { Button, Card, Container, Row, Col } from 'react-bootstrap';
-import { Link } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
+import { logout } from '../services/authService';
 import logo from '../assets/lti-logo.png'; // Ruta actualizada para importar desde src/assets
 
 const RecruiterDashboard = () => {
+    const navigate = useNavigate();
+
+    const handleLogout = async () => {
+        await logout();
+        navigate('/login', { replace: true });
+    };
+
     return (
         <Container className="mt-5">
             <div className="text-center"> {/* Contenedor para el logo */}
                 <img src={logo} alt="LTI Logo" style={{ width: '150px' }} />
             </div>
+            <div className="text-end">
+                <Button variant="outline-secondary" size="sm" onClick={handleLogout}>Cerrar Sesión</Button>
+            </div>
             <h1 className="mb-4 text-center">Dashboard del Reclutador</h1>
             <Row>
                 <Col md={6}>
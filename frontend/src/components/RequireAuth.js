@@ -0,0 +1,32 @@
+import React, { useEffect, useState } from 'react';
+import { Container, Spinner } from 'react-bootstrap';
+import { Navigate, useLocation } from 'react-router-dom';
+import { getCurrentEmployee } from '../services/authService';
+
+/**
+ * Renders its children only for a signed-in employee; everyone else is sent to the login page
+ */
+const RequireAuth = ({ children }) => {
+    const [employee, setEmployee] = useState(undefined);
+    const location = useLocation();
+
+    useEffect(() => {
+        getCurrentEmployee()
+            .then(setEmployee)
+            .catch(() => setEmployee(null));
+    }, [location.pathname]);
+
+    if (employee === undefined) {
+        return (
+            <Container className="mt-5 text-center">
+                <Spinner animation="border" role="status" />
+            </Container>
+        );
+    }
+    if (!employee) {
+        return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+    }
+    return children;
+};
+
+export default RequireAuth;
@@ -0,0 +1,79 @@
+export const API_URL = 'http://localhost:3010';
+
+// Kept in memory only; after a reload the httpOnly access_token cookie, or a refresh, takes over
+let accessToken = null;
+
+const authHeaders = () => (accessToken ? { Authorization: `Bearer ${accessToken}` } : {});
+
+export const login = async (email, password) => {
+    const res = await fetch(`${API_URL}/auth/login`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ email, password })
+    });
+
+    if (res.status === 401) {
+        throw new Error('Correo electrónico o contraseña incorrectos');
+    } else if (res.status === 429) {
+        throw new Error('Demasiados intentos, inténtalo más tarde');
+    } else if (!res.ok) {
+        throw new Error('Error al iniciar sesión');
+    }
+
+    const session = await res.json();
+    accessToken = session.accessToken;
+    return session.employee;
+};
+
+// Exchanges the refresh_token cookie for a new access token; false when the session has ended
+const refreshSession = async () => {
+    const res = await fetch(`${API_URL}/auth/refresh`, {
+        method: 'POST',
+        credentials: 'include'
+    });
+    if (!res.ok) {
+        accessToken = null;
+        return false;
+    }
+
+    const session = await res.json();
+    accessToken = session.accessToken;
+    return true;
+};
+
+/**
+ * fetch for the API: sends the access token and the session cookies, and refreshes the session
+ * once when the access token has expired
+ */
+export const apiFetch = async (path, options = {}) => {
+    const send = () => fetch(`${API_URL}${path}`, {
+        ...options,
+        credentials: 'include',
+        headers: { ...options.headers, ...authHeaders() }
+    });
+
+    const res = await send();
+    if (res.status === 401 && await refreshSession()) {
+        return send();
+    }
+    return res;
+};
+
+/**
+ * The signed-in employee, or null when there is no session
+ */
+export const getCurrentEmployee = async () => {
+    const res = await apiFetch('/auth/me');
+    return res.ok ? res.json() : null;
+};
+
+export const logout = async () => {
+    accessToken = null;
+    await fetch(`${API_URL}/auth/logout`, {
+        method: 'POST',
+        credentials: 'include'
+    });
+};
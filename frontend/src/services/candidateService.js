@@ -1,26 +1,29 @@
-import axios from 'axios';
+import { apiFetch } from './authService';
 
 export const uploadCV = async (file) => {
     const formData = new FormData();
     formData.append('file', file);
 
-    try {
-        const response = await axios.post('http://localhost:3010/upload', formData, {
-            headers: {
-                'Content-Type': 'multipart/form-data',
-            },
-        });
-        return response.data; // Devuelve la ruta del archivo y el tipo
-    } catch (error) {
-        throw new Error('Error al subir el archivo:', error.response.data);
+    const res = await apiFetch('/upload', {
+        method: 'POST',
+        body: formData
+    });
+    if (!res.ok) {
+        throw new Error('Error al subir el archivo');
     }
+    return res.json(); // Devuelve la ruta del archivo y el tipo
 };
 
 export const sendCandidateData = async (candidateData) => {
-    try {
-        const response = await axios.post('http://localhost:3010/candidates', candidateData);
-        return response.data;
-    } catch (error) {
-        throw new Error('Error al enviar datos del candidato:', error.response.data);
+    const res = await apiFetch('/candidates', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(candidateData)
+    });
+    if (!res.ok) {
+        throw new Error('Error al enviar datos del candidato');
     }
-};
\ No newline at end of file
+    return res.json();
+};